@@ -0,0 +1,71 @@
+#!/usr/bin/env node
+
+/**
+ * Fills in the SHA-256 checksum of every model in model-manifest.json.
+ *
+ * Hugging Face stores ONNX weights in Git LFS, whose object id is the
+ * SHA-256 of the file. This reads it for the same file ModelRegistry.weightsUrl()
+ * downloads, so ModelAssetManager can reject weights that don't match.
+ * Run it whenever a model is added to the manifest.
+ */
+
+import fs from 'fs'
+import path from 'path'
+import { fileURLToPath } from 'url'
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = path.dirname(__filename)
+const MANIFEST_PATH = path.join(__dirname, '..', 'src', 'utils', 'model-manifest.json')
+
+// Mirrors ModelRegistry.weightsUrl()
+function weightsPath(model) {
+  return model.quantization === 'int8' ? 'onnx/model_quantized.onnx' : 'onnx/model.onnx'
+}
+
+async function fetchChecksum(model) {
+  const response = await fetch(`https://huggingface.co/api/models/${model.modelId}/tree/main/onnx`)
+  if (!response.ok) {
+    throw new Error(`Failed to list ${model.modelId}: ${response.status} ${response.statusText}`)
+  }
+
+  const files = await response.json()
+  const weights = files.find(file => file.path === weightsPath(model))
+  if (!weights || !weights.lfs || !/^[a-f0-9]{64}$/.test(weights.lfs.oid)) {
+    throw new Error(`${model.modelId} has no LFS checksum for ${weightsPath(model)}`)
+  }
+  return weights.lfs.oid
+}
+
+// Keeps the checksum next to the size, where the manifest lists it
+function withChecksum(model, checksum) {
+  return Object.fromEntries(Object.entries(model).flatMap(([key, value]) => {
+    if (key === 'checksum') return []
+    return key === 'sizeMB' ? [[key, value], ['checksum', checksum]] : [[key, value]]
+  }))
+}
+
+// JSON.stringify puts every array item on its own line; the manifest keeps short lists inline
+function format(manifest) {
+  return JSON.stringify(manifest, null, 2)
+    .replace(/\[\n\s+("[^"\n]*"(?:,\n\s+"[^"\n]*")*)\n\s+\]/g, (_, items) => `[${items.split(/,\n\s+/).join(', ')}]`) + '\n'
+}
+
+async function main() {
+  const manifest = JSON.parse(fs.readFileSync(MANIFEST_PATH, 'utf8'))
+
+  for (const [index, model] of manifest.models.entries()) {
+    const checksum = await fetchChecksum(model)
+    if (model.checksum && model.checksum !== checksum) {
+      console.log(`${model.id}: weights changed upstream (${model.checksum} -> ${checksum})`)
+    }
+    manifest.models[index] = withChecksum(model, checksum)
+    console.log(`${model.id}: ${checksum}`)
+  }
+
+  fs.writeFileSync(MANIFEST_PATH, format(manifest))
+}
+
+main().catch(error => {
+  console.error('Failed to update model checksums:', error.message)
+  process.exit(1)
+})
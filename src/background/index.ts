@@ -1,32 +1,51 @@
-import { EmailMessage, AnalysisResult, UserSettings, ProcessingJob } from '@/types'
+import { EmailMessage, AnalysisResult, UserSettings, ProcessingJob, SelectorHealthReport, InboxRow, AnalysisStreamEvent, AnalysisStreamRequest, JobPriority, BatchTriageReport, ModelManifestEntry, ModelTask } from '@/types'
 import { LocalAIManager } from '@/utils/ai-models'
 import { ModelAssetManager } from '@/utils/model-asset-manager'
+import { ModelRegistry } from '@/utils/model-registry'
 import { OfflineManager } from '@/utils/offline-manager'
-import { FallbackManager } from '@/utils/fallback-manager'
 import { CloudAPIManager, CloudProvider } from '@/utils/cloud-apis'
-import { PIIRedactionManager } from '@/utils/pii-redaction'
+import { PIIRedactionManager, RedactionOptions } from '@/utils/pii-redaction'
 import { ActionExtractor } from '@/utils/action-extractor'
-import { CalendarIntegration } from '@/utils/calendar-integration'
+import { CalendarIntegration, CalendarIntegrationResult } from '@/utils/calendar-integration'
 import { ReplyGenerator } from '@/utils/reply-generator'
 import { ComposeIntegration } from '@/utils/compose-integration'
 import { EmbeddingsManager } from '@/utils/embeddings-manager'
-import { ThreadManager } from '@/utils/thread-manager'
+import { EmailThread, ThreadManager } from '@/utils/thread-manager'
+import { ThreadDeltaAnalyzer } from '@/utils/thread-delta'
+import { EmlParser } from '@/utils/eml-parser'
+import { BodySegmenter } from '@/utils/body-segmenter'
+import { EvidenceGrounder } from '@/utils/evidence-grounder'
+import { FallbackManager } from '@/utils/fallback-manager'
+import { LanguageToolClient } from '@/utils/language-tool'
+import { LanguageDetector } from '@/utils/language-detector'
+import { AttachmentAnalyzer } from '@/utils/attachment-analyzer'
+import { MeetingRegistry } from '@/utils/meeting-registry'
+import { AnalysisPipeline, PipelineRunOptions } from '@/utils/analysis-pipeline'
+import { AnalysisCache, AnalysisCacheContext } from '@/utils/analysis-cache'
+import { CategoryClassifier } from '@/utils/category-classifier'
+import { ANALYSIS_STREAM_PORT } from '@/utils/analysis-stream'
+import { InboxTriageManager } from '@/utils/inbox-triage'
+import { BatchAnalyzer } from '@/utils/batch-analyzer'
+import { JobQueue } from '@/utils/job-queue'
+import { MboxImporter, MboxImportBatch, MboxImportFilters } from '@/utils/mbox-importer'
 import { PerformanceMonitor } from '@/utils/performance-monitor'
 import { WorkerManager } from '@/utils/worker-manager'
 import { QuantizedModelManager } from '@/utils/quantized-model-manager'
 import { EncryptionManager } from '@/utils/encryption-manager'
 import { DataPrivacyManager } from '@/utils/data-privacy-manager'
-import { TestingFramework } from '@/utils/testing-framework'
+import { TestingFramework, TestReport } from '@/utils/testing-framework'
 import { StoreSubmissionManager } from '@/utils/store-submission'
+import { BackgroundMessages, BackgroundMessageType, HandlerResponse, MessageFailure, MessageProtocol, Respond } from '@/utils/messages'
 
 export class ReplySageBackground {
   private settings!: UserSettings
-  private jobQueue: ProcessingJob[] = []
-  private isProcessing = false
+  private jobQueue!: JobQueue
+  // Live listeners for analysis jobs, keyed by job id; not persisted with the job
+  private analysisObservers: Map<string, Set<(event: AnalysisStreamEvent) => void>> = new Map()
   private aiManager!: LocalAIManager
   private assetManager!: ModelAssetManager
+  private modelRegistry!: ModelRegistry
   private offlineManager!: OfflineManager
-  private fallbackManager!: FallbackManager
   private cloudManager!: CloudAPIManager
   private piiManager!: PIIRedactionManager
   private actionExtractor!: ActionExtractor
@@ -34,7 +53,16 @@ export class ReplySageBackground {
   private replyGenerator!: ReplyGenerator
   private composeIntegration!: ComposeIntegration
   private embeddingsManager!: EmbeddingsManager
+  private mboxImporter!: MboxImporter
+  private attachmentAnalyzer!: AttachmentAnalyzer
+  private meetingRegistry!: MeetingRegistry
+  private analysisPipeline!: AnalysisPipeline
+  private analysisCache!: AnalysisCache
+  // Created up front so the user's categories reach it as soon as settings load
+  private categoryClassifier = new CategoryClassifier(text => this.aiManager.embed(text))
+  private inboxTriage!: InboxTriageManager
   private threadManager!: ThreadManager
+  private threadDelta!: ThreadDeltaAnalyzer
   private performanceMonitor!: PerformanceMonitor
   private workerManager!: WorkerManager
   private quantizedModelManager!: QuantizedModelManager
@@ -42,6 +70,7 @@ export class ReplySageBackground {
   private dataPrivacyManager!: DataPrivacyManager
   private testingFramework!: TestingFramework
   private storeSubmissionManager!: StoreSubmissionManager
+  private readonly BATCH_REPORT_KEY = 'replysage_batch_report'
 
   constructor() {
     this.initializeSettings()
@@ -53,28 +82,44 @@ export class ReplySageBackground {
   private async initializeSettings() {
     try {
       const stored = await chrome.storage.local.get(['replysage_settings'])
-      this.settings = stored.replysage_settings || this.getDefaultSettings()
+      // Settings added since the user last saved fall back to their defaults
+      this.settings = { ...this.getDefaultSettings(), ...stored.replysage_settings }
       await this.saveSettings()
     } catch (error) {
       console.error('ReplySage: Failed to initialize settings:', error)
       this.settings = this.getDefaultSettings()
     }
+    this.categoryClassifier.setCategories(this.settings.userCategories)
+    this.applyGrammarSettings()
+  }
+
+  private applyGrammarSettings() {
+    const url = this.settings.languageToolUrl
+    FallbackManager.getInstance().setGrammarService(url ? new LanguageToolClient(url) : null)
   }
 
   private async initializeAI() {
     try {
+      this.modelRegistry = ModelRegistry.getInstance()
       this.aiManager = LocalAIManager.getInstance()
       this.assetManager = ModelAssetManager.getInstance()
       this.offlineManager = OfflineManager.getInstance()
-      this.fallbackManager = FallbackManager.getInstance()
       this.cloudManager = CloudAPIManager.getInstance()
       this.piiManager = PIIRedactionManager.getInstance()
+      this.piiManager.setEntityRecognizer(text => this.aiManager.recognizeEntities(text, LanguageDetector.detect(text).language))
       this.actionExtractor = ActionExtractor.getInstance()
       this.calendarIntegration = CalendarIntegration.getInstance()
       this.replyGenerator = ReplyGenerator.getInstance()
       this.composeIntegration = ComposeIntegration.getInstance()
       this.embeddingsManager = EmbeddingsManager.getInstance()
+      this.mboxImporter = MboxImporter.getInstance()
+      this.attachmentAnalyzer = AttachmentAnalyzer.getInstance()
+      this.meetingRegistry = MeetingRegistry.getInstance()
+      this.analysisPipeline = AnalysisPipeline.getInstance()
+      this.analysisCache = AnalysisCache.getInstance()
+      this.inboxTriage = InboxTriageManager.getInstance()
       this.threadManager = ThreadManager.getInstance()
+      this.threadDelta = new ThreadDeltaAnalyzer(message => this.analyzeMessage(message))
       this.performanceMonitor = PerformanceMonitor.getInstance()
       this.workerManager = WorkerManager.getInstance()
       this.quantizedModelManager = QuantizedModelManager.getInstance()
@@ -82,6 +127,9 @@ export class ReplySageBackground {
       this.dataPrivacyManager = DataPrivacyManager.getInstance()
       this.testingFramework = TestingFramework.getInstance()
       this.storeSubmissionManager = StoreSubmissionManager.getInstance()
+      this.jobQueue = JobQueue.getInstance()
+      this.registerJobHandlers()
+      this.registerCategoryProvider()
       
       // Initialize AI manager
       await this.aiManager.initialize()
@@ -151,10 +199,23 @@ export class ReplySageBackground {
       maxSummaryLength: 200,
       enableThreadAnalysis: false,
       enableSimilaritySearch: false,
+      enableAttachmentAnalysis: true,
+      enableSelectorDiagnostics: false,
+      enableInboxTriage: true,
       cloudConsentGiven: false,
       preferredCloudProvider: '',
       maxCloudCostPerDay: 1.0,
-      enableCloudNotifications: true
+      enableCloudNotifications: true,
+      userCategories: [
+        { label: 'customer', description: 'Questions, feedback or requests from customers and users' },
+        { label: 'vendor', description: 'Suppliers, partners and services we buy from: quotes, renewals and contracts' },
+        { label: 'hiring', description: 'Recruiting: candidates, interviews, offers and referrals' },
+        { label: 'incident', description: 'Outages, bugs, alerts and security issues that need a response' },
+        { label: 'billing', description: 'Invoices, payments, refunds and subscription charges' }
+      ],
+      enableEntityRedaction: false,
+      entityThresholds: { ...PIIRedactionManager.DEFAULT_ENTITY_THRESHOLDS },
+      languageToolUrl: ''
     }
   }
 
@@ -171,300 +232,478 @@ export class ReplySageBackground {
       this.handleMessage(message, sender, sendResponse)
       return true // Keep message channel open for async response
     })
+
+    chrome.runtime.onConnect.addListener((port) => {
+      if (port.name === ANALYSIS_STREAM_PORT) {
+        this.handleAnalysisStream(port)
+      }
+    })
   }
 
-  private async handleMessage(message: any, _sender: chrome.runtime.MessageSender, sendResponse: (response: any) => void) {
+  private async handleMessage(message: unknown, _sender: chrome.runtime.MessageSender, sendResponse: (response: MessageFailure | HandlerResponse<BackgroundMessageType>) => void) {
+    const validation = MessageProtocol.validate(message)
+    if (!validation.valid) {
+      sendResponse(validation.failure)
+      return
+    }
+
+    const request = validation.request
+    // Handlers report their own failures without a code
+    const respond = (response: HandlerResponse<BackgroundMessageType>) =>
+      sendResponse(response.success ? response : { ...response, code: response.code || 'HANDLER_FAILED' })
+
     try {
-      switch (message.type) {
+      switch (request.type) {
         case 'ANALYZE_MESSAGE':
-          await this.handleAnalyzeMessage(message.payload, sendResponse)
+          await this.handleAnalyzeMessage(request.payload, respond)
+          break
+        case 'ANALYZE_RAW_EMAIL':
+          await this.handleAnalyzeRawEmail(request.payload, respond)
+          break
+        case 'CORRECT_CATEGORY':
+          await this.handleCorrectCategory(request.payload, respond)
           break
         case 'GET_MODEL_STATUS':
-          await this.handleGetModelStatus(sendResponse)
+          await this.handleGetModelStatus(respond)
           break
         case 'DOWNLOAD_MODELS':
-          await this.handleDownloadModels(message.payload, sendResponse)
+          await this.handleDownloadModels(request.payload, respond)
           break
         case 'GET_ASSET_STATUS':
-          await this.handleGetAssetStatus(sendResponse)
+          await this.handleGetAssetStatus(respond)
+          break
+        case 'GET_MODEL_REGISTRY':
+          await this.handleGetModelRegistry(respond)
+          break
+        case 'REGISTER_MODEL':
+          await this.handleRegisterModel(request.payload, respond)
+          break
+        case 'UNREGISTER_MODEL':
+          await this.handleUnregisterModel(request.payload, respond)
+          break
+        case 'SELECT_MODEL':
+          await this.handleSelectModel(request.payload, respond)
           break
         case 'ADD_CLOUD_PROVIDER':
-          await this.handleAddCloudProvider(message.payload, sendResponse)
+          await this.handleAddCloudProvider(request.payload, respond)
           break
         case 'TEST_CLOUD_PROVIDER':
-          await this.handleTestCloudProvider(message.payload, sendResponse)
+          await this.handleTestCloudProvider(request.payload, respond)
           break
         case 'GET_CLOUD_PROVIDERS':
-          await this.handleGetCloudProviders(sendResponse)
+          await this.handleGetCloudProviders(respond)
           break
         case 'REMOVE_CLOUD_PROVIDER':
-          await this.handleRemoveCloudProvider(message.payload, sendResponse)
+          await this.handleRemoveCloudProvider(request.payload, respond)
           break
         case 'ANALYZE_WITH_CLOUD':
-          await this.handleAnalyzeWithCloud(message.payload, sendResponse)
+          await this.handleAnalyzeWithCloud(request.payload, respond)
           break
         case 'EXTRACT_ACTIONS':
-          await this.handleExtractActions(message.payload, sendResponse)
+          await this.handleExtractActions(request.payload, respond)
           break
         case 'CREATE_CALENDAR_EVENT':
-          await this.handleCreateCalendarEvent(message.payload, sendResponse)
+          await this.handleCreateCalendarEvent(request.payload, respond)
           break
         case 'GET_CALENDAR_PROVIDERS':
-          await this.handleGetCalendarProviders(sendResponse)
+          await this.handleGetCalendarProviders(respond)
           break
         case 'GENERATE_REPLIES':
-          await this.handleGenerateReplies(message.payload, sendResponse)
+          await this.handleGenerateReplies(request.payload, respond)
           break
         case 'INSERT_REPLY':
-          await this.handleInsertReply(message.payload, sendResponse)
+          await this.handleInsertReply(request.payload, respond)
           break
         case 'GET_COMPOSE_OPTIONS':
-          await this.handleGetComposeOptions(sendResponse)
+          await this.handleGetComposeOptions(respond)
           break
         case 'GENERATE_EMBEDDING':
-          await this.handleGenerateEmbedding(message.payload, sendResponse)
+          await this.handleGenerateEmbedding(request.payload, respond)
           break
         case 'SEARCH_SIMILAR':
-          await this.handleSearchSimilar(message.payload, sendResponse)
+          await this.handleSearchSimilar(request.payload, respond)
           break
         case 'GET_EMBEDDING_STATS':
-          await this.handleGetEmbeddingStats(sendResponse)
+          await this.handleGetEmbeddingStats(respond)
+          break
+        case 'START_MBOX_IMPORT':
+          await this.handleStartMboxImport(request.payload, respond)
+          break
+        case 'IMPORT_MBOX_BATCH':
+          await this.handleImportMboxBatch(request.payload, respond)
+          break
+        case 'GET_MBOX_IMPORT_STATUS':
+          await this.handleGetMboxImportStatus(respond)
+          break
+        case 'RESET_MBOX_IMPORT':
+          await this.handleResetMboxImport(respond)
           break
         case 'CLEAR_EMBEDDINGS':
-          await this.handleClearEmbeddings(sendResponse)
+          await this.handleClearEmbeddings(respond)
           break
         case 'FETCH_THREAD':
-          await this.handleFetchThread(message.payload, sendResponse)
+          await this.handleFetchThread(request.payload, respond)
           break
         case 'SUMMARIZE_THREAD':
-          await this.handleSummarizeThread(message.payload, sendResponse)
+          await this.handleSummarizeThread(request.payload, respond)
           break
         case 'CHUNK_THREAD':
-          await this.handleChunkThread(message.payload, sendResponse)
+          await this.handleChunkThread(request.payload, respond)
           break
         case 'GET_THREAD_STATS':
-          await this.handleGetThreadStats(sendResponse)
+          await this.handleGetThreadStats(respond)
+          break
+        case 'ANALYZE_THREAD':
+          await this.handleAnalyzeThread(request.payload, respond)
+          break
+        case 'MARK_THREAD_SEEN':
+          await this.handleMarkThreadSeen(request.payload, respond)
           break
         case 'GET_PERFORMANCE_STATS':
-          await this.handleGetPerformanceStats(sendResponse)
+          await this.handleGetPerformanceStats(respond)
           break
         case 'CLEAR_PERFORMANCE_METRICS':
-          await this.handleClearPerformanceMetrics(sendResponse)
+          await this.handleClearPerformanceMetrics(respond)
           break
         case 'EXPORT_PERFORMANCE_METRICS':
-          await this.handleExportPerformanceMetrics(sendResponse)
+          await this.handleExportPerformanceMetrics(respond)
           break
         case 'GET_WORKER_STATS':
-          await this.handleGetWorkerStats(sendResponse)
+          await this.handleGetWorkerStats(respond)
           break
         case 'RESTART_WORKERS':
-          await this.handleRestartWorkers(sendResponse)
+          await this.handleRestartWorkers(respond)
           break
         case 'GET_QUANTIZED_MODELS':
-          await this.handleGetQuantizedModels(sendResponse)
+          await this.handleGetQuantizedModels(respond)
           break
         case 'DOWNLOAD_QUANTIZED_MODEL':
-          await this.handleDownloadQuantizedModel(message.payload, sendResponse)
+          await this.handleDownloadQuantizedModel(request.payload, respond)
           break
         case 'ENCRYPT_DATA':
-          await this.handleEncryptData(message.payload, sendResponse)
+          await this.handleEncryptData(request.payload, respond)
           break
         case 'DECRYPT_DATA':
-          await this.handleDecryptData(message.payload, sendResponse)
+          await this.handleDecryptData(request.payload, respond)
           break
         case 'GET_ENCRYPTION_KEYS':
-          await this.handleGetEncryptionKeys(sendResponse)
+          await this.handleGetEncryptionKeys(respond)
           break
         case 'ROTATE_ENCRYPTION_KEY':
-          await this.handleRotateEncryptionKey(message.payload, sendResponse)
+          await this.handleRotateEncryptionKey(request.payload, respond)
           break
         case 'GET_PRIVACY_SETTINGS':
-          await this.handleGetPrivacySettings(sendResponse)
+          await this.handleGetPrivacySettings(respond)
           break
         case 'UPDATE_PRIVACY_SETTINGS':
-          await this.handleUpdatePrivacySettings(message.payload, sendResponse)
+          await this.handleUpdatePrivacySettings(request.payload, respond)
           break
         case 'EXPORT_USER_DATA':
-          await this.handleExportUserData(message.payload, sendResponse)
+          await this.handleExportUserData(request.payload, respond)
           break
         case 'DELETE_USER_DATA':
-          await this.handleDeleteUserData(message.payload, sendResponse)
+          await this.handleDeleteUserData(request.payload, respond)
           break
         case 'GET_AUDIT_LOG':
-          await this.handleGetAuditLog(sendResponse)
+          await this.handleGetAuditLog(respond)
           break
         case 'RUN_TESTS':
-          await this.handleRunTests(message.payload, sendResponse)
+          await this.handleRunTests(request.payload, respond)
           break
         case 'GET_TEST_SUITES':
-          await this.handleGetTestSuites(sendResponse)
+          await this.handleGetTestSuites(respond)
           break
         case 'GENERATE_TEST_REPORT':
-          await this.handleGenerateTestReport(message.payload, sendResponse)
+          await this.handleGenerateTestReport(request.payload, respond)
           break
         case 'VALIDATE_STORE_SUBMISSION':
-          await this.handleValidateStoreSubmission(sendResponse)
+          await this.handleValidateStoreSubmission(respond)
           break
         case 'GENERATE_STORE_PACKAGE':
-          await this.handleGenerateStorePackage(sendResponse)
+          await this.handleGenerateStorePackage(respond)
           break
         case 'GET_SETTINGS':
-          sendResponse({ settings: this.settings })
+          respond({ success: true, settings: this.settings })
           break
         case 'UPDATE_SETTINGS':
-          await this.handleUpdateSettings(message.payload, sendResponse)
+          await this.handleUpdateSettings(request.payload, respond)
           break
         case 'CLEAR_CACHE':
-          await this.handleClearCache(sendResponse)
+          await this.handleClearCache(respond)
           break
         case 'GET_ANALYSIS_HISTORY':
-          await this.handleGetAnalysisHistory(sendResponse)
+          await this.handleGetAnalysisHistory(respond)
+          break
+        case 'TRIAGE_INBOX_ROWS':
+          await this.handleTriageInboxRows(request.payload, respond)
+          break
+        case 'REPORT_SELECTOR_HEALTH':
+          await this.handleReportSelectorHealth(request.payload, respond)
+          break
+        case 'GET_SELECTOR_HEALTH':
+          await this.handleGetSelectorHealth(respond)
+          break
+        case 'GET_JOB_QUEUE_STATUS':
+          await this.handleGetJobQueueStatus(respond)
+          break
+        case 'CANCEL_JOB':
+          await this.handleCancelJob(request.payload, respond)
+          break
+        case 'ANALYZE_UNREAD':
+          await this.handleAnalyzeUnread(request.payload, respond)
+          break
+        case 'GET_BATCH_REPORT':
+          await this.handleGetBatchReport(respond)
           break
-        default:
-          sendResponse({ error: 'Unknown message type' })
       }
     } catch (error) {
       console.error('ReplySage: Error handling message:', error)
-      sendResponse({ error: (error as Error).message })
+      sendResponse(MessageProtocol.failure('HANDLER_FAILED', (error as Error).message))
     }
   }
 
-  private async handleAnalyzeMessage(message: EmailMessage, sendResponse: (response: any) => void) {
+  private async handleAnalyzeRawEmail(request: { raw: string }, sendResponse: Respond<'ANALYZE_RAW_EMAIL'>) {
+    let message: EmailMessage
     try {
-      // Check if we have cached analysis
-      const cacheKey = `analysis_${message.id}`
-      const cached = await this.getCachedAnalysis(cacheKey)
-      
-      if (cached && this.settings.enableCaching) {
-        console.log('ReplySage: Using cached analysis')
-        sendResponse({ success: true, result: cached })
-        return
-      }
+      message = EmlParser.parse(request.raw)
+    } catch (error) {
+      console.error('ReplySage: Error parsing raw email:', error)
+      sendResponse({ success: false, error: (error as Error).message })
+      return
+    }
 
-      // Check if local processing is enabled
-      if (!this.settings.enableLocalProcessing) {
-        sendResponse({ success: false, error: 'Local processing is disabled' })
-        return
+    // Return the parsed message alongside the analysis so callers can render it;
+    // attachment bytes do not survive runtime messaging, so leave them out
+    const parsed = {
+      ...message,
+      attachments: message.attachments.map(({ data: _data, ...attachment }) => attachment)
+    }
+    await this.handleAnalyzeMessage(message, response => sendResponse(response.success ? { ...response, message: parsed } : response))
+  }
+
+  private async handleCorrectCategory(request: { message: EmailMessage; label: string; belongs: boolean }, sendResponse: Respond<'CORRECT_CATEGORY'>) {
+    try {
+      await this.categoryClassifier.correct(BodySegmenter.applyTo(request.message), request.label, request.belongs)
+
+      // Show the correction on the next visit without re-running the analysis
+      const cached = await this.getCachedAnalysis(request.message)
+      if (cached) {
+        const others = (cached.categoryScores || cached.categories.map(label => ({ label }))).filter(category => category.label !== request.label)
+        const categoryScores = request.belongs ? [{ label: request.label }, ...others] : others
+        await this.cacheAnalysis(request.message, { ...cached, categoryScores, categories: categoryScores.map(category => category.label) })
       }
 
-      // Create processing job
-      const job: ProcessingJob = {
-        id: this.generateJobId(),
-        messageId: message.id,
-        type: 'summary',
-        status: 'pending',
-        createdAt: new Date()
+      sendResponse({ success: true })
+    } catch (error) {
+      console.error('ReplySage: Error correcting category:', error)
+      sendResponse({ success: false, error: (error as Error).message })
+    }
+  }
+
+  private async handleAnalyzeMessage(message: EmailMessage, sendResponse: Respond<'ANALYZE_MESSAGE'>) {
+    try {
+      const result = await this.analyzeMessage(message)
+      sendResponse({ success: true, result })
+    } catch (error) {
+      console.error('ReplySage: Error analyzing message:', error)
+      sendResponse({ success: false, error: (error as Error).message })
+    }
+  }
+
+  /**
+   * Streams one analysis per START over a long-lived port: heuristic
+   * previews, each stage as it settles, and model download progress.
+   * A new START or a CANCEL abandons the run in flight.
+   */
+  private handleAnalysisStream(port: chrome.runtime.Port) {
+    let controller: AbortController | null = null
+    let connected = true
+
+    const post = (event: AnalysisStreamEvent) => {
+      if (connected) {
+        port.postMessage(event)
       }
+    }
+    const unsubscribe = this.aiManager.onModelProgress(progress => post({ type: 'model-progress', progress }))
 
-      this.jobQueue.push(job)
-      await this.processJobQueue()
+    port.onMessage.addListener(async (request: AnalysisStreamRequest) => {
+      if (request.type === 'CANCEL') {
+        controller?.abort()
+        return
+      }
 
-      // Use local AI models for analysis
-      let analysis: AnalysisResult
-      
+      controller?.abort()
+      const current = controller = new AbortController()
       try {
-        // Check if we should use offline mode
-        if (this.offlineManager.shouldUseOfflineMode()) {
-          console.log('ReplySage: Using offline mode analysis')
-          analysis = await this.fallbackManager.analyzeEmailWithFallback(message)
-        } else {
-          analysis = await this.aiManager.analyzeEmail(message)
-          console.log('ReplySage: Local AI analysis completed')
+        const result = await this.analyzeMessage(request.payload, { signal: current.signal, onEvent: post })
+        if (!current.signal.aborted) {
+          post({ type: 'complete', result })
         }
-      } catch (aiError) {
-        console.error('ReplySage: Local AI analysis failed, trying cloud fallback:', aiError)
-        
-        // Try cloud fallback if enabled
-        if (this.settings.enableCloudFallback && this.cloudManager.hasProviders()) {
-          try {
-            console.log('ReplySage: Attempting cloud analysis')
-            const cloudResponse = await this.cloudManager.analyzeWithCloud({
-              message,
-              redactedMessage: this.settings.enablePIIRedaction 
-                ? this.piiManager.redactEmail(message).redactedMessage 
-                : message,
-              analysisType: 'full',
-              userPreferences: {
-                tone: this.settings.preferredTone,
-                maxSummaryLength: this.settings.maxSummaryLength,
-                preferredLanguage: 'en'
-              }
-            })
-            
-            if (cloudResponse.success && cloudResponse.result) {
-              analysis = cloudResponse.result
-              console.log('ReplySage: Cloud analysis completed')
-            } else {
-              throw new Error(cloudResponse.error || 'Cloud analysis failed')
-            }
-          } catch (cloudError) {
-            console.error('ReplySage: Cloud analysis failed, using fallback:', cloudError)
-            
-            // Use fallback manager for better analysis
-            try {
-              analysis = await this.fallbackManager.analyzeEmailWithFallback(message)
-              console.log('ReplySage: Fallback analysis completed')
-            } catch (fallbackError) {
-              console.error('ReplySage: Fallback analysis failed, using minimal analysis:', fallbackError)
-              
-              // Final fallback to minimal analysis
-              analysis = {
-                messageId: message.id,
-                summary: this.generateMockSummary(message),
-                actionItems: this.generateMockActionItems(message),
-                suggestedReplies: this.generateMockReplies(message),
-                grammarIssues: this.generateMockGrammarIssues(message),
-                sentiment: 'neutral',
-                priority: 'medium',
-                categories: ['general'],
-                extractedDates: [],
-                createdAt: new Date(),
-                modelUsed: 'local'
-              }
-            }
-          }
+      } catch (error) {
+        if (current.signal.aborted) {
+          post({ type: 'cancelled' })
         } else {
-          // Use fallback manager for better analysis
-          try {
-            analysis = await this.fallbackManager.analyzeEmailWithFallback(message)
-            console.log('ReplySage: Fallback analysis completed')
-          } catch (fallbackError) {
-            console.error('ReplySage: Fallback analysis failed, using minimal analysis:', fallbackError)
-            
-            // Final fallback to minimal analysis
-            analysis = {
-              messageId: message.id,
-              summary: this.generateMockSummary(message),
-              actionItems: this.generateMockActionItems(message),
-              suggestedReplies: this.generateMockReplies(message),
-              grammarIssues: this.generateMockGrammarIssues(message),
-              sentiment: 'neutral',
-              priority: 'medium',
-              categories: ['general'],
-              extractedDates: [],
-              createdAt: new Date(),
-              modelUsed: 'local'
-            }
-          }
+          console.error('ReplySage: Error streaming analysis:', error)
+          post({ type: 'error', error: (error as Error).message })
+        }
+      }
+    })
+
+    port.onDisconnect.addListener(() => {
+      connected = false
+      controller?.abort()
+      unsubscribe()
+    })
+  }
+
+  private async analyzeMessage(
+    message: EmailMessage,
+    stream: Pick<PipelineRunOptions, 'onEvent' | 'signal'> = {},
+    priority: JobPriority = 'high'
+  ): Promise<AnalysisResult> {
+    // Analyzers only see the sender's new content, not quoted history or footers
+    message = BodySegmenter.applyTo(message)
+    // Ahead of the cache lookup, so an analysis cached under a legacy id is found
+    await this.adoptLegacyData(message)
+
+    if (this.settings.enableCaching) {
+      const cached = await this.getCachedAnalysis(message)
+      if (cached) {
+        console.log('ReplySage: Using cached analysis')
+        return cached
+      }
+    }
+
+    // Check if local processing is enabled
+    if (!this.settings.enableLocalProcessing) {
+      throw new Error('Local processing is disabled')
+    }
+
+    // The open email goes ahead of batches and background indexing
+    const job = await this.jobQueue.enqueue({ type: 'analysis', messageId: message.id, priority, payload: message })
+    const observers = this.analysisObservers.get(job.id) || new Set()
+    const onEvent = stream.onEvent
+    if (onEvent) {
+      observers.add(onEvent)
+      this.analysisObservers.set(job.id, observers)
+    }
+
+    try {
+      // Other callers may share the deduplicated job, so an abort gives up
+      // only this caller's claim, but stops its wait at once
+      const finished = await this.jobQueue.wait(job.id, stream.signal).catch(error => {
+        throw stream.signal?.aborted ? new Error('Analysis cancelled') : error
+      })
+      if (finished.status !== 'completed') {
+        throw new Error(finished.status === 'cancelled' ? 'Analysis cancelled' : finished.error || 'Analysis failed')
+      }
+      return finished.result as AnalysisResult
+    } finally {
+      if (onEvent) {
+        observers.delete(onEvent)
+        if (observers.size === 0) {
+          this.analysisObservers.delete(job.id)
         }
       }
+    }
+  }
 
-      // Cache the result
-      if (this.settings.enableCaching) {
-        await this.cacheAnalysis(cacheKey, analysis)
+  /**
+   * The user's own categories come first; the generic model and keyword
+   * categories remain the fallback. Email in a language the embedding
+   * model doesn't cover would land near arbitrary centroids, so it skips
+   * straight to the fallback.
+   */
+  private registerCategoryProvider() {
+    this.analysisPipeline.registerProvider('categories', {
+      source: 'local',
+      producer: 'category-centroids',
+      isAvailable: context => !context.offline && this.categoryClassifier.hasCategories() &&
+        this.aiManager.supportsLanguage('embeddings', context.language),
+      run: async context => {
+        const categories = await this.categoryClassifier.classify(context.message)
+        if (categories.length === 0) {
+          throw new Error('No user category matched')
+        }
+        return categories
       }
+    }, 'first')
+  }
 
-      sendResponse({ success: true, result: analysis })
-    } catch (error) {
-      console.error('ReplySage: Error analyzing message:', error)
-      sendResponse({ success: false, error: (error as Error).message })
+  private registerJobHandlers() {
+    this.jobQueue.registerHandler('analysis', (job, signal) => this.runAnalysisJob(job, signal))
+    this.jobQueue.registerHandler('embedding', async (job) => {
+      const { message, text, category, priority } = job.payload as { message: EmailMessage; text: string; category?: string; priority?: string }
+      return this.embeddingsManager.storeEmbedding(message, text, category, priority)
+    })
+  }
+
+  private async runAnalysisJob(job: ProcessingJob, signal: AbortSignal): Promise<AnalysisResult> {
+    const message = job.payload as EmailMessage
+    const onEvent = (event: AnalysisStreamEvent) => this.analysisObservers.get(job.id)?.forEach(observer => observer(event))
+
+    // Each stage falls back on its own: local model, then cloud, then heuristics
+    const analysis = await this.analysisPipeline.run(message, {
+      offline: this.offlineManager.shouldUseOfflineMode(),
+      cloudEnabled: this.settings.enableCloudFallback && this.cloudManager.hasProviders(),
+      cloudProducer: this.cloudManager.getActiveProviderName() || undefined,
+      runCloudAnalysis: language => this.runCloudAnalysis(message, language),
+      onEvent,
+      signal
+    })
+
+    if (this.settings.enableAttachmentAnalysis && message.attachments.length > 0) {
+      analysis.attachments = await this.attachmentAnalyzer.analyzeAttachments(message)
+      for (const attachment of analysis.attachments) {
+        attachment.extractedDates = await this.meetingRegistry.recordDates(attachment.extractedDates)
+      }
     }
+
+    if (message.snippetOnly) {
+      analysis.snippetOnly = true
+    }
+
+    // Cache the result
+    if (this.settings.enableCaching) {
+      await this.cacheAnalysis(message, analysis)
+    }
+
+    return analysis
   }
 
-  private async handleUpdateSettings(newSettings: Partial<UserSettings>, sendResponse: (response: any) => void) {
+  private async runCloudAnalysis(message: EmailMessage, language: string): Promise<AnalysisResult> {
+    const cloudResponse = await this.cloudManager.analyzeWithCloud({
+      message,
+      redactedMessage: this.settings.enablePIIRedaction 
+        ? (await this.piiManager.redactEmail(message, this.getRedactionOptions())).redactedMessage 
+        : message,
+      analysisType: 'full',
+      userPreferences: {
+        tone: this.settings.preferredTone,
+        maxSummaryLength: this.settings.maxSummaryLength,
+        preferredLanguage: language
+      }
+    })
+
+    if (!cloudResponse.success || !cloudResponse.result) {
+      throw new Error(cloudResponse.error || 'Cloud analysis failed')
+    }
+    return cloudResponse.result
+  }
+
+  private getRedactionOptions(): RedactionOptions {
+    return {
+      useEntities: this.settings.enableEntityRedaction,
+      thresholds: this.settings.entityThresholds
+    }
+  }
+
+  private async handleUpdateSettings(newSettings: Partial<UserSettings>, sendResponse: Respond<'UPDATE_SETTINGS'>) {
     try {
       this.settings = { ...this.settings, ...newSettings }
       await this.saveSettings()
+      this.categoryClassifier.setCategories(this.settings.userCategories)
+      this.applyGrammarSettings()
       sendResponse({ success: true })
     } catch (error) {
       console.error('ReplySage: Error updating settings:', error)
@@ -472,27 +711,23 @@ export class ReplySageBackground {
     }
   }
 
-  private async handleClearCache(sendResponse: (response: any) => void) {
+  private async handleClearCache(sendResponse: Respond<'CLEAR_CACHE'>) {
     try {
-      const keys = await chrome.storage.local.get()
-      const analysisKeys = Object.keys(keys).filter(key => key.startsWith('analysis_'))
-      
-      for (const key of analysisKeys) {
-        await chrome.storage.local.remove(key)
-      }
+      const cleared = await this.analysisCache.clear()
+      await this.threadDelta.clear()
+      await this.inboxTriage.clear()
       
-      sendResponse({ success: true, cleared: analysisKeys.length })
+      sendResponse({ success: true, cleared })
     } catch (error) {
       console.error('ReplySage: Error clearing cache:', error)
       sendResponse({ success: false, error: (error as Error).message })
     }
   }
 
-  private async handleGetAnalysisHistory(sendResponse: (response: any) => void) {
+  private async handleGetAnalysisHistory(sendResponse: Respond<'GET_ANALYSIS_HISTORY'>) {
     try {
-      const keys = await chrome.storage.local.get()
-      const analysisKeys = Object.keys(keys).filter(key => key.startsWith('analysis_'))
-      const analyses = analysisKeys.map(key => keys[key])
+      await this.analysisCache.setContext(this.getCacheContext())
+      const analyses = await this.analysisCache.list()
       
       sendResponse({ success: true, analyses })
     } catch (error) {
@@ -501,7 +736,97 @@ export class ReplySageBackground {
     }
   }
 
-  private async handleGetModelStatus(sendResponse: (response: any) => void) {
+  private async handleTriageInboxRows(request: { client: string; rows: InboxRow[] }, sendResponse: Respond<'TRIAGE_INBOX_ROWS'>) {
+    try {
+      const results = await this.inboxTriage.triageRows(request.client, request.rows)
+      sendResponse({ success: true, results })
+    } catch (error) {
+      console.error('ReplySage: Error triaging inbox rows:', error)
+      sendResponse({ success: false, error: (error as Error).message })
+    }
+  }
+
+  private async handleReportSelectorHealth(report: SelectorHealthReport, sendResponse: Respond<'REPORT_SELECTOR_HEALTH'>) {
+    try {
+      // Keep the latest report per client, newest first
+      const stored = await chrome.storage.local.get(['selector_health_reports'])
+      const reports: SelectorHealthReport[] = (stored.selector_health_reports || [])
+        .filter((existing: SelectorHealthReport) => existing.client !== report.client)
+      await chrome.storage.local.set({ selector_health_reports: [report, ...reports] })
+
+      sendResponse({ success: true })
+    } catch (error) {
+      console.error('ReplySage: Error storing selector health:', error)
+      sendResponse({ success: false, error: (error as Error).message })
+    }
+  }
+
+  private async handleGetSelectorHealth(sendResponse: Respond<'GET_SELECTOR_HEALTH'>) {
+    try {
+      const stored = await chrome.storage.local.get(['selector_health_reports'])
+      sendResponse({ success: true, reports: stored.selector_health_reports || [] })
+    } catch (error) {
+      console.error('ReplySage: Error getting selector health:', error)
+      sendResponse({ success: false, error: (error as Error).message })
+    }
+  }
+
+  private async handleGetJobQueueStatus(sendResponse: Respond<'GET_JOB_QUEUE_STATUS'>) {
+    try {
+      const status = await this.jobQueue.getStatus()
+      sendResponse({ success: true, status })
+    } catch (error) {
+      console.error('ReplySage: Error getting job queue status:', error)
+      sendResponse({ success: false, error: (error as Error).message })
+    }
+  }
+
+  private async handleCancelJob(request: { jobId: string }, sendResponse: Respond<'CANCEL_JOB'>) {
+    try {
+      const cancelled = await this.jobQueue.cancel(request.jobId)
+      sendResponse({ success: true, cancelled })
+    } catch (error) {
+      console.error('ReplySage: Error cancelling job:', error)
+      sendResponse({ success: false, error: (error as Error).message })
+    }
+  }
+
+  /**
+   * Analyzes the most recent unread conversations behind any open email.
+   * Threads opened before reuse their merged analysis while it is current;
+   * the rest are analyzed from their snippets, which are cached for the
+   * next batch but kept out of the history. The report is kept so the
+   * popup can show it again after it was closed mid-batch.
+   */
+  private async handleAnalyzeUnread(request: BackgroundMessages['ANALYZE_UNREAD']['payload'], sendResponse: Respond<'ANALYZE_UNREAD'>) {
+    try {
+      const contextHash = AnalysisCache.hashContext(this.getCacheContext())
+      // As many analyses in flight as the job queue runs side by side
+      const batch = new BatchAnalyzer(
+        message => this.analyzeMessage(message, {}, 'normal'),
+        this.jobQueue.concurrency,
+        row => this.threadDelta.findCurrent(row, contextHash)
+      )
+      const report = await batch.run(request.client, request.rows, request.limit, request.account)
+      await chrome.storage.local.set({ [this.BATCH_REPORT_KEY]: report })
+      sendResponse({ success: true, report })
+    } catch (error) {
+      console.error('ReplySage: Error analyzing unread conversations:', error)
+      sendResponse({ success: false, error: (error as Error).message })
+    }
+  }
+
+  private async handleGetBatchReport(sendResponse: Respond<'GET_BATCH_REPORT'>) {
+    try {
+      const stored = await chrome.storage.local.get([this.BATCH_REPORT_KEY])
+      sendResponse({ success: true, report: (stored[this.BATCH_REPORT_KEY] as BatchTriageReport | undefined) || null })
+    } catch (error) {
+      console.error('ReplySage: Error getting batch report:', error)
+      sendResponse({ success: false, error: (error as Error).message })
+    }
+  }
+
+  private async handleGetModelStatus(sendResponse: Respond<'GET_MODEL_STATUS'>) {
     try {
       const modelStatus = await this.aiManager.getModelStatus()
       sendResponse({ success: true, models: modelStatus })
@@ -511,7 +836,7 @@ export class ReplySageBackground {
     }
   }
 
-  private async handleDownloadModels(modelNames: string[], sendResponse: (response: any) => void) {
+  private async handleDownloadModels(modelNames: string[], sendResponse: Respond<'DOWNLOAD_MODELS'>) {
     try {
       if (!modelNames || modelNames.length === 0) {
         // Download all models
@@ -545,7 +870,7 @@ export class ReplySageBackground {
     }
   }
 
-  private async handleGetAssetStatus(sendResponse: (response: any) => void) {
+  private async handleGetAssetStatus(sendResponse: Respond<'GET_ASSET_STATUS'>) {
     try {
       const assets = await this.assetManager.checkAssetStatus()
       const storageUsage = await this.assetManager.getStorageUsage()
@@ -561,7 +886,47 @@ export class ReplySageBackground {
     }
   }
 
-  private async handleAddCloudProvider(provider: CloudProvider, sendResponse: (response: any) => void) {
+  private async handleGetModelRegistry(sendResponse: Respond<'GET_MODEL_REGISTRY'>) {
+    try {
+      await this.modelRegistry.load()
+      sendResponse({ success: true, models: this.modelRegistry.getModels(), active: this.modelRegistry.getActiveModelIds() })
+    } catch (error) {
+      console.error('ReplySage: Error getting model registry:', error)
+      sendResponse({ success: false, error: (error as Error).message })
+    }
+  }
+
+  private async handleRegisterModel(entry: ModelManifestEntry, sendResponse: Respond<'REGISTER_MODEL'>) {
+    try {
+      const model = await this.modelRegistry.register(entry)
+      sendResponse({ success: true, model })
+    } catch (error) {
+      console.error('ReplySage: Error registering model:', error)
+      sendResponse({ success: false, error: (error as Error).message })
+    }
+  }
+
+  private async handleUnregisterModel(request: { id: string }, sendResponse: Respond<'UNREGISTER_MODEL'>) {
+    try {
+      await this.modelRegistry.unregister(request.id)
+      sendResponse({ success: true })
+    } catch (error) {
+      console.error('ReplySage: Error unregistering model:', error)
+      sendResponse({ success: false, error: (error as Error).message })
+    }
+  }
+
+  private async handleSelectModel(request: { task: ModelTask; id: string | null }, sendResponse: Respond<'SELECT_MODEL'>) {
+    try {
+      await this.modelRegistry.select(request.task, request.id ?? null)
+      sendResponse({ success: true })
+    } catch (error) {
+      console.error('ReplySage: Error selecting model:', error)
+      sendResponse({ success: false, error: (error as Error).message })
+    }
+  }
+
+  private async handleAddCloudProvider(provider: CloudProvider, sendResponse: Respond<'ADD_CLOUD_PROVIDER'>) {
     try {
       await this.cloudManager.addProvider(provider)
       sendResponse({ success: true })
@@ -571,17 +936,17 @@ export class ReplySageBackground {
     }
   }
 
-  private async handleTestCloudProvider(provider: CloudProvider, sendResponse: (response: any) => void) {
+  private async handleTestCloudProvider(provider: BackgroundMessages['TEST_CLOUD_PROVIDER']['payload'], sendResponse: Respond<'TEST_CLOUD_PROVIDER'>) {
     try {
-      const success = await this.cloudManager.testProvider(provider)
-      sendResponse({ success, error: success ? null : 'Connection test failed' })
+      const success = await this.cloudManager.testProvider(provider as CloudProvider)
+      sendResponse(success ? { success } : { success, error: 'Connection test failed' })
     } catch (error) {
       console.error('ReplySage: Error testing cloud provider:', error)
       sendResponse({ success: false, error: (error as Error).message })
     }
   }
 
-  private async handleGetCloudProviders(sendResponse: (response: any) => void) {
+  private async handleGetCloudProviders(sendResponse: Respond<'GET_CLOUD_PROVIDERS'>) {
     try {
       const providers = this.cloudManager.getAvailableProviders()
       sendResponse({ success: true, providers })
@@ -591,7 +956,7 @@ export class ReplySageBackground {
     }
   }
 
-  private async handleRemoveCloudProvider(providerName: string, sendResponse: (response: any) => void) {
+  private async handleRemoveCloudProvider(providerName: string, sendResponse: Respond<'REMOVE_CLOUD_PROVIDER'>) {
     try {
       await this.cloudManager.removeProvider(providerName)
       sendResponse({ success: true })
@@ -601,8 +966,10 @@ export class ReplySageBackground {
     }
   }
 
-  private async handleAnalyzeWithCloud(request: { message: EmailMessage; analysisType: string }, sendResponse: (response: any) => void) {
+  private async handleAnalyzeWithCloud(request: BackgroundMessages['ANALYZE_WITH_CLOUD']['payload'], sendResponse: Respond<'ANALYZE_WITH_CLOUD'>) {
     try {
+      const message = BodySegmenter.applyTo(request.message)
+
       // Check if cloud fallback is enabled
       if (!this.settings.enableCloudFallback) {
         sendResponse({ success: false, error: 'Cloud fallback is disabled' })
@@ -616,48 +983,53 @@ export class ReplySageBackground {
       }
 
       // Redact PII if enabled
-      let redactedMessage = request.message
+      let redactedMessage = message
       // let _redactionResult = null
       
       if (this.settings.enablePIIRedaction) {
-        const redaction = this.piiManager.redactEmail(request.message)
+        const redaction = await this.piiManager.redactEmail(message, this.getRedactionOptions())
         redactedMessage = redaction.redactedMessage
         // _redactionResult = redaction.redactionResult
       }
 
       // Prepare cloud analysis request
       const cloudRequest = {
-        message: request.message,
+        message: message,
         redactedMessage,
-        analysisType: request.analysisType as any,
+        analysisType: request.analysisType,
         userPreferences: {
           tone: this.settings.preferredTone,
           maxSummaryLength: this.settings.maxSummaryLength,
-          preferredLanguage: 'en'
+          preferredLanguage: LanguageDetector.detect(`${message.subject}\n${message.body}`).language
         }
       }
 
       // Send to cloud for analysis
       const response = await this.cloudManager.analyzeWithCloud(cloudRequest)
+      // Cloud results get the same evidence check as pipeline results
+      if (response.result) {
+        response.result = EvidenceGrounder.groundAnalysis(message.body, response.result)
+      }
       
-      if (response.success) {
-        // Cache the result if caching is enabled
-        if (this.settings.enableCaching) {
-          const cacheKey = `analysis_${request.message.id}`
-          await this.cacheAnalysis(cacheKey, response.result!)
-        }
+      // A partial analysis must not stand in for a full one
+      if (response.success && request.analysisType === 'full' && this.settings.enableCaching) {
+        await this.cacheAnalysis(message, response.result!)
       }
 
-      sendResponse(response)
+      sendResponse(response.success ? { ...response, success: true } : { success: false, error: response.error || 'Cloud analysis failed' })
     } catch (error) {
       console.error('ReplySage: Error analyzing with cloud:', error)
       sendResponse({ success: false, error: (error as Error).message })
     }
   }
 
-  private async handleExtractActions(message: EmailMessage, sendResponse: (response: any) => void) {
+  private async handleExtractActions(message: EmailMessage, sendResponse: Respond<'EXTRACT_ACTIONS'>) {
     try {
+      // Analyzers only see the sender's new content, not quoted history or footers
+      message = BodySegmenter.applyTo(message)
+
       const result = await this.actionExtractor.extractActions(message)
+      result.extractedDates = await this.meetingRegistry.recordDates(result.extractedDates)
       sendResponse({ success: true, result })
     } catch (error) {
       console.error('ReplySage: Error extracting actions:', error)
@@ -665,14 +1037,23 @@ export class ReplySageBackground {
     }
   }
 
-  private async handleCreateCalendarEvent(request: { action?: any; date?: any; title: string; description?: string }, sendResponse: (response: any) => void) {
+  private async handleCreateCalendarEvent(request: BackgroundMessages['CREATE_CALENDAR_EVENT']['payload'], sendResponse: Respond<'CREATE_CALENDAR_EVENT'>) {
     try {
-      let result: any
+      let result: CalendarIntegrationResult
       
+      // Dates arrive as strings over the message channel
       if (request.action) {
-        result = await this.calendarIntegration.createEventFromAction(request.action, request.description)
+        const { dueDate } = request.action
+        result = await this.calendarIntegration.createEventFromAction(
+          { ...request.action, dueDate: dueDate && new Date(dueDate) },
+          request.description
+        )
       } else if (request.date) {
-        result = await this.calendarIntegration.createEventFromDate(request.date, request.title, request.description)
+        result = await this.calendarIntegration.createEventFromDate(
+          { ...request.date, date: new Date(request.date.date) },
+          request.title,
+          request.description
+        )
       } else {
         throw new Error('Either action or date must be provided')
       }
@@ -684,7 +1065,7 @@ export class ReplySageBackground {
     }
   }
 
-  private async handleGetCalendarProviders(sendResponse: (response: any) => void) {
+  private async handleGetCalendarProviders(sendResponse: Respond<'GET_CALENDAR_PROVIDERS'>) {
     try {
       const providers = await this.calendarIntegration.getCalendarProviders()
       const preferred = await this.calendarIntegration.getPreferredCalendarProvider()
@@ -700,13 +1081,14 @@ export class ReplySageBackground {
     }
   }
 
-  private async handleGenerateReplies(request: { message: EmailMessage; replyType: string; tone: string; length: string; customPrompt?: string }, sendResponse: (response: any) => void) {
+  private async handleGenerateReplies(request: BackgroundMessages['GENERATE_REPLIES']['payload'], sendResponse: Respond<'GENERATE_REPLIES'>) {
     try {
+      const message = BodySegmenter.applyTo(request.message)
       const result = await this.replyGenerator.generateReplies({
-        originalMessage: request.message,
-        replyType: request.replyType as any,
-        tone: request.tone as any,
-        length: request.length as any,
+        originalMessage: message,
+        replyType: request.replyType,
+        tone: request.tone,
+        length: request.length,
         customPrompt: request.customPrompt
       })
       
@@ -717,11 +1099,11 @@ export class ReplySageBackground {
     }
   }
 
-  private async handleInsertReply(request: { reply: string; method: string }, sendResponse: (response: any) => void) {
+  private async handleInsertReply(request: BackgroundMessages['INSERT_REPLY']['payload'], sendResponse: Respond<'INSERT_REPLY'>) {
     try {
       const result = await this.composeIntegration.insertReply(
         { text: request.reply, tone: 'formal', length: 'medium', confidence: 1.0 },
-        { method: request.method as any }
+        { method: request.method }
       )
       
       sendResponse({ success: true, result })
@@ -731,7 +1113,7 @@ export class ReplySageBackground {
     }
   }
 
-  private async handleGetComposeOptions(sendResponse: (response: any) => void) {
+  private async handleGetComposeOptions(sendResponse: Respond<'GET_COMPOSE_OPTIONS'>) {
     try {
       const options = await this.composeIntegration.getComposeOptions()
       const info = await this.composeIntegration.getComposeAreaInfo()
@@ -747,23 +1129,23 @@ export class ReplySageBackground {
     }
   }
 
-  private async handleGenerateEmbedding(request: { message: EmailMessage; text: string; category?: string; priority?: string }, sendResponse: (response: any) => void) {
+  private async handleGenerateEmbedding(request: { message: EmailMessage; text: string; category?: string; priority?: string }, sendResponse: Respond<'GENERATE_EMBEDDING'>) {
     try {
-      const embeddingId = await this.embeddingsManager.storeEmbedding(
-        request.message,
-        request.text,
-        request.category,
-        request.priority
-      )
+      // Indexing for similarity search yields to analysis of the open email
+      const job = await this.jobQueue.enqueue({ type: 'embedding', messageId: request.message.id, priority: 'low', payload: request })
+      const finished = await this.jobQueue.wait(job.id)
+      if (finished.status !== 'completed') {
+        throw new Error(finished.error || `Embedding ${finished.status}`)
+      }
       
-      sendResponse({ success: true, embeddingId })
+      sendResponse({ success: true, embeddingId: finished.result as string })
     } catch (error) {
       console.error('ReplySage: Error generating embedding:', error)
       sendResponse({ success: false, error: (error as Error).message })
     }
   }
 
-  private async handleSearchSimilar(request: { query: string; limit?: number; threshold?: number; category?: string; sender?: string; dateRange?: { start: Date; end: Date } }, sendResponse: (response: any) => void) {
+  private async handleSearchSimilar(request: { query: string; limit?: number; threshold?: number; category?: string; sender?: string; dateRange?: { start: Date; end: Date } }, sendResponse: Respond<'SEARCH_SIMILAR'>) {
     try {
       const result = await this.embeddingsManager.searchSimilar({
         text: request.query,
@@ -781,7 +1163,7 @@ export class ReplySageBackground {
     }
   }
 
-  private async handleGetEmbeddingStats(sendResponse: (response: any) => void) {
+  private async handleGetEmbeddingStats(sendResponse: Respond<'GET_EMBEDDING_STATS'>) {
     try {
       const stats = await this.embeddingsManager.getEmbeddingStats()
       sendResponse({ success: true, stats })
@@ -791,7 +1173,47 @@ export class ReplySageBackground {
     }
   }
 
-  private async handleClearEmbeddings(sendResponse: (response: any) => void) {
+  private async handleStartMboxImport(request: { fileKey: string; fileSize: number; filters?: MboxImportFilters }, sendResponse: Respond<'START_MBOX_IMPORT'>) {
+    try {
+      const progress = await this.mboxImporter.startImport(request.fileKey, request.fileSize, request.filters)
+      sendResponse({ success: true, progress })
+    } catch (error) {
+      console.error('ReplySage: Error starting mbox import:', error)
+      sendResponse({ success: false, error: (error as Error).message })
+    }
+  }
+
+  private async handleImportMboxBatch(batch: MboxImportBatch, sendResponse: Respond<'IMPORT_MBOX_BATCH'>) {
+    try {
+      const progress = await this.mboxImporter.importBatch(batch)
+      sendResponse({ success: true, progress })
+    } catch (error) {
+      console.error('ReplySage: Error importing mbox batch:', error)
+      sendResponse({ success: false, error: (error as Error).message })
+    }
+  }
+
+  private async handleGetMboxImportStatus(sendResponse: Respond<'GET_MBOX_IMPORT_STATUS'>) {
+    try {
+      const progress = await this.mboxImporter.getStatus()
+      sendResponse({ success: true, progress })
+    } catch (error) {
+      console.error('ReplySage: Error getting mbox import status:', error)
+      sendResponse({ success: false, error: (error as Error).message })
+    }
+  }
+
+  private async handleResetMboxImport(sendResponse: Respond<'RESET_MBOX_IMPORT'>) {
+    try {
+      await this.mboxImporter.resetImport()
+      sendResponse({ success: true })
+    } catch (error) {
+      console.error('ReplySage: Error resetting mbox import:', error)
+      sendResponse({ success: false, error: (error as Error).message })
+    }
+  }
+
+  private async handleClearEmbeddings(sendResponse: Respond<'CLEAR_EMBEDDINGS'>) {
     try {
       await this.embeddingsManager.clearAllEmbeddings()
       sendResponse({ success: true })
@@ -801,7 +1223,7 @@ export class ReplySageBackground {
     }
   }
 
-  private async handleFetchThread(request: { threadId: string }, sendResponse: (response: any) => void) {
+  private async handleFetchThread(request: { threadId: string }, sendResponse: Respond<'FETCH_THREAD'>) {
     try {
       const thread = await this.threadManager.fetchThread(request.threadId)
       sendResponse({ success: true, thread })
@@ -811,7 +1233,7 @@ export class ReplySageBackground {
     }
   }
 
-  private async handleSummarizeThread(request: { thread: any }, sendResponse: (response: any) => void) {
+  private async handleSummarizeThread(request: { thread: any }, sendResponse: Respond<'SUMMARIZE_THREAD'>) {
     try {
       const summary = await this.threadManager.summarizeThread(request.thread)
       sendResponse({ success: true, summary })
@@ -821,7 +1243,7 @@ export class ReplySageBackground {
     }
   }
 
-  private async handleChunkThread(request: { thread: any; maxChunkSize?: number }, sendResponse: (response: any) => void) {
+  private async handleChunkThread(request: { thread: any; maxChunkSize?: number }, sendResponse: Respond<'CHUNK_THREAD'>) {
     try {
       const chunks = await this.threadManager.chunkThread(request.thread, request.maxChunkSize)
       sendResponse({ success: true, chunks })
@@ -831,7 +1253,7 @@ export class ReplySageBackground {
     }
   }
 
-  private async handleGetThreadStats(sendResponse: (response: any) => void) {
+  private async handleGetThreadStats(sendResponse: Respond<'GET_THREAD_STATS'>) {
     try {
       const stats = await this.threadManager.getThreadStats()
       sendResponse({ success: true, stats })
@@ -841,7 +1263,27 @@ export class ReplySageBackground {
     }
   }
 
-  private async handleGetPerformanceStats(sendResponse: (response: any) => void) {
+  private async handleAnalyzeThread(request: { thread: EmailThread }, sendResponse: Respond<'ANALYZE_THREAD'>) {
+    try {
+      const update = await this.threadDelta.analyzeThread(request.thread, AnalysisCache.hashContext(this.getCacheContext()))
+      sendResponse({ success: true, ...update })
+    } catch (error) {
+      console.error('ReplySage: Error analyzing thread:', error)
+      sendResponse({ success: false, error: (error as Error).message })
+    }
+  }
+
+  private async handleMarkThreadSeen(request: { threadId: string }, sendResponse: Respond<'MARK_THREAD_SEEN'>) {
+    try {
+      await this.threadDelta.markSeen(request.threadId)
+      sendResponse({ success: true })
+    } catch (error) {
+      console.error('ReplySage: Error marking thread seen:', error)
+      sendResponse({ success: false, error: (error as Error).message })
+    }
+  }
+
+  private async handleGetPerformanceStats(sendResponse: Respond<'GET_PERFORMANCE_STATS'>) {
     try {
       const stats = this.performanceMonitor.getStats()
       sendResponse({ success: true, stats })
@@ -851,7 +1293,7 @@ export class ReplySageBackground {
     }
   }
 
-  private async handleClearPerformanceMetrics(sendResponse: (response: any) => void) {
+  private async handleClearPerformanceMetrics(sendResponse: Respond<'CLEAR_PERFORMANCE_METRICS'>) {
     try {
       this.performanceMonitor.clearMetrics()
       sendResponse({ success: true })
@@ -861,7 +1303,7 @@ export class ReplySageBackground {
     }
   }
 
-  private async handleExportPerformanceMetrics(sendResponse: (response: any) => void) {
+  private async handleExportPerformanceMetrics(sendResponse: Respond<'EXPORT_PERFORMANCE_METRICS'>) {
     try {
       const metrics = this.performanceMonitor.exportMetrics()
       sendResponse({ success: true, metrics })
@@ -871,7 +1313,7 @@ export class ReplySageBackground {
     }
   }
 
-  private async handleGetWorkerStats(sendResponse: (response: any) => void) {
+  private async handleGetWorkerStats(sendResponse: Respond<'GET_WORKER_STATS'>) {
     try {
       const stats = this.workerManager.getStats()
       sendResponse({ success: true, stats })
@@ -881,7 +1323,7 @@ export class ReplySageBackground {
     }
   }
 
-  private async handleRestartWorkers(sendResponse: (response: any) => void) {
+  private async handleRestartWorkers(sendResponse: Respond<'RESTART_WORKERS'>) {
     try {
       await this.workerManager.restart()
       sendResponse({ success: true })
@@ -891,7 +1333,7 @@ export class ReplySageBackground {
     }
   }
 
-  private async handleGetQuantizedModels(sendResponse: (response: any) => void) {
+  private async handleGetQuantizedModels(sendResponse: Respond<'GET_QUANTIZED_MODELS'>) {
     try {
       const models = this.quantizedModelManager.getAvailableModels()
       sendResponse({ success: true, models })
@@ -901,17 +1343,17 @@ export class ReplySageBackground {
     }
   }
 
-  private async handleDownloadQuantizedModel(request: { modelName: string }, sendResponse: (response: any) => void) {
+  private async handleDownloadQuantizedModel(request: { modelName: string }, sendResponse: Respond<'DOWNLOAD_QUANTIZED_MODEL'>) {
     try {
       const success = await this.quantizedModelManager.downloadModel(request.modelName)
-      sendResponse({ success })
+      sendResponse(success ? { success } : { success, error: `Failed to download ${request.modelName}` })
     } catch (error) {
       console.error('ReplySage: Error downloading quantized model:', error)
       sendResponse({ success: false, error: (error as Error).message })
     }
   }
 
-  private async handleEncryptData(request: { data: string; keyId?: string }, sendResponse: (response: any) => void) {
+  private async handleEncryptData(request: { data: string; keyId?: string }, sendResponse: Respond<'ENCRYPT_DATA'>) {
     try {
       const encryptedData = await this.encryptionManager.encrypt(request.data, request.keyId)
       sendResponse({ success: true, encryptedData })
@@ -921,7 +1363,7 @@ export class ReplySageBackground {
     }
   }
 
-  private async handleDecryptData(request: { encryptedData: any }, sendResponse: (response: any) => void) {
+  private async handleDecryptData(request: { encryptedData: any }, sendResponse: Respond<'DECRYPT_DATA'>) {
     try {
       const decryptedData = await this.encryptionManager.decrypt(request.encryptedData)
       sendResponse({ success: true, data: decryptedData })
@@ -931,7 +1373,7 @@ export class ReplySageBackground {
     }
   }
 
-  private async handleGetEncryptionKeys(sendResponse: (response: any) => void) {
+  private async handleGetEncryptionKeys(sendResponse: Respond<'GET_ENCRYPTION_KEYS'>) {
     try {
       const keys = this.encryptionManager.getAllKeys()
       sendResponse({ success: true, keys })
@@ -941,7 +1383,7 @@ export class ReplySageBackground {
     }
   }
 
-  private async handleRotateEncryptionKey(request: { keyId: string }, sendResponse: (response: any) => void) {
+  private async handleRotateEncryptionKey(request: { keyId: string }, sendResponse: Respond<'ROTATE_ENCRYPTION_KEY'>) {
     try {
       await this.encryptionManager.rotateKey(request.keyId)
       sendResponse({ success: true })
@@ -951,7 +1393,7 @@ export class ReplySageBackground {
     }
   }
 
-  private async handleGetPrivacySettings(sendResponse: (response: any) => void) {
+  private async handleGetPrivacySettings(sendResponse: Respond<'GET_PRIVACY_SETTINGS'>) {
     try {
       const settings = this.dataPrivacyManager.getSettings()
       sendResponse({ success: true, settings })
@@ -961,7 +1403,7 @@ export class ReplySageBackground {
     }
   }
 
-  private async handleUpdatePrivacySettings(request: { settings: any }, sendResponse: (response: any) => void) {
+  private async handleUpdatePrivacySettings(request: BackgroundMessages['UPDATE_PRIVACY_SETTINGS']['payload'], sendResponse: Respond<'UPDATE_PRIVACY_SETTINGS'>) {
     try {
       await this.dataPrivacyManager.updateSettings(request.settings)
       sendResponse({ success: true })
@@ -971,7 +1413,7 @@ export class ReplySageBackground {
     }
   }
 
-  private async handleExportUserData(request: { type: 'full' | 'partial' }, sendResponse: (response: any) => void) {
+  private async handleExportUserData(request: { type: 'full' | 'partial' }, sendResponse: Respond<'EXPORT_USER_DATA'>) {
     try {
       const dataExport = await this.dataPrivacyManager.exportData(request.type)
       sendResponse({ success: true, dataExport })
@@ -981,7 +1423,7 @@ export class ReplySageBackground {
     }
   }
 
-  private async handleDeleteUserData(request: { type: 'all' | 'analysis' | 'performance' | 'audit' | 'settings' | 'models' | 'embeddings' }, sendResponse: (response: any) => void) {
+  private async handleDeleteUserData(request: { type: 'all' | 'analysis' | 'performance' | 'audit' | 'settings' | 'models' | 'embeddings' }, sendResponse: Respond<'DELETE_USER_DATA'>) {
     try {
       const deletionRequest = await this.dataPrivacyManager.deleteData(request.type)
       sendResponse({ success: true, deletionRequest })
@@ -991,7 +1433,7 @@ export class ReplySageBackground {
     }
   }
 
-  private async handleGetAuditLog(sendResponse: (response: any) => void) {
+  private async handleGetAuditLog(sendResponse: Respond<'GET_AUDIT_LOG'>) {
     try {
       const auditLog = this.dataPrivacyManager.getAuditLog()
       sendResponse({ success: true, auditLog })
@@ -1001,9 +1443,9 @@ export class ReplySageBackground {
     }
   }
 
-  private async handleRunTests(request: { suiteId?: string }, sendResponse: (response: any) => void) {
+  private async handleRunTests(request: { suiteId?: string }, sendResponse: Respond<'RUN_TESTS'>) {
     try {
-      let reports: any[]
+      let reports: TestReport[]
       
       if (request.suiteId && request.suiteId !== 'all') {
         const report = await this.testingFramework.runTestSuite(request.suiteId)
@@ -1019,7 +1461,7 @@ export class ReplySageBackground {
     }
   }
 
-  private async handleGetTestSuites(sendResponse: (response: any) => void) {
+  private async handleGetTestSuites(sendResponse: Respond<'GET_TEST_SUITES'>) {
     try {
       const suites = this.testingFramework.getTestSuites()
       sendResponse({ success: true, suites })
@@ -1029,7 +1471,7 @@ export class ReplySageBackground {
     }
   }
 
-  private async handleGenerateTestReport(request: { reports: any[] }, sendResponse: (response: any) => void) {
+  private async handleGenerateTestReport(request: BackgroundMessages['GENERATE_TEST_REPORT']['payload'], sendResponse: Respond<'GENERATE_TEST_REPORT'>) {
     try {
       const report = this.testingFramework.generateTestReport(request.reports)
       sendResponse({ success: true, report })
@@ -1039,7 +1481,7 @@ export class ReplySageBackground {
     }
   }
 
-  private async handleValidateStoreSubmission(sendResponse: (response: any) => void) {
+  private async handleValidateStoreSubmission(sendResponse: Respond<'VALIDATE_STORE_SUBMISSION'>) {
     try {
       const validation = await this.storeSubmissionManager.validateSubmission()
       sendResponse({ success: true, validation })
@@ -1049,7 +1491,7 @@ export class ReplySageBackground {
     }
   }
 
-  private async handleGenerateStorePackage(sendResponse: (response: any) => void) {
+  private async handleGenerateStorePackage(sendResponse: Respond<'GENERATE_STORE_PACKAGE'>) {
     try {
       const packageData = await this.storeSubmissionManager.generateSubmissionPackage()
       sendResponse({ success: true, package: packageData })
@@ -1059,49 +1501,55 @@ export class ReplySageBackground {
     }
   }
 
-  private async processJobQueue() {
-    if (this.isProcessing || this.jobQueue.length === 0) return
-
-    this.isProcessing = true
-
-    while (this.jobQueue.length > 0) {
-      const job = this.jobQueue.shift()
-      if (!job) break
-
-      try {
-        job.status = 'processing'
-        await this.processJob(job)
-        job.status = 'completed'
-        job.completedAt = new Date()
-      } catch (error) {
-        job.status = 'failed'
-        job.error = (error as Error).message
-        console.error('ReplySage: Job failed:', error)
-      }
+  /** Settings, models and providers can change at any time, so the cache context is refreshed before each use */
+  private getCacheContext(): AnalysisCacheContext {
+    const { enableLocalProcessing, enableCloudFallback, enablePIIRedaction, enableEntityRedaction, enableAttachmentAnalysis, preferredTone, maxSummaryLength, userCategories, languageToolUrl } = this.settings
+    return {
+      pipelineVersion: AnalysisPipeline.VERSION,
+      modelVersion: this.aiManager.getModelVersion(),
+      cloudProvider: enableCloudFallback ? this.cloudManager.getActiveProviderName() || undefined : undefined,
+      settings: { enableLocalProcessing, enableCloudFallback, enablePIIRedaction, enableEntityRedaction, enableAttachmentAnalysis, preferredTone, maxSummaryLength, userCategories, languageToolUrl }
     }
-
-    this.isProcessing = false
-  }
-
-  private async processJob(_job: ProcessingJob) {
-    // This is where actual AI processing would happen
-    // For now, we'll just simulate processing time
-    await new Promise(resolve => setTimeout(resolve, 1000))
   }
 
-  private async getCachedAnalysis(key: string): Promise<AnalysisResult | null> {
+  private async getCachedAnalysis(message: EmailMessage): Promise<AnalysisResult | null> {
     try {
-      const cached = await chrome.storage.local.get([key])
-      return cached[key] || null
+      await this.analysisCache.setContext(this.getCacheContext())
+      return await this.analysisCache.get(BodySegmenter.applyTo(message))
     } catch (error) {
       console.error('ReplySage: Error getting cached analysis:', error)
       return null
     }
   }
 
-  private async cacheAnalysis(key: string, analysis: AnalysisResult) {
+  /**
+   * Message ids used to be regenerated on every visit. Legacy embeddings
+   * still record the message text, which lets us move them to the stable
+   * id; the legacy ids they were stored under then find the analyses
+   * cached for the same message, which move to its stable cache key.
+   */
+  private async adoptLegacyData(message: EmailMessage): Promise<void> {
+    if (!this.embeddingsManager || !message.legacyBody) {
+      return
+    }
+
     try {
-      await chrome.storage.local.set({ [key]: analysis })
+      const legacyIds = await this.embeddingsManager.adoptLegacyEmbeddings(message)
+      if (legacyIds.length > 0) {
+        console.log('ReplySage: Adopted legacy embeddings for stable id:', message.id)
+        await this.analysisCache.setContext(this.getCacheContext())
+        await this.analysisCache.adoptLegacy(message, legacyIds)
+      }
+    } catch (error) {
+      console.error('ReplySage: Error adopting legacy data:', error)
+    }
+  }
+
+  private async cacheAnalysis(message: EmailMessage, analysis: AnalysisResult) {
+    try {
+      await this.analysisCache.setContext(this.getCacheContext())
+      // Keyed on the segmented body, the text the analyzers actually read
+      await this.analysisCache.set(BodySegmenter.applyTo(message), analysis)
     } catch (error) {
       console.error('ReplySage: Error caching analysis:', error)
     }
@@ -1113,105 +1561,11 @@ export class ReplySageBackground {
     
     chrome.alarms.onAlarm.addListener((alarm) => {
       if (alarm.name === 'cleanup-jobs') {
-        this.cleanupOldJobs()
+        this.jobQueue.prune()
+        this.analysisCache.prune().catch(error => console.error('ReplySage: Error pruning analysis cache:', error))
       }
     })
   }
-
-  private async cleanupOldJobs() {
-    const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000)
-    this.jobQueue = this.jobQueue.filter(job => 
-      job.createdAt > oneHourAgo || job.status === 'processing'
-    )
-  }
-
-  private generateJobId(): string {
-    return `job_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-  }
-
-  // Mock data generators for development
-  private generateMockSummary(message: EmailMessage): string {
-    const words = message.body.split(' ').length
-    if (words < 50) {
-      return `Short message about "${message.subject}"`
-    } else if (words < 200) {
-      return `Medium-length message discussing "${message.subject}". Contains ${words} words.`
-    } else {
-      return `Long message about "${message.subject}". This appears to be a detailed communication with ${words} words covering multiple topics.`
-    }
-  }
-
-  private generateMockActionItems(message: EmailMessage): any[] {
-    const actionItems = []
-    
-    if (message.body.toLowerCase().includes('meeting')) {
-      actionItems.push({
-        text: 'Schedule meeting',
-        priority: 'high' as const,
-        category: 'scheduling'
-      })
-    }
-    
-    if (message.body.toLowerCase().includes('deadline') || message.body.toLowerCase().includes('due')) {
-      actionItems.push({
-        text: 'Review deadline requirements',
-        priority: 'high' as const,
-        category: 'deadline'
-      })
-    }
-    
-    if (message.body.toLowerCase().includes('reply') || message.body.toLowerCase().includes('response')) {
-      actionItems.push({
-        text: 'Send response',
-        priority: 'medium' as const,
-        category: 'communication'
-      })
-    }
-    
-    return actionItems
-  }
-
-  private generateMockReplies(message: EmailMessage): any[] {
-    return [
-      {
-        text: `Thank you for your message about "${message.subject}". I'll review this and get back to you soon.`,
-        tone: 'formal' as const,
-        length: 'short' as const,
-        confidence: 0.8
-      },
-      {
-        text: `Thanks for reaching out! I'll look into this and let you know what I find.`,
-        tone: 'casual' as const,
-        length: 'short' as const,
-        confidence: 0.9
-      }
-    ]
-  }
-
-  private generateMockGrammarIssues(message: EmailMessage): any[] {
-    const issues = []
-    
-    // Simple grammar check for common issues
-    if (message.body.includes('  ')) {
-      issues.push({
-        text: 'Double space',
-        suggestion: 'Single space',
-        severity: 'warning' as const,
-        position: { start: 0, end: 0 }
-      })
-    }
-    
-    if (message.body.toLowerCase().includes('i am') && !message.body.includes("I'm")) {
-      issues.push({
-        text: 'i am',
-        suggestion: "I'm",
-        severity: 'info' as const,
-        position: { start: 0, end: 0 }
-      })
-    }
-    
-    return issues
-  }
 }
 
 // Initialize the background script
@@ -1,5 +1,6 @@
 import React, { useState } from 'react'
-import { ActionItem, ExtractedDate } from '@/types'
+import { ActionItem, ExtractedDate, Grounding, MeetingDetails, SourceSpan } from '@/types'
+import { IcsParser } from '@/utils/ics-parser'
 
 interface ActionItemsPanelProps {
   actionItems: ActionItem[]
@@ -9,6 +10,7 @@ interface ActionItemsPanelProps {
   onActionDelete: (actionId: string) => void
   onAddToCalendar: (action: ActionItem) => void
   onAddDateToCalendar: (date: ExtractedDate) => void
+  onHighlightEvidence?: (span: SourceSpan | null) => void
 }
 
 export const ActionItemsPanel: React.FC<ActionItemsPanelProps> = ({
@@ -18,7 +20,8 @@ export const ActionItemsPanel: React.FC<ActionItemsPanelProps> = ({
   onActionEdit,
   onActionDelete,
   onAddToCalendar,
-  onAddDateToCalendar
+  onAddDateToCalendar,
+  onHighlightEvidence
 }) => {
   const [filter, setFilter] = useState<'all' | 'pending' | 'completed' | 'high' | 'medium' | 'low'>('all')
   const [sortBy, setSortBy] = useState<'dueDate' | 'priority' | 'category' | 'created'>('dueDate')
@@ -61,6 +64,18 @@ export const ActionItemsPanel: React.FC<ActionItemsPanelProps> = ({
     }
   })
 
+  // Hovering an item shows the sentence of the email it was extracted from
+  const evidenceHandlers = (grounding?: Grounding) => grounding?.span && onHighlightEvidence
+    ? {
+        onMouseEnter: () => onHighlightEvidence(grounding.span!),
+        onMouseLeave: () => onHighlightEvidence(null)
+      }
+    : {}
+
+  const renderGroundingFlag = (grounding?: Grounding) => grounding && !grounding.verified && (
+    <span className="grounding-flag" title={grounding.note}>Unverified</span>
+  )
+
   const handleEditStart = (action: ActionItem) => {
     setEditingAction(action.text)
     setEditText(action.text)
@@ -79,6 +94,42 @@ export const ActionItemsPanel: React.FC<ActionItemsPanelProps> = ({
     setEditText('')
   }
 
+  const renderMeeting = (meeting: MeetingDetails) => {
+    // Dates arrive as ISO strings after runtime messaging
+    const start = new Date(meeting.start)
+    const end = meeting.end ? new Date(meeting.end) : undefined
+    const organizer = meeting.organizer?.name || meeting.organizer?.email
+
+    return (
+      <div className={`meeting-details meeting-${meeting.status}`}>
+        {meeting.status !== 'scheduled' && (
+          <span className="meeting-status">{meeting.status === 'cancelled' ? 'Cancelled' : 'Updated'}</span>
+        )}
+        <div className="meeting-when">
+          {IcsParser.formatRange({ start, end, allDay: meeting.allDay })}
+          {meeting.timeZone && <span className="meeting-zone"> ({meeting.timeZone})</span>}
+        </div>
+        {meeting.recurrenceText && <div>Repeats: {meeting.recurrenceText}</div>}
+        {meeting.location && <div>Location: {meeting.location}</div>}
+        {organizer && <div>Organizer: {organizer}</div>}
+        {meeting.attendees.length > 0 && (
+          <div title={meeting.attendees.map(attendee => attendee.name || attendee.email).join(', ')}>
+            Attendees: {meeting.attendees.length}
+          </div>
+        )}
+        {meeting.conflicts && meeting.conflicts.length > 0 && (
+          <ul className="meeting-conflicts">
+            {meeting.conflicts.map(conflict => (
+              <li key={conflict.uid}>
+                Conflicts with {conflict.title} ({new Date(conflict.start).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })})
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    )
+  }
+
   const formatDate = (date: Date): string => {
     const now = new Date()
     const diffTime = date.getTime() - now.getTime()
@@ -157,7 +208,7 @@ export const ActionItemsPanel: React.FC<ActionItemsPanelProps> = ({
           </div>
         ) : (
           sortedActions.map((action, index) => (
-            <div key={index} className={`action-item ${action.isCompleted ? 'completed' : ''}`}>
+            <div key={index} className={`action-item ${action.isCompleted ? 'completed' : ''}`} {...evidenceHandlers(action.grounding)}>
               <div className="action-content">
                 <div className="action-header">
                   <div className="action-priority">
@@ -224,6 +275,7 @@ export const ActionItemsPanel: React.FC<ActionItemsPanelProps> = ({
                   ) : (
                     <span className={action.isCompleted ? 'completed-text' : ''}>
                       {action.text}
+                      {renderGroundingFlag(action.grounding)}
                     </span>
                   )}
                 </div>
@@ -252,11 +304,15 @@ export const ActionItemsPanel: React.FC<ActionItemsPanelProps> = ({
           <h4>Important Dates</h4>
           <div className="dates-list">
             {extractedDates.map((date, index) => (
-              <div key={index} className="date-item">
-                <div className="date-info">
-                  <span className="date-text">{date.text}</span>
-                  <span className="date-value">{formatDate(date.date)}</span>
-                  <span className="date-type">{date.type}</span>
+              <div key={index} className="date-item" {...evidenceHandlers(date.grounding)}>
+                <div className="date-details">
+                  <div className="date-info">
+                    <span className="date-text">{date.text}</span>
+                    <span className="date-value">{formatDate(new Date(date.date))}</span>
+                    <span className="date-type">{date.type}</span>
+                    {renderGroundingFlag(date.grounding)}
+                  </div>
+                  {date.meeting && renderMeeting(date.meeting)}
                 </div>
                 <button
                   onClick={() => onAddDateToCalendar(date)}
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react'
 import { CloudProvider } from '@/utils/cloud-apis'
+import { BackgroundClient } from '@/utils/messages'
 
 interface CloudProviderSettingsProps {
   isOpen: boolean
@@ -97,10 +98,7 @@ export const CloudProviderSettings: React.FC<CloudProviderSettingsProps> = ({
         baseUrl: baseUrl.trim() || undefined
       }
 
-      const response = await chrome.runtime.sendMessage({
-        type: 'TEST_CLOUD_PROVIDER',
-        payload: testProvider
-      })
+      const response = await BackgroundClient.send('TEST_CLOUD_PROVIDER', testProvider)
 
       if (response.success) {
         setTestResult({ success: true, message: 'Connection successful!' })
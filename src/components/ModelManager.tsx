@@ -1,14 +1,7 @@
 import React, { useState, useEffect } from 'react'
-
-interface ModelAsset {
-  name: string
-  url: string
-  size: number
-  downloaded: boolean
-  downloadProgress: number
-  lastUpdated: Date
-  checksum?: string
-}
+import { BackgroundClient } from '@/utils/messages'
+import { ModelAsset } from '@/utils/model-asset-manager'
+import { ModelManifestEntry } from '@/types'
 
 interface StorageUsage {
   totalSize: number
@@ -22,6 +15,7 @@ interface ModelManagerProps {
 
 export const ModelManager: React.FC<ModelManagerProps> = ({ onClose }) => {
   const [assets, setAssets] = useState<ModelAsset[]>([])
+  const [models, setModels] = useState<ModelManifestEntry[]>([])
   const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null)
   const [downloading, setDownloading] = useState<string[]>([])
   const [error, setError] = useState<string | null>(null)
@@ -32,10 +26,14 @@ export const ModelManager: React.FC<ModelManagerProps> = ({ onClose }) => {
 
   const loadAssetStatus = async () => {
     try {
-      const response = await chrome.runtime.sendMessage({ type: 'GET_ASSET_STATUS' })
+      const [response, registry] = await Promise.all([
+        BackgroundClient.send('GET_ASSET_STATUS'),
+        BackgroundClient.send('GET_MODEL_REGISTRY')
+      ])
       if (response.success) {
         setAssets(response.assets)
         setStorageUsage(response.storageUsage)
+        setModels(registry.success ? registry.models : [])
       } else {
         setError('Failed to load asset status')
       }
@@ -50,10 +48,7 @@ export const ModelManager: React.FC<ModelManagerProps> = ({ onClose }) => {
       setDownloading(prev => [...prev, modelName])
       setError(null)
 
-      const response = await chrome.runtime.sendMessage({
-        type: 'DOWNLOAD_MODELS',
-        payload: [modelName]
-      })
+      const response = await BackgroundClient.send('DOWNLOAD_MODELS', [modelName])
 
       if (response.success) {
         await loadAssetStatus()
@@ -73,10 +68,7 @@ export const ModelManager: React.FC<ModelManagerProps> = ({ onClose }) => {
       setDownloading(prev => [...prev, 'all'])
       setError(null)
 
-      const response = await chrome.runtime.sendMessage({
-        type: 'DOWNLOAD_MODELS',
-        payload: []
-      })
+      const response = await BackgroundClient.send('DOWNLOAD_MODELS', [])
 
       if (response.success) {
         await loadAssetStatus()
@@ -99,24 +91,13 @@ export const ModelManager: React.FC<ModelManagerProps> = ({ onClose }) => {
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i]
   }
 
+  // Assets are named after the registry id of the model they hold
   const getModelDisplayName = (name: string): string => {
-    const names: Record<string, string> = {
-      'summarizer': 'Text Summarizer',
-      'text-generator': 'Text Generator',
-      'embeddings': 'Embeddings Model',
-      'sentiment': 'Sentiment Analyzer'
-    }
-    return names[name] || name
+    return models.find(model => model.id === name)?.name || name
   }
 
   const getModelDescription = (name: string): string => {
-    const descriptions: Record<string, string> = {
-      'summarizer': 'Generates concise summaries of email content',
-      'text-generator': 'Creates suggested replies and text completions',
-      'embeddings': 'Creates semantic embeddings for similarity search',
-      'sentiment': 'Analyzes email sentiment (positive, negative, neutral)'
-    }
-    return descriptions[name] || 'AI model for email processing'
+    return models.find(model => model.id === name)?.description || 'AI model for email processing'
   }
 
   return (
@@ -174,19 +155,19 @@ export const ModelManager: React.FC<ModelManagerProps> = ({ onClose }) => {
                     <p className="model-description">{getModelDescription(asset.name)}</p>
                     <div className="model-details">
                       <span className="size">{formatFileSize(asset.size)}</span>
-                      {asset.downloaded && (
+                      {asset.status === 'downloaded' && (
                         <span className="status downloaded">Downloaded</span>
                       )}
-                      {!asset.downloaded && asset.downloadProgress > 0 && (
+                      {asset.status !== 'downloaded' && asset.progress > 0 && (
                         <span className="status downloading">
-                          Downloading... {asset.downloadProgress}%
+                          Downloading... {asset.progress}%
                         </span>
                       )}
                     </div>
                   </div>
 
                   <div className="model-actions">
-                    {asset.downloaded ? (
+                    {asset.status === 'downloaded' ? (
                       <span className="downloaded-indicator">✓</span>
                     ) : (
                       <button
@@ -199,11 +180,11 @@ export const ModelManager: React.FC<ModelManagerProps> = ({ onClose }) => {
                     )}
                   </div>
 
-                  {asset.downloadProgress > 0 && asset.downloadProgress < 100 && (
+                  {asset.progress > 0 && asset.progress < 100 && (
                     <div className="progress-bar">
                       <div 
                         className="progress-fill" 
-                        style={{ width: `${asset.downloadProgress}%` }}
+                        style={{ width: `${asset.progress}%` }}
                       />
                     </div>
                   )}
@@ -1,11 +1,13 @@
 import React, { useState, useEffect } from 'react'
 import { SuggestedReply, EmailMessage } from '@/types'
+import { ReplyGenerationRequest } from '@/utils/reply-generator'
+import { BackgroundClient } from '@/utils/messages'
 
 interface SuggestedRepliesPanelProps {
   originalMessage: EmailMessage
   suggestedReplies: SuggestedReply[]
   onReplySelect: (reply: SuggestedReply) => void
-  onGenerateReplies: (type: string, tone: string, length: string) => void
+  onGenerateReplies: (type: ReplyGenerationRequest['replyType'], tone: ReplyGenerationRequest['tone'], length: ReplyGenerationRequest['length']) => void
   isGenerating: boolean
 }
 
@@ -31,9 +33,7 @@ export const SuggestedRepliesPanel: React.FC<SuggestedRepliesPanelProps> = ({
 
   const loadComposeOptions = async () => {
     try {
-      const response = await chrome.runtime.sendMessage({
-        type: 'GET_COMPOSE_OPTIONS'
-      })
+      const response = await BackgroundClient.send('GET_COMPOSE_OPTIONS')
       
       if (response.success) {
         setComposeOptions(response.options)
@@ -54,12 +54,9 @@ export const SuggestedRepliesPanel: React.FC<SuggestedRepliesPanelProps> = ({
 
   const handleInsertReply = async (reply: SuggestedReply) => {
     try {
-      const response = await chrome.runtime.sendMessage({
-        type: 'INSERT_REPLY',
-        payload: {
-          reply: reply.text,
-          method: composeMethod
-        }
+      const response = await BackgroundClient.send('INSERT_REPLY', {
+        reply: reply.text,
+        method: composeMethod
       })
       
       if (response.success) {
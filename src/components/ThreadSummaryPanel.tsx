@@ -1,10 +1,13 @@
 import React, { useState } from 'react'
-import { EmailThread, ThreadSummary, ThreadChunk } from '@/types'
+import { EmailThread, ThreadSummary, ThreadChunk, ThreadChanges } from '@/types'
 
 interface ThreadSummaryPanelProps {
   thread: EmailThread | null
   summary: ThreadSummary | null
   chunks: ThreadChunk[]
+  /** What arrived since the user last looked at the thread */
+  changes?: ThreadChanges | null
+  onDismissChanges?: (threadId: string) => void
   onGenerateSummary: (thread: EmailThread) => Promise<ThreadSummary>
   onGenerateChunks: (thread: EmailThread) => Promise<ThreadChunk[]>
   isGenerating: boolean
@@ -14,6 +17,8 @@ export const ThreadSummaryPanel: React.FC<ThreadSummaryPanelProps> = ({
   thread,
   summary,
   chunks,
+  changes,
+  onDismissChanges,
   onGenerateSummary,
   onGenerateChunks,
   isGenerating
@@ -87,6 +92,10 @@ export const ThreadSummaryPanel: React.FC<ThreadSummaryPanelProps> = ({
     }
   }
 
+  const formatDueDate = (dueDate?: Date): string => {
+    return dueDate ? new Date(dueDate).toLocaleDateString() : 'no date'
+  }
+
   if (!thread) {
     return (
       <div className="thread-summary-panel">
@@ -151,6 +160,43 @@ export const ThreadSummaryPanel: React.FC<ThreadSummaryPanelProps> = ({
         </div>
       </div>
 
+      {changes && (
+        <div className="thread-changes">
+          <div className="thread-changes-header">
+            <h5>
+              Since you last looked · {changes.newMessageIds.length} new {changes.newMessageIds.length === 1 ? 'message' : 'messages'}
+            </h5>
+            {onDismissChanges && (
+              <button onClick={() => onDismissChanges(changes.threadId)} className="dismiss-changes-button">
+                Mark as seen
+              </button>
+            )}
+          </div>
+          <ul>
+            {changes.addedActionItems.map((item, index) => (
+              <li key={`added-${index}`} className="change-added">
+                New: {item.text}{item.dueDate && ` (due ${formatDueDate(item.dueDate)})`}
+              </li>
+            ))}
+            {changes.completedActionItems.map((item, index) => (
+              <li key={`completed-${index}`} className="change-completed">
+                Done: {item.text}
+              </li>
+            ))}
+            {changes.changedDeadlines.map((change, index) => (
+              <li key={`deadline-${index}`} className="change-deadline">
+                Moved: {change.item.text} ({formatDueDate(change.previousDueDate)} → {formatDueDate(change.item.dueDate)})
+              </li>
+            ))}
+            {changes.priorityChange && (
+              <li className="change-priority">
+                Priority: {changes.priorityChange.from} → {changes.priorityChange.to}
+              </li>
+            )}
+          </ul>
+        </div>
+      )}
+
       <div className="tab-navigation">
         <button
           className={`tab-button ${activeTab === 'summary' ? 'active' : ''}`}
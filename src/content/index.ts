@@ -1,11 +1,23 @@
-import { GmailExtractor } from '@/utils/dom-extractor'
-import { EmailMessage } from '@/types'
+import { MailClientRegistry } from '@/utils/mail-clients/registry'
+import { MailClientAdapter, InsertPosition } from '@/utils/mail-clients/adapter'
+import { EmailMessage, DomSnapshot, InboxRow, InboxTriage, SourceSpan, UserSettings } from '@/types'
 import { ReplySageUIManager } from './ui/ReplySageUI'
+import { InboxBadges } from './ui/InboxBadges'
+import { EvidenceHighlighter } from './ui/EvidenceHighlighter'
+import { BodySegmenter } from '@/utils/body-segmenter'
+import { SelectorDiagnostics } from '@/utils/selector-diagnostics'
+import { AnalysisStream } from '@/utils/analysis-stream'
+import { BackgroundClient } from '@/utils/messages'
 
 class ReplySageContentScript {
   private ui: ReplySageUIManager | null = null
   private currentMessage: EmailMessage | null = null
   private isInitialized = false
+  private settings: Partial<UserSettings> = {}
+  private lastHealthSignature = ''
+  private isTriagingInbox = false
+  private analysisStream = new AnalysisStream()
+  private adapter: MailClientAdapter | null = MailClientRegistry.getInstance().getCurrentAdapter()
 
   constructor() {
     this.init()
@@ -13,11 +25,16 @@ class ReplySageContentScript {
 
   private async init() {
     if (this.isInitialized) return
+    if (!this.adapter) {
+      console.log('ReplySage: No mail client adapter for this page')
+      return
+    }
     
     console.log('ReplySage: Content script initializing...')
     
-    // Wait for Gmail to load
-    await this.waitForGmail()
+    // Wait for the mail client to load
+    await this.waitForMailClient()
+    await this.loadSettings()
     
     // Initialize UI
     this.initializeUI()
@@ -29,22 +46,26 @@ class ReplySageContentScript {
     console.log('ReplySage: Content script initialized successfully')
   }
 
-  private async waitForGmail(): Promise<void> {
+  private async waitForMailClient(): Promise<void> {
     return new Promise((resolve) => {
-      const checkGmail = () => {
-        if (GmailExtractor.isGmailPage() && document.querySelector('[data-thread-perm-id]')) {
+      const checkMailClient = () => {
+        if (this.adapter?.isReady()) {
           resolve()
         } else {
-          setTimeout(checkGmail, 100)
+          setTimeout(checkMailClient, 100)
         }
       }
-      checkGmail()
+      checkMailClient()
     })
   }
 
   private initializeUI() {
     try {
-      this.ui = new ReplySageUIManager()
+      this.ui = new ReplySageUIManager({
+        onAnalyze: () => this.analyzeCurrentMessage(),
+        onCancel: () => this.analysisStream.cancel(),
+        onHighlightEvidence: span => this.highlightEvidence(span)
+      })
       this.ui.render()
       console.log('ReplySage: UI initialized')
     } catch (error) {
@@ -52,83 +73,138 @@ class ReplySageContentScript {
     }
   }
 
-  private setupMessageChangeDetection() {
-    // Use MutationObserver to detect when user opens a new email
-    const observer = new MutationObserver((mutations) => {
-      mutations.forEach((mutation) => {
-        if (mutation.type === 'childList' || mutation.type === 'attributes') {
-          this.handleMessageChange()
-        }
-      })
-    })
+  private highlightEvidence(span: SourceSpan | null) {
+    const body = span && this.adapter?.locateMessageBody()
+    if (span && body) {
+      EvidenceHighlighter.show(body, span)
+    } else {
+      EvidenceHighlighter.clear()
+    }
+  }
 
-    // Observe changes to the main content area
-    const contentArea = document.querySelector('[role="main"]') || document.body
-    observer.observe(contentArea, {
-      childList: true,
-      subtree: true,
-      attributes: true,
-      attributeFilter: ['class', 'data-thread-perm-id']
-    })
+    private async loadSettings(): Promise<void> {
+    const response = await BackgroundClient.send('GET_SETTINGS')
+    if (response.success) {
+      this.settings = response.settings
+    } else {
+      console.error('ReplySage: Failed to load settings:', response.error)
+    }
 
-    // Also listen for URL changes (back/forward navigation)
-    let lastUrl = location.href
-    new MutationObserver(() => {
-      const url = location.href
-      if (url !== lastUrl) {
-        lastUrl = url
-        this.handleMessageChange()
+    chrome.storage.onChanged.addListener((changes, areaName) => {
+      if (areaName === 'local' && changes.replysage_settings) {
+        this.settings = changes.replysage_settings.newValue || {}
       }
-    }).observe(document, { subtree: true, childList: true })
+    })
+  }
+
+  private setupMessageChangeDetection() {
+    // Let the client adapter tell us when the user opens a new email
+    this.adapter?.detectNavigation(() => this.handleMessageChange())
   }
 
   private async handleMessageChange() {
     try {
-      const message = GmailExtractor.extractMessage()
+      const extracted = this.adapter?.extractMessage() || null
+      const message = extracted && BodySegmenter.applyTo(extracted)
+
+      if (this.settings.enableSelectorDiagnostics && (message ? this.isNewMessage(message) : this.adapter?.isMessageOpen())) {
+        await this.recordSelectorHealth()
+      }
+
+      if (this.settings.enableInboxTriage && !this.adapter?.isMessageOpen()) {
+        await this.triageInboxRows()
+      }
       
       if (message && this.isNewMessage(message)) {
         console.log('ReplySage: New message detected:', message.subject)
         this.currentMessage = message
         
-        // Send message to background script for analysis
-        await this.sendMessageForAnalysis(message)
-        
         // Update UI with new message
         if (this.ui) {
           this.ui.updateMessage(message)
         }
+
+        // Results stream into the sidebar as each stage finishes
+        this.sendMessageForAnalysis(message)
       }
     } catch (error) {
       console.error('ReplySage: Error handling message change:', error)
     }
   }
 
+  /** Badges the visible inbox rows whose content changed since they were last badged */
+  private async triageInboxRows() {
+    if (!this.adapter || this.isTriagingInbox) return
+
+    const handles = this.adapter.listInboxRows().filter(handle => !InboxBadges.isCurrent(handle))
+    if (handles.length === 0) return
+
+    this.isTriagingInbox = true
+    try {
+      const response = await BackgroundClient.send('TRIAGE_INBOX_ROWS', {
+        client: this.adapter.id,
+        rows: handles.map(handle => handle.row)
+      })
+
+      if (response.success) {
+        const results = new Map<string, InboxTriage>(response.results.map(triage => [triage.threadId, triage]))
+        handles.forEach(handle => {
+          const triage = results.get(handle.row.threadId)
+          if (triage) {
+            InboxBadges.apply(handle, triage)
+          }
+        })
+      }
+    } catch (error) {
+      console.error('ReplySage: Failed to triage inbox rows:', error)
+    } finally {
+      this.isTriagingInbox = false
+    }
+  }
+
+  /** Reports selector health whenever the set of matching selectors changes */
+  private async recordSelectorHealth() {
+    if (!this.adapter) return
+
+    const report = SelectorDiagnostics.check(this.adapter)
+    const signature = report.checks.map(check => check.status).join(',')
+    if (signature === this.lastHealthSignature) return
+    this.lastHealthSignature = signature
+
+    const problems = SelectorDiagnostics.describeProblems(report)
+    if (problems.length > 0) {
+      console.warn('ReplySage: Selector problems detected:', problems)
+    }
+
+    const response = await BackgroundClient.send('REPORT_SELECTOR_HEALTH', report)
+    if (!response.success) {
+      console.error('ReplySage: Failed to report selector health:', response.error)
+    }
+  }
+
   private isNewMessage(message: EmailMessage): boolean {
     return !this.currentMessage || this.currentMessage.id !== message.id
   }
 
-  private async sendMessageForAnalysis(message: EmailMessage) {
+  private sendMessageForAnalysis(message: EmailMessage) {
     try {
-      const response = await chrome.runtime.sendMessage({
-        type: 'ANALYZE_MESSAGE',
-        payload: message
-      })
-      
-      if (response && response.success) {
-        console.log('ReplySage: Message analysis completed')
-        if (this.ui) {
-          this.ui.updateAnalysis(response.result)
+      this.analysisStream.start(message, state => {
+        if (!this.ui) return
+        this.ui.updateStream(state)
+        if (state.status === 'complete') {
+          console.log('ReplySage: Message analysis completed')
+          this.ui.updateAnalysis(state.analysis)
         }
-      }
+      })
     } catch (error) {
       console.error('ReplySage: Failed to send message for analysis:', error)
     }
   }
 
   // Public method to trigger analysis manually
-  public async analyzeCurrentMessage() {
+  public analyzeCurrentMessage() {
     if (this.currentMessage) {
-      await this.sendMessageForAnalysis(this.currentMessage)
+      this.sendMessageForAnalysis(this.currentMessage)
     }
   }
 
@@ -136,6 +212,26 @@ class ReplySageContentScript {
   public getCurrentMessage(): EmailMessage | null {
     return this.currentMessage
   }
+
+  // Public method to capture a redacted DOM snapshot for selector regression tests
+  public captureSnapshot(): DomSnapshot | null {
+    return this.adapter ? SelectorDiagnostics.captureSnapshot(this.adapter) : null
+  }
+
+  // Public method to list the visible inbox rows for batch analysis, in inbox order
+  public listInboxRows(): { client: string; rows: InboxRow[]; account: string | null } | null {
+    if (!this.adapter) return null
+    return {
+      client: this.adapter.id,
+      rows: this.adapter.listInboxRows().map(handle => handle.row),
+      account: this.adapter.getAccountAddress()
+    }
+  }
+
+  // Public method to insert text into the client's compose area
+  public insertReply(text: string, position: InsertPosition = 'cursor'): boolean {
+    return this.adapter?.insertText(text, position) || false
+  }
 }
 
 // Initialize the content script
@@ -151,6 +247,15 @@ chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
     sendResponse({ success: true })
   } else if (message.type === 'GET_CURRENT_MESSAGE') {
     sendResponse({ message: replySage.getCurrentMessage() })
+  } else if (message.type === 'LIST_INBOX_ROWS') {
+    const inbox = replySage.listInboxRows()
+    sendResponse(inbox ? { success: true, ...inbox } : { success: false, error: 'No mail client on this page' })
+  } else if (message.type === 'CAPTURE_DOM_SNAPSHOT') {
+    const snapshot = replySage.captureSnapshot()
+    sendResponse(snapshot ? { success: true, snapshot } : { success: false, error: 'No mail client on this page' })
+  } else if (message.type === 'INSERT_REPLY') {
+    const position = message.payload.method === 'replace' ? 'replace' : 'cursor'
+    sendResponse({ success: replySage.insertReply(message.payload.reply, position) })
   } else if (message.type === 'MODEL_DOWNLOAD_PROGRESS') {
     // Handle model download progress updates
     console.log(`ReplySage: Model download progress - ${message.payload.assetName}: ${message.payload.progress}%`)
@@ -0,0 +1,90 @@
+import { SourceSpan } from '@/types'
+
+/**
+ * Highlights the sentence an extracted item was grounded in, inside the
+ * open message. Span offsets are into the extracted plain text, which
+ * doesn't line up with the client's DOM, so the sentence is found again by
+ * its text. The Custom Highlight API leaves the client's markup untouched;
+ * where it is missing the text is selected instead.
+ */
+export class EvidenceHighlighter {
+  private static readonly HIGHLIGHT_NAME = 'replysage-evidence'
+  // Enough of a sentence to find it when link URLs or list markers changed its tail
+  private static readonly PREFIX_LENGTH = 40
+  private static selected: Range | null = null
+
+  static show(root: HTMLElement, span: SourceSpan): boolean {
+    this.clear()
+
+    const range = this.findRange(root, span.text)
+    if (!range) {
+      return false
+    }
+
+    if (typeof CSS !== 'undefined' && CSS.highlights && typeof Highlight !== 'undefined') {
+      CSS.highlights.set(this.HIGHLIGHT_NAME, new Highlight(range))
+    } else {
+      const selection = window.getSelection()
+      selection?.removeAllRanges()
+      selection?.addRange(range)
+      this.selected = range
+    }
+
+    range.startContainer.parentElement?.scrollIntoView({ block: 'nearest', behavior: 'smooth' })
+    return true
+  }
+
+  static clear(): void {
+    if (typeof CSS !== 'undefined' && CSS.highlights) {
+      CSS.highlights.delete(this.HIGHLIGHT_NAME)
+    }
+
+    // Only drop the selection if it is still the one we made
+    const selection = window.getSelection()
+    if (this.selected && selection?.rangeCount && selection.getRangeAt(0) === this.selected) {
+      selection.removeAllRanges()
+    }
+    this.selected = null
+  }
+
+  /**
+   * Finds `text` in the text nodes under `root`, ignoring case and
+   * whitespace, since the body extractor collapses and inserts whitespace
+   * at element boundaries.
+   */
+  static findRange(root: HTMLElement, text: string): Range | null {
+    const positions: { node: Text; offset: number }[] = []
+    let content = ''
+
+    const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT)
+    for (let node = walker.nextNode() as Text | null; node; node = walker.nextNode() as Text | null) {
+      for (let offset = 0; offset < node.data.length; offset++) {
+        if (/\s/.test(node.data[offset])) continue
+        content += node.data[offset].toLowerCase()
+        positions.push({ node, offset })
+      }
+    }
+
+    const needle = text.replace(/\s+/g, '').toLowerCase()
+    if (!needle) {
+      return null
+    }
+
+    let start = content.indexOf(needle)
+    let length = needle.length
+    if (start === -1 && needle.length > this.PREFIX_LENGTH) {
+      length = this.PREFIX_LENGTH
+      start = content.indexOf(needle.slice(0, length))
+    }
+    if (start === -1) {
+      return null
+    }
+
+    const first = positions[start]
+    const last = positions[start + length - 1]
+    const range = document.createRange()
+    range.setStart(first.node, first.offset)
+    range.setEnd(last.node, last.offset + 1)
+    return range
+  }
+}
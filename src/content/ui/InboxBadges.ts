@@ -0,0 +1,61 @@
+import { InboxTriage } from '@/types'
+import { InboxRowHandle } from '@/utils/mail-clients/adapter'
+
+const PRIORITY_LABELS: Record<InboxTriage['priority'], string> = {
+  high: 'Urgent',
+  medium: 'Important',
+  low: ''
+}
+
+/**
+ * Small triage badges placed after the subject of inbox rows. Each row is
+ * stamped with the fingerprint it was badged for, so re-rendering on every
+ * DOM mutation is a no-op until the row's content changes.
+ */
+export class InboxBadges {
+  private static readonly CONTAINER_CLASS = 'replysage-triage-badges'
+  private static readonly FINGERPRINT_ATTRIBUTE = 'data-replysage-triage'
+
+  static isCurrent(handle: InboxRowHandle): boolean {
+    return handle.element.getAttribute(this.FINGERPRINT_ATTRIBUTE) === handle.row.fingerprint
+  }
+
+  static apply(handle: InboxRowHandle, triage: InboxTriage): void {
+    handle.element.querySelectorAll(`.${this.CONTAINER_CLASS}`).forEach(el => el.remove())
+    handle.element.setAttribute(this.FINGERPRINT_ATTRIBUTE, triage.fingerprint)
+
+    const badges = this.describe(triage)
+    if (badges.length === 0) {
+      return
+    }
+
+    const container = document.createElement('span')
+    container.className = this.CONTAINER_CLASS
+    badges.forEach(({ label, variant }) => {
+      const badge = document.createElement('span')
+      badge.className = `replysage-triage-badge ${variant}`
+      badge.textContent = label
+      container.appendChild(badge)
+    })
+    handle.badgeAnchor.after(container)
+  }
+
+  /** Priority, deadline and the most specific category, omitting the uninformative ones */
+  static describe(triage: InboxTriage): { label: string; variant: string }[] {
+    const badges: { label: string; variant: string }[] = []
+
+    if (PRIORITY_LABELS[triage.priority]) {
+      badges.push({ label: PRIORITY_LABELS[triage.priority], variant: `priority-${triage.priority}` })
+    }
+    if (triage.hasDeadline) {
+      badges.push({ label: 'Deadline', variant: 'deadline' })
+    }
+
+    const category = triage.categories.find(category => category !== 'general' && category !== 'deadline')
+    if (category) {
+      badges.push({ label: category.charAt(0).toUpperCase() + category.slice(1), variant: 'category' })
+    }
+
+    return badges
+  }
+}
@@ -1,20 +1,89 @@
 import React, { useState, useEffect } from 'react'
 import { createRoot } from 'react-dom/client'
-import { EmailMessage, AnalysisResult, ActionItem, ExtractedDate, SuggestedReply, SearchQuery, SimilarityResult, EmailThread, ThreadSummary, ThreadChunk } from '@/types'
+import { EmailMessage, AnalysisResult, ActionItem, ExtractedDate, SuggestedReply, SearchQuery, SimilarityResult, EmailThread, ThreadSummary, ThreadChunk, ThreadChanges, BodySegmentType, AttachmentAnalysisStatus, AnalysisSource, AnalysisStageName, AnalysisStreamState, ModelLoadProgress, SourceSpan, CategoryScore, UserCategory } from '@/types'
 import { HelpModal } from '@/components/HelpModal'
 import { ActionItemsPanel } from '@/components/ActionItemsPanel'
 import { SuggestedRepliesPanel } from '@/components/SuggestedRepliesPanel'
 import { SemanticSearchPanel } from '@/components/SemanticSearchPanel'
 import { ThreadSummaryPanel } from '@/components/ThreadSummaryPanel'
+import { BackgroundClient } from '@/utils/messages'
+import { LanguagePacks } from '@/utils/language-packs'
+import { ReplyGenerationRequest } from '@/utils/reply-generator'
 
 interface ReplySageUIProps {
   message?: EmailMessage
   analysis?: AnalysisResult
+  stream?: AnalysisStreamState
+  onAnalyze?: () => void
+  onCancel?: () => void
+  onHighlightEvidence?: (span: SourceSpan | null) => void
 }
 
-const ReplySageUI: React.FC<ReplySageUIProps> = ({ message, analysis }) => {
+export interface ReplySageUIHandlers {
+  onAnalyze: () => void
+  onCancel: () => void
+  onHighlightEvidence: (span: SourceSpan | null) => void
+}
+
+const SEGMENT_LABELS: Record<BodySegmentType, string> = {
+  new: 'New content',
+  quoted: 'Quoted history',
+  signature: 'Signature',
+  disclaimer: 'Disclaimer'
+}
+
+const ATTACHMENT_STATUS_LABELS: Record<Exclude<AttachmentAnalysisStatus, 'analyzed'>, string> = {
+  unsupported: 'Format not supported',
+  too_large: 'Too large to analyze',
+  unavailable: 'Could not be downloaded',
+  failed: 'Could not be read'
+}
+
+const SOURCE_LABELS: Record<AnalysisSource, string> = {
+  local: 'On-device model',
+  cloud: 'Cloud',
+  remote: 'Self-hosted',
+  heuristic: 'Heuristic',
+  minimal: 'Default'
+}
+
+const STAGE_LABELS: Record<AnalysisStageName, string> = {
+  summary: 'Summary',
+  sentiment: 'Sentiment',
+  actions: 'Action items',
+  dates: 'Dates',
+  replies: 'Replies',
+  grammar: 'Grammar',
+  categories: 'Categories'
+}
+
+const MODEL_STATUS_LABELS: Record<ModelLoadProgress['status'], string> = {
+  initiate: 'Loading',
+  download: 'Downloading',
+  progress: 'Downloading',
+  done: 'Loaded',
+  ready: 'Loaded'
+}
+
+/** Where one field of the analysis came from, e.g. "Heuristic · extractive-summary" */
+const ProvenanceTag: React.FC<{ analysis: AnalysisResult; stage: AnalysisStageName }> = ({ analysis, stage }) => {
+  const provenance = analysis.provenance?.[stage]
+  if (!provenance) return null
+
+  const failed = provenance.failures.map(failure => `${failure.producer}: ${failure.error}`).join('\n')
+  return (
+    <span className={`provenance-tag source-${provenance.source}`} title={failed || undefined}>
+      {SOURCE_LABELS[provenance.source]} · {provenance.producer}
+    </span>
+  )
+}
+
+/** Analyses cached before categories were scored only carry the labels */
+const scoredCategories = (analysis: AnalysisResult): CategoryScore[] =>
+  analysis.categoryScores || analysis.categories.map(label => ({ label }))
+
+const ReplySageUI: React.FC<ReplySageUIProps> = ({ message, analysis, stream, onAnalyze, onCancel, onHighlightEvidence }) => {
   const [isVisible, setIsVisible] = useState(false)
-  const [isAnalyzing, setIsAnalyzing] = useState(false)
   const [showHelp, setShowHelp] = useState(false)
   const [actionItems, setActionItems] = useState<ActionItem[]>([])
   const [extractedDates, setExtractedDates] = useState<ExtractedDate[]>([])
@@ -24,7 +93,10 @@ const ReplySageUI: React.FC<ReplySageUIProps> = ({ message, analysis }) => {
   const [currentThread, setCurrentThread] = useState<EmailThread | null>(null)
   const [threadSummary, setThreadSummary] = useState<ThreadSummary | null>(null)
   const [threadChunks, setThreadChunks] = useState<ThreadChunk[]>([])
+  const [threadChanges, setThreadChanges] = useState<ThreadChanges | null>(null)
   const [isGeneratingThread, setIsGeneratingThread] = useState(false)
+  const [categories, setCategories] = useState<CategoryScore[]>([])
+  const [userCategories, setUserCategories] = useState<UserCategory[]>([])
 
   useEffect(() => {
     if (message) {
@@ -32,12 +104,24 @@ const ReplySageUI: React.FC<ReplySageUIProps> = ({ message, analysis }) => {
     }
   }, [message])
 
+  useEffect(() => {
+    BackgroundClient.send('GET_SETTINGS').then(response => {
+      if (response.success) {
+        setUserCategories(response.settings.userCategories || [])
+      }
+    })
+  }, [])
+
   useEffect(() => {
     if (analysis) {
       console.log('ReplySage: Analysis received:', analysis)
       setActionItems(analysis.actionItems || [])
-      setExtractedDates(analysis.extractedDates || [])
+      setExtractedDates([
+        ...(analysis.extractedDates || []),
+        ...(analysis.attachments || []).flatMap(attachment => attachment.extractedDates)
+      ])
       setSuggestedReplies(analysis.suggestedReplies || [])
+      setCategories(scoredCategories(analysis))
       
       // Generate embedding for semantic search
       if (message) {
@@ -54,24 +138,12 @@ const ReplySageUI: React.FC<ReplySageUIProps> = ({ message, analysis }) => {
     }
   }, [analysis, message])
 
-  const handleAnalyze = async () => {
-    setIsAnalyzing(true)
-    try {
-      // Send message to background script for analysis
-      const response = await chrome.runtime.sendMessage({
-        type: 'ANALYZE_MESSAGE',
-        payload: message
-      })
-      
-      if (response && response.success) {
-        // Analysis completed, UI will be updated via props
-        console.log('ReplySage: Analysis completed')
-      }
-    } catch (error) {
-      console.error('ReplySage: Analysis failed:', error)
-    } finally {
-      setIsAnalyzing(false)
-    }
+  const isAnalyzing = stream?.status === 'streaming'
+  // Fields arrive one stage at a time; the settled result replaces them when done
+  const shownAnalysis = analysis || (isAnalyzing ? stream.analysis : undefined)
+
+  const handleAnalyze = () => {
+    onAnalyze?.()
   }
 
   const handleClose = () => {
@@ -100,15 +172,26 @@ const ReplySageUI: React.FC<ReplySageUIProps> = ({ message, analysis }) => {
     setActionItems(prev => prev.filter(action => action.text !== actionId))
   }
 
+  // Corrections go to the classifier so similar emails follow them
+  const handleCorrectCategory = async (label: string, belongs: boolean) => {
+    if (!message) return
+    const response = await BackgroundClient.send('CORRECT_CATEGORY', { message, label, belongs })
+    if (!response.success) {
+      console.error('ReplySage: Failed to correct category:', response.error)
+      return
+    }
+    setCategories(prev => {
+      const others = prev.filter(category => category.label !== label)
+      return belongs ? [{ label }, ...others] : others
+    })
+  }
+
   const handleAddToCalendar = async (action: ActionItem) => {
     try {
-      const response = await chrome.runtime.sendMessage({
-        type: 'CREATE_CALENDAR_EVENT',
-        payload: {
-          action,
-          title: action.text,
-          description: `Action item: ${action.text}\nCategory: ${action.category}\nPriority: ${action.priority}`
-        }
+      const response = await BackgroundClient.send('CREATE_CALENDAR_EVENT', {
+        action,
+        title: action.text,
+        description: `Action item: ${action.text}\nCategory: ${action.category}\nPriority: ${action.priority}`
       })
       
       if (response.success) {
@@ -123,13 +206,10 @@ const ReplySageUI: React.FC<ReplySageUIProps> = ({ message, analysis }) => {
 
   const handleAddDateToCalendar = async (date: ExtractedDate) => {
     try {
-      const response = await chrome.runtime.sendMessage({
-        type: 'CREATE_CALENDAR_EVENT',
-        payload: {
-          date,
-          title: `Important Date: ${date.text}`,
-          description: `Date: ${date.text}\nType: ${date.type}`
-        }
+      const response = await BackgroundClient.send('CREATE_CALENDAR_EVENT', {
+        date,
+        title: `Important Date: ${date.text}`,
+        description: `Date: ${date.text}\nType: ${date.type}`
       })
       
       if (response.success) {
@@ -142,22 +222,19 @@ const ReplySageUI: React.FC<ReplySageUIProps> = ({ message, analysis }) => {
     }
   }
 
-  const handleGenerateReplies = async (replyType: string, tone: string, length: string) => {
+  const handleGenerateReplies = async (replyType: ReplyGenerationRequest['replyType'], tone: ReplyGenerationRequest['tone'], length: ReplyGenerationRequest['length']) => {
     if (!message) return
     
     setIsGeneratingReplies(true)
     try {
-      const response = await chrome.runtime.sendMessage({
-        type: 'GENERATE_REPLIES',
-        payload: {
-          message,
-          replyType,
-          tone,
-          length
-        }
+      const response = await BackgroundClient.send('GENERATE_REPLIES', {
+        message,
+        replyType,
+        tone,
+        length
       })
       
-      if (response.success && response.result) {
+      if (response.success) {
         setSuggestedReplies(response.result.replies || [])
         console.log('ReplySage: Replies generated successfully')
       } else {
@@ -178,12 +255,9 @@ const ReplySageUI: React.FC<ReplySageUIProps> = ({ message, analysis }) => {
   const handleSemanticSearch = async (query: SearchQuery): Promise<SimilarityResult[]> => {
     setIsSearching(true)
     try {
-      const response = await chrome.runtime.sendMessage({
-        type: 'SEARCH_SIMILAR',
-        payload: query
-      })
+      const response = await BackgroundClient.send('SEARCH_SIMILAR', { ...query, query: query.text })
       
-      if (response.success && response.result) {
+      if (response.success) {
         console.log('ReplySage: Semantic search completed')
         return response.result.results || []
       } else {
@@ -207,14 +281,11 @@ const ReplySageUI: React.FC<ReplySageUIProps> = ({ message, analysis }) => {
 
   const handleGenerateEmbedding = async (message: EmailMessage, text: string, category?: string, priority?: string) => {
     try {
-      const response = await chrome.runtime.sendMessage({
-        type: 'GENERATE_EMBEDDING',
-        payload: {
-          message,
-          text,
-          category,
-          priority
-        }
+      const response = await BackgroundClient.send('GENERATE_EMBEDDING', {
+        message,
+        text,
+        category,
+        priority
       })
       
       if (response.success) {
@@ -229,16 +300,15 @@ const ReplySageUI: React.FC<ReplySageUIProps> = ({ message, analysis }) => {
 
   const handleFetchThread = async (threadId: string) => {
     try {
-      const response = await chrome.runtime.sendMessage({
-        type: 'FETCH_THREAD',
-        payload: { threadId }
-      })
+      const response = await BackgroundClient.send('FETCH_THREAD', { threadId })
       
       if (response.success && response.thread) {
         setCurrentThread(response.thread)
         console.log('ReplySage: Thread fetched successfully')
+        // Only replies that arrived since the last visit get analyzed
+        await handleGenerateThreadSummary(response.thread)
       } else {
-        console.error('ReplySage: Failed to fetch thread:', response.error)
+        console.error('ReplySage: Failed to fetch thread:', response.success ? 'Thread not found' : response.error)
       }
     } catch (error) {
       console.error('ReplySage: Thread fetching failed:', error)
@@ -248,13 +318,11 @@ const ReplySageUI: React.FC<ReplySageUIProps> = ({ message, analysis }) => {
   const handleGenerateThreadSummary = async (thread: EmailThread): Promise<ThreadSummary> => {
     setIsGeneratingThread(true)
     try {
-      const response = await chrome.runtime.sendMessage({
-        type: 'SUMMARIZE_THREAD',
-        payload: { thread }
-      })
+      const response = await BackgroundClient.send('ANALYZE_THREAD', { thread })
       
-      if (response.success && response.summary) {
+      if (response.success) {
         setThreadSummary(response.summary)
+        setThreadChanges(response.changes)
         console.log('ReplySage: Thread summary generated successfully')
         return response.summary
       } else {
@@ -269,15 +337,20 @@ const ReplySageUI: React.FC<ReplySageUIProps> = ({ message, analysis }) => {
     }
   }
 
+  const handleDismissThreadChanges = async (threadId: string) => {
+    setThreadChanges(null)
+    const response = await BackgroundClient.send('MARK_THREAD_SEEN', { threadId })
+    if (!response.success) {
+      console.error('ReplySage: Failed to mark thread seen:', response.error)
+    }
+  }
+
   const handleGenerateThreadChunks = async (thread: EmailThread): Promise<ThreadChunk[]> => {
     setIsGeneratingThread(true)
     try {
-      const response = await chrome.runtime.sendMessage({
-        type: 'CHUNK_THREAD',
-        payload: { thread, maxChunkSize: 5 }
-      })
+      const response = await BackgroundClient.send('CHUNK_THREAD', { thread, maxChunkSize: 5 })
       
-      if (response.success && response.chunks) {
+      if (response.success) {
         setThreadChunks(response.chunks)
         console.log('ReplySage: Thread chunks generated successfully')
         return response.chunks
@@ -295,6 +368,9 @@ const ReplySageUI: React.FC<ReplySageUIProps> = ({ message, analysis }) => {
 
   if (!isVisible) return null
 
+  // Quoted history, signatures and disclaimers are kept out of the analysis
+  const ignoredSegments = message?.segments?.filter(segment => segment.type !== 'new') || []
+
   return (
     <div className="replysage-sidebar">
       <div className="replysage-header">
@@ -316,6 +392,17 @@ const ReplySageUI: React.FC<ReplySageUIProps> = ({ message, analysis }) => {
             {message.attachments.length > 0 && (
               <p><strong>Attachments:</strong> {message.attachments.length}</p>
             )}
+            {ignoredSegments.length > 0 && (
+              <details className="replysage-segments">
+                <summary>Not analyzed: {ignoredSegments.map(segment => SEGMENT_LABELS[segment.type]).join(', ')}</summary>
+                {ignoredSegments.map((segment, index) => (
+                  <div key={index} className={`replysage-segment segment-${segment.type}`}>
+                    <span className="segment-type">{SEGMENT_LABELS[segment.type]}</span>
+                    <pre>{segment.text}</pre>
+                  </div>
+                ))}
+              </details>
+            )}
           </div>
         )}
 
@@ -329,18 +416,118 @@ const ReplySageUI: React.FC<ReplySageUIProps> = ({ message, analysis }) => {
           </button>
         </div>
 
-        {analysis && (
+        {isAnalyzing && (
+          <div className="replysage-progress">
+            <div className="progress-header">
+              <span>
+                {stream.currentStage
+                  ? `${STAGE_LABELS[stream.currentStage]} (${stream.completedStages + 1}/${stream.totalStages})`
+                  : 'Preparing...'}
+              </span>
+              <button onClick={onCancel} className="replysage-cancel-btn">Cancel</button>
+            </div>
+            <progress value={stream.completedStages} max={stream.totalStages} />
+            {stream.modelProgress && (
+              <div className="model-progress">
+                {MODEL_STATUS_LABELS[stream.modelProgress.status]} {stream.modelProgress.model} model
+                {stream.modelProgress.progress !== undefined && `: ${Math.round(stream.modelProgress.progress)}%`}
+              </div>
+            )}
+          </div>
+        )}
+
+        {stream?.status === 'cancelled' && !analysis && (
+          <p className="replysage-stream-status">Analysis cancelled</p>
+        )}
+
+        {stream?.status === 'error' && (
+          <p className="replysage-stream-status error">Analysis failed: {stream.error}</p>
+        )}
+
+        {shownAnalysis && (
           <div className="replysage-results">
             <div className="replysage-summary">
-              <h4>Summary</h4>
-              <p>{analysis.summary}</p>
+              <h4>
+                Summary <ProvenanceTag analysis={shownAnalysis} stage="summary" />
+                {shownAnalysis.language && shownAnalysis.language !== 'en' && (
+                  <span className="language-tag">{LanguagePacks.get(shownAnalysis.language).name}</span>
+                )}
+              </h4>
+              {shownAnalysis.summaryGrounding ? (
+                <p>
+                  {shownAnalysis.summaryGrounding.map((sentence, index) => (
+                    <span
+                      key={index}
+                      className={`summary-sentence ${sentence.span ? 'grounded' : ''} ${sentence.verified ? '' : 'unverified'}`}
+                      title={sentence.note}
+                      onMouseEnter={() => sentence.span && onHighlightEvidence?.(sentence.span)}
+                      onMouseLeave={() => sentence.span && onHighlightEvidence?.(null)}
+                    >
+                      {sentence.sentence}{' '}
+                    </span>
+                  ))}
+                </p>
+              ) : (
+                <p>{shownAnalysis.summary}</p>
+              )}
+            </div>
+
+            <div className="replysage-categories">
+              <h4>Categories <ProvenanceTag analysis={shownAnalysis} stage="categories" /></h4>
+              <div className="category-chips">
+                {(analysis ? categories : scoredCategories(shownAnalysis)).map(category => (
+                  <span key={category.label} className="category-chip">
+                    {category.label}
+                    {category.score !== undefined && <span className="category-score">{Math.round(category.score * 100)}%</span>}
+                    {analysis && userCategories.some(userCategory => userCategory.label === category.label) && (
+                      <button
+                        className="category-remove"
+                        title={`Not ${category.label}`}
+                        onClick={() => handleCorrectCategory(category.label, false)}
+                      >
+                        ×
+                      </button>
+                    )}
+                  </span>
+                ))}
+                {analysis && userCategories.some(userCategory => !categories.some(category => category.label === userCategory.label)) && (
+                  <select
+                    className="category-add"
+                    value=""
+                    onChange={(e) => e.target.value && handleCorrectCategory(e.target.value, true)}
+                  >
+                    <option value="">Move to…</option>
+                    {userCategories
+                      .filter(userCategory => !categories.some(category => category.label === userCategory.label))
+                      .map(userCategory => (
+                        <option key={userCategory.label} value={userCategory.label} title={userCategory.description}>
+                          {userCategory.label}
+                        </option>
+                      ))}
+                  </select>
+                )}
+              </div>
             </div>
 
-            {analysis.actionItems.length > 0 && (
+            {shownAnalysis.attachments && shownAnalysis.attachments.length > 0 && (
+              <div className="replysage-attachments">
+                <h4>Attachments</h4>
+                <ul>
+                  {shownAnalysis.attachments.map((attachment, index) => (
+                    <li key={index} className={`attachment-${attachment.status}`}>
+                      <strong>{attachment.name}</strong>
+                      <p>{attachment.status === 'analyzed' ? attachment.summary : ATTACHMENT_STATUS_LABELS[attachment.status]}</p>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {shownAnalysis.actionItems.length > 0 && (
               <div className="replysage-action-items">
-                <h4>Action Items</h4>
+                <h4>Action Items <ProvenanceTag analysis={shownAnalysis} stage="actions" /></h4>
                 <ul>
-                  {analysis.actionItems.map((item, index) => (
+                  {shownAnalysis.actionItems.map((item, index) => (
                     <li key={index} className={`priority-${item.priority}`}>
                       {item.text}
                       {item.dueDate && (
@@ -354,10 +541,10 @@ const ReplySageUI: React.FC<ReplySageUIProps> = ({ message, analysis }) => {
               </div>
             )}
 
-            {analysis.suggestedReplies.length > 0 && (
+            {shownAnalysis.suggestedReplies.length > 0 && (
               <div className="replysage-suggested-replies">
-                <h4>Suggested Replies</h4>
-                {analysis.suggestedReplies.map((reply, index) => (
+                <h4>Suggested Replies <ProvenanceTag analysis={shownAnalysis} stage="replies" /></h4>
+                {shownAnalysis.suggestedReplies.map((reply, index) => (
                   <div key={index} className="reply-option">
                     <div className="reply-header">
                       <span className="tone">{reply.tone}</span>
@@ -370,11 +557,11 @@ const ReplySageUI: React.FC<ReplySageUIProps> = ({ message, analysis }) => {
               </div>
             )}
 
-            {analysis.grammarIssues.length > 0 && (
+            {shownAnalysis.grammarIssues.length > 0 && (
               <div className="replysage-grammar">
-                <h4>Grammar Suggestions</h4>
+                <h4>Grammar Suggestions <ProvenanceTag analysis={shownAnalysis} stage="grammar" /></h4>
                 <ul>
-                  {analysis.grammarIssues.map((issue, index) => (
+                  {shownAnalysis.grammarIssues.map((issue, index) => (
                     <li key={index} className={`severity-${issue.severity}`}>
                       <strong>{issue.text}</strong> → {issue.suggestion}
                     </li>
@@ -382,6 +569,27 @@ const ReplySageUI: React.FC<ReplySageUIProps> = ({ message, analysis }) => {
                 </ul>
               </div>
             )}
+
+            {shownAnalysis.provenance && (
+              <details className="replysage-provenance">
+                <summary>Sources</summary>
+                <ul>
+                  {(Object.keys(STAGE_LABELS) as AnalysisStageName[])
+                    .filter(stage => shownAnalysis.provenance?.[stage])
+                    .map(stage => (
+                      <li key={stage}>
+                        <span className="stage-name">{STAGE_LABELS[stage]}</span>
+                        <ProvenanceTag analysis={shownAnalysis} stage={stage} />
+                        {shownAnalysis.provenance![stage]!.failures.length > 0 && (
+                          <span className="stage-fallbacks">
+                            after {shownAnalysis.provenance![stage]!.failures.map(failure => failure.producer).join(', ')} failed
+                          </span>
+                        )}
+                      </li>
+                    ))}
+                </ul>
+              </details>
+            )}
           </div>
         )}
 
@@ -395,6 +603,7 @@ const ReplySageUI: React.FC<ReplySageUIProps> = ({ message, analysis }) => {
             onActionDelete={handleActionDelete}
             onAddToCalendar={handleAddToCalendar}
             onAddDateToCalendar={handleAddDateToCalendar}
+            onHighlightEvidence={onHighlightEvidence}
           />
         )}
 
@@ -421,6 +630,8 @@ const ReplySageUI: React.FC<ReplySageUIProps> = ({ message, analysis }) => {
           thread={currentThread}
           summary={threadSummary}
           chunks={threadChunks}
+          changes={threadChanges}
+          onDismissChanges={handleDismissThreadChanges}
           onGenerateSummary={handleGenerateThreadSummary}
           onGenerateChunks={handleGenerateThreadChunks}
           isGenerating={isGeneratingThread}
@@ -437,8 +648,11 @@ export class ReplySageUIManager {
   private root: any = null
   private currentMessage: EmailMessage | null = null
   private currentAnalysis: AnalysisResult | null = null
+  private currentStream: AnalysisStreamState | null = null
+  private handlers: ReplySageUIHandlers | null
 
-  constructor() {
+  constructor(handlers?: ReplySageUIHandlers) {
+    this.handlers = handlers || null
     this.createContainer()
   }
 
@@ -463,6 +677,10 @@ export class ReplySageUIManager {
       <ReplySageUI 
         message={this.currentMessage || undefined}
         analysis={this.currentAnalysis || undefined}
+        stream={this.currentStream || undefined}
+        onAnalyze={this.handlers?.onAnalyze}
+        onCancel={this.handlers?.onCancel}
+        onHighlightEvidence={this.handlers?.onHighlightEvidence}
       />
     )
   }
@@ -472,6 +690,15 @@ export class ReplySageUIManager {
     this.render()
   }
 
+  public updateStream(stream: AnalysisStreamState) {
+    // A new run replaces the previous result as its fields arrive
+    if (stream.status === 'streaming') {
+      this.currentAnalysis = null
+    }
+    this.currentStream = stream
+    this.render()
+  }
+
   public updateAnalysis(analysis: AnalysisResult) {
     this.currentAnalysis = analysis
     this.render()
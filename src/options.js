@@ -1,7 +1,13 @@
 // Options page JavaScript
+import { BackgroundClient } from './utils/messages'
+
+const MBOX_BATCH_BYTES = 2 * 1024 * 1024
+
 class ReplySageOptions {
   constructor() {
     this.settings = null
+    this.mboxFile = null
+    this.mboxImportRunning = false
     this.init()
   }
 
@@ -9,11 +15,13 @@ class ReplySageOptions {
     await this.loadSettings()
     this.setupEventListeners()
     this.updateUI()
+    this.loadSelectorHealth()
+    this.loadJobQueue()
   }
 
   async loadSettings() {
     try {
-      const response = await chrome.runtime.sendMessage({ type: 'GET_SETTINGS' })
+      const response = await BackgroundClient.send('GET_SETTINGS')
       this.settings = response.settings
     } catch (error) {
       console.error('ReplySage: Failed to load settings:', error)
@@ -31,7 +39,20 @@ class ReplySageOptions {
       preferredTone: 'casual',
       maxSummaryLength: 200,
       enableThreadAnalysis: false,
-      enableSimilaritySearch: false
+      enableSimilaritySearch: false,
+      enableAttachmentAnalysis: true,
+      enableSelectorDiagnostics: false,
+      enableInboxTriage: true,
+      userCategories: [
+        { label: 'customer', description: 'Questions, feedback or requests from customers and users' },
+        { label: 'vendor', description: 'Suppliers, partners and services we buy from: quotes, renewals and contracts' },
+        { label: 'hiring', description: 'Recruiting: candidates, interviews, offers and referrals' },
+        { label: 'incident', description: 'Outages, bugs, alerts and security issues that need a response' },
+        { label: 'billing', description: 'Invoices, payments, refunds and subscription charges' }
+      ],
+      enableEntityRedaction: false,
+      entityThresholds: { person: 0.8, organization: 0.85, location: 0.85 },
+      languageToolUrl: ''
     }
   }
 
@@ -51,6 +72,17 @@ class ReplySageOptions {
       this.settings.enablePIIRedaction = e.target.checked
     })
 
+    document.getElementById('enableEntityRedaction').addEventListener('change', (e) => {
+      this.settings.enableEntityRedaction = e.target.checked
+    })
+
+    document.getElementById('entityThresholds').addEventListener('change', (e) => {
+      const entity = e.target.dataset.entity
+      const threshold = parseFloat(e.target.value)
+      if (!entity || isNaN(threshold)) return
+      this.settings.entityThresholds = { ...this.settings.entityThresholds, [entity]: Math.min(0.99, Math.max(0.5, threshold)) }
+    })
+
     document.getElementById('enableCaching').addEventListener('change', (e) => {
       this.settings.enableCaching = e.target.checked
     })
@@ -67,6 +99,18 @@ class ReplySageOptions {
       this.settings.enableSimilaritySearch = e.target.checked
     })
 
+    document.getElementById('enableAttachmentAnalysis').addEventListener('change', (e) => {
+      this.settings.enableAttachmentAnalysis = e.target.checked
+    })
+
+    document.getElementById('enableInboxTriage').addEventListener('change', (e) => {
+      this.settings.enableInboxTriage = e.target.checked
+    })
+
+    document.getElementById('enableSelectorDiagnostics').addEventListener('change', (e) => {
+      this.settings.enableSelectorDiagnostics = e.target.checked
+    })
+
     // Select changes
     document.getElementById('preferredTone').addEventListener('change', (e) => {
       this.settings.preferredTone = e.target.value
@@ -81,11 +125,39 @@ class ReplySageOptions {
       summaryLengthValue.textContent = e.target.value
     })
 
+    document.getElementById('languageToolUrl').addEventListener('input', (e) => {
+      this.settings.languageToolUrl = e.target.value.trim()
+    })
+
     // API key changes
     document.getElementById('userApiKey').addEventListener('input', (e) => {
       this.settings.userApiKey = e.target.value
     })
 
+    // Category edits
+    document.getElementById('addUserCategory').addEventListener('click', () => {
+      this.settings.userCategories = [...(this.settings.userCategories || []), { label: '', description: '', examples: [] }]
+      this.renderUserCategories()
+    })
+
+    document.getElementById('userCategories').addEventListener('input', (e) => {
+      const row = e.target.closest('.user-category')
+      if (!row) return
+      const category = this.settings.userCategories[parseInt(row.dataset.index)]
+      if (e.target.classList.contains('user-category-examples')) {
+        category.examples = e.target.value.split('\n').map(example => example.trim()).filter(Boolean)
+      } else {
+        category[e.target.dataset.field] = e.target.value.trim()
+      }
+    })
+
+    document.getElementById('userCategories').addEventListener('click', (e) => {
+      if (!e.target.classList.contains('user-category-remove')) return
+      const index = parseInt(e.target.closest('.user-category').dataset.index)
+      this.settings.userCategories = this.settings.userCategories.filter((_, i) => i !== index)
+      this.renderUserCategories()
+    })
+
     // Action buttons
     document.getElementById('saveSettings').addEventListener('click', () => {
       this.saveSettings()
@@ -107,6 +179,27 @@ class ReplySageOptions {
       this.importData()
     })
 
+    document.getElementById('importMailbox').addEventListener('click', () => {
+      this.importMailbox()
+    })
+
+    document.getElementById('mboxStartImport').addEventListener('click', () => {
+      this.startMboxImport()
+    })
+
+    document.getElementById('mboxCancelImport').addEventListener('click', () => {
+      // The current batch finishes; progress is kept so the import can resume
+      this.mboxImportRunning = false
+    })
+
+    document.getElementById('saveDomSnapshot').addEventListener('click', () => {
+      this.saveDomSnapshot()
+    })
+
+    document.getElementById('refreshJobQueue').addEventListener('click', () => {
+      this.loadJobQueue()
+    })
+
     document.getElementById('manageModels').addEventListener('click', () => {
       this.openModelManager()
     })
@@ -133,10 +226,17 @@ class ReplySageOptions {
     document.getElementById('enableLocalProcessing').checked = this.settings.enableLocalProcessing
     document.getElementById('enableCloudFallback').checked = this.settings.enableCloudFallback
     document.getElementById('enablePIIRedaction').checked = this.settings.enablePIIRedaction
+    document.getElementById('enableEntityRedaction').checked = this.settings.enableEntityRedaction
+    document.querySelectorAll('#entityThresholds input').forEach(input => {
+      input.value = this.settings.entityThresholds?.[input.dataset.entity] ?? ''
+    })
     document.getElementById('enableCaching').checked = this.settings.enableCaching
     document.getElementById('enableAnalytics').checked = this.settings.enableAnalytics
     document.getElementById('enableThreadAnalysis').checked = this.settings.enableThreadAnalysis
     document.getElementById('enableSimilaritySearch').checked = this.settings.enableSimilaritySearch
+    document.getElementById('enableAttachmentAnalysis').checked = this.settings.enableAttachmentAnalysis
+    document.getElementById('enableSelectorDiagnostics').checked = this.settings.enableSelectorDiagnostics
+    document.getElementById('enableInboxTriage').checked = this.settings.enableInboxTriage
 
     // Update select
     document.getElementById('preferredTone').value = this.settings.preferredTone
@@ -145,6 +245,10 @@ class ReplySageOptions {
     document.getElementById('maxSummaryLength').value = this.settings.maxSummaryLength
     document.getElementById('summaryLengthValue').textContent = this.settings.maxSummaryLength
 
+    this.renderUserCategories()
+
+    document.getElementById('languageToolUrl').value = this.settings.languageToolUrl || ''
+
     // Update API key
     document.getElementById('userApiKey').value = this.settings.userApiKey || ''
 
@@ -157,12 +261,33 @@ class ReplySageOptions {
     }
   }
 
+  renderUserCategories() {
+    const categories = this.settings.userCategories || []
+    document.getElementById('userCategories').innerHTML = categories.map((category, index) => `
+      <div class="user-category" data-index="${index}">
+        <div class="user-category-fields">
+          <input type="text" data-field="label" placeholder="Label, e.g. vendor" value="${this.escapeHtml(category.label)}">
+          <input type="text" data-field="description" placeholder="What belongs here" value="${this.escapeHtml(category.description)}">
+          <button class="btn btn-secondary user-category-remove">Remove</button>
+        </div>
+        <textarea class="user-category-examples" rows="2" placeholder="Example subjects or sentences, one per line">${this.escapeHtml((category.examples || []).join('\n'))}</textarea>
+      </div>
+    `).join('')
+  }
+
   async saveSettings() {
+    const labels = (this.settings.userCategories || []).map(category => category.label)
+    if (labels.some(label => !label) || new Set(labels).size !== labels.length) {
+      this.showNotification('Every category needs its own label', 'error')
+      return
+    }
+
+    if (this.settings.languageToolUrl && !(await this.requestLanguageToolAccess(this.settings.languageToolUrl))) {
+      return
+    }
+
     try {
-      const response = await chrome.runtime.sendMessage({
-        type: 'UPDATE_SETTINGS',
-        payload: this.settings
-      })
+      const response = await BackgroundClient.send('UPDATE_SETTINGS', this.settings)
 
       if (response.success) {
         this.showNotification('Settings saved successfully!', 'success')
@@ -175,6 +300,23 @@ class ReplySageOptions {
     }
   }
 
+  /** The extension may only reach the server once the user grants access to its origin */
+  async requestLanguageToolAccess(url) {
+    let origin
+    try {
+      origin = new URL(url).origin
+    } catch {
+      this.showNotification('The LanguageTool server needs a full URL, e.g. http://localhost:8081', 'error')
+      return false
+    }
+
+    const granted = await chrome.permissions.request({ origins: [`${origin}/*`] })
+    if (!granted) {
+      this.showNotification(`Access to ${origin} is needed to check grammar there`, 'error')
+    }
+    return granted
+  }
+
   async resetSettings() {
     if (confirm('Are you sure you want to reset all settings to defaults? This cannot be undone.')) {
       this.settings = this.getDefaultSettings()
@@ -187,7 +329,7 @@ class ReplySageOptions {
   async clearCache() {
     if (confirm('Are you sure you want to clear all cached data? This will remove all stored analysis results.')) {
       try {
-        const response = await chrome.runtime.sendMessage({ type: 'CLEAR_CACHE' })
+        const response = await BackgroundClient.send('CLEAR_CACHE')
         
         if (response.success) {
           this.showNotification(`Cleared ${response.cleared} cached items`, 'success')
@@ -203,7 +345,7 @@ class ReplySageOptions {
 
   async exportData() {
     try {
-      const response = await chrome.runtime.sendMessage({ type: 'GET_ANALYSIS_HISTORY' })
+      const response = await BackgroundClient.send('GET_ANALYSIS_HISTORY')
       
       if (response.success) {
         const data = {
@@ -234,6 +376,107 @@ class ReplySageOptions {
     }
   }
 
+  async loadSelectorHealth() {
+    const container = document.getElementById('selectorHealth')
+    try {
+      const response = await BackgroundClient.send('GET_SELECTOR_HEALTH')
+      const reports = response && response.success ? response.reports : []
+
+      container.innerHTML = ''
+      reports.forEach(report => {
+        const line = document.createElement('p')
+        line.className = `selector-health-report ${report.healthy ? 'healthy' : 'unhealthy'}`
+        const checkedAt = new Date(report.checkedAt).toLocaleString()
+        line.textContent = report.healthy
+          ? `${report.client}: all required selectors matched (${checkedAt})`
+          : `${report.client}: ${report.failures.join(', ')} not found (${checkedAt})`
+        container.appendChild(line)
+      })
+    } catch (error) {
+      console.error('ReplySage: Error loading selector health:', error)
+    }
+  }
+
+  async loadJobQueue() {
+    const counts = document.getElementById('jobQueueCounts')
+    const list = document.getElementById('jobQueueList')
+    try {
+      const response = await BackgroundClient.send('GET_JOB_QUEUE_STATUS')
+      if (!response || !response.success) return
+
+      const { status } = response
+      counts.textContent = `${status.counts.pending} pending, ${status.counts.processing} running, ${status.counts.completed} completed, ${status.counts.failed} failed, ${status.counts.cancelled} cancelled`
+
+      list.innerHTML = ''
+      status.jobs.slice(0, 20).forEach(job => {
+        const item = document.createElement('li')
+
+        const state = document.createElement('span')
+        state.className = `job-status ${job.status}`
+        state.textContent = job.status
+        item.appendChild(state)
+
+        const description = document.createElement('span')
+        const attempts = job.attempts > 1 ? `, attempt ${job.attempts} of ${job.maxAttempts}` : ''
+        description.textContent = `${job.type} (${job.priority} priority${attempts})`
+        description.title = job.error || ''
+        item.appendChild(description)
+
+        if (job.status === 'pending' || job.status === 'processing') {
+          const cancel = document.createElement('button')
+          cancel.className = 'action-button secondary job-cancel'
+          cancel.textContent = 'Cancel'
+          cancel.addEventListener('click', async () => {
+            await BackgroundClient.send('CANCEL_JOB', { jobId: job.id })
+            this.loadJobQueue()
+          })
+          item.appendChild(cancel)
+        }
+
+        list.appendChild(item)
+      })
+    } catch (error) {
+      console.error('ReplySage: Error loading job queue:', error)
+    }
+  }
+
+  async saveDomSnapshot() {
+    try {
+      // Use the most recently used tab of a supported mail client
+      const tabs = await chrome.tabs.query({
+        url: ['https://mail.google.com/*', 'https://outlook.live.com/*', 'https://outlook.office.com/*', 'https://mail.yahoo.com/*']
+      })
+      const tab = tabs.sort((a, b) => (b.lastAccessed || 0) - (a.lastAccessed || 0))[0]
+      if (!tab) {
+        this.showNotification('Open Gmail, Outlook or Yahoo Mail first', 'error')
+        return
+      }
+
+      const response = await chrome.tabs.sendMessage(tab.id, { type: 'CAPTURE_DOM_SNAPSHOT' })
+      if (!response || !response.success) {
+        this.showNotification('Failed to capture DOM snapshot', 'error')
+        return
+      }
+
+      const snapshot = response.snapshot
+      const blob = new Blob([JSON.stringify(snapshot, null, 2)], { type: 'application/json' })
+      const url = URL.createObjectURL(blob)
+
+      const a = document.createElement('a')
+      a.href = url
+      a.download = `replysage-${snapshot.client}-snapshot-${new Date().toISOString().split('T')[0]}.json`
+      document.body.appendChild(a)
+      a.click()
+      document.body.removeChild(a)
+      URL.revokeObjectURL(url)
+
+      this.showNotification('DOM snapshot saved', 'success')
+    } catch (error) {
+      console.error('ReplySage: Error saving DOM snapshot:', error)
+      this.showNotification('Failed to capture DOM snapshot', 'error')
+    }
+  }
+
   importData() {
     const input = document.createElement('input')
     input.type = 'file'
@@ -264,6 +507,194 @@ class ReplySageOptions {
     input.click()
   }
 
+  importMailbox() {
+    const input = document.createElement('input')
+    input.type = 'file'
+    input.accept = '.mbox,application/mbox'
+
+    input.onchange = async (e) => {
+      const file = e.target.files[0]
+      if (!file) return
+
+      this.mboxFile = file
+      const panel = document.getElementById('mboxImportPanel')
+      panel.style.display = 'block'
+      document.getElementById('mboxFileName').textContent = file.name
+
+      try {
+        const response = await BackgroundClient.send('GET_MBOX_IMPORT_STATUS')
+        const progress = response.success ? response.progress : null
+
+        if (progress && progress.fileKey === this.getMboxFileKey(file) && progress.status === 'in_progress') {
+          // Resuming keeps the filters chosen when the import started
+          document.getElementById('mboxFilters').style.display = 'none'
+          document.getElementById('mboxStartImport').textContent = 'Resume Import'
+          this.renderMboxProgress(progress)
+          return
+        }
+
+        document.getElementById('mboxFilters').style.display = 'block'
+        document.getElementById('mboxStartImport').textContent = 'Start Import'
+        document.getElementById('mboxProgressText').textContent = 'Scanning labels...'
+        this.renderMboxLabels(await this.scanMboxLabels(file))
+        document.getElementById('mboxProgressText').textContent = ''
+      } catch (error) {
+        console.error('ReplySage: Error preparing mbox import:', error)
+        this.showNotification('Failed to read mailbox file', 'error')
+      }
+    }
+
+    input.click()
+  }
+
+  getMboxFileKey(file) {
+    return `${file.name}:${file.size}:${file.lastModified}`
+  }
+
+  async scanMboxLabels(file) {
+    // Google Takeout records each message's labels in an X-Gmail-Labels header
+    const counts = {}
+    const decoder = new TextDecoder()
+    let carry = ''
+
+    for (let offset = 0; offset < file.size; offset += MBOX_BATCH_BYTES) {
+      const chunk = await file.slice(offset, offset + MBOX_BATCH_BYTES).arrayBuffer()
+      const lines = (carry + decoder.decode(chunk, { stream: true })).split('\n')
+      carry = lines.pop()
+
+      for (const line of lines) {
+        if (!line.startsWith('X-Gmail-Labels:')) continue
+        line.slice('X-Gmail-Labels:'.length).split(',').forEach(label => {
+          const name = label.trim()
+          if (name) counts[name] = (counts[name] || 0) + 1
+        })
+      }
+    }
+
+    return counts
+  }
+
+  renderMboxLabels(counts) {
+    const container = document.getElementById('mboxLabels')
+    const labels = Object.keys(counts).sort()
+
+    if (labels.length === 0) {
+      container.innerHTML = '<p class="setting-description">No labels found; all messages will be imported.</p>'
+      return
+    }
+
+    container.innerHTML = labels.map(label => `
+      <label>
+        <input type="checkbox" class="mbox-label" value="${this.escapeHtml(label)}">
+        ${this.escapeHtml(label)} (${counts[label]})
+      </label>
+    `).join('')
+  }
+
+  escapeHtml(text) {
+    const div = document.createElement('div')
+    div.textContent = text
+    return div.innerHTML
+  }
+
+  async startMboxImport() {
+    const file = this.mboxFile
+    if (!file || this.mboxImportRunning) return
+
+    const filters = {
+      labels: Array.from(document.querySelectorAll('.mbox-label:checked')).map(input => input.value),
+      startDate: document.getElementById('mboxStartDate').value || undefined,
+      endDate: document.getElementById('mboxEndDate').value || undefined
+    }
+
+    try {
+      const started = await BackgroundClient.send('START_MBOX_IMPORT', { fileKey: this.getMboxFileKey(file), fileSize: file.size, filters })
+      if (!started.success) {
+        throw new Error(started.error)
+      }
+
+      this.mboxImportRunning = true
+      document.getElementById('mboxFilters').style.display = 'none'
+      document.getElementById('mboxStartImport').style.display = 'none'
+      document.getElementById('mboxCancelImport').style.display = 'inline-block'
+
+      let progress = started.progress
+      this.renderMboxProgress(progress)
+
+      while (this.mboxImportRunning && progress.status === 'in_progress') {
+        const batch = await this.readMboxBatch(file, progress.processedBytes)
+        const response = await BackgroundClient.send('IMPORT_MBOX_BATCH', { fileKey: progress.fileKey, ...batch })
+        if (!response.success) {
+          throw new Error(response.error)
+        }
+
+        progress = response.progress
+        this.renderMboxProgress(progress)
+      }
+
+      if (progress.status === 'completed') {
+        this.showNotification(`Imported ${progress.imported} messages`, 'success')
+      }
+    } catch (error) {
+      console.error('ReplySage: Error importing mailbox:', error)
+      this.showNotification('Mailbox import failed; it can be resumed', 'error')
+    } finally {
+      this.mboxImportRunning = false
+      document.getElementById('mboxCancelImport').style.display = 'none'
+      const startButton = document.getElementById('mboxStartImport')
+      startButton.style.display = 'inline-block'
+      startButton.textContent = 'Resume Import'
+    }
+  }
+
+  /**
+   * Reads whole messages starting at `offset`, ending the batch at the last
+   * message boundary so no message is split across batches.
+   */
+  async readMboxBatch(file, offset) {
+    const decoder = new TextDecoder()
+    let end = Math.min(offset + MBOX_BATCH_BYTES, file.size)
+
+    while (true) {
+      const bytes = new Uint8Array(await file.slice(offset, end).arrayBuffer())
+      if (end >= file.size) {
+        return { text: decoder.decode(bytes), endOffset: file.size }
+      }
+
+      const boundary = this.findLastMboxBoundary(bytes)
+      if (boundary > 0) {
+        return { text: decoder.decode(bytes.subarray(0, boundary)), endOffset: offset + boundary }
+      }
+
+      // A single message is larger than one batch
+      end = Math.min(end + MBOX_BATCH_BYTES, file.size)
+    }
+  }
+
+  // Finds the last "From " separator that follows a blank line
+  findLastMboxBoundary(bytes) {
+    const from = [0x46, 0x72, 0x6f, 0x6d, 0x20]
+
+    for (let i = bytes.length - from.length; i > 1; i--) {
+      if (bytes[i - 1] !== 0x0a || !from.every((byte, j) => bytes[i + j] === byte)) continue
+
+      const previous = bytes[i - 2] === 0x0d ? i - 3 : i - 2
+      if (previous < 0 || bytes[previous] === 0x0a) {
+        return i
+      }
+    }
+
+    return -1
+  }
+
+  renderMboxProgress(progress) {
+    const percent = progress.fileSize > 0 ? Math.round((progress.processedBytes / progress.fileSize) * 100) : 100
+    document.getElementById('mboxProgressBar').style.width = `${percent}%`
+    document.getElementById('mboxProgressText').textContent =
+      `${percent}% · ${progress.imported} imported, ${progress.duplicates} already indexed, ` +
+      `${progress.filtered} filtered out, ${progress.failed} failed`
+  }
+
   openModelManager() {
     // Create and show the model manager modal
     const modal = document.createElement('div')
@@ -301,10 +732,13 @@ class ReplySageOptions {
     if (!content) return
 
     try {
-      const response = await chrome.runtime.sendMessage({ type: 'GET_ASSET_STATUS' })
+      const [response, registry] = await Promise.all([
+        BackgroundClient.send('GET_ASSET_STATUS'),
+        BackgroundClient.send('GET_MODEL_REGISTRY')
+      ])
       
-      if (response.success) {
-        this.renderModelManager(response.assets, response.storageUsage)
+      if (response.success && registry.success) {
+        this.renderModelManager(response.assets, response.storageUsage, registry)
       } else {
         content.innerHTML = '<p class="error-message">Failed to load model information</p>'
       }
@@ -314,7 +748,7 @@ class ReplySageOptions {
     }
   }
 
-  renderModelManager(assets, storageUsage) {
+  renderModelManager(assets, storageUsage, registry) {
     const content = document.getElementById('model-manager-content')
     if (!content) return
 
@@ -326,25 +760,15 @@ class ReplySageOptions {
       return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i]
     }
 
-    const getModelDisplayName = (name) => {
-      const names = {
-        'summarizer': 'Text Summarizer',
-        'text-generator': 'Text Generator',
-        'embeddings': 'Embeddings Model',
-        'sentiment': 'Sentiment Analyzer'
-      }
-      return names[name] || name
+    const taskLabels = {
+      'summarization': 'Summarization',
+      'text-generation': 'Reply generation',
+      'feature-extraction': 'Embeddings',
+      'text-classification': 'Sentiment',
+      'token-classification': 'Named entities'
     }
 
-    const getModelDescription = (name) => {
-      const descriptions = {
-        'summarizer': 'Generates concise summaries of email content',
-        'text-generator': 'Creates suggested replies and text completions',
-        'embeddings': 'Creates semantic embeddings for similarity search',
-        'sentiment': 'Analyzes email sentiment (positive, negative, neutral)'
-      }
-      return descriptions[name] || 'AI model for email processing'
-    }
+    const modelsById = new Map(registry.models.map(model => [model.id, model]))
 
     let html = ''
 
@@ -370,6 +794,26 @@ class ReplySageOptions {
       `
     }
 
+    html += `
+      <div class="models-section">
+        <h3>Active Models</h3>
+        <div class="active-models">
+          ${Object.entries(taskLabels).map(([task, label]) => `
+            <label class="active-model">
+              <span>${label}</span>
+              <select class="active-model-select" data-task="${task}">
+                ${registry.models.filter(model => model.task === task).map(model => `
+                  <option value="${this.escapeHtml(model.id)}" ${registry.active[task] === model.id ? 'selected' : ''}>
+                    ${this.escapeHtml(model.name)}
+                  </option>
+                `).join('')}
+              </select>
+            </label>
+          `).join('')}
+        </div>
+      </div>
+    `
+
     html += `
       <div class="models-section">
         <div class="models-header">
@@ -382,23 +826,27 @@ class ReplySageOptions {
     `
 
     assets.forEach(asset => {
+      const model = modelsById.get(asset.name)
+      const downloaded = asset.status === 'downloaded'
       html += `
         <div class="model-item">
           <div class="model-info">
-            <h4>${getModelDisplayName(asset.name)}</h4>
-            <p class="model-description">${getModelDescription(asset.name)}</p>
+            <h4>${this.escapeHtml(model ? model.name : asset.name)}</h4>
+            <p class="model-description">${this.escapeHtml(model?.description || model?.modelId || 'AI model for email processing')}</p>
             <div class="model-details">
               <span class="size">${formatFileSize(asset.size)}</span>
-              ${asset.downloaded ? 
+              ${model ? `<span class="size">${taskLabels[model.task]} · ${model.quantization.toUpperCase()} · ${this.escapeHtml(model.license)} · ${this.escapeHtml((model.languages || ['en']).join(', '))}</span>` : ''}
+              ${downloaded ? 
                 '<span class="status downloaded">Downloaded</span>' : 
                 '<span class="status not-downloaded">Not Downloaded</span>'
               }
             </div>
           </div>
           <div class="model-actions">
-            ${asset.downloaded ? 
+            ${model?.custom ? `<button class="remove-model-button" data-model="${this.escapeHtml(asset.name)}">Remove</button>` : ''}
+            ${downloaded ? 
               '<span class="downloaded-indicator">✓</span>' :
-              `<button class="download-button" data-model="${asset.name}">Download</button>`
+              `<button class="download-button" data-model="${this.escapeHtml(asset.name)}">Download</button>`
             }
           </div>
         </div>
@@ -408,6 +856,30 @@ class ReplySageOptions {
     html += `
         </div>
       </div>
+      <div class="models-section">
+        <h3>Add a Model</h3>
+        <p class="model-description">
+          Any transformers.js-compatible model from the Hugging Face hub, with ONNX weights under <code>onnx/</code>.
+        </p>
+        <form id="register-model-form" class="register-model-form">
+          <input name="id" placeholder="Id, e.g. bart-large-cnn-int8" required>
+          <input name="name" placeholder="Display name" required>
+          <input name="modelId" placeholder="Hugging Face id, e.g. Xenova/bart-large-cnn" required>
+          <select name="task">
+            ${Object.entries(taskLabels).map(([task, label]) => `<option value="${task}">${label}</option>`).join('')}
+          </select>
+          <select name="quantization">
+            <option value="int8">INT8 (quantized)</option>
+            <option value="fp32">FP32 (full precision)</option>
+          </select>
+          <input name="sizeMB" type="number" min="1" placeholder="Size (MB)" required>
+          <input name="minMemoryMB" type="number" min="1" placeholder="Minimum memory (MB)" required>
+          <input name="license" placeholder="License, e.g. apache-2.0" required>
+          <input name="languages" placeholder="Languages, e.g. en, de (default en)">
+          <input name="checksum" placeholder="SHA-256 of the weights (optional)">
+          <button type="submit" class="download-button">Add Model</button>
+        </form>
+      </div>
       <div class="model-manager-footer">
         <p class="info-text">
           Models are downloaded and stored locally for privacy. 
@@ -423,20 +895,82 @@ class ReplySageOptions {
       this.downloadAllModels()
     })
 
-    document.querySelectorAll('.download-button').forEach(button => {
+    document.querySelectorAll('.download-button[data-model]').forEach(button => {
       button.addEventListener('click', (e) => {
         const modelName = e.target.getAttribute('data-model')
         this.downloadModel(modelName)
       })
     })
+
+    document.querySelectorAll('.active-model-select').forEach(select => {
+      select.addEventListener('change', (e) => {
+        this.selectModel(e.target.getAttribute('data-task'), e.target.value)
+      })
+    })
+
+    document.querySelectorAll('.remove-model-button').forEach(button => {
+      button.addEventListener('click', (e) => {
+        this.unregisterModel(e.target.getAttribute('data-model'))
+      })
+    })
+
+    document.getElementById('register-model-form')?.addEventListener('submit', (e) => {
+      e.preventDefault()
+      this.registerModel(new FormData(e.target))
+    })
+  }
+
+  async registerModel(form) {
+    const entry = {
+      id: form.get('id').trim(),
+      name: form.get('name').trim(),
+      modelId: form.get('modelId').trim(),
+      task: form.get('task'),
+      quantization: form.get('quantization'),
+      sizeMB: Number(form.get('sizeMB')),
+      minMemoryMB: Number(form.get('minMemoryMB')),
+      license: form.get('license').trim(),
+      languages: form.get('languages').split(',').map(code => code.trim().toLowerCase()).filter(Boolean),
+      checksum: form.get('checksum').trim() || undefined
+    }
+    if (entry.languages.length === 0) {
+      delete entry.languages
+    }
+
+    const response = await BackgroundClient.send('REGISTER_MODEL', entry)
+    if (response.success) {
+      this.showNotification(`Added ${response.model.name}`, 'success')
+      this.loadModelManagerContent()
+    } else {
+      this.showNotification(`Failed to add model: ${response.error}`, 'error')
+    }
+  }
+
+  async unregisterModel(id) {
+    if (!confirm(`Remove ${id} from the model list?`)) return
+
+    const response = await BackgroundClient.send('UNREGISTER_MODEL', { id })
+    if (response.success) {
+      this.showNotification(`Removed ${id}`, 'success')
+      this.loadModelManagerContent()
+    } else {
+      this.showNotification(`Failed to remove model: ${response.error}`, 'error')
+    }
+  }
+
+  async selectModel(task, id) {
+    const response = await BackgroundClient.send('SELECT_MODEL', { task, id })
+    if (response.success) {
+      this.showNotification('Model updated', 'success')
+    } else {
+      this.showNotification(`Failed to switch model: ${response.error}`, 'error')
+      this.loadModelManagerContent()
+    }
   }
 
   async downloadModel(modelName) {
     try {
-      const response = await chrome.runtime.sendMessage({
-        type: 'DOWNLOAD_MODELS',
-        payload: [modelName]
-      })
+      const response = await BackgroundClient.send('DOWNLOAD_MODELS', [modelName])
 
       if (response.success) {
         this.showNotification(`Downloading ${modelName}...`, 'info')
@@ -453,10 +987,7 @@ class ReplySageOptions {
 
   async downloadAllModels() {
     try {
-      const response = await chrome.runtime.sendMessage({
-        type: 'DOWNLOAD_MODELS',
-        payload: []
-      })
+      const response = await BackgroundClient.send('DOWNLOAD_MODELS', [])
 
       if (response.success) {
         this.showNotification('Downloading all models...', 'info')
@@ -508,7 +1039,7 @@ class ReplySageOptions {
     if (!content) return
 
     try {
-      const response = await chrome.runtime.sendMessage({ type: 'GET_CLOUD_PROVIDERS' })
+      const response = await BackgroundClient.send('GET_CLOUD_PROVIDERS')
       
       if (response.success) {
         this.renderCloudProviderManager(response.providers)
@@ -741,10 +1272,7 @@ class ReplySageOptions {
         baseUrl: document.getElementById('base-url').value || undefined
       }
 
-      const response = await chrome.runtime.sendMessage({
-        type: 'TEST_CLOUD_PROVIDER',
-        payload: provider
-      })
+      const response = await BackgroundClient.send('TEST_CLOUD_PROVIDER', provider)
 
       if (response.success) {
         testResult.innerHTML = '<div class="test-result success">Connection successful!</div>'
@@ -770,10 +1298,7 @@ class ReplySageOptions {
         baseUrl: document.getElementById('base-url').value || undefined
       }
 
-      const response = await chrome.runtime.sendMessage({
-        type: 'ADD_CLOUD_PROVIDER',
-        payload: provider
-      })
+      const response = await BackgroundClient.send('ADD_CLOUD_PROVIDER', provider)
 
       if (response.success) {
         this.showNotification('Cloud provider added successfully', 'success')
@@ -789,10 +1314,7 @@ class ReplySageOptions {
 
   async testCloudProvider(providerName) {
     try {
-      const response = await chrome.runtime.sendMessage({
-        type: 'TEST_CLOUD_PROVIDER',
-        payload: { name: providerName }
-      })
+      const response = await BackgroundClient.send('TEST_CLOUD_PROVIDER', { name: providerName })
 
       if (response.success) {
         this.showNotification(`${providerName} connection successful`, 'success')
@@ -810,10 +1332,7 @@ class ReplySageOptions {
     }
 
     try {
-      const response = await chrome.runtime.sendMessage({
-        type: 'REMOVE_CLOUD_PROVIDER',
-        payload: providerName
-      })
+      const response = await BackgroundClient.send('REMOVE_CLOUD_PROVIDER', providerName)
 
       if (response.success) {
         this.showNotification(`${providerName} removed successfully`, 'success')
@@ -914,8 +1433,8 @@ class ReplySageOptions {
 
     try {
       const [statsResponse, modelsResponse] = await Promise.all([
-        chrome.runtime.sendMessage({ type: 'GET_PERFORMANCE_STATS' }),
-        chrome.runtime.sendMessage({ type: 'GET_QUANTIZED_MODELS' })
+        BackgroundClient.send('GET_PERFORMANCE_STATS'),
+        BackgroundClient.send('GET_QUANTIZED_MODELS')
       ])
       
       if (statsResponse.success && modelsResponse.success) {
@@ -1006,6 +1525,17 @@ class ReplySageOptions {
             <div class="metric-value">${Object.keys(stats.modelPerformance).length}</div>
             <div class="metric-label">Active Models</div>
           </div>
+
+          <div class="metric-card">
+            <div class="metric-header">
+              <h4>Analysis Cache</h4>
+              <span class="metric-icon">🗄️</span>
+            </div>
+            <div class="metric-value">${(stats.cache.hitRate * 100).toFixed(0)}%</div>
+            <div class="metric-label">
+              ${stats.cache.hits} hits, ${stats.cache.misses} misses, ${stats.cache.invalidations} invalidated
+            </div>
+          </div>
         </div>
       </div>
 
@@ -1072,7 +1602,7 @@ class ReplySageOptions {
 
   async clearPerformanceMetrics() {
     try {
-      const response = await chrome.runtime.sendMessage({ type: 'CLEAR_PERFORMANCE_METRICS' })
+      const response = await BackgroundClient.send('CLEAR_PERFORMANCE_METRICS')
       
       if (response.success) {
         this.showNotification('Performance metrics cleared', 'success')
@@ -1088,7 +1618,7 @@ class ReplySageOptions {
 
   async exportPerformanceMetrics() {
     try {
-      const response = await chrome.runtime.sendMessage({ type: 'EXPORT_PERFORMANCE_METRICS' })
+      const response = await BackgroundClient.send('EXPORT_PERFORMANCE_METRICS')
       
       if (response.success) {
         const data = {
@@ -1120,7 +1650,7 @@ class ReplySageOptions {
 
   async restartWorkers() {
     try {
-      const response = await chrome.runtime.sendMessage({ type: 'RESTART_WORKERS' })
+      const response = await BackgroundClient.send('RESTART_WORKERS')
       
       if (response.success) {
         this.showNotification('Workers restarted successfully', 'success')
@@ -1135,10 +1665,7 @@ class ReplySageOptions {
 
   async downloadQuantizedModel(modelName) {
     try {
-      const response = await chrome.runtime.sendMessage({
-        type: 'DOWNLOAD_QUANTIZED_MODEL',
-        payload: { modelName }
-      })
+      const response = await BackgroundClient.send('DOWNLOAD_QUANTIZED_MODEL', { modelName })
 
       if (response.success) {
         this.showNotification(`Downloading ${modelName}...`, 'info')
@@ -1289,10 +1816,7 @@ class ReplySageOptions {
     runButton.textContent = '⏳ Running Tests...'
 
     try {
-      const response = await chrome.runtime.sendMessage({
-        type: 'RUN_TESTS',
-        payload: { suiteId: suiteSelect.value }
-      })
+      const response = await BackgroundClient.send('RUN_TESTS', { suiteId: suiteSelect.value })
 
       if (response.success) {
         this.lastTestReports = response.reports
@@ -1377,10 +1901,7 @@ class ReplySageOptions {
 
   async generateTestReport() {
     try {
-      const response = await chrome.runtime.sendMessage({
-        type: 'GENERATE_TEST_REPORT',
-        payload: { reports: this.lastTestReports || [] }
-      })
+      const response = await BackgroundClient.send('GENERATE_TEST_REPORT', { reports: this.lastTestReports || [] })
 
       if (response.success) {
         const blob = new Blob([response.report], { type: 'text/markdown' })
@@ -1460,7 +1981,7 @@ class ReplySageOptions {
       const content = document.getElementById('store-submission-content')
       if (!content) return
 
-      const validation = await chrome.runtime.sendMessage({ type: 'VALIDATE_STORE_SUBMISSION' })
+      const validation = await BackgroundClient.send('VALIDATE_STORE_SUBMISSION')
       
       content.innerHTML = `
         <div class="store-submission-panel">
@@ -1527,11 +2048,11 @@ class ReplySageOptions {
 
   async generateSubmissionPackage() {
     try {
-      const response = await chrome.runtime.sendMessage({ type: 'GENERATE_STORE_PACKAGE' })
+      const response = await BackgroundClient.send('GENERATE_STORE_PACKAGE')
       
       if (response.success) {
-        const package = response.package
-        const zipContent = JSON.stringify(package, null, 2)
+        const submissionPackage = response.package
+        const zipContent = JSON.stringify(submissionPackage, null, 2)
         
         const blob = new Blob([zipContent], { type: 'application/json' })
         const url = URL.createObjectURL(blob)
@@ -1551,7 +2072,7 @@ class ReplySageOptions {
 
   async downloadManifest() {
     try {
-      const response = await chrome.runtime.sendMessage({ type: 'GENERATE_STORE_PACKAGE' })
+      const response = await BackgroundClient.send('GENERATE_STORE_PACKAGE')
       
       if (response.success) {
         const manifest = response.package.manifest
@@ -1575,7 +2096,7 @@ class ReplySageOptions {
 
   async downloadPrivacyPolicy() {
     try {
-      const response = await chrome.runtime.sendMessage({ type: 'GENERATE_STORE_PACKAGE' })
+      const response = await BackgroundClient.send('GENERATE_STORE_PACKAGE')
       
       if (response.success) {
         const privacyPolicy = response.package.privacyPolicy
@@ -1,4 +1,6 @@
 // Popup JavaScript
+import { BackgroundClient } from './utils/messages'
+
 class ReplySagePopup {
   constructor() {
     this.settings = null
@@ -15,11 +17,12 @@ class ReplySagePopup {
     await this.loadStats()
     this.setupEventListeners()
     this.updateUI()
+    await this.loadBatchReport()
   }
 
   async loadSettings() {
     try {
-      const response = await chrome.runtime.sendMessage({ type: 'GET_SETTINGS' })
+      const response = await BackgroundClient.send('GET_SETTINGS')
       this.settings = response.settings
     } catch (error) {
       console.error('ReplySage: Failed to load settings:', error)
@@ -49,6 +52,10 @@ class ReplySagePopup {
       this.analyzeCurrentEmail()
     })
 
+    document.getElementById('analyzeUnread').addEventListener('click', () => {
+      this.analyzeUnread()
+    })
+
     document.getElementById('openSettings').addEventListener('click', () => {
       this.openSettings()
     })
@@ -105,7 +112,7 @@ class ReplySagePopup {
 
   async loadRecentActivity() {
     try {
-      const response = await chrome.runtime.sendMessage({ type: 'GET_ANALYSIS_HISTORY' })
+      const response = await BackgroundClient.send('GET_ANALYSIS_HISTORY')
       
       if (response.success && response.analyses.length > 0) {
         const recentActivity = document.getElementById('recentActivity')
@@ -159,8 +166,8 @@ class ReplySagePopup {
       // Send message to content script to analyze current email
       const [tab] = await chrome.tabs.query({ active: true, currentWindow: true })
       
-      if (!tab || !tab.url || !tab.url.includes('mail.google.com')) {
-        this.showNotification('Please open Gmail to analyze an email', 'error')
+      if (!tab || !tab.url || !this.isSupportedMailUrl(tab.url)) {
+        this.showNotification('Please open Gmail, Outlook or Yahoo Mail to analyze an email', 'error')
         return
       }
       
@@ -188,6 +195,139 @@ class ReplySagePopup {
     }
   }
 
+  async analyzeUnread() {
+    const unreadButton = document.getElementById('analyzeUnread')
+    const statusDot = document.querySelector('.status-dot')
+    const statusText = document.querySelector('.status-text')
+
+    try {
+      unreadButton.disabled = true
+      unreadButton.textContent = 'Analyzing unread...'
+      statusDot.className = 'status-dot analyzing'
+      statusText.textContent = 'Analyzing unread conversations...'
+
+      const [tab] = await chrome.tabs.query({ active: true, currentWindow: true })
+
+      if (!tab || !tab.url || !this.isSupportedMailUrl(tab.url)) {
+        this.showNotification('Please open Gmail, Outlook or Yahoo Mail to analyze your inbox', 'error')
+        return
+      }
+
+      // The content script reads the inbox list; the background does the analysis
+      const inbox = await chrome.tabs.sendMessage(tab.id, { type: 'LIST_INBOX_ROWS' })
+      if (!inbox || !inbox.success) {
+        this.showNotification('Open your inbox list to analyze unread conversations', 'error')
+        return
+      }
+
+      const response = await BackgroundClient.send('ANALYZE_UNREAD', {
+        client: inbox.client,
+        rows: inbox.rows,
+        limit: this.getUnreadLimit(),
+        account: inbox.account || undefined
+      })
+
+      if (response.success) {
+        const { report } = response
+        this.renderBatchReport(report)
+        this.showNotification(
+          report.conversations.length > 0
+            ? `Analyzed ${report.conversations.length - report.failed} of ${report.conversations.length} unread conversations`
+            : 'No unread conversations to analyze',
+          report.failed > 0 ? 'error' : 'success'
+        )
+
+        this.stats.emailsAnalyzed += report.conversations.length - report.failed
+        this.stats.actionItemsFound += report.actionItems.length
+        await this.saveStats()
+        this.updateUI()
+      } else {
+        this.showNotification('Failed to analyze unread conversations', 'error')
+      }
+    } catch (error) {
+      console.error('ReplySage: Error analyzing unread conversations:', error)
+      this.showNotification('Failed to analyze unread conversations', 'error')
+    } finally {
+      unreadButton.disabled = false
+      unreadButton.innerHTML = '<span class="button-icon">📥</span>Analyze Unread'
+      statusDot.className = 'status-dot'
+      statusText.textContent = 'Ready'
+    }
+  }
+
+  // How many unread conversations to analyze, within what the background accepts
+  getUnreadLimit() {
+    const limit = parseInt(document.getElementById('unreadLimit').value, 10)
+    return Number.isNaN(limit) ? 20 : Math.min(Math.max(limit, 1), 50)
+  }
+
+  async loadBatchReport() {
+    try {
+      const response = await BackgroundClient.send('GET_BATCH_REPORT')
+      if (response.success && response.report) {
+        this.renderBatchReport(response.report)
+      }
+    } catch (error) {
+      console.error('ReplySage: Failed to load batch report:', error)
+    }
+  }
+
+  renderBatchReport(report) {
+    document.getElementById('batchReport').style.display = 'block'
+    document.getElementById('batchSummary').textContent =
+      `${report.conversations.length} unread · ${report.actionItems.length} action items · ` +
+      `${new Date(report.completedAt).toLocaleTimeString()}`
+
+    this.renderReportList('batchPriorities', report.topPriorities, conversation => [
+      conversation.subject,
+      `${conversation.priority} priority · ${conversation.from}${conversation.basis === 'snippet' ? ' · from preview' : ''}`
+    ], 'Nothing urgent')
+
+    this.renderReportList('batchActionItems', report.actionItems, item => [
+      item.text,
+      `${item.dueDate ? `Due ${new Date(item.dueDate).toLocaleDateString()} · ` : ''}${item.subject}`
+    ], 'No action items')
+
+    this.renderReportList('batchAwaitingReply', report.awaitingReply, conversation => [
+      conversation.subject,
+      conversation.from
+    ], 'No one is waiting on you')
+  }
+
+  // Report text comes from email content, so it is only ever set as textContent
+  renderReportList(listId, items, describe, emptyText) {
+    const list = document.getElementById(listId)
+    list.innerHTML = ''
+
+    if (items.length === 0) {
+      const empty = document.createElement('div')
+      empty.className = 'activity-item'
+      empty.textContent = emptyText
+      list.appendChild(empty)
+      return
+    }
+
+    items.forEach(entry => {
+      const [title, detail] = describe(entry)
+      const item = document.createElement('div')
+      item.className = 'activity-item'
+
+      const subject = document.createElement('div')
+      subject.className = 'subject'
+      subject.textContent = title
+      const time = document.createElement('div')
+      time.className = 'time'
+      time.textContent = detail
+
+      item.append(subject, time)
+      list.appendChild(item)
+    })
+  }
+
+  isSupportedMailUrl(url) {
+    return ['mail.google.com', 'outlook.live.com', 'outlook.office.com', 'mail.yahoo.com'].some(host => url.includes(host))
+  }
+
   openSettings() {
     chrome.runtime.openOptionsPage()
   }
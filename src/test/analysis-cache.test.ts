@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { AnalysisCache, AnalysisCacheContext, AnalysisCacheStorage } from '../utils/analysis-cache'
+import { PerformanceMonitor } from '../utils/performance-monitor'
+import { AnalysisResult, EmailMessage } from '@/types'
+
+class MemoryCacheStorage implements AnalysisCacheStorage {
+  items: Record<string, unknown> = {}
+
+  async getAll() {
+    return JSON.parse(JSON.stringify(this.items))
+  }
+
+  async get(key: string) {
+    return this.items[key] && JSON.parse(JSON.stringify(this.items[key]))
+  }
+
+  async set(key: string, value: unknown) {
+    this.items[key] = value
+  }
+
+  async remove(keys: string[]) {
+    keys.forEach(key => delete this.items[key])
+  }
+}
+
+const message: EmailMessage = {
+  id: 'gmail:cache-test',
+  subject: 'Quarterly review',
+  from: 'manager@example.com',
+  to: ['me@example.com'],
+  body: 'Can we move the review to Thursday?',
+  timestamp: new Date(),
+  attachments: [],
+  isRead: false,
+  isImportant: false
+}
+
+const analysis: AnalysisResult = {
+  messageId: message.id,
+  summary: 'Asks to move the review to Thursday.',
+  actionItems: [],
+  suggestedReplies: [],
+  grammarIssues: [],
+  sentiment: 'neutral',
+  priority: 'medium',
+  categories: [],
+  extractedDates: [],
+  createdAt: new Date(),
+  modelUsed: 'local'
+}
+
+const context: AnalysisCacheContext = {
+  pipelineVersion: 1,
+  modelVersion: 'summarizer=Xenova/distilbart-cnn-6-6:q',
+  settings: {
+    enableLocalProcessing: true,
+    enableCloudFallback: false,
+    enablePIIRedaction: true,
+    enableEntityRedaction: false,
+    enableAttachmentAnalysis: true,
+    preferredTone: 'formal',
+    maxSummaryLength: 150,
+    userCategories: [],
+    languageToolUrl: ''
+  }
+}
+
+describe('AnalysisCache', () => {
+  let storage: MemoryCacheStorage
+  let monitor: PerformanceMonitor
+  let cache: AnalysisCache
+
+  beforeEach(async () => {
+    storage = new MemoryCacheStorage()
+    monitor = PerformanceMonitor.getInstance()
+    monitor.clearMetrics()
+    cache = new AnalysisCache(storage, monitor)
+    await cache.setContext(context)
+  })
+
+  it('should return a cached analysis for the same message and context', async () => {
+    expect(await cache.get(message)).toBeNull()
+    await cache.set(message, analysis)
+
+    expect(await cache.get(message)).toMatchObject({ summary: analysis.summary })
+    expect(monitor.getStats().cache).toEqual({ hits: 1, misses: 1, hitRate: 0.5, invalidations: 0 })
+  })
+
+  it('should miss and drop the old entry when the body changes', async () => {
+    await cache.set(message, analysis)
+
+    expect(await cache.get({ ...message, body: 'Actually, Friday works better.' })).toBeNull()
+    expect(Object.keys(storage.items)).toHaveLength(0)
+    expect(monitor.getMetricsByType('custom').map(metric => [metric.name, metric.context?.reason])).toEqual([
+      ['cache_invalidation', 'content-changed'],
+      ['cache_miss', 'content-changed']
+    ])
+  })
+
+  it('should look entries up without reading all of storage', async () => {
+    await cache.set(message, analysis)
+    const getAll = vi.spyOn(storage, 'getAll')
+
+    expect(await cache.get({ ...message, body: 'Actually, Friday works better.' })).toBeNull()
+    expect(await cache.get({ ...message, id: 'gmail:never-cached' })).toBeNull()
+    await cache.remove(message.id)
+    expect(getAll).not.toHaveBeenCalled()
+  })
+
+  it('should leave analyses made from inbox snippets out of the list', async () => {
+    const snippet = { ...message, id: 'thread-f:1790000000000000001', snippetOnly: true }
+    await cache.set(message, analysis)
+    await cache.set(snippet, { ...analysis, messageId: snippet.id, snippetOnly: true })
+
+    expect(await cache.get(snippet)).toMatchObject({ snippetOnly: true })
+    expect((await cache.list()).map(entry => entry.messageId)).toEqual([message.id])
+  })
+
+  it('should drop every entry when a model or setting changes', async () => {
+    await cache.set(message, analysis)
+    await cache.set({ ...message, id: 'gmail:other' }, { ...analysis, messageId: 'gmail:other' })
+
+    expect(await cache.setContext({ ...context })).toBe(0)
+    expect(await cache.setContext({ ...context, settings: { ...context.settings, preferredTone: 'casual' } })).toBe(2)
+    expect(await cache.get(message)).toBeNull()
+
+    await cache.set(message, analysis)
+    expect(await cache.setContext({ ...context, settings: { ...context.settings, preferredTone: 'casual' }, modelVersion: 'summarizer=Xenova/bart-large-cnn' })).toBe(1)
+    expect(monitor.getStats().cache.invalidations).toBe(3)
+  })
+
+  it('should move an analysis cached under a legacy id to the stable key', async () => {
+    // As the baseline stored it: a bare analysis under a per-visit base64 id
+    const legacyId = 'aHR0cHM6Ly9tYWlsLmdvb2dsZS5jb20vbWFpbC91LzAvI2luYm94LTE2OTcyODAwMDAwMDA'
+    storage.items[`analysis_${legacyId}`] = JSON.parse(JSON.stringify({ ...analysis, messageId: legacyId }))
+
+    expect(await new AnalysisCache(storage, monitor).setContext(context)).toBe(0)
+    expect(await cache.adoptLegacy(message, [legacyId, 'bm90LWNhY2hlZA'])).toMatchObject({ messageId: message.id })
+
+    expect(storage.items).not.toHaveProperty(`analysis_${legacyId}`)
+    expect(await cache.get(message)).toMatchObject({ messageId: message.id, summary: analysis.summary })
+    expect(await cache.adoptLegacy(message, [legacyId])).toBeNull()
+  })
+
+  it('should prune legacy analyses thirty days after they were made', async () => {
+    storage.items.analysis_bGVnYWN5 = { ...analysis, createdAt: new Date(Date.now() - 31 * 24 * 60 * 60 * 1000) }
+
+    expect(await cache.adoptLegacy(message, ['bGVnYWN5'])).toBeNull()
+    expect(await cache.prune()).toBe(1)
+    expect(storage.items).toEqual({})
+  })
+
+  it('should expire entries after thirty days', async () => {
+    await cache.set(message, analysis)
+    const [key] = Object.keys(storage.items)
+    storage.items[key] = { ...(storage.items[key] as object), expiresAt: new Date(Date.now() - 1000) }
+
+    expect(await cache.list()).toEqual([])
+    expect(await cache.prune()).toBe(1)
+    expect(storage.items).toEqual({})
+  })
+})
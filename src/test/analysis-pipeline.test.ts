@@ -0,0 +1,140 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { AnalysisPipeline, PipelineRunOptions } from '../utils/analysis-pipeline'
+import { FallbackManager } from '../utils/fallback-manager'
+import { AnalysisResult, AnalysisStreamEvent, EmailMessage } from '@/types'
+
+// The model providers fail over to the heuristics; this keeps the native ONNX runtime out of the run
+vi.mock('@xenova/transformers', () => ({
+  pipeline: vi.fn(async () => {
+    throw new Error('Models are not loaded in tests')
+  }),
+  env: {}
+}))
+
+const message: EmailMessage = {
+  id: 'pipeline-test',
+  subject: 'Project update',
+  from: 'lead@example.com',
+  to: ['team@example.com'],
+  body: 'Thanks for the great work on the launch. Please review the report by Friday.',
+  timestamp: new Date(),
+  attachments: [],
+  isRead: false,
+  isImportant: false
+}
+
+// Offline skips the local models and cloud, leaving the heuristics
+const offline: PipelineRunOptions = {
+  offline: true,
+  cloudEnabled: false,
+  runCloudAnalysis: () => Promise.reject(new Error('cloud should not be called'))
+}
+
+describe('AnalysisPipeline', () => {
+  const pipeline = AnalysisPipeline.getInstance()
+
+  afterEach(() => {
+    AnalysisPipeline.STAGE_ORDER.forEach(stage => pipeline.unregisterProvider(stage, 'test'))
+    pipeline.setTimeout('summary', 30000)
+  })
+
+  it('should fill every field and record a heuristic producer when offline', async () => {
+    const result = await pipeline.run(message, offline)
+
+    expect(result.modelUsed).toBe('local')
+    expect(Object.keys(result.provenance!)).toEqual(AnalysisPipeline.STAGE_ORDER)
+    expect(result.provenance!.summary).toMatchObject({ source: 'heuristic', producer: 'extractive-summary', failures: [] })
+    expect(result.provenance!.sentiment).toMatchObject({ source: 'heuristic', producer: 'sentiment-keywords' })
+    expect(result.summary).not.toBe('')
+  })
+
+  it('should fall back per stage and record the failure', async () => {
+    pipeline.registerProvider('sentiment', {
+      source: 'local',
+      producer: 'test',
+      run: () => Promise.reject(new Error('model crashed'))
+    }, 'first')
+    pipeline.registerProvider('summary', {
+      source: 'local',
+      producer: 'test',
+      run: async () => 'Model summary'
+    }, 'first')
+
+    const result = await pipeline.run(message, offline)
+
+    expect(result.summary).toBe('Model summary')
+    expect(result.provenance!.summary).toMatchObject({ source: 'local', producer: 'test', failures: [] })
+    expect(result.provenance!.sentiment).toMatchObject({
+      source: 'heuristic',
+      producer: 'sentiment-keywords',
+      failures: [{ producer: 'test', error: 'model crashed' }]
+    })
+  })
+
+  it('should time out a slow provider and move on to the next one', async () => {
+    pipeline.setTimeout('summary', 10)
+    pipeline.registerProvider('summary', { source: 'local', producer: 'test', run: () => new Promise<string>(() => {}) }, 'first')
+
+    const result = await pipeline.run(message, offline)
+
+    expect(result.provenance!.summary).toMatchObject({
+      source: 'heuristic',
+      failures: [{ producer: 'test', error: 'summary timed out after 10ms' }]
+    })
+  })
+
+  it('should request cloud analysis once and share it between stages', async () => {
+    const cloudResult = { summary: 'Cloud summary', sentiment: 'positive' } as AnalysisResult
+    const runCloudAnalysis = vi.fn(() => Promise.resolve(cloudResult))
+    pipeline.registerProvider('summary', { source: 'cloud', producer: 'test', run: async context => (await context.cloudAnalysis()).summary }, 'first')
+    pipeline.registerProvider('sentiment', { source: 'cloud', producer: 'test', run: async context => (await context.cloudAnalysis()).sentiment }, 'first')
+
+    const result = await pipeline.run(message, { offline: true, cloudEnabled: true, cloudProducer: 'openai', runCloudAnalysis })
+
+    expect(runCloudAnalysis).toHaveBeenCalledTimes(1)
+    expect(result.summary).toBe('Cloud summary')
+    expect(result.sentiment).toBe('positive')
+    expect(result.provenance!.summary).toMatchObject({ source: 'cloud', producer: 'openai' })
+    expect(result.modelUsed).toBe('cloud')
+  })
+
+  it('should stream heuristic previews before the settled stages', async () => {
+    const events: AnalysisStreamEvent[] = []
+    pipeline.registerProvider('summary', { source: 'local', producer: 'test', run: async () => 'Model summary' }, 'first')
+
+    const result = await pipeline.run(message, { ...offline, onEvent: event => events.push(event) })
+    const summaryEvents = events.filter(event => event.type === 'stage' && event.stage === 'summary')
+
+    expect(events[0]).toMatchObject({ type: 'stage', stage: 'summary', final: false, provenance: { producer: 'extractive-summary' } })
+    expect(summaryEvents.map(event => event.type === 'stage' && event.final)).toEqual([false, true])
+    expect(summaryEvents[1]).toMatchObject({ fields: { summary: 'Model summary' } })
+    expect(events.filter(event => event.type === 'stage-start')).toHaveLength(AnalysisPipeline.STAGE_ORDER.length)
+    // Stages that settle on the heuristic reuse the preview
+    expect(result.provenance!.sentiment!.producer).toBe('sentiment-keywords')
+  })
+
+  it('should record a LanguageTool server as a remote source and not preview it', async () => {
+    const check = vi.fn(async () => [])
+    FallbackManager.getInstance().setGrammarService({ check })
+    const events: AnalysisStreamEvent[] = []
+
+    try {
+      const result = await pipeline.run(message, { ...offline, offline: false, onEvent: event => events.push(event) })
+
+      const grammarPreview = events.find(event => event.type === 'stage' && event.stage === 'grammar' && !event.final)
+      expect(grammarPreview).toMatchObject({ provenance: { source: 'heuristic', producer: 'grammar-rules' } })
+      expect(result.provenance!.grammar).toMatchObject({ source: 'remote', producer: 'languagetool' })
+      expect(check).toHaveBeenCalledTimes(1)
+    } finally {
+      FallbackManager.getInstance().setGrammarService(null)
+    }
+  })
+
+  it('should stop when cancelled', async () => {
+    const controller = new AbortController()
+    pipeline.registerProvider('summary', { source: 'local', producer: 'test', run: () => new Promise<string>(() => {}) }, 'first')
+    setTimeout(() => controller.abort(), 10)
+
+    await expect(pipeline.run(message, { ...offline, signal: controller.signal })).rejects.toThrow('Analysis cancelled')
+  })
+})
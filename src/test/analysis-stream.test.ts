@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest'
+import { applyStreamEvent, createStreamState } from '../utils/analysis-stream'
+import { AnalysisResult, EmailMessage, StageProvenance } from '@/types'
+
+const message: EmailMessage = {
+  id: 'stream-test',
+  subject: 'Launch',
+  from: 'lead@example.com',
+  to: ['team@example.com'],
+  body: 'Please review the launch checklist.',
+  timestamp: new Date(),
+  attachments: [],
+  isRead: false,
+  isImportant: false
+}
+
+const heuristic: StageProvenance = { source: 'heuristic', producer: 'extractive-summary', durationMs: 2, failures: [] }
+const local: StageProvenance = { source: 'local', producer: 'summarizer', durationMs: 900, failures: [] }
+
+describe('applyStreamEvent', () => {
+  it('should show a heuristic preview until the stage settles', () => {
+    let state = createStreamState(message)
+    state = applyStreamEvent(state, { type: 'stage', stage: 'summary', fields: { summary: 'Preview' }, provenance: heuristic, final: false })
+
+    expect(state.analysis.summary).toBe('Preview')
+    expect(state.analysis.provenance).toEqual({})
+    expect(state.completedStages).toBe(0)
+
+    state = applyStreamEvent(state, { type: 'stage-start', stage: 'summary', index: 0, total: 7 })
+    state = applyStreamEvent(state, { type: 'stage', stage: 'summary', fields: { summary: 'Refined' }, provenance: local, final: true })
+    state = applyStreamEvent(state, { type: 'stage', stage: 'summary', fields: { summary: 'Late preview' }, provenance: heuristic, final: false })
+
+    expect(state.analysis.summary).toBe('Refined')
+    expect(state.analysis.provenance).toEqual({ summary: local })
+    expect(state).toMatchObject({ status: 'streaming', currentStage: 'summary', completedStages: 1 })
+  })
+
+  it('should track model downloads until the model is ready', () => {
+    let state = applyStreamEvent(createStreamState(message), {
+      type: 'model-progress',
+      progress: { model: 'summarizer', status: 'progress', file: 'onnx/model_quantized.onnx', progress: 42 }
+    })
+    expect(state.modelProgress).toMatchObject({ model: 'summarizer', progress: 42 })
+
+    state = applyStreamEvent(state, { type: 'model-progress', progress: { model: 'summarizer', status: 'ready' } })
+    expect(state.modelProgress).toBeUndefined()
+  })
+
+  it('should replace the partial fields with the final result and stop on cancel or error', () => {
+    const result = { ...createStreamState(message).analysis, summary: 'Done' } as AnalysisResult
+    const streaming = createStreamState(message)
+
+    expect(applyStreamEvent(streaming, { type: 'complete', result })).toMatchObject({ status: 'complete', analysis: { summary: 'Done' }, completedStages: 7 })
+    expect(applyStreamEvent(streaming, { type: 'cancelled' }).status).toBe('cancelled')
+    expect(applyStreamEvent(streaming, { type: 'error', error: 'Local processing is disabled' })).toMatchObject({ status: 'error', error: 'Local processing is disabled' })
+  })
+})
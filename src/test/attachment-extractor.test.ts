@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest'
+import { deflateRawSync } from 'zlib'
+import { AttachmentExtractor } from '../utils/attachment-extractor'
+import { ZipReader } from '../utils/zip-reader'
+
+const encode = (text: string) => new TextEncoder().encode(text)
+
+/** Builds a single-entry ZIP archive with a deflated entry */
+function buildZip(path: string, content: string): Uint8Array {
+  const name = encode(path)
+  const data = new Uint8Array(deflateRawSync(Buffer.from(content)))
+  const local = new DataView(new ArrayBuffer(30))
+  local.setUint32(0, 0x04034b50, true)
+  local.setUint16(8, 8, true)
+  local.setUint32(18, data.length, true)
+  local.setUint32(22, content.length, true)
+  local.setUint16(26, name.length, true)
+
+  const central = new DataView(new ArrayBuffer(46))
+  central.setUint32(0, 0x02014b50, true)
+  central.setUint16(10, 8, true)
+  central.setUint32(20, data.length, true)
+  central.setUint32(24, content.length, true)
+  central.setUint16(28, name.length, true)
+  central.setUint32(42, 0, true)
+
+  const centralOffset = 30 + name.length + data.length
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, 0x06054b50, true)
+  end.setUint16(8, 1, true)
+  end.setUint16(10, 1, true)
+  end.setUint32(12, 46 + name.length, true)
+  end.setUint32(16, centralOffset, true)
+
+  const parts = [new Uint8Array(local.buffer), name, data, new Uint8Array(central.buffer), name, new Uint8Array(end.buffer)]
+  const archive = new Uint8Array(parts.reduce((length, part) => length + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    archive.set(part, offset)
+    offset += part.length
+  }
+  return archive
+}
+
+describe('AttachmentExtractor', () => {
+  it('should detect formats from the extension, then the MIME type', () => {
+    expect(AttachmentExtractor.detectFormat({ name: 'q3-numbers.csv', type: 'application/octet-stream' })).toBe('csv')
+    expect(AttachmentExtractor.detectFormat({ name: 'invite', type: 'text/calendar; method=REQUEST' })).toBe('ics')
+    expect(AttachmentExtractor.detectFormat({ name: 'contract.pdf', type: 'application/pdf' })).toBeNull()
+  })
+
+  it('should summarize CSV columns and numeric totals', async () => {
+    const csv = 'Region,Revenue,Notes\nNorth,"1,200",ok\nSouth,800,"late, paid 2024-03-01"\n'
+    const content = await AttachmentExtractor.extractContent(encode(csv), 'csv')
+
+    expect(AttachmentExtractor.parseCsv(csv)[2]).toEqual(['South', '800', 'late, paid 2024-03-01'])
+    expect(content.summary).toBe('2 rows × 3 columns (Region, Revenue, Notes); Revenue: total 2,000, range 800–1,200')
+    expect(content.text).toContain('| North | 1,200 | ok |')
+  })
+
+  it('should turn calendar events into meeting dates', async () => {
+    const ics = [
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      'SUMMARY:Quarterly review',
+      'DTSTART:20241014T090000Z',
+      'LOCATION:Room 4\\, HQ',
+      'END:VEVENT',
+      'END:VCALENDAR'
+    ].join('\r\n')
+    const content = await AttachmentExtractor.extractContent(encode(ics), 'ics')
+
+    expect(content.dates).toHaveLength(1)
+    expect(content.dates[0]).toMatchObject({ text: 'Quarterly review', type: 'meeting' })
+    expect(content.dates[0].date.toISOString()).toBe('2024-10-14T09:00:00.000Z')
+    expect(content.text).toContain('Location: Room 4, HQ')
+  })
+
+  it('should read paragraph text out of a deflated DOCX', async () => {
+    const documentXml = '<w:document><w:body><w:p><w:r><w:t>Draft agreement</w:t></w:r></w:p>' +
+      '<w:p><w:r><w:t xml:space="preserve">Terms &amp; conditions </w:t></w:r><w:r><w:t>apply.</w:t></w:r></w:p></w:body></w:document>'
+    const archive = buildZip('word/document.xml', documentXml)
+
+    expect(ZipReader.listEntries(archive).map(entry => entry.path)).toEqual(['word/document.xml'])
+    const content = await AttachmentExtractor.extractContent(archive, 'docx')
+    expect(content.text).toBe('Draft agreement\nTerms & conditions apply.')
+  })
+})
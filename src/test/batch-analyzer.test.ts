@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest'
+import { BatchAnalyzer } from '../utils/batch-analyzer'
+import { AnalysisResult, EmailMessage, InboxRow } from '@/types'
+
+const row = (threadId: string, overrides: Partial<InboxRow> = {}): InboxRow => ({
+  threadId,
+  from: `${threadId}@example.com`,
+  lastFrom: `${threadId}@example.com`,
+  subject: `Subject ${threadId}`,
+  snippet: `Notes for ${threadId}.`,
+  isUnread: true,
+  fingerprint: `fp-${threadId}`,
+  ...overrides
+})
+
+const analysisFor = (message: EmailMessage, overrides: Partial<AnalysisResult> = {}): AnalysisResult => ({
+  messageId: message.id,
+  summary: `Summary of ${message.subject}`,
+  actionItems: [],
+  suggestedReplies: [],
+  grammarIssues: [],
+  sentiment: 'neutral',
+  priority: 'low',
+  categories: [],
+  extractedDates: [],
+  createdAt: new Date(),
+  modelUsed: 'local',
+  ...overrides
+})
+
+describe('BatchAnalyzer', () => {
+  it('should keep no more than the configured number of analyses in flight', async () => {
+    let inFlight = 0
+    let maxInFlight = 0
+    const batch = new BatchAnalyzer(async message => {
+      inFlight++
+      maxInFlight = Math.max(maxInFlight, inFlight)
+      await new Promise(resolve => setTimeout(resolve, 5))
+      inFlight--
+      return analysisFor(message)
+    }, 2)
+
+    const report = await batch.run('gmail', ['a', 'b', 'c', 'd', 'e'].map(id => row(id)))
+
+    expect(maxInFlight).toBe(2)
+    expect(report.conversations.map(conversation => conversation.threadId)).toEqual(['a', 'b', 'c', 'd', 'e'])
+  })
+
+  it('should only analyze the most recent unread rows up to the limit', async () => {
+    const analyzed: string[] = []
+    const batch = new BatchAnalyzer(async message => {
+      analyzed.push(message.threadId!)
+      return analysisFor(message)
+    })
+
+    await batch.run('outlook', [row('a'), row('b', { isUnread: false }), row('c'), row('d')], 2)
+
+    expect(analyzed.sort()).toEqual(['a', 'c'])
+  })
+
+  it('should record a failed conversation without failing the batch', async () => {
+    const batch = new BatchAnalyzer(async message => {
+      if (message.threadId === 'b') throw new Error('Model unavailable')
+      return analysisFor(message, { priority: 'high' })
+    })
+
+    const report = await batch.run('gmail', [row('a'), row('b')])
+
+    expect(report.failed).toBe(1)
+    expect(report.conversations[1]).toMatchObject({ threadId: 'b', error: 'Model unavailable' })
+    expect(report.topPriorities.map(conversation => conversation.threadId)).toEqual(['a'])
+  })
+
+  it('should combine action items by due date and flag threads awaiting a reply', async () => {
+    const batch = new BatchAnalyzer(async message => {
+      if (message.threadId === 'a') {
+        return analysisFor(message, {
+          priority: 'medium',
+          actionItems: [
+            { text: 'File the report', priority: 'low', category: 'task', isCompleted: false },
+            { text: 'Book the venue', priority: 'medium', category: 'task', isCompleted: false, dueDate: new Date('2026-03-10') }
+          ]
+        })
+      }
+      if (message.threadId === 'b') {
+        return analysisFor(message, {
+          priority: 'high',
+          actionItems: [{ text: 'Sign the contract', priority: 'high', category: 'task', isCompleted: false, dueDate: new Date('2026-03-05') }]
+        })
+      }
+      return analysisFor(message)
+    })
+
+    const report = await batch.run('yahoo', [
+      row('a', { snippet: 'Could you book the venue and file the report?' }),
+      row('b', { snippet: 'Contract attached for signature.', lastFrom: 'Me@example.com' }),
+      row('c', { lastFrom: 'c@example.com' })
+    ], 20, 'me@example.com')
+
+    expect(report.actionItems.map(item => [item.text, item.threadId])).toEqual([
+      ['Sign the contract', 'b'],
+      ['Book the venue', 'a'],
+      ['File the report', 'a']
+    ])
+    expect(report.topPriorities.map(conversation => conversation.threadId)).toEqual(['b', 'a'])
+    expect(report.awaitingReply.map(conversation => conversation.threadId)).toEqual(['a', 'c'])
+  })
+
+  it('should reuse a current thread analysis and mark the rest as made from snippets', async () => {
+    const analyzed: EmailMessage[] = []
+    const batch = new BatchAnalyzer(async message => {
+      analyzed.push(message)
+      return analysisFor(message)
+    }, 3, async inboxRow => inboxRow.threadId === 'a'
+      ? { analysis: analysisFor({ id: 'gmail:18c1', subject: 'Subject a' } as EmailMessage, { priority: 'high' }), lastFrom: 'me@example.com' }
+      : null)
+
+    const report = await batch.run('gmail', [row('a'), row('b', { from: 'b@example.com', lastFrom: 'carol@example.com' })], 20, 'me@example.com')
+
+    expect(analyzed.map(message => [message.id, message.from, message.snippetOnly])).toEqual([['b', 'carol@example.com', true]])
+    expect(report.conversations.map(conversation => [conversation.threadId, conversation.messageId, conversation.basis, conversation.awaitingReply])).toEqual([
+      ['a', 'gmail:18c1', 'thread', false],
+      ['b', 'b', 'snippet', true]
+    ])
+    expect(report.topPriorities.map(conversation => conversation.threadId)).toEqual(['a'])
+  })
+})
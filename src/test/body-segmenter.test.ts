@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest'
+import { BodySegmenter } from '../utils/body-segmenter'
+import { EmailMessage } from '../types'
+
+describe('BodySegmenter', () => {
+  it('should separate new content from a wrapped reply header and quoted history', () => {
+    const segments = BodySegmenter.segment([
+      'Thursday works for me.',
+      '',
+      'On Mon, Oct 14, 2024 at 9:05 AM Ana Lopez <ana@example.com>',
+      'wrote:',
+      '> Can you confirm the launch date?'
+    ].join('\n'))
+
+    expect(segments.map(segment => segment.type)).toEqual(['new', 'quoted'])
+    expect(BodySegmenter.getNewContent(segments)).toBe('Thursday works for me.')
+  })
+
+  it('should detect non-English reply headers and Outlook forward blocks', () => {
+    const german = BodySegmenter.segment('Passt mir.\n\nAm 14.10.2024 um 09:05 schrieb Ana <ana@example.com>:\n> Termin?')
+    const outlook = BodySegmenter.segment([
+      'See below.',
+      '',
+      'From: Dana Reyes <dana@contoso.com>',
+      'Sent: Monday, October 14, 2024 3:45 PM',
+      'To: Sam Lee <sam@contoso.com>',
+      'Subject: Q3 budget review'
+    ].join('\n'))
+
+    expect(BodySegmenter.getNewContent(german)).toBe('Passt mir.')
+    expect(BodySegmenter.getNewContent(outlook)).toBe('See below.')
+    expect(outlook[1].text).toMatch(/^From: Dana/)
+  })
+
+  it('should classify inline quotes, mobile footers and disclaimers', () => {
+    const segments = BodySegmenter.segment([
+      '> Are we still on for Friday?',
+      'Yes, see you at 10.',
+      '',
+      'Sent from my iPhone',
+      '',
+      'CONFIDENTIALITY NOTICE: This email is intended solely for the named recipient.'
+    ].join('\n'))
+
+    expect(segments.map(segment => segment.type)).toEqual(['quoted', 'new', 'signature', 'disclaimer'])
+    expect(BodySegmenter.getNewContent(segments)).toBe('Yes, see you at 10.')
+  })
+
+  it('should narrow the message body once and keep bare forwards readable', () => {
+    const message: EmailMessage = {
+      id: 'hash:1',
+      subject: 'Fwd: Invoice',
+      from: 'sam@contoso.com',
+      to: [],
+      body: '---------- Forwarded message ---------\nFrom: billing@vendor.com\nInvoice #42 is attached.',
+      attachments: [],
+      timestamp: new Date(),
+      isRead: true,
+      isImportant: false
+    }
+
+    const segmented = BodySegmenter.applyTo(message)
+
+    expect(segmented.segments).toEqual([{ type: 'quoted', text: message.body }])
+    expect(segmented.body).toBe(message.body)
+    expect(BodySegmenter.applyTo(segmented)).toBe(segmented)
+  })
+})
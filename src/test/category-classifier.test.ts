@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { CategoryClassifier } from '../utils/category-classifier'
+import { AnalysisCacheStorage } from '../utils/analysis-cache'
+import { EmailMessage, UserCategory } from '@/types'
+
+class MemoryStorage implements AnalysisCacheStorage {
+  items: Record<string, unknown> = {}
+
+  async getAll() {
+    return JSON.parse(JSON.stringify(this.items))
+  }
+
+  async get(key: string) {
+    return this.items[key] && JSON.parse(JSON.stringify(this.items[key]))
+  }
+
+  async set(key: string, value: unknown) {
+    this.items[key] = JSON.parse(JSON.stringify(value))
+  }
+
+  async remove(keys: string[]) {
+    keys.forEach(key => delete this.items[key])
+  }
+}
+
+// Bag of words stands in for the sentence embedding model
+const vocabulary = new Map<string, number>()
+const embed = async (text: string): Promise<number[]> => {
+  const vector = new Array(128).fill(0)
+  for (const word of text.toLowerCase().match(/[a-z]+/g) || []) {
+    if (!vocabulary.has(word)) vocabulary.set(word, vocabulary.size % 128)
+    vector[vocabulary.get(word)!] += 1
+  }
+  return vector
+}
+
+const categories: UserCategory[] = [
+  { label: 'billing', description: 'invoice payment refund charge', examples: ['your invoice is attached'] },
+  { label: 'hiring', description: 'candidate interview offer resume' },
+  { label: 'incident', description: 'outage alert error production down' }
+]
+
+const email = (id: string, subject: string, body: string): EmailMessage => ({
+  id,
+  subject,
+  from: 'someone@example.com',
+  to: ['me@example.com'],
+  body,
+  timestamp: new Date(),
+  isRead: false,
+  isImportant: false,
+  attachments: []
+})
+
+describe('CategoryClassifier', () => {
+  let storage: MemoryStorage
+  let classifier: CategoryClassifier
+
+  beforeEach(() => {
+    storage = new MemoryStorage()
+    classifier = new CategoryClassifier(embed, storage)
+    classifier.setCategories(categories)
+  })
+
+  it('should file an email under the closest category with its score', async () => {
+    const result = await classifier.classify(email('m1', 'Invoice', 'The invoice payment failed, please retry the charge'))
+
+    expect(result.map(category => category.label)).toEqual(['billing'])
+    expect(result[0].score).toBeGreaterThan(0.35)
+    expect(result[0].score).toBeLessThanOrEqual(1)
+  })
+
+  it('should leave unrelated email uncategorized', async () => {
+    expect(await classifier.classify(email('m2', 'Lunch', 'Want to grab lunch on Thursday?'))).toEqual([])
+
+    classifier.setCategories([])
+    expect(classifier.hasCategories()).toBe(false)
+    expect(await classifier.classify(email('m3', 'Invoice', 'invoice payment'))).toEqual([])
+  })
+
+  it('should learn from emails the user moves into a category', async () => {
+    const onCall = email('m4', 'Pager', 'The pager woke me at night for the on-call rotation')
+    expect(await classifier.classify(onCall)).toEqual([])
+
+    await classifier.correct(onCall, 'incident', true)
+
+    const similar = email('m5', 'Pager', 'Pager went off at night, on-call handed over')
+    expect((await classifier.classify(similar)).map(category => category.label)).toEqual(['incident'])
+  })
+
+  it('should stop assigning a category the user removed from similar emails', async () => {
+    const newsletter = email('m6', 'Newsletter', 'Monthly newsletter: invoice tips, payment trends and refund stories')
+    expect((await classifier.classify(newsletter)).map(category => category.label)).toContain('billing')
+
+    await classifier.correct(newsletter, 'billing', false)
+
+    const nextIssue = email('m7', 'Newsletter', 'Monthly newsletter: payment trends and refund stories')
+    expect((await classifier.classify(nextIssue)).map(category => category.label)).not.toContain('billing')
+  })
+
+  it('should keep corrections across sessions and reject unknown labels', async () => {
+    await classifier.correct(email('m8', 'Pager', 'pager night on call'), 'incident', true)
+    await classifier.correct(email('m8', 'Pager', 'pager night on call'), 'incident', false)
+
+    const restored = new CategoryClassifier(embed, storage)
+    restored.setCategories(categories)
+    const stored = await storage.get(CategoryClassifier.CORRECTIONS_KEY) as { positive: boolean }[]
+
+    expect(stored).toHaveLength(1)
+    expect(stored[0].positive).toBe(false)
+    await expect(restored.correct(email('m9', 'Hi', 'hello'), 'travel', true)).rejects.toThrow('Unknown category')
+  })
+})
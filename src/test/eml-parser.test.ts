@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest'
+import { EmlParser } from '../utils/eml-parser'
+
+const multipartEmail = [
+  'Return-Path: <dana@contoso.com>',
+  'From: =?UTF-8?Q?Dana_Rey=C3=A9s?= <dana@contoso.com>',
+  'To: "Lee, Sam" <sam@contoso.com>, finance@contoso.com',
+  'Subject: =?UTF-8?B?UTMgYnVkZ2V0IHJldmlldw==?=',
+  'Date: Mon, 14 Oct 2024 15:45:00 +0000 (UTC)',
+  'Message-ID: <CAF123@mail.contoso.com>',
+  'In-Reply-To: <CAF100@mail.contoso.com>',
+  'References: <CAF001@mail.contoso.com>',
+  '  <CAF100@mail.contoso.com>',
+  'X-Gmail-Labels: Inbox,Finance',
+  'Importance: high',
+  'MIME-Version: 1.0',
+  'Content-Type: multipart/mixed; boundary="outer"',
+  '',
+  'This is a multi-part message in MIME format.',
+  '--outer',
+  'Content-Type: multipart/alternative; boundary="inner"',
+  '',
+  '--inner',
+  'Content-Type: text/plain; charset="utf-8"',
+  'Content-Transfer-Encoding: quoted-printable',
+  '',
+  'Please review the attached budget by Friday =E2=80=93 thanks!',
+  'This line is soft-=',
+  'wrapped.',
+  '--inner',
+  'Content-Type: text/html; charset="utf-8"',
+  '',
+  '<p>Please review the attached budget by Friday</p>',
+  '--inner--',
+  '--outer',
+  'Content-Type: text/csv; name="budget.csv"',
+  'Content-Disposition: attachment; filename="budget.csv"',
+  'Content-Transfer-Encoding: base64',
+  '',
+  'cXVhcnRlcixhbW91bnQKUTMsMTIwMAo=',
+  '--outer--',
+  ''
+].join('\r\n')
+
+describe('EmlParser', () => {
+  it('should decode encoded-word headers and address lists', () => {
+    const message = EmlParser.parse(multipartEmail)
+
+    expect(message.subject).toBe('Q3 budget review')
+    expect(message.from).toBe('Dana Reyés <dana@contoso.com>')
+    expect(message.to).toEqual(['"Lee, Sam" <sam@contoso.com>', 'finance@contoso.com'])
+    expect(message.timestamp.toISOString()).toBe('2024-10-14T15:45:00.000Z')
+    expect(message.labels).toEqual(['Inbox', 'Finance'])
+    expect(message.isImportant).toBe(true)
+  })
+
+  it('should prefer the plain text alternative and decode quoted-printable', () => {
+    const message = EmlParser.parse(multipartEmail)
+
+    expect(message.body).toBe('Please review the attached budget by Friday – thanks!\nThis line is soft-wrapped.')
+    expect(message.htmlBody).toContain('<p>Please review')
+  })
+
+  it('should decode base64 attachments', () => {
+    const message = EmlParser.parse(multipartEmail)
+
+    expect(message.attachments).toHaveLength(1)
+    expect(message.attachments[0]).toMatchObject({ name: 'budget.csv', type: 'text/csv', size: 23 })
+    expect(new TextDecoder().decode(message.attachments[0].data)).toBe('quarter,amount\nQ3,1200\n')
+  })
+
+  it('should derive ids from Message-ID and the thread root from References', () => {
+    const message = EmlParser.parse(multipartEmail)
+
+    expect(message.rfcMessageId).toBe('CAF123@mail.contoso.com')
+    expect(message.id).toBe('msgid:caf123@mail.contoso.com')
+    expect(message.threadId).toBe('msgid:caf001@mail.contoso.com')
+  })
+
+  it('should keep 8bit bodies as read and split parameters only outside quotes', () => {
+    const message = EmlParser.parse([
+      'Subject: Menu',
+      'From: chef@bistro.fr',
+      'MIME-Version: 1.0',
+      'Content-Type: multipart/mixed; boundary="b"',
+      '',
+      '--b',
+      'Content-Type: text/plain; charset=iso-8859-1',
+      'Content-Transfer-Encoding: 8bit',
+      '',
+      'Café crème à 14h',
+      '--b',
+      'Content-Type: application/pdf; name="menu;draft.pdf"',
+      'Content-Disposition: attachment; filename="menu;draft \\"v2\\".pdf"; size=3',
+      'Content-Transfer-Encoding: base64',
+      '',
+      'AQID',
+      '--b--'
+    ].join('\n'))
+
+    expect(message.body).toBe('Café crème à 14h')
+    expect(message.attachments[0]).toMatchObject({ name: 'menu;draft "v2".pdf', size: 3 })
+  })
+
+  it('should parse plain messages without MIME headers', () => {
+    const message = EmlParser.parse([
+      'Subject: Weekly Team Sync - Tomorrow at 2 PM',
+      'From: sarah.manager@company.com',
+      'To: team@company.com',
+      '',
+      'Hi Team,',
+      '',
+      "I'd like to schedule our weekly team sync for tomorrow at 2 PM."
+    ].join('\n'))
+
+    expect(message.subject).toBe('Weekly Team Sync - Tomorrow at 2 PM')
+    expect(message.body).toContain('weekly team sync')
+    expect(message.id).toMatch(/^hash:/)
+    expect(message.threadId).toBeUndefined()
+    expect(message.attachments).toEqual([])
+  })
+})
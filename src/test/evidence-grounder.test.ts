@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest'
+import { EvidenceGrounder } from '../utils/evidence-grounder'
+import { EvidenceHighlighter } from '../content/ui/EvidenceHighlighter'
+import { ActionItem, ExtractedDate } from '@/types'
+
+const body = [
+  'Hi team, thanks for the update on the launch.',
+  'Please send the signed contract to legal by Friday.',
+  'The offsite is on March 12 at 3pm.',
+  'We also need someone to review the pricing page.'
+].join(' ')
+
+const task = (text: string, dueDate?: Date): ActionItem => ({ text, dueDate, priority: 'medium', category: 'task', isCompleted: false })
+
+const date = (text: string): ExtractedDate => ({ text, date: new Date(2026, 2, 12), type: 'meeting', confidence: 0.9 })
+
+describe('EvidenceGrounder', () => {
+  it('should split the body into sentences with offsets into it', () => {
+    const sentences = EvidenceGrounder.sentences(body)
+
+    expect(sentences).toHaveLength(4)
+    sentences.forEach(sentence => expect(body.slice(sentence.start, sentence.end)).toBe(sentence.text))
+  })
+
+  it('should verify text quoted from the body against its sentence', () => {
+    const grounding = EvidenceGrounder.locate(body, 'send the signed contract')
+
+    expect(grounding.verified).toBe(true)
+    expect(grounding.span!.text).toBe('Please send the signed contract to legal by Friday.')
+  })
+
+  it('should verify a quote the body wraps across lines and map it back to the body', () => {
+    const wrapped = 'Hi team,\n\nPlease send the signed\r\n   contract to legal by Friday.  Thanks!'
+    const grounding = EvidenceGrounder.locate(wrapped, 'send the signed contract to legal')
+
+    expect(grounding.verified).toBe(true)
+    expect(grounding.span!.text).toBe('Please send the signed\r\n   contract to legal by Friday.')
+    expect(wrapped.slice(grounding.span!.start, grounding.span!.end)).toBe(grounding.span!.text)
+  })
+
+  it('should keep paraphrased action items and drop invented ones', () => {
+    const items = EvidenceGrounder.groundActionItems(body, [
+      task('Review pricing page'),
+      task('Schedule a call with the investors')
+    ])
+
+    expect(items).toHaveLength(1)
+    expect(items[0].grounding).toMatchObject({ verified: true, span: { text: 'We also need someone to review the pricing page.' } })
+  })
+
+  it('should strip a due date the email never states and flag the item', () => {
+    const [dated, undated] = EvidenceGrounder.groundActionItems(body, [
+      task('Send the signed contract to legal', new Date(2026, 2, 6)),
+      task('Review the pricing page', new Date(2026, 2, 9))
+    ])
+
+    expect(dated.dueDate).toEqual(new Date(2026, 2, 6))
+    expect(dated.grounding!.verified).toBe(true)
+    expect(undated.dueDate).toBeUndefined()
+    expect(undated.grounding).toMatchObject({ verified: false, note: 'Due date not found in the email' })
+  })
+
+  it('should drop dates that are not mentioned in the body', () => {
+    const dates = EvidenceGrounder.groundDates(body, [date('March 12 at 3pm'), date('next Thursday')])
+
+    expect(dates.map(item => item.text)).toEqual(['March 12 at 3pm'])
+  })
+
+  it('should flag summary sentences the body does not support', () => {
+    const summary = EvidenceGrounder.groundSummary(body, 'Legal needs the signed contract by Friday. The budget was approved.')
+
+    expect(summary.map(sentence => sentence.verified)).toEqual([true, false])
+    expect(summary[1].span).toBeUndefined()
+  })
+})
+
+describe('EvidenceHighlighter', () => {
+  it('should find a sentence split across elements and whitespace', () => {
+    const root = document.createElement('div')
+    root.innerHTML = '<p>Hi team,</p><p>Please send the <b>signed   contract</b>\n to legal by Friday.</p>'
+
+    const range = EvidenceHighlighter.findRange(root, 'Please send the signed contract to legal by Friday.')
+
+    expect(range!.toString()).toBe('Please send the signed   contract\n to legal by Friday.')
+    expect(EvidenceHighlighter.findRange(root, 'Book the venue')).toBeNull()
+  })
+})
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest'
+import { GrammarChecker } from '../utils/grammar-checker'
+
+const fixes = (text: string) => GrammarChecker.check(text).map(issue => [issue.text, issue.suggestion])
+
+describe('GrammarChecker', () => {
+  it('should flag repeated words and agreement errors', () => {
+    expect(fixes('Please send the the report. He have the numbers and they is ready.')).toEqual([
+      ['the the', 'the'],
+      ['He have', 'He has'],
+      ['they is', 'they are']
+    ])
+    expect(fixes('I know that that works. Does he have it? If I were you, I would ask.')).toEqual([])
+  })
+
+  it('should fix articles and commonly confused words', () => {
+    expect(fixes('We need a invoice from an vendor, it could of been better then last time.')).toEqual([
+      ['a invoice', 'an invoice'],
+      ['an vendor', 'a vendor'],
+      ['could of', 'could have'],
+      ['better then', 'better than']
+    ])
+    expect(fixes('She is a user of an hourly plan and an FAQ helps with a update.')).toEqual([])
+  })
+
+  it('should report positions in the checked text', () => {
+    const text = 'Thanks ,i will check.See you'
+    const issues = GrammarChecker.check(text)
+
+    expect(issues.map(issue => [text.slice(issue.position.start, issue.position.end), issue.suggestion, issue.severity])).toEqual([
+      [' ,', ',', 'warning'],
+      ['i', 'I', 'error'],
+      ['.', '. ', 'warning']
+    ])
+  })
+
+  it('should point out passive voice and wordy phrases', () => {
+    const issues = GrammarChecker.check('The invoice was approved by finance. In order to proceed, we are interested in a call.')
+
+    expect(issues.map(issue => [issue.text, issue.severity])).toEqual([
+      ['was approved', 'info'],
+      ['In order to', 'info']
+    ])
+    expect(issues[1].suggestion).toBe('To')
+  })
+
+  it('should leave links, addresses and abbreviations alone', () => {
+    expect(fixes('See https://example.com/a,b?x=1..2 or mail ops.team@example.com, e.g. tomorrow at 9 a.m. sharp.')).toEqual([])
+    expect(fixes('Thanks. see you soon')).toEqual([['. s', '. S']])
+  })
+})
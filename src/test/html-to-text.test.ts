@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest'
+import { HtmlToText } from '../utils/html-to-text'
+
+describe('HtmlToText', () => {
+  it('should keep headings, paragraphs and lists', () => {
+    const text = HtmlToText.convert(`
+      <h2>Release status</h2>
+      <p>Hi team,<br>here is where we are:</p>
+      <ul>
+        <li><p>Backend &amp; API: done</p></li>
+        <li>Frontend
+          <ol start="3"><li>Settings page</li><li>Onboarding</li></ol>
+        </li>
+      </ul>
+      <p>Thanks&nbsp;&mdash; Ana</p>
+    `)
+
+    expect(text).toBe([
+      '## Release status',
+      '',
+      'Hi team,',
+      'here is where we are:',
+      '',
+      '- Backend & API: done',
+      '- Frontend',
+      '  3. Settings page',
+      '  4. Onboarding',
+      '',
+      'Thanks — Ana'
+    ].join('\n'))
+  })
+
+  it('should render table rows and link targets', () => {
+    const text = HtmlToText.convert(`
+      <table>
+        <tr><th>Item</th><th>Qty</th><th>Price</th></tr>
+        <tr><td>USB-C cable</td><td>2</td><td>$19.98</td></tr>
+      </table>
+      <p>Track it <a href="https://shop.example.com/track/123">here</a> or mail
+      <a href="mailto:help@example.com">help@example.com</a>.</p>
+    `)
+
+    expect(text).toBe([
+      '| Item | Qty | Price |',
+      '| --- | --- | --- |',
+      '| USB-C cable | 2 | $19.98 |',
+      '',
+      'Track it [here](https://shop.example.com/track/123) or mail help@example.com.'
+    ].join('\n'))
+  })
+
+  it('should quote blockquotes and drop scripts and styles', () => {
+    const text = HtmlToText.convert(`
+      <style>p { color: red }</style>
+      <div>Sounds good.</div>
+      <div class="gmail_quote">On Mon, Oct 14, 2024 Ana wrote:
+        <blockquote><p>Can we ship Thursday?</p><p>Thanks</p></blockquote>
+      </div>
+      <script>alert(1)</script>
+    `)
+
+    expect(text).toBe([
+      'Sounds good.',
+      'On Mon, Oct 14, 2024 Ana wrote:',
+      '',
+      '> Can we ship Thursday?',
+      '>',
+      '> Thanks'
+    ].join('\n'))
+  })
+})
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest'
+import { IcsParser } from '../utils/ics-parser'
+import { EmlParser } from '../utils/eml-parser'
+
+const outlookInvite = [
+  'BEGIN:VCALENDAR',
+  'METHOD:REQUEST',
+  'BEGIN:VTIMEZONE',
+  'TZID:Pacific Standard Time',
+  'END:VTIMEZONE',
+  'BEGIN:VEVENT',
+  'UID:040000008200E00074C5B7101A82E008',
+  'SUMMARY;LANGUAGE=en-US:Design sync',
+  'DTSTART;TZID=Pacific Standard Time:20241014T090000',
+  'DTEND;TZID=Pacific Standard Time:20241014T093000',
+  'RRULE:FREQ=WEEKLY;COUNT=4;BYDAY=MO,WE',
+  'EXDATE;TZID=Pacific Standard Time:20241016T090000',
+  'ORGANIZER;CN=Ana Lima:mailto:ana@example.com',
+  'ATTENDEE;ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;CN="Raj, Design":mailto:raj@exa',
+  ' mple.com',
+  'LOCATION:Room 4\\, HQ',
+  'SEQUENCE:0',
+  'BEGIN:VALARM',
+  'DESCRIPTION:REMINDER',
+  'TRIGGER:-PT15M',
+  'END:VALARM',
+  'END:VEVENT',
+  'END:VCALENDAR'
+].join('\r\n')
+
+describe('IcsParser', () => {
+  it('should parse an Outlook invite with a Windows time zone and recurrence', () => {
+    const [meeting] = IcsParser.parse(outlookInvite)
+
+    expect(meeting.title).toBe('Design sync')
+    expect(meeting.start.toISOString()).toBe('2024-10-14T16:00:00.000Z')
+    expect(meeting.end?.toISOString()).toBe('2024-10-14T16:30:00.000Z')
+    expect(meeting.timeZone).toBe('America/Los_Angeles')
+    expect(meeting.recurrenceText).toBe('Weekly on Mon, Wed, 4 times')
+    expect(meeting.organizer).toMatchObject({ email: 'ana@example.com', name: 'Ana Lima' })
+    expect(meeting.attendees).toEqual([{ email: 'raj@example.com', name: 'Raj, Design', role: 'REQ-PARTICIPANT', status: 'NEEDS-ACTION' }])
+    expect(meeting.location).toBe('Room 4, HQ')
+    expect(meeting.description).toBeUndefined()
+    expect(meeting.method).toBe('REQUEST')
+    expect(meeting.status).toBe('scheduled')
+
+    const [date] = IcsParser.toExtractedDates([meeting])
+    expect(date).toMatchObject({ type: 'meeting', text: 'Design sync', date: meeting.start })
+  })
+
+  it('should expand occurrences honouring COUNT and EXDATE', () => {
+    const [meeting] = IcsParser.parse(outlookInvite)
+    const starts = IcsParser.occurrences(meeting, new Date('2025-01-01T00:00:00Z')).map(date => date.toISOString())
+
+    // Four instances are generated; the excluded Wednesday still counts
+    expect(starts).toEqual(['2024-10-14T16:00:00.000Z', '2024-10-21T16:00:00.000Z', '2024-10-23T16:00:00.000Z'])
+  })
+
+  it('should mark cancellations and updates', () => {
+    const cancel = outlookInvite.replace('METHOD:REQUEST', 'METHOD:CANCEL')
+    const update = outlookInvite.replace('SEQUENCE:0', 'SEQUENCE:2')
+
+    expect(IcsParser.parse(cancel)[0].status).toBe('cancelled')
+    expect(IcsParser.parse(update)[0]).toMatchObject({ status: 'updated', sequence: 2 })
+  })
+
+  it('should find conflicts with overlapping occurrences of other meetings', () => {
+    const [sync] = IcsParser.parse(outlookInvite)
+    const [review] = IcsParser.parse([
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      'UID:review-1',
+      'SUMMARY:Budget review',
+      'DTSTART:20241021T161500Z',
+      'DURATION:PT1H',
+      'END:VEVENT',
+      'END:VCALENDAR'
+    ].join('\n'))
+    const [lunch] = IcsParser.parse([
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      'UID:lunch-1',
+      'SUMMARY:Lunch',
+      'DTSTART:20241021T190000Z',
+      'END:VEVENT',
+      'END:VCALENDAR'
+    ].join('\n'))
+
+    const conflicts = IcsParser.findConflicts(review, [sync, review, lunch])
+    expect(conflicts).toHaveLength(1)
+    expect(conflicts[0]).toMatchObject({ uid: sync.uid, title: 'Design sync' })
+    expect(conflicts[0].start.toISOString()).toBe('2024-10-21T16:00:00.000Z')
+  })
+
+  it('should keep inline text/calendar parts of raw emails as invites', () => {
+    const raw = [
+      'From: ana@example.com',
+      'Subject: Invitation: Design sync',
+      'Content-Type: multipart/alternative; boundary="b1"',
+      '',
+      '--b1',
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      'You have been invited.',
+      '--b1',
+      'Content-Type: text/calendar; charset=utf-8; method=REQUEST',
+      '',
+      outlookInvite,
+      '--b1--'
+    ].join('\r\n')
+
+    const message = EmlParser.parse(raw)
+    expect(message.body).toBe('You have been invited.')
+    expect(message.attachments).toHaveLength(1)
+    expect(message.attachments[0]).toMatchObject({ name: 'invite.ics', type: 'text/calendar' })
+    expect(IcsParser.parse(new TextDecoder().decode(message.attachments[0].data))[0].title).toBe('Design sync')
+  })
+})
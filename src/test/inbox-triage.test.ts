@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { GmailAdapter } from '../utils/mail-clients/gmail'
+import { YahooAdapter } from '../utils/mail-clients/yahoo'
+import { FallbackManager } from '../utils/fallback-manager'
+import { InboxBadges } from '../content/ui/InboxBadges'
+
+const gmailInbox = `
+  <div role="main">
+    <table>
+      <tr class="zA zE">
+        <td class="yX"><div class="yW"><span class="zF" email="ops@example.com" name="Ops">Ops</span></div></td>
+        <td class="xY">
+          <div class="xT">
+            <span class="bog" data-thread-id="#thread-f:1790000000000000001" data-legacy-thread-id="18c1a2b3c4d5e6f7">URGENT: database failover</span>
+            <span class="y2"> - Primary is down, please join the bridge</span>
+          </div>
+        </td>
+      </tr>
+      <tr class="zA yO">
+        <td class="yX"><div class="yW"><span class="yP" email="lee@example.com" name="Lee">Lee</span>, <span class="yP" email="me@example.com" name="me">me</span></div></td>
+        <td class="xY">
+          <div class="xT">
+            <span class="bog" data-thread-id="#thread-f:1790000000000000002">Budget draft</span>
+            <span class="y2"> - Report due 10/31/2024, thanks for the help</span>
+          </div>
+        </td>
+      </tr>
+      <tr class="zA yO">
+        <td class="xY"><span class="y2">Row without a subject</span></td>
+      </tr>
+    </table>
+  </div>
+`
+
+describe('Inbox triage', () => {
+  beforeEach(() => {
+    document.body.innerHTML = gmailInbox
+  })
+
+  it('should read Gmail inbox rows with stable thread ids', () => {
+    const handles = new GmailAdapter().listInboxRows()
+
+    expect(handles).toHaveLength(2)
+    expect(handles[0].row).toMatchObject({
+      threadId: 'thread-f:1790000000000000001',
+      from: 'ops@example.com',
+      subject: 'URGENT: database failover',
+      snippet: 'Primary is down, please join the bridge',
+      isUnread: true
+    })
+    expect(handles[1].row.isUnread).toBe(false)
+    expect(handles[0].row.fingerprint).not.toBe(handles[1].row.fingerprint)
+  })
+
+  it('should read who sent the newest message and which account is signed in', () => {
+    document.title = 'Inbox (1) - Me@Example.com - Gmail'
+    const adapter = new GmailAdapter()
+    const [urgent, budget] = adapter.listInboxRows()
+
+    expect(urgent.row).toMatchObject({ from: 'ops@example.com', lastFrom: 'ops@example.com' })
+    expect(budget.row).toMatchObject({ from: 'lee@example.com', lastFrom: 'me@example.com' })
+    expect(adapter.getAccountAddress()).toBe('me@example.com')
+  })
+
+  it('should read Yahoo inbox rows using the message id from the link', () => {
+    document.body.innerHTML = `
+      <a data-test-id="message-list-item" data-test-read="false" href="/d/folders/1/messages/AKd9x2">
+        <div data-test-id="senders"><span title="mia@yahoo.com">Mia</span></div>
+        <span data-test-id="message-subject">Meeting moved</span>
+        <div data-test-id="snippet">Can we schedule it for Friday?</div>
+      </a>
+    `
+    const [handle] = new YahooAdapter().listInboxRows()
+
+    expect(handle.row).toMatchObject({ threadId: 'AKd9x2', from: 'mia@yahoo.com', isUnread: true })
+  })
+
+  it('should triage rows with the fallback heuristics', () => {
+    const [urgent, budget] = new GmailAdapter().listInboxRows().map(handle => FallbackManager.getInstance().triageRow(handle.row))
+
+    expect(urgent).toMatchObject({ priority: 'high', hasDeadline: false })
+    expect(budget).toMatchObject({ priority: 'low', hasDeadline: true })
+    expect(budget.categories).toEqual(['deadline', 'budget', 'appreciation'])
+  })
+
+  it('should badge each row once per fingerprint', () => {
+    const [handle] = new GmailAdapter().listInboxRows()
+    const triage = FallbackManager.getInstance().triageRow(handle.row)
+
+    expect(InboxBadges.isCurrent(handle)).toBe(false)
+    InboxBadges.apply(handle, triage)
+    InboxBadges.apply(handle, triage)
+
+    const badges = handle.element.querySelectorAll('.replysage-triage-badge')
+    expect(Array.from(badges).map(badge => badge.textContent)).toEqual(['Urgent'])
+    expect(handle.badgeAnchor.nextElementSibling?.className).toBe('replysage-triage-badges')
+    expect(InboxBadges.isCurrent(new GmailAdapter().listInboxRows()[0])).toBe(true)
+  })
+})
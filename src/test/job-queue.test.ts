@@ -0,0 +1,238 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { JobQueue, JobStore } from '../utils/job-queue'
+import { ProcessingJob } from '@/types'
+
+class MemoryJobStore implements JobStore {
+  jobs: Map<string, ProcessingJob> = new Map()
+
+  async load() {
+    return Array.from(this.jobs.values()).map(job => ({ ...job }))
+  }
+
+  async save(job: ProcessingJob) {
+    this.jobs.set(job.id, { ...job })
+  }
+
+  async delete(id: string) {
+    this.jobs.delete(id)
+  }
+}
+
+/** A handler that finishes only when the test says so */
+function deferredHandler() {
+  const started: string[] = []
+  const release: (() => void)[] = []
+  const handler = async (job: ProcessingJob, signal: AbortSignal) => {
+    started.push(job.messageId)
+    await new Promise<void>((resolve, reject) => {
+      release.push(resolve)
+      signal.addEventListener('abort', () => reject(new Error('aborted')))
+    })
+    return `done ${job.messageId}`
+  }
+  return { started, handler, releaseNext: () => release.shift()?.() }
+}
+
+describe('JobQueue', () => {
+  let store: MemoryJobStore
+  let queue: JobQueue
+
+  beforeEach(() => {
+    store = new MemoryJobStore()
+    queue = new JobQueue(store)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should run the open email before background indexing', async () => {
+    const { started, handler, releaseNext } = deferredHandler()
+    queue.registerHandler('embedding', handler)
+    queue.registerHandler('analysis', handler)
+
+    const first = await queue.enqueue({ type: 'embedding', messageId: 'indexed-1', priority: 'low' })
+    await queue.enqueue({ type: 'embedding', messageId: 'indexed-2', priority: 'low' })
+    const open = await queue.enqueue({ type: 'analysis', messageId: 'open', priority: 'high' })
+    await vi.waitFor(() => expect(started).toEqual(['indexed-1']))
+
+    // The running job is not preempted; the open email is next
+    releaseNext()
+    await vi.waitFor(() => expect(started).toEqual(['indexed-1', 'open']))
+    releaseNext()
+
+    expect((await queue.wait(first.id)).result).toBe('done indexed-1')
+    expect(await queue.wait(open.id)).toMatchObject({ status: 'completed', result: 'done open', attempts: 1 })
+  })
+
+  it('should run up to its concurrency of jobs at once', async () => {
+    const { started, handler, releaseNext } = deferredHandler()
+    queue = new JobQueue(store, 2)
+    queue.registerHandler('analysis', handler)
+
+    const jobs = await Promise.all(['m1', 'm2', 'm3'].map(messageId => queue.enqueue({ type: 'analysis', messageId })))
+    await vi.waitFor(() => expect(started).toEqual(['m1', 'm2']))
+    expect((await queue.getStatus()).counts).toMatchObject({ processing: 2, pending: 1 })
+
+    releaseNext()
+    await vi.waitFor(() => expect(started).toEqual(['m1', 'm2', 'm3']))
+    releaseNext()
+    releaseNext()
+
+    const finished = await Promise.all(jobs.map(job => queue.wait(job.id)))
+    expect(finished.map(job => job.status)).toEqual(['completed', 'completed', 'completed'])
+  })
+
+  it('should dedupe jobs by message id and keep the higher priority', async () => {
+    const background = await queue.enqueue({ type: 'analysis', messageId: 'm1', priority: 'low' })
+    const open = await queue.enqueue({ type: 'analysis', messageId: 'm1', priority: 'high' })
+    const other = await queue.enqueue({ type: 'embedding', messageId: 'm1', priority: 'low' })
+
+    expect(open.id).toBe(background.id)
+    expect(open.priority).toBe('high')
+    expect(other.id).not.toBe(background.id)
+    expect(store.jobs.get(background.id)!.priority).toBe('high')
+  })
+
+  it('should retry failed jobs with exponential backoff', async () => {
+    vi.useFakeTimers()
+    const attempts: number[] = []
+    queue.registerHandler('embedding', async () => {
+      attempts.push(Date.now())
+      if (attempts.length < 3) throw new Error('model not ready')
+      return 'indexed'
+    })
+
+    const job = await queue.enqueue({ type: 'embedding', messageId: 'm1' })
+    await vi.advanceTimersByTimeAsync(0)
+    expect(queue.getJob(job.id)).toMatchObject({ status: 'pending', attempts: 1, error: 'model not ready' })
+
+    await vi.advanceTimersByTimeAsync(2000)
+    expect(attempts).toHaveLength(2)
+    await vi.advanceTimersByTimeAsync(3999)
+    expect(attempts).toHaveLength(2)
+    await vi.advanceTimersByTimeAsync(1)
+
+    expect(await queue.wait(job.id)).toMatchObject({ status: 'completed', attempts: 3, result: 'indexed', error: undefined })
+  })
+
+  it('should mark a job failed once its attempts are used up', async () => {
+    queue.registerHandler('analysis', async () => { throw new Error('bad input') })
+
+    const job = await queue.enqueue({ type: 'analysis', messageId: 'm1', maxAttempts: 1 })
+
+    expect(await queue.wait(job.id)).toMatchObject({ status: 'failed', error: 'bad input' })
+  })
+
+  it('should cancel pending and running jobs', async () => {
+    const { started, handler } = deferredHandler()
+    queue.registerHandler('analysis', handler)
+
+    const running = await queue.enqueue({ type: 'analysis', messageId: 'm1' })
+    const pending = await queue.enqueue({ type: 'analysis', messageId: 'm2' })
+    await vi.waitFor(() => expect(started).toEqual(['m1']))
+
+    expect(await queue.cancel(pending.id)).toBe(true)
+    expect(await queue.cancel(running.id)).toBe(true)
+    expect((await queue.wait(running.id)).status).toBe('cancelled')
+    expect((await queue.wait(pending.id)).status).toBe('cancelled')
+    expect(started).toEqual(['m1'])
+    expect(await queue.cancel(running.id)).toBe(false)
+
+    const status = await queue.getStatus()
+    expect(status.counts).toMatchObject({ cancelled: 2, pending: 0, processing: 0 })
+    expect(status.jobs[0]).not.toHaveProperty('payload')
+  })
+
+  it('should only cancel a shared job once every caller has released it', async () => {
+    const { started, handler, releaseNext } = deferredHandler()
+    queue.registerHandler('analysis', handler)
+
+    const batch = await queue.enqueue({ type: 'analysis', messageId: 'm1', priority: 'normal' })
+    const sidebar = await queue.enqueue({ type: 'analysis', messageId: 'm1', priority: 'high' })
+    await vi.waitFor(() => expect(started).toEqual(['m1']))
+
+    expect(await queue.release(sidebar.id)).toBe(false)
+    releaseNext()
+    expect(await queue.wait(batch.id)).toMatchObject({ status: 'completed', result: 'done m1' })
+
+    const alone = await queue.enqueue({ type: 'analysis', messageId: 'm2' })
+    expect(await queue.release(alone.id)).toBe(true)
+    expect((await queue.wait(alone.id)).status).toBe('cancelled')
+  })
+
+  it('should stop waiting for a subscriber that cancels while another keeps the job', async () => {
+    const { started, handler, releaseNext } = deferredHandler()
+    queue.registerHandler('analysis', handler)
+
+    const sidebar = await queue.enqueue({ type: 'analysis', messageId: 'm1', priority: 'high' })
+    const batch = await queue.enqueue({ type: 'analysis', messageId: 'm1' })
+    const controller = new AbortController()
+    const sidebarWait = queue.wait(sidebar.id, controller.signal)
+    const batchWait = queue.wait(batch.id)
+    await vi.waitFor(() => expect(started).toEqual(['m1']))
+
+    controller.abort()
+    await expect(sidebarWait).rejects.toThrow('Job cancelled')
+    expect(queue.getJob(sidebar.id)!.status).toBe('processing')
+
+    releaseNext()
+    expect(await batchWait).toMatchObject({ status: 'completed', result: 'done m1' })
+  })
+
+  it('should cancel the job when its only subscriber stops waiting', async () => {
+    const { started, handler } = deferredHandler()
+    queue.registerHandler('analysis', handler)
+
+    const job = await queue.enqueue({ type: 'analysis', messageId: 'm1' })
+    const controller = new AbortController()
+    const waiting = queue.wait(job.id, controller.signal)
+    await vi.waitFor(() => expect(started).toEqual(['m1']))
+
+    controller.abort()
+    await expect(waiting).rejects.toThrow('Job cancelled')
+    expect((await queue.wait(job.id)).status).toBe('cancelled')
+  })
+
+  it('should not hand out a running job that was cancelled', async () => {
+    const started: string[] = []
+    const finish: (() => void)[] = []
+    // Ignores the abort signal, so the cancelled job keeps running for a while
+    queue.registerHandler('analysis', async job => {
+      started.push(job.id)
+      await new Promise<void>(resolve => finish.push(resolve))
+    })
+
+    const first = await queue.enqueue({ type: 'analysis', messageId: 'm1' })
+    await vi.waitFor(() => expect(started).toEqual([first.id]))
+    await queue.cancel(first.id)
+
+    const second = await queue.enqueue({ type: 'analysis', messageId: 'm1' })
+    expect(second.id).not.toBe(first.id)
+
+    finish.shift()!()
+    expect((await queue.wait(first.id)).status).toBe('cancelled')
+    await vi.waitFor(() => expect(started).toEqual([first.id, second.id]))
+    finish.shift()!()
+    expect((await queue.wait(second.id)).status).toBe('completed')
+  })
+
+  it('should resume interrupted jobs after a restart', async () => {
+    const { started, handler } = deferredHandler()
+    queue.registerHandler('analysis', handler)
+    const job = await queue.enqueue({ type: 'analysis', messageId: 'm1', payload: { subject: 'Hello' } })
+    await vi.waitFor(() => expect(store.jobs.get(job.id)!.status).toBe('processing'))
+
+    // A new queue over the same store stands in for a restarted service worker
+    const restarted = new JobQueue(store)
+    restarted.registerHandler('analysis', async resumed => resumed.payload)
+
+    expect(await restarted.wait((await restarted.enqueue({ type: 'analysis', messageId: 'm1' })).id)).toMatchObject({
+      id: job.id,
+      status: 'completed',
+      attempts: 2,
+      result: { subject: 'Hello' }
+    })
+    expect(started).toEqual(['m1'])
+  })
+})
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest'
+import { LanguageDetector } from '../utils/language-detector'
+import { LanguagePacks } from '../utils/language-packs'
+import { FallbackManager } from '../utils/fallback-manager'
+import { EmailMessage } from '@/types'
+
+const email = (subject: string, body: string): EmailMessage => ({
+  id: 'm1',
+  subject,
+  from: 'someone@example.com',
+  to: ['me@example.com'],
+  body,
+  timestamp: new Date(),
+  isRead: false,
+  isImportant: false,
+  attachments: []
+})
+
+describe('LanguageDetector', () => {
+  it('should recognize each packed language', () => {
+    expect(LanguageDetector.detect('Thanks for the update, we will review the draft and get back to you this week.').language).toBe('en')
+    expect(LanguageDetector.detect('Vielen Dank für die Unterlagen. Wir haben noch eine Frage zu dem Angebot und melden uns bitte bis Freitag.').language).toBe('de')
+    expect(LanguageDetector.detect('Gracias por la información. Necesitamos que revise el contrato y nos envíe los comentarios para el lunes.').language).toBe('es')
+    expect(LanguageDetector.detect('Merci pour votre message. Nous avons besoin de la version finale du contrat pour la réunion de lundi.').language).toBe('fr')
+  })
+
+  it('should treat text too short to tell as English', () => {
+    expect(LanguageDetector.detect('Danke!')).toEqual({ language: 'en', confidence: 0 })
+    expect(LanguageDetector.detect('')).toEqual({ language: 'en', confidence: 0 })
+  })
+})
+
+describe('LanguagePacks', () => {
+  it('should read day-first and spelled-out dates', () => {
+    const pack = LanguagePacks.get('de')
+    const [numeric] = LanguagePacks.findDates('Abgabe am 12.03.2026', pack)
+    const [spelled] = LanguagePacks.findDates('Treffen am 4. Mai', pack)
+
+    expect(numeric.date).toEqual(new Date(2026, 2, 12))
+    expect(spelled.date.getMonth()).toBe(4)
+    expect(spelled.date.getDate()).toBe(4)
+    expect(LanguagePacks.findDates('am 31.02.2026', pack)).toEqual([])
+    expect(LanguagePacks.get('xx').code).toBe('en')
+  })
+})
+
+describe('FallbackManager in other languages', () => {
+  const fallback = FallbackManager.getInstance()
+
+  it('should find German requests with their deadlines', () => {
+    const message = email('Vertrag', 'Hallo Anna,\nbitte prüfen Sie den Vertrag bis 12. März.\nDanke!')
+    const [item] = fallback.extractActionItemsWithHeuristics(message, 'de')
+
+    expect(item.text).toBe('prüfen Sie den Vertrag')
+    expect(item.dueDate?.getMonth()).toBe(2)
+    expect(item.category).toBe('review')
+  })
+
+  it('should answer in the language of the email', async () => {
+    const message = email('Réunion', 'Merci pour votre message, nous avons besoin du rapport pour la réunion de lundi.')
+    const analysis = await fallback.analyzeEmailWithFallback(message)
+
+    expect(analysis.language).toBe('fr')
+    expect(analysis.suggestedReplies[0].text).toBe(LanguagePacks.get('fr').replies.formal)
+    expect(analysis.grammarIssues).toEqual([])
+  })
+})
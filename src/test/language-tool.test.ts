@@ -0,0 +1,85 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { LanguageToolClient, GrammarService } from '../utils/language-tool'
+import { FallbackManager } from '../utils/fallback-manager'
+import { EmailMessage } from '@/types'
+
+const email = (body: string): EmailMessage => ({
+  id: 'm1',
+  subject: 'Report',
+  from: 'someone@example.com',
+  to: ['me@example.com'],
+  body,
+  timestamp: new Date(),
+  isRead: false,
+  isImportant: false,
+  attachments: []
+})
+
+// Answers like a LanguageTool server and records what it was sent
+const standIn = (status = 200) => {
+  const requests: { url: string; params: URLSearchParams }[] = []
+  const fetchFn = async (url: string, init: RequestInit) => {
+    requests.push({ url, params: new URLSearchParams(init.body as string) })
+    return new Response(JSON.stringify({
+      matches: [
+        { message: 'Possible spelling mistake', offset: 8, length: 7, replacements: [{ value: 'receive' }, { value: 'relieve' }], rule: { id: 'MORFOLOGIK_RULE_EN_US', issueType: 'misspelling' } },
+        { message: 'Consider a shorter alternative', offset: 19, length: 11, replacements: [], rule: { id: 'IN_ORDER_TO', issueType: 'style' } }
+      ]
+    }), { status })
+  }
+  return { requests, fetchFn }
+}
+
+describe('LanguageToolClient', () => {
+  it('should turn server matches into grammar issues', async () => {
+    const server = standIn()
+    const client = new LanguageToolClient('http://localhost:8081/v2/', server.fetchFn)
+    const text = 'Did you recieve it in order to file it?'
+
+    const issues = await client.check(text, 'en')
+
+    expect(server.requests[0].url).toBe('http://localhost:8081/v2/check')
+    expect(server.requests[0].params.get('language')).toBe('en-US')
+    expect(server.requests[0].params.get('text')).toBe(text)
+    expect(issues).toEqual([
+      { text: 'recieve', suggestion: 'receive', severity: 'error', position: { start: 8, end: 15 } },
+      { text: 'in order to', suggestion: 'Consider a shorter alternative', severity: 'info', position: { start: 19, end: 30 } }
+    ])
+  })
+
+  it('should fail when the server does', async () => {
+    const client = new LanguageToolClient('http://localhost:8081', standIn(503).fetchFn)
+
+    await expect(client.check('Hello', 'de')).rejects.toThrow('503')
+  })
+})
+
+describe('FallbackManager grammar', () => {
+  const fallback = FallbackManager.getInstance()
+
+  afterEach(() => fallback.setGrammarService(null))
+
+  it('should use the built-in rules without a server', async () => {
+    const issues = await fallback.checkGrammarWithFallback(email('We need the the numbers.'))
+
+    expect(fallback.hasGrammarService()).toBe(false)
+    expect(issues.map(issue => issue.suggestion)).toEqual(['the'])
+    await expect(fallback.checkGrammarWithLanguageTool(email('Hi'))).rejects.toThrow('No LanguageTool server')
+  })
+
+  it('should prefer the server and fall back to the rules when it fails', async () => {
+    const calls: string[] = []
+    const service: GrammarService = {
+      check: async (_text, language) => {
+        calls.push(language)
+        if (calls.length > 1) throw new Error('connection refused')
+        return [{ text: 'Hallo', suggestion: 'Hallo,', severity: 'warning', position: { start: 0, end: 5 } }]
+      }
+    }
+    fallback.setGrammarService(service)
+
+    expect(await fallback.checkGrammarWithFallback(email('Hallo Anna'), 'de')).toHaveLength(1)
+    expect(await fallback.checkGrammarWithFallback(email('We need the the numbers.'))).toHaveLength(1)
+    expect(calls).toEqual(['de', 'en'])
+  })
+})
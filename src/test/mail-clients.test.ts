@@ -0,0 +1,277 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { OutlookExtractor } from '../utils/mail-clients/outlook'
+import { GmailAdapter, GmailExtractor } from '../utils/mail-clients/gmail'
+import { YahooAdapter } from '../utils/mail-clients/yahoo'
+import { MailClientRegistry } from '../utils/mail-clients/registry'
+import { MessageIdGenerator } from '../utils/message-id'
+import { EmbeddingsManager } from '../utils/embeddings-manager'
+import { EmbeddingVector } from '@/types'
+
+const outlookReadingPane = `
+  <div id="ReadingPaneContainerId">
+    <div data-app-section="ConversationContainer" data-convid="AAQkADAwATM0MDAAMS1iNjdmLTk2">
+      <div role="heading" aria-level="2">Q3 budget review</div>
+      <div aria-label="Email message">
+        <span data-testid="SenderPersona" title="Dana Reyes &lt;dana@contoso.com&gt;">Dana Reyes</span>
+        <div data-testid="RecipientWell">
+          <div aria-label="To: Sam Lee">
+            <span title="sam@contoso.com">Sam Lee</span>
+          </div>
+          <div aria-label="Cc: Finance">
+            <span title="finance@contoso.com">Finance</span>
+          </div>
+        </div>
+        <div data-testid="SentReceivedSavedTime">Mon 10/14/2024 3:45 PM</div>
+        <div role="listbox" aria-label="Attachments">
+          <div role="option" aria-label="budget.xlsx 120 KB">
+            <span title="budget.xlsx">budget.xlsx</span>
+            <a href="https://outlook.office.com/attachment/1">Download</a>
+          </div>
+        </div>
+        <div aria-label="Message body">
+          <p>Please review the attached budget by Friday.</p>
+          <div id="Signature">Dana Reyes | Finance Lead</div>
+          <div id="appendonsend"></div>
+          <hr>
+          <div id="divRplyFwdMsg">From: Sam Lee<br>Sent: Friday</div>
+          <p>Earlier quoted message</p>
+        </div>
+      </div>
+    </div>
+  </div>
+`
+
+describe('OutlookExtractor', () => {
+  beforeEach(() => {
+    document.body.innerHTML = outlookReadingPane
+  })
+
+  it('should extract the open message with the EmailMessage shape', () => {
+    const message = OutlookExtractor.extractMessage()
+
+    expect(message).not.toBeNull()
+    expect(message!.subject).toBe('Q3 budget review')
+    expect(message!.from).toBe('Dana Reyes <dana@contoso.com>')
+    expect(message!.to).toEqual(['sam@contoso.com'])
+    expect(message!.cc).toEqual(['finance@contoso.com'])
+    expect(message!.threadId).toBe('AAQkADAwATM0MDAAMS1iNjdmLTk2')
+    expect(message!.timestamp.getFullYear()).toBe(2024)
+    expect(message!.timestamp.getMonth()).toBe(9)
+    expect(message!.timestamp.getHours()).toBe(15)
+  })
+
+  it('should strip quoted history and signatures from the body', () => {
+    const message = OutlookExtractor.extractMessage()
+
+    expect(message!.body).toBe('Please review the attached budget by Friday.')
+    expect(message!.htmlBody).toContain('divRplyFwdMsg')
+  })
+
+  it('should extract attachments with size and type', () => {
+    const message = OutlookExtractor.extractMessage()
+
+    expect(message!.attachments).toHaveLength(1)
+    expect(message!.attachments[0]).toMatchObject({
+      name: 'budget.xlsx',
+      size: 120 * 1024,
+      type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      url: 'https://outlook.office.com/attachment/1'
+    })
+  })
+
+  it('should derive the same id every time a message is opened', () => {
+    const first = OutlookExtractor.extractMessage()
+    document.body.innerHTML = outlookReadingPane
+    const second = OutlookExtractor.extractMessage()
+
+    expect(first!.id).toMatch(/^hash:/)
+    expect(second!.id).toBe(first!.id)
+  })
+
+  it('should return null when no message is open', () => {
+    document.body.innerHTML = '<div id="ReadingPaneContainerId"></div>'
+
+    expect(OutlookExtractor.isMessageOpen()).toBe(false)
+    expect(OutlookExtractor.extractMessage()).toBeNull()
+  })
+})
+
+const gmailConversation = `
+  <div role="main">
+    <h2 class="hP">Launch checklist</h2>
+    <div data-thread-perm-id="thread-f:1790000000000000001">
+      <div class="adn" data-legacy-message-id="18c1a2b3c4d5e6f7">
+        <span class="gD" email="ana@example.com">Ana</span>
+        <span class="g2" email="raj@example.com">Raj</span>
+        <span class="g3" title="Mon, Oct 14, 2024, 9:05 AM">Oct 14</span>
+        <div class="a3s">Can you confirm the launch date?</div>
+      </div>
+      <div class="adn" data-legacy-message-id="18c1a2b3c4d5e6f8">
+        <span class="gD" email="raj@example.com">Raj</span>
+        <span class="g2" email="ana@example.com">Ana</span>
+        <span class="g3" title="Mon, Oct 14, 2024, 11:30 AM">Oct 14</span>
+        <div class="a3s">Confirmed for Thursday.</div>
+      </div>
+    </div>
+  </div>
+`
+
+describe('GmailAdapter', () => {
+  beforeEach(() => {
+    document.body.innerHTML = gmailConversation
+  })
+
+  it('should enumerate the messages of the open thread', () => {
+    const messages = new GmailAdapter().enumerateThread('thread-f:1790000000000000001')
+
+    expect(messages).toHaveLength(2)
+    expect(messages[0]).toMatchObject({
+      id: 'gmail:18c1a2b3c4d5e6f7',
+      subject: 'Launch checklist',
+      from: 'ana@example.com',
+      to: ['raj@example.com'],
+      body: 'Can you confirm the launch date?',
+      threadPosition: 0,
+      isReply: false
+    })
+    expect(messages[1].isReply).toBe(true)
+    expect(messages[1].timestamp.getHours()).toBe(11)
+  })
+
+  it('should adopt embeddings recorded from the body as legacy ids read it', () => {
+    document.body.innerHTML = `
+      <div data-thread-perm-id="thread-f:1790000000000000002">
+        <h2>Lunch Friday?</h2>
+        <div class="yW"><span email="ana@example.com">Ana Lopez</span></div>
+        <div class="ii"><div class="a3s"><div>Are you free for lunch on Friday?</div><div><br></div><div>Noon works for me.</div><div class="gmail_signature">Ana</div><div class="gmail_quote">On Mon, Raj wrote: lunch?</div></div></div>
+      </div>
+    `
+    const message = GmailExtractor.extractMessage()!
+    // As the baseline stored it: a per-visit base64 id and `${subject} ${body}`
+    const recorded: EmbeddingVector = {
+      id: 'embedding_1697280000000_k2j4h5',
+      messageId: 'aHR0cHM6Ly9tYWlsLmdvb2dsZS5jb20vbWFpbC91LzAvI2luYm94LTE2OTcyODAwMDAwMDA',
+      vector: [0.1, 0.2],
+      text: 'Lunch Friday? Are you free for lunch on Friday?Noon works for me.',
+      metadata: { subject: 'Lunch Friday?', sender: 'Ana Lopez', timestamp: new Date('2023-10-14T10:40:00Z'), threadId: undefined },
+      createdAt: new Date('2023-10-14T10:40:00Z')
+    }
+    const current = { ...recorded, id: 'embedding_1697280000001_p9q8r7', messageId: message.id }
+
+    expect(message.body).toBe('Are you free for lunch on Friday?\n\nNoon works for me.')
+    expect(EmbeddingsManager.findLegacyEmbeddings(message, [current, recorded])).toEqual([recorded])
+    expect(EmbeddingsManager.findLegacyEmbeddings({ ...message, legacyBody: undefined }, [recorded])).toEqual([])
+  })
+})
+
+const yahooConversation = `
+  <div role="main">
+    <span data-test-id="message-group-subject-text">Venue options</span>
+    <ul data-conversation-id="AOkAAB1VvOVZZw8m">
+      <li data-message-id="ALr9Ad1">
+        <div data-test-id="message-view">
+          <div data-test-id="message-from"><span title="mia@yahoo.com">Mia Park</span></div>
+          <div data-test-id="message-to"><span title="leo@example.com">Leo</span></div>
+          <span data-test-id="message-date" title="Tue, Oct 15, 2024 at 2:10 PM">Oct 15</span>
+          <div data-test-id="message-view-body-content">
+            <p>Which venue works best?</p>
+            <div class="signature">Mia</div>
+          </div>
+        </div>
+      </li>
+      <li data-message-id="ALr9Ad2">
+        <div data-test-id="message-view">
+          <div data-test-id="message-from"><span title="leo@example.com">Leo</span></div>
+          <div data-test-id="message-to"><span title="mia@yahoo.com">Mia Park</span></div>
+          <div data-test-id="message-cc"><span title="events@example.com">Events</span></div>
+          <span data-test-id="message-date" title="Tue, Oct 15, 2024 at 4:45 PM">Oct 15</span>
+          <div data-test-id="attachment-item">
+            <span data-test-id="attachment-name" title="floorplan.pdf">floorplan.pdf</span>
+            <span>1.5 MB</span>
+            <a href="https://apis.mail.yahoo.com/ws/v3/attachment/2">Download</a>
+          </div>
+          <div data-test-id="message-view-body-content">
+            <p>The harbour hall, if it is free on the 24th.</p>
+            <div class="yahoo_quoted">On Tuesday, Mia Park wrote: Which venue works best?</div>
+          </div>
+        </div>
+      </li>
+    </ul>
+  </div>
+`
+
+describe('YahooAdapter', () => {
+  beforeEach(() => {
+    document.body.innerHTML = yahooConversation
+  })
+
+  it('should extract the latest message of the open conversation', () => {
+    const message = new YahooAdapter().extractMessage()
+
+    expect(message).toMatchObject({
+      id: 'yahoo:ALr9Ad2',
+      subject: 'Venue options',
+      from: 'leo@example.com',
+      to: ['mia@yahoo.com'],
+      cc: ['events@example.com'],
+      body: 'The harbour hall, if it is free on the 24th.',
+      threadId: 'AOkAAB1VvOVZZw8m'
+    })
+    expect(message!.timestamp.getHours()).toBe(16)
+    expect(message!.attachments[0]).toMatchObject({
+      name: 'floorplan.pdf',
+      type: 'application/pdf',
+      url: 'https://apis.mail.yahoo.com/ws/v3/attachment/2'
+    })
+  })
+
+  it('should enumerate the messages of the open conversation in order', () => {
+    const messages = new YahooAdapter().enumerateThread()
+
+    expect(messages).toHaveLength(2)
+    expect(messages[0]).toMatchObject({
+      id: 'yahoo:ALr9Ad1',
+      from: 'mia@yahoo.com',
+      body: 'Which venue works best?',
+      threadPosition: 0,
+      isReply: false
+    })
+    expect(messages[1]).toMatchObject({ threadPosition: 1, isReply: true })
+  })
+})
+
+describe('MailClientRegistry', () => {
+  it('should resolve adapters by hostname', () => {
+    const registry = MailClientRegistry.getInstance()
+
+    expect(registry.getAdapterForHostname('mail.google.com')?.id).toBe('gmail')
+    expect(registry.getAdapterForHostname('outlook.office.com')?.id).toBe('outlook')
+    expect(registry.getAdapterForHostname('OUTLOOK.LIVE.COM')?.id).toBe('outlook')
+    expect(registry.getAdapterForHostname('mail.yahoo.com')?.id).toBe('yahoo')
+    expect(registry.getAdapterForHostname('example.com')).toBeNull()
+  })
+})
+
+describe('MessageIdGenerator', () => {
+  it('should prefer the RFC Message-ID over other identifiers', () => {
+    const id = MessageIdGenerator.generate({
+      rfcMessageId: '<CAF=abc123@Mail.Example.com>',
+      provider: 'gmail',
+      providerMessageId: '18c1a2b3c4d5e6f7',
+      from: 'ana@example.com',
+      body: 'Hello'
+    })
+
+    expect(id).toBe('msgid:caf=abc123@mail.example.com')
+  })
+
+  it('should hash sender, time and normalized body when no id is available', () => {
+    const timestamp = new Date('2024-10-14T09:05:00Z')
+    const id = MessageIdGenerator.fromContent('ana@example.com', timestamp, 'Can you  confirm\nthe date?')
+
+    expect(MessageIdGenerator.fromContent('Ana@Example.com ', timestamp, 'can you confirm the date?')).toBe(id)
+    expect(MessageIdGenerator.fromContent('ana@example.com', timestamp, 'Can you confirm the time?')).not.toBe(id)
+    expect(MessageIdGenerator.isLegacyId(id)).toBe(false)
+    expect(MessageIdGenerator.isLegacyId('aHR0cHM6Ly9tYWlsLmdvb2dsZS5jb20')).toBe(true)
+  })
+})
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest'
+import { MboxImporter } from '../utils/mbox-importer'
+import { EmlParser } from '../utils/eml-parser'
+
+const takeoutMbox = [
+  'From 1790000000000000001@xxx Mon Oct 14 09:05:00 +0000 2024',
+  'X-GM-THRID: 1790000000000000001',
+  'X-Gmail-Labels: Inbox,Work',
+  'From: ana@example.com',
+  'Subject: Launch checklist',
+  'Date: Mon, 14 Oct 2024 09:05:00 +0000',
+  'Message-ID: <launch-1@example.com>',
+  '',
+  'Can you confirm the launch date?',
+  '>From the team: thanks!',
+  '',
+  'From 1790000000000000002@xxx Sat Mar 02 18:00:00 +0000 2024',
+  'X-Gmail-Labels: Archived,Personal',
+  'From: raj@example.com',
+  'Subject: Dinner',
+  'Date: Sat, 2 Mar 2024 18:00:00 +0000',
+  'Message-ID: <dinner@example.com>',
+  '',
+  '>From what I hear the place is great.',
+  ''
+].join('\r\n')
+
+describe('MboxImporter', () => {
+  it('should split messages on separator lines and unescape >From', () => {
+    const messages = MboxImporter.splitMessages(takeoutMbox)
+
+    expect(messages).toHaveLength(2)
+    expect(messages[0]).toContain('\nFrom the team: thanks!')
+    expect(EmlParser.parse(messages[1]).body).toBe('From what I hear the place is great.')
+  })
+
+  it('should filter by label and date range', () => {
+    const [launch, dinner] = MboxImporter.splitMessages(takeoutMbox).map(raw => EmlParser.parse(raw))
+
+    expect(MboxImporter.matchesFilters(launch, { labels: ['work'] })).toBe(true)
+    expect(MboxImporter.matchesFilters(dinner, { labels: ['work'] })).toBe(false)
+    expect(MboxImporter.matchesFilters(dinner, { startDate: '2024-06-01' })).toBe(false)
+    expect(MboxImporter.matchesFilters(launch, { startDate: '2024-06-01', endDate: '2024-10-14' })).toBe(true)
+    expect(MboxImporter.matchesFilters(launch, {})).toBe(true)
+  })
+})
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest'
+import { MessageProtocol } from '../utils/messages'
+import { EmailMessage } from '@/types'
+
+const message: EmailMessage = {
+  id: 'protocol-test',
+  subject: 'Budget',
+  from: 'finance@example.com',
+  to: ['team@example.com'],
+  body: 'Please send your numbers by Friday.',
+  timestamp: new Date(),
+  attachments: [{ name: 'budget.xlsx', size: 2048, type: 'application/vnd.ms-excel' }],
+  isRead: false,
+  isImportant: true
+}
+
+describe('MessageProtocol', () => {
+  it('should accept well-formed requests', () => {
+    expect(MessageProtocol.validate({ type: 'ANALYZE_MESSAGE', payload: message })).toMatchObject({ valid: true })
+    expect(MessageProtocol.validate({ type: 'GET_SETTINGS' })).toMatchObject({ valid: true })
+    expect(MessageProtocol.validate({ type: 'RUN_TESTS' })).toMatchObject({ valid: true })
+    expect(MessageProtocol.validate({
+      type: 'GENERATE_REPLIES',
+      payload: { message, replyType: 'accept', tone: 'friendly', length: 'short' }
+    })).toMatchObject({ valid: true })
+  })
+
+  it('should reject messages that are not requests', () => {
+    for (const malformed of [null, 'GET_SETTINGS', [], { payload: {} }, { type: 42 }]) {
+      expect(MessageProtocol.validate(malformed)).toMatchObject({
+        valid: false,
+        failure: { success: false, code: 'INVALID_MESSAGE' }
+      })
+    }
+  })
+
+  it('should reject unknown message types', () => {
+    expect(MessageProtocol.validate({ type: 'MODEL_DOWNLOAD_PROGRESS', payload: {} })).toEqual({
+      valid: false,
+      failure: { success: false, code: 'UNKNOWN_MESSAGE_TYPE', error: 'Unknown message type: MODEL_DOWNLOAD_PROGRESS' }
+    })
+    // Inherited object keys are not message types
+    expect(MessageProtocol.validate({ type: 'toString' })).toMatchObject({ failure: { code: 'UNKNOWN_MESSAGE_TYPE' } })
+  })
+
+  it('should point at the first invalid payload field', () => {
+    expect(MessageProtocol.validate({ type: 'ANALYZE_MESSAGE' })).toMatchObject({
+      failure: { code: 'INVALID_PAYLOAD', error: 'Invalid ANALYZE_MESSAGE payload: payload must be an object' }
+    })
+    expect(MessageProtocol.validate({ type: 'ANALYZE_MESSAGE', payload: { ...message, to: 'team@example.com' } })).toMatchObject({
+      failure: { code: 'INVALID_PAYLOAD', error: 'Invalid ANALYZE_MESSAGE payload: payload.to must be an array' }
+    })
+    expect(MessageProtocol.validate({
+      type: 'ANALYZE_MESSAGE',
+      payload: { ...message, attachments: [{ name: 'budget.xlsx', size: '2kb', type: 'application/vnd.ms-excel' }] }
+    })).toMatchObject({
+      failure: { error: 'Invalid ANALYZE_MESSAGE payload: payload.attachments[0].size must be a number' }
+    })
+    expect(MessageProtocol.validate({ type: 'INSERT_REPLY', payload: { reply: 'Thanks!', method: 'clipboard' } })).toMatchObject({
+      failure: { code: 'INVALID_PAYLOAD', error: 'Invalid INSERT_REPLY payload: payload.method must be one of paste, replace, insert, new_tab' }
+    })
+  })
+
+  it('should allow optional fields to be left out', () => {
+    expect(MessageProtocol.validate({ type: 'SEARCH_SIMILAR', payload: { query: 'budget' } })).toMatchObject({ valid: true })
+    expect(MessageProtocol.validate({ type: 'SEARCH_SIMILAR', payload: { query: 'budget', limit: 'ten' } })).toMatchObject({
+      failure: { error: 'Invalid SEARCH_SIMILAR payload: payload.limit must be a number' }
+    })
+  })
+
+  it('should check calendar events and privacy settings field by field', () => {
+    const action = { text: 'Send the numbers', dueDate: '2026-03-06T17:00:00.000Z', priority: 'high', category: 'task', isCompleted: false }
+
+    expect(MessageProtocol.validate({ type: 'CREATE_CALENDAR_EVENT', payload: { title: 'Numbers', action } })).toMatchObject({ valid: true })
+    expect(MessageProtocol.validate({ type: 'CREATE_CALENDAR_EVENT', payload: { title: 'Numbers', action: { ...action, dueDate: 'Friday' } } })).toMatchObject({
+      failure: { error: 'Invalid CREATE_CALENDAR_EVENT payload: payload.action.dueDate must be a date' }
+    })
+    expect(MessageProtocol.validate({ type: 'UPDATE_PRIVACY_SETTINGS', payload: { settings: { dataRetentionDays: 30 } } })).toMatchObject({ valid: true })
+    expect(MessageProtocol.validate({ type: 'UPDATE_PRIVACY_SETTINGS', payload: { settings: { enableAnalytics: 'no' } } })).toMatchObject({
+      failure: { error: 'Invalid UPDATE_PRIVACY_SETTINGS payload: payload.settings.enableAnalytics must be a boolean' }
+    })
+  })
+})
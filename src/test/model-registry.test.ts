@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { ModelRegistry, SettingsStorage } from '../utils/model-registry'
+
+class MemoryStorage implements SettingsStorage {
+  items: Record<string, unknown> = {}
+
+  async get(key: string) {
+    return this.items[key] && JSON.parse(JSON.stringify(this.items[key]))
+  }
+
+  async set(key: string, value: unknown) {
+    this.items[key] = JSON.parse(JSON.stringify(value))
+  }
+}
+
+const bartLarge = {
+  id: 'bart-large-cnn-int8',
+  name: 'BART Large CNN (INT8)',
+  task: 'summarization',
+  modelId: 'Xenova/bart-large-cnn',
+  quantization: 'int8',
+  sizeMB: 410,
+  minMemoryMB: 2048,
+  license: 'mit'
+}
+
+describe('ModelRegistry', () => {
+  let storage: MemoryStorage
+  let registry: ModelRegistry
+
+  beforeEach(() => {
+    storage = new MemoryStorage()
+    registry = new ModelRegistry(storage)
+  })
+
+  it('should run every task on the bundled default', () => {
+    for (const task of ModelRegistry.TASKS) {
+      const model = registry.getActiveModel(task)
+      expect(model.task).toBe(task)
+      expect(model.quantization).toBe('int8')
+    }
+    expect(registry.getActiveModel('summarization').modelId).toBe('Xenova/distilbart-cnn-6-6')
+    expect(ModelRegistry.weightsUrl(registry.getActiveModel('feature-extraction')))
+      .toBe('https://huggingface.co/Xenova/all-MiniLM-L6-v2/resolve/main/onnx/model_quantized.onnx')
+  })
+
+  it('should register, select and remove a user model', async () => {
+    let changes = 0
+    registry.onChange(() => changes++)
+
+    await registry.register(bartLarge)
+    await registry.select('summarization', 'bart-large-cnn-int8')
+
+    expect(registry.getActiveModel('summarization')).toMatchObject({ id: 'bart-large-cnn-int8', custom: true })
+    expect(registry.getModelsForTask('summarization').map(model => model.id)).toContain('bart-large-cnn-int8')
+
+    await registry.unregister('bart-large-cnn-int8')
+    expect(registry.getActiveModel('summarization').id).toBe('distilbart-cnn-6-6-int8')
+    expect(changes).toBe(3)
+  })
+
+  it('should restore user models and choices from storage', async () => {
+    await registry.register(bartLarge)
+    await registry.select('summarization', 'bart-large-cnn-int8')
+    await registry.select('text-generation', 'distilgpt2')
+
+    const restored = new ModelRegistry(storage)
+    let notified = false
+    restored.onChange(() => { notified = true })
+    await restored.load()
+
+    expect(notified).toBe(true)
+    expect(restored.getActiveModelIds()).toMatchObject({ 'summarization': 'bart-large-cnn-int8', 'text-generation': 'distilgpt2' })
+  })
+
+  it('should reject entries it could not run', async () => {
+    await expect(registry.register({ ...bartLarge, modelId: 'bart-large-cnn' })).rejects.toThrow('Hugging Face model id')
+    await expect(registry.register({ ...bartLarge, task: 'translation' })).rejects.toThrow('task must be one of')
+    await expect(registry.register({ ...bartLarge, checksum: 'abc123' })).rejects.toThrow('SHA-256')
+    await expect(registry.register({ ...bartLarge, id: 'distilgpt2' })).rejects.toThrow('built in')
+    await expect(registry.unregister('distilgpt2')).rejects.toThrow('built in')
+    await expect(registry.select('text-generation', 'distilbart-cnn-6-6')).rejects.toThrow('not text-generation')
+  })
+
+  it('should route other languages to a model that handles them', async () => {
+    expect(registry.getModelForLanguage('text-classification', 'en')).toBe(registry.getActiveModel('text-classification'))
+    expect(registry.getModelForLanguage('text-classification', 'de')?.id).toBe('bert-multilingual-sentiment-int8')
+    expect(registry.getModelForLanguage('summarization', 'de')).toBeUndefined()
+
+    await expect(registry.register({ ...bartLarge, languages: ['german'] })).rejects.toThrow('ISO 639-1')
+  })
+
+  it('should only consider memory the device reports', () => {
+    const model = registry.getModel('distilbart-cnn-6-6')!
+
+    expect(registry.fitsDevice(model, 2)).toBe(false)
+    expect(registry.fitsDevice(model, 8)).toBe(true)
+  })
+})
@@ -0,0 +1,131 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { PIIRedactionManager } from '../utils/pii-redaction'
+import { EntityToken, NamedEntities, RecognizedEntity } from '../utils/named-entities'
+import { EmailMessage } from '@/types'
+
+const email = (subject: string, body: string): EmailMessage => ({
+  id: 'm1',
+  subject,
+  from: 'someone@example.com',
+  to: ['me@example.com'],
+  body,
+  timestamp: new Date(),
+  isRead: false,
+  isImportant: false,
+  attachments: []
+})
+
+// Stands in for the NER model: finds each listed entity wherever it occurs
+const recognizer = (known: Omit<RecognizedEntity, 'start' | 'end'>[]) => async (text: string): Promise<RecognizedEntity[]> =>
+  known.flatMap(entity => {
+    const start = text.indexOf(entity.text)
+    return start === -1 ? [] : [{ ...entity, start, end: start + entity.text.length }]
+  })
+
+describe('NamedEntities', () => {
+  it('should join word pieces into entities with their spans', () => {
+    const text = 'Ping María Ferreira-Okafor at Acme Corp in São Paulo.'
+    const tokens: EntityToken[] = [
+      { entity: 'B-PER', score: 0.99, index: 2, word: 'María' },
+      { entity: 'I-PER', score: 0.97, index: 3, word: 'Ferreira' },
+      { entity: 'I-PER', score: 0.95, index: 4, word: '-' },
+      { entity: 'I-PER', score: 0.9, index: 5, word: 'Ok' },
+      { entity: 'I-PER', score: 0.9, index: 6, word: '##afor' },
+      { entity: 'B-ORG', score: 0.92, index: 8, word: 'Acme' },
+      { entity: 'I-ORG', score: 0.9, index: 9, word: 'Corp' },
+      { entity: 'B-MISC', score: 0.6, index: 10, word: 'in' },
+      { entity: 'B-LOC', score: 0.98, index: 11, word: 'São' },
+      { entity: 'I-LOC', score: 0.98, index: 12, word: 'Paulo' }
+    ]
+
+    const entities = NamedEntities.fromTokens(text, tokens)
+
+    expect(entities.map(entity => [entity.type, entity.text])).toEqual([
+      ['person', 'María Ferreira-Okafor'],
+      ['organization', 'Acme Corp'],
+      ['location', 'São Paulo']
+    ])
+    expect(text.slice(entities[1].start, entities[1].end)).toBe('Acme Corp')
+    expect(entities[0].score).toBeCloseTo(0.942)
+  })
+
+  it('should take the whole word when only its start is tagged', () => {
+    const text = 'Thanks, Johnson. Johnson will call.'
+    const tokens: EntityToken[] = [
+      { entity: 'B-PER', score: 0.9, index: 3, word: 'John' },
+      { entity: 'B-PER', score: 0.9, index: 6, word: 'Johnson' }
+    ]
+
+    expect(NamedEntities.fromTokens(text, tokens).map(entity => entity.start)).toEqual([8, 17])
+  })
+})
+
+describe('PIIRedactionManager', () => {
+  const manager = PIIRedactionManager.getInstance()
+
+  afterEach(() => manager.setEntityRecognizer(null))
+
+  it('should redact capitalized word pairs as names without the model', async () => {
+    const { redactedMessage, redactionResult } = await manager.redactEmail(email('Hi', 'Thank You for calling, Jane Doe.'))
+
+    expect(redactedMessage.body).toBe('[NAME] for calling, [NAME].')
+    expect(redactionResult.redactedItems.every(item => item.detector === 'regex')).toBe(true)
+  })
+
+  it('should not carry the HTML body or attachment names and data into the redacted copy', async () => {
+    const { redactedMessage } = await manager.redactEmail({
+      ...email('Hi', 'Call 555-123-4567.'),
+      htmlBody: '<p>Call 555-123-4567.</p>',
+      attachments: [{ name: 'jane-doe-passport.pdf', size: 3, type: 'application/pdf', data: new Uint8Array([1, 2, 3]) }]
+    })
+
+    expect(redactedMessage.htmlBody).toBeUndefined()
+    expect(redactedMessage.attachments).toEqual([{ name: '[ATTACHMENT]', size: 3, type: 'application/pdf' }])
+  })
+
+  it('should redact what the model finds instead of capitalized word pairs', async () => {
+    manager.setEntityRecognizer(recognizer([
+      { type: 'person', text: 'jane doe', score: 0.91 },
+      { type: 'location', text: 'New York', score: 0.95 },
+      { type: 'organization', text: 'Globex', score: 0.7 }
+    ]))
+
+    const { redactedMessage, redactionResult } = await manager.redactEmail(
+      email('Hi', 'Thank You! jane doe from Globex lands in New York, call 555-123-4567.'),
+      { useEntities: true }
+    )
+
+    expect(redactedMessage.body).toBe('Thank You! [NAME] from Globex lands in [LOCATION], call [PHONE].')
+    expect(redactionResult.redactedItems.map(item => [item.type, item.detector])).toEqual([
+      ['name', 'ner'],
+      ['location', 'ner'],
+      ['phone', 'regex']
+    ])
+    expect(redactionResult.redactedItems[0]).toMatchObject({ original: 'jane doe', score: 0.91, position: { start: 11, end: 19 } })
+  })
+
+  it('should apply per-type thresholds', async () => {
+    manager.setEntityRecognizer(recognizer([
+      { type: 'organization', text: 'Globex', score: 0.7 },
+      { type: 'person', text: 'Kim', score: 0.82 }
+    ]))
+
+    const result = await manager.testRedaction('Kim joined Globex.', {
+      useEntities: true,
+      thresholds: { organization: 0.6, person: 0.9 }
+    })
+
+    expect(result.redactedText).toBe('Kim joined [ORGANIZATION].')
+  })
+
+  it('should fall back to the name pattern when the model fails or is off', async () => {
+    manager.setEntityRecognizer(async () => { throw new Error('model not downloaded') })
+
+    const failed = await manager.testRedaction('I met Jane Doe today.', { useEntities: true })
+    const off = await manager.testRedaction('I met Jane Doe today.', { useEntities: false })
+
+    expect(failed.redactedText).toBe('I met [NAME] today.')
+    expect(failed.redactedItems[0].detector).toBe('regex')
+    expect(off.redactedText).toBe('I met [NAME] today.')
+  })
+})
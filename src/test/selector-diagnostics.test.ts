@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest'
+import { readdirSync, readFileSync } from 'fs'
+import { join } from 'path'
+import { DomSnapshot } from '@/types'
+import { SelectorDiagnostics } from '../utils/selector-diagnostics'
+import { MailClientRegistry } from '../utils/mail-clients/registry'
+import { OutlookAdapter } from '../utils/mail-clients/outlook'
+import { MailClientAdapter } from '../utils/mail-clients/adapter'
+
+// Snapshots saved from the options page go in fixtures/dom and are replayed here
+const fixtureDir = join(__dirname, 'fixtures', 'dom')
+const snapshots = readdirSync(fixtureDir)
+  .filter(file => file.endsWith('.json'))
+  .map(file => [file, JSON.parse(readFileSync(join(fixtureDir, file), 'utf8')) as DomSnapshot] as const)
+
+describe('DOM snapshot replay', () => {
+  it.each(snapshots)('%s should still match every required selector', (_file, snapshot) => {
+    const report = SelectorDiagnostics.replay(snapshot)
+
+    expect(report.failures).toEqual([])
+    expect(SelectorDiagnostics.describeProblems(report)).toEqual([])
+  })
+
+  it.each(snapshots)('%s should still extract a message', (_file, snapshot) => {
+    SelectorDiagnostics.replay(snapshot)
+    const adapter = MailClientRegistry.getInstance().getAdapterById(snapshot.client)!
+
+    expect(adapter.extractMessage()).not.toBeNull()
+    expect(adapter.enumerateThread().length).toBeGreaterThan(0)
+  })
+})
+
+describe('SelectorDiagnostics', () => {
+  const adapter = new OutlookAdapter()
+
+  it('should report missing, duplicated and unparseable selectors', () => {
+    document.body.innerHTML = `
+      <div id="ReadingPaneContainerId">
+        <div role="heading" aria-level="2">Subject</div>
+        <div role="heading" aria-level="2">Another subject</div>
+        <div aria-label="Email message"><span data-testid="SenderPersona">Dana</span></div>
+      </div>
+    `
+    const report = SelectorDiagnostics.check({
+      id: adapter.id,
+      getSelectorGroups: () => [
+        ...adapter.getSelectorGroups(),
+        { name: 'extra', selectors: { broken: 'div[' }, required: ['broken'], repeated: [] }
+      ]
+    } as unknown as MailClientAdapter)
+
+    expect(report.healthy).toBe(false)
+    expect(report.failures).toEqual(['message.body', 'extra.broken'])
+    expect(report.checks.find(check => check.name === 'subject')).toMatchObject({ status: 'multiple', matchCount: 2 })
+    expect(report.checks.find(check => check.name === 'to')).toMatchObject({ status: 'missing', required: false })
+  })
+
+  it('should mask text and attribute values but keep what the selectors test for', () => {
+    document.body.innerHTML = `
+      <div id="ReadingPaneContainerId">
+        <!-- build 1234 -->
+        <script>window.secret = 'token'</script>
+        <div aria-label="Email message" onclick="track()">
+          <span data-testid="SenderPersona" title="Dana Reyes &lt;dana@contoso.com&gt;">Dana Reyes</span>
+          <div aria-label="To: Sam Lee"><span title="sam@contoso.com">Sam Lee</span></div>
+          <div aria-label="Message body"><p>Salary for Sam is 120000</p></div>
+        </div>
+      </div>
+    `
+    const { html } = SelectorDiagnostics.captureSnapshot(adapter)
+
+    expect(html).not.toMatch(/Dana|Sam|contoso|Salary|120000|secret|token|build|track/)
+    expect(html).toContain('aria-label="Email message"')
+    expect(html).toContain('aria-label="Message body"')
+    expect(html).toContain('aria-label="To: xxx xxx"')
+    expect(html).toContain('title="xxx@xxxxxxx.xxx"')
+    expect(html).toContain('data-testid="SenderPersona"')
+    expect(html).toContain('<p>xxxxxx xxx xxx xx 000000</p>')
+  })
+})
@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { ThreadDeltaAnalyzer } from '../utils/thread-delta'
+import { AnalysisCacheStorage } from '../utils/analysis-cache'
+import { EmailThread, ThreadMessage } from '../utils/thread-manager'
+import { ActionItem, AnalysisResult, EmailMessage, InboxRow } from '@/types'
+
+class MemoryStorage implements AnalysisCacheStorage {
+  items: Record<string, unknown> = {}
+
+  async getAll() {
+    return JSON.parse(JSON.stringify(this.items))
+  }
+
+  async get(key: string) {
+    return this.items[key] && JSON.parse(JSON.stringify(this.items[key]))
+  }
+
+  async set(key: string, value: unknown) {
+    this.items[key] = value
+  }
+
+  async remove(keys: string[]) {
+    keys.forEach(key => delete this.items[key])
+  }
+}
+
+const threadMessage = (id: string, body: string, day: number): ThreadMessage => ({
+  id,
+  threadId: 'thread-1',
+  subject: 'Launch plan',
+  from: 'pm@example.com',
+  to: ['me@example.com'],
+  body,
+  timestamp: new Date(2026, 2, day),
+  attachments: [],
+  isRead: true,
+  isImportant: false,
+  threadPosition: day,
+  isReply: day > 1,
+  participants: ['pm@example.com', 'me@example.com']
+})
+
+const threadOf = (messages: ThreadMessage[]): EmailThread => ({
+  id: 'thread-1',
+  subject: 'Launch plan',
+  participants: ['pm@example.com', 'me@example.com'],
+  messageCount: messages.length,
+  messages,
+  startDate: messages[0].timestamp,
+  endDate: messages[messages.length - 1].timestamp,
+  lastActivity: messages[messages.length - 1].timestamp,
+  isActive: true,
+  categories: ['project'],
+  priority: 'medium'
+})
+
+const task = (text: string, dueDate?: Date): ActionItem => ({ text, dueDate, priority: 'medium', category: 'task', isCompleted: false })
+
+const analysisOf = (message: EmailMessage, actionItems: ActionItem[] = []): AnalysisResult => ({
+  messageId: message.id,
+  summary: message.body,
+  actionItems,
+  suggestedReplies: [],
+  grammarIssues: [],
+  sentiment: 'neutral',
+  priority: 'medium',
+  categories: [],
+  extractedDates: [],
+  createdAt: new Date(),
+  modelUsed: 'local'
+})
+
+const first = threadMessage('m1', 'Please send the launch checklist by Friday. Also book the demo room.', 1)
+const second = threadMessage('m2', 'I sent the launch checklist this morning. The demo room is still open.', 3)
+const third = threadMessage('m3', 'Change of plan: book the demo room by Tuesday, and draft the press release.', 4)
+
+// Action items each message yields, as the pipeline would extract them
+const extracted: Record<string, ActionItem[]> = {
+  m1: [task('Send the launch checklist by Friday', new Date(2026, 2, 6)), task('Book the demo room', new Date(2026, 2, 9))],
+  m2: [],
+  m3: [task('Book the demo room by Tuesday', new Date(2026, 2, 10)), task('Draft the press release')]
+}
+
+describe('ThreadDeltaAnalyzer', () => {
+  let storage: MemoryStorage
+  let analyzed: string[]
+  let delta: ThreadDeltaAnalyzer
+
+  beforeEach(() => {
+    storage = new MemoryStorage()
+    analyzed = []
+    delta = new ThreadDeltaAnalyzer(async message => {
+      analyzed.push(message.id)
+      return analysisOf(message, extracted[message.id])
+    }, storage)
+  })
+
+  it('should analyze a new thread once and report no changes', async () => {
+    const update = await delta.analyzeThread(threadOf([first]), 'context-a')
+
+    expect(update.changes).toBeNull()
+    expect(update.result.actionItems.map(item => item.text)).toEqual(['Send the launch checklist by Friday', 'Book the demo room'])
+
+    expect(await delta.analyzeThread(threadOf([first]), 'context-a')).toMatchObject({ changes: null })
+    expect(analyzed).toEqual(['m1'])
+  })
+
+  it('should analyze only new replies and merge what they change', async () => {
+    await delta.analyzeThread(threadOf([first]), 'context-a')
+    const update = await delta.analyzeThread(threadOf([first, second, third]), 'context-a')
+
+    expect(analyzed).toEqual(['m1', 'm2', 'm3'])
+    expect(update.result.messageId).toBe('m3')
+    expect(update.result.actionItems.map(item => [item.text, item.isCompleted])).toEqual([
+      ['Send the launch checklist by Friday', true],
+      ['Book the demo room', false],
+      ['Draft the press release', false]
+    ])
+    expect(update.changes).toMatchObject({
+      threadId: 'thread-1',
+      newMessageIds: ['m2', 'm3'],
+      addedActionItems: [{ text: 'Draft the press release' }],
+      completedActionItems: [{ text: 'Send the launch checklist by Friday' }]
+    })
+    expect(update.changes!.changedDeadlines).toHaveLength(1)
+    expect(new Date(update.changes!.changedDeadlines[0].previousDueDate!)).toEqual(new Date(2026, 2, 9))
+    expect(new Date(update.changes!.changedDeadlines[0].item.dueDate!)).toEqual(new Date(2026, 2, 10))
+    expect(update.summary.timeline.end).toEqual(third.timestamp)
+  })
+
+  it('should keep reporting changes until the thread is marked seen', async () => {
+    await delta.analyzeThread(threadOf([first]), 'context-a')
+    await delta.analyzeThread(threadOf([first, second]), 'context-a')
+
+    expect(await delta.analyzeThread(threadOf([first, second]), 'context-a')).toMatchObject({ changes: { newMessageIds: ['m2'] } })
+
+    await delta.markSeen('thread-1')
+    expect(await delta.analyzeThread(threadOf([first, second]), 'context-a')).toMatchObject({ changes: null })
+    expect(await delta.analyzeThread(threadOf([first, second, third]), 'context-a')).toMatchObject({ changes: { newMessageIds: ['m3'] } })
+  })
+
+  it('should rebuild the thread when the analysis context changes', async () => {
+    await delta.analyzeThread(threadOf([first, second]), 'context-a')
+    const update = await delta.analyzeThread(threadOf([first, second]), 'context-b')
+
+    expect(analyzed).toEqual(['m1', 'm2', 'm1', 'm2'])
+    expect(update.changes).toBeNull()
+    expect(await delta.clear()).toBe(1)
+  })
+
+  it('should hand the batch a thread analysis only while the inbox row previews its newest message', async () => {
+    await delta.analyzeThread(threadOf([first, second]), 'context-a')
+    const row = (snippet: string): InboxRow => ({
+      threadId: 'thread-1',
+      from: 'pm@example.com',
+      lastFrom: 'dev@example.com',
+      subject: 'Launch plan',
+      snippet,
+      isUnread: true,
+      fingerprint: 'fp'
+    })
+
+    expect(await delta.findCurrent(row('I sent the launch  checklist this…'), 'context-a')).toMatchObject({
+      analysis: { messageId: 'm2' },
+      lastFrom: 'pm@example.com'
+    })
+    expect(await delta.findCurrent(row('Change of plan: book the demo room'), 'context-a')).toBeNull()
+    expect(await delta.findCurrent(row('I sent the launch checklist'), 'context-b')).toBeNull()
+  })
+})
@@ -1,5 +1,7 @@
 export interface EmailMessage {
   id: string
+  /** RFC 5322 Message-ID header, when the source exposes it */
+  rfcMessageId?: string
   subject: string
   from: string
   to: string[]
@@ -13,6 +15,22 @@ export interface EmailMessage {
   isRead: boolean
   isImportant: boolean
   labels?: string[]
+  /** Body split into segments; when present, `body` holds only the new content */
+  segments?: BodySegment[]
+  /**
+   * The body as read before message ids were stable, which legacy
+   * embeddings recorded; only Gmail had an extractor then
+   */
+  legacyBody?: string
+  /** Built from an inbox row, so the body is only the preview snippet */
+  snippetOnly?: boolean
+}
+
+export type BodySegmentType = 'new' | 'quoted' | 'signature' | 'disclaimer'
+
+export interface BodySegment {
+  type: BodySegmentType
+  text: string
 }
 
 export interface Attachment {
@@ -20,6 +38,21 @@ export interface Attachment {
   size: number
   type: string
   url?: string
+  /** Decoded content, available when parsed from a raw message */
+  data?: Uint8Array
+}
+
+export type AttachmentAnalysisStatus = 'analyzed' | 'unsupported' | 'too_large' | 'unavailable' | 'failed'
+
+export interface AttachmentAnalysis {
+  name: string
+  type: string
+  size: number
+  status: AttachmentAnalysisStatus
+  summary?: string
+  /** Leading part of the extracted text */
+  excerpt?: string
+  extractedDates: ExtractedDate[]
 }
 
 export interface AnalysisResult {
@@ -31,17 +64,142 @@ export interface AnalysisResult {
   sentiment: 'positive' | 'negative' | 'neutral'
   priority: 'high' | 'medium' | 'low'
   categories: string[]
+  /** The categories with how closely the email matches each, present when the pipeline ran */
+  categoryScores?: CategoryScore[]
   extractedDates: ExtractedDate[]
+  /** Evidence for each summary sentence in the analyzed body, present when the pipeline ran */
+  summaryGrounding?: SummarySentence[]
+  /** ISO 639-1 code of the language the email is written in, present when the pipeline ran */
+  language?: string
+  /** Per-attachment results, present when attachment analysis ran */
+  attachments?: AttachmentAnalysis[]
+  /** What produced each field, present when the staged pipeline ran */
+  provenance?: Partial<Record<AnalysisStageName, StageProvenance>>
+  /** Made from an inbox row's snippet rather than the message itself */
+  snippetOnly?: boolean
   createdAt: Date
   modelUsed: 'local' | 'cloud'
 }
 
+/** A category the user files mail under, matched by meaning rather than keywords */
+export interface UserCategory {
+  label: string
+  description: string
+  /** Sample phrases or emails that belong in the category */
+  examples?: string[]
+}
+
+export interface CategoryScore {
+  label: string
+  /** Similarity to the category, 0-1; absent when the producer doesn't score */
+  score?: number
+}
+
+export type AnalysisStageName = 'summary' | 'sentiment' | 'actions' | 'dates' | 'replies' | 'grammar' | 'categories'
+
+/**
+ * Local model, cloud provider, a service the user hosts (e.g. LanguageTool),
+ * rule-based heuristic, or the fixed last-resort value
+ */
+export type AnalysisSource = 'local' | 'cloud' | 'remote' | 'heuristic' | 'minimal'
+
+export interface StageProvenance {
+  source: AnalysisSource
+  /** Model, cloud provider or heuristic that produced the field */
+  producer: string
+  durationMs: number
+  /** Producers tried before this one, with the reason each failed */
+  failures: { producer: string; error: string }[]
+}
+
+/** transformers.js load progress for one model file */
+export interface ModelLoadProgress {
+  model: string
+  status: 'initiate' | 'download' | 'progress' | 'done' | 'ready'
+  file?: string
+  /** Percent of the current file, 0-100 */
+  progress?: number
+}
+
+export type ModelTask = 'summarization' | 'text-generation' | 'feature-extraction' | 'text-classification' | 'token-classification'
+
+/** Weight formats transformers.js can load: the quantized ONNX export or the full one */
+export type ModelQuantization = 'int8' | 'fp32'
+
+/** A model the extension can run, from the bundled manifest or added by the user */
+export interface ModelManifestEntry {
+  id: string
+  name: string
+  task: ModelTask
+  /** transformers.js-compatible repository on the Hugging Face hub, e.g. `Xenova/distilgpt2` */
+  modelId: string
+  quantization: ModelQuantization
+  sizeMB: number
+  /** SHA-256 of the ONNX weights; downloads are checked against it when set */
+  checksum?: string
+  license: string
+  /** Device memory the model needs to run comfortably */
+  minMemoryMB: number
+  /** ISO 639-1 codes of the languages the model handles; absent means English only */
+  languages?: string[]
+  description?: string
+  /** Registered by the user from the options page */
+  custom?: boolean
+}
+
+/** Sent by the content script over the analysis port */
+export type AnalysisStreamRequest =
+  | { type: 'START'; payload: EmailMessage }
+  | { type: 'CANCEL' }
+
+/** Sent by the background over the analysis port while a message is analyzed */
+export type AnalysisStreamEvent =
+  | { type: 'stage-start'; stage: AnalysisStageName; index: number; total: number }
+  /** Heuristic previews arrive with final false, each stage's settled value with final true */
+  | { type: 'stage'; stage: AnalysisStageName; fields: Partial<AnalysisResult>; provenance: StageProvenance; final: boolean }
+  | { type: 'model-progress'; progress: ModelLoadProgress }
+  | { type: 'complete'; result: AnalysisResult }
+  | { type: 'cancelled' }
+  | { type: 'error'; error: string }
+
+export interface AnalysisStreamState {
+  status: 'streaming' | 'complete' | 'cancelled' | 'error'
+  /** Fields received so far, starting from empty values */
+  analysis: AnalysisResult
+  currentStage?: AnalysisStageName
+  completedStages: number
+  totalStages: number
+  modelProgress?: ModelLoadProgress
+  error?: string
+}
+
 export interface ActionItem {
   text: string
   dueDate?: Date
   priority: 'high' | 'medium' | 'low'
   category: string
   isCompleted: boolean
+  grounding?: Grounding
+}
+
+/** A stretch of the analyzed body by character offset; `end` is exclusive */
+export interface SourceSpan {
+  start: number
+  end: number
+  text: string
+}
+
+/** Where an extracted item is supported in the body it was extracted from */
+export interface Grounding {
+  /** The supporting sentence; absent when no support was found */
+  span?: SourceSpan
+  /** False when the support is weak or a detail, like a due date, isn't in the text */
+  verified: boolean
+  note?: string
+}
+
+export interface SummarySentence extends Grounding {
+  sentence: string
 }
 
 export interface SuggestedReply {
@@ -73,6 +231,49 @@ export interface ExtractedDate {
   date: Date
   type: 'deadline' | 'meeting' | 'event' | 'general'
   confidence: number
+  grounding?: Grounding
+  /** Exact details when the date comes from a calendar invite */
+  meeting?: MeetingDetails
+}
+
+export interface MeetingAttendee {
+  email: string
+  name?: string
+  /** iCalendar ROLE, e.g. REQ-PARTICIPANT */
+  role?: string
+  /** iCalendar PARTSTAT, e.g. ACCEPTED or NEEDS-ACTION */
+  status?: string
+}
+
+export interface MeetingConflict {
+  uid: string
+  title: string
+  start: Date
+  end?: Date
+}
+
+export interface MeetingDetails {
+  uid: string
+  title: string
+  start: Date
+  end?: Date
+  allDay: boolean
+  /** IANA zone the invite's times were given in */
+  timeZone?: string
+  /** RRULE value, e.g. FREQ=WEEKLY;BYDAY=MO,WE */
+  recurrence?: string
+  recurrenceText?: string
+  excludedDates?: Date[]
+  organizer?: MeetingAttendee
+  attendees: MeetingAttendee[]
+  location?: string
+  description?: string
+  /** iCalendar METHOD of the invite, e.g. REQUEST or CANCEL */
+  method?: string
+  status: 'scheduled' | 'updated' | 'cancelled'
+  sequence: number
+  /** Other known meetings overlapping this one */
+  conflicts?: MeetingConflict[]
 }
 
 export interface EmbeddingVector {
@@ -387,6 +588,12 @@ export interface CoverageReport {
   statements: { total: number; covered: number; percentage: number }
 }
 
+/** Kinds of named entity the on-device NER model finds for PII redaction */
+export type EntityType = 'person' | 'organization' | 'location'
+
+/** Lowest model confidence, 0-1, at which an entity of each type is redacted */
+export type EntityThresholds = Record<EntityType, number>
+
 export interface UserSettings {
   enableLocalProcessing: boolean
   enableCloudFallback: boolean
@@ -398,12 +605,126 @@ export interface UserSettings {
   maxSummaryLength: number
   enableThreadAnalysis: boolean
   enableSimilaritySearch: boolean
+  enableAttachmentAnalysis: boolean
+  enableSelectorDiagnostics: boolean
+  enableInboxTriage: boolean
+  userCategories: UserCategory[]
+  /** Find names, organizations and places for PII redaction with the on-device NER model */
+  enableEntityRedaction: boolean
+  entityThresholds: EntityThresholds
+  /** Self-hosted LanguageTool server to check grammar with; empty for the built-in rules only */
+  languageToolUrl: string
   cloudConsentGiven: boolean
   preferredCloudProvider: string
   maxCloudCostPerDay: number
   enableCloudNotifications: boolean
 }
 
+/** A thread as shown in a mail client's inbox list */
+export interface InboxRow {
+  threadId: string
+  from: string
+  /** Sender of the newest message; rows list a thread's participants oldest first */
+  lastFrom: string
+  subject: string
+  snippet: string
+  isUnread: boolean
+  /** Hash of the visible row text; changes when new mail arrives in the thread */
+  fingerprint: string
+}
+
+export interface InboxTriage {
+  threadId: string
+  fingerprint: string
+  priority: 'high' | 'medium' | 'low'
+  categories: string[]
+  hasDeadline: boolean
+  triagedAt: Date
+}
+
+/** One unread conversation in a batch triage report */
+export interface BatchConversation {
+  threadId: string
+  messageId: string
+  subject: string
+  from: string
+  priority: 'high' | 'medium' | 'low'
+  summary: string
+  /** Analyzed from the thread as last opened, or only from the inbox row's snippet */
+  basis: 'thread' | 'snippet'
+  /** The newest message is not from the reader */
+  awaitingReply: boolean
+  actionItemCount: number
+  /** Set when the conversation could not be analyzed */
+  error?: string
+}
+
+export interface BatchActionItem extends ActionItem {
+  threadId: string
+  subject: string
+}
+
+/** Combined triage of the most recent unread conversations */
+export interface BatchTriageReport {
+  client: string
+  conversations: BatchConversation[]
+  /** High priority conversations first, at most five */
+  topPriorities: BatchConversation[]
+  /** Dated items first, soonest due first */
+  actionItems: BatchActionItem[]
+  awaitingReply: BatchConversation[]
+  failed: number
+  startedAt: Date
+  completedAt: Date
+}
+
+export interface DeadlineChange {
+  item: ActionItem
+  previousDueDate?: Date
+}
+
+/** What new messages in a thread changed, accumulated until the user has seen it */
+export interface ThreadChanges {
+  threadId: string
+  newMessageIds: string[]
+  addedActionItems: ActionItem[]
+  completedActionItems: ActionItem[]
+  changedDeadlines: DeadlineChange[]
+  /** Present when the thread's priority moved */
+  priorityChange?: { from: 'high' | 'medium' | 'low'; to: 'high' | 'medium' | 'low' }
+  /** When the user last looked at the thread */
+  since: Date
+}
+
+export type SelectorMatchStatus = 'matched' | 'missing' | 'multiple' | 'invalid'
+
+export interface SelectorCheck {
+  group: string
+  name: string
+  selector: string
+  matchCount: number
+  status: SelectorMatchStatus
+  required: boolean
+}
+
+export interface SelectorHealthReport {
+  client: string
+  checkedAt: Date
+  healthy: boolean
+  checks: SelectorCheck[]
+  /** `group.name` of required selectors that matched nothing or did not parse */
+  failures: string[]
+}
+
+/** A mail client page with all text and identifying attribute values masked */
+export interface DomSnapshot {
+  version: number
+  client: string
+  capturedAt: Date
+  html: string
+  report: SelectorHealthReport
+}
+
 export interface CloudProvider {
   name: string
   apiKey: string
@@ -411,17 +732,39 @@ export interface CloudProvider {
   model: string
 }
 
+/** Analysis of an opened email, or indexing a message for similarity search */
+export type ProcessingJobType = 'analysis' | 'embedding'
+
+/** The open email is high; background indexing is low */
+export type JobPriority = 'high' | 'normal' | 'low'
+
+export type JobStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled'
+
 export interface ProcessingJob {
   id: string
   messageId: string
-  type: 'grammar' | 'summary' | 'action_items' | 'reply_suggestion' | 'thread_summary'
-  status: 'pending' | 'processing' | 'completed' | 'failed'
-  result?: AnalysisResult
+  type: ProcessingJobType
+  status: JobStatus
+  priority: JobPriority
+  /** Handler input; persisted, so it must survive structured cloning */
+  payload?: unknown
+  attempts: number
+  maxAttempts: number
+  /** Earliest time the next retry may start */
+  nextAttemptAt?: Date
+  result?: unknown
   error?: string
   createdAt: Date
+  startedAt?: Date
   completedAt?: Date
 }
 
+export interface JobQueueStatus {
+  counts: Record<JobStatus, number>
+  /** Most recent first, without payloads or results */
+  jobs: Omit<ProcessingJob, 'payload' | 'result'>[]
+}
+
 export interface CacheEntry {
   key: string
   data: any
@@ -1,5 +1,9 @@
 import { EmailMessage, ActionItem, ExtractedDate } from '@/types'
 import { LocalAIManager } from './ai-models'
+import { AttachmentExtractor } from './attachment-extractor'
+import { IcsParser } from './ics-parser'
+import { LanguageDetector } from './language-detector'
+import { LanguagePack, LanguagePacks } from './language-packs'
 
 export interface ActionExtractionResult {
   actionItems: ActionItem[]
@@ -173,14 +177,15 @@ export class ActionExtractor {
   async extractActions(message: EmailMessage): Promise<ActionExtractionResult> {
     try {
       await this.initialize()
+      const { language } = LanguageDetector.detect(`${message.subject}\n${message.body}`)
       
       // Extract using heuristics first
-      const heuristicResult = this.extractWithHeuristics(message)
+      const heuristicResult = this.extractWithHeuristics(message, language)
       
       // If we have cloud processing available, enhance with LLM
       let llmResult: ActionExtractionResult | null = null
       try {
-        llmResult = await this.extractWithLLM(message)
+        llmResult = await this.extractWithLLM(message, language)
       } catch (error) {
         console.log('ReplySage: LLM extraction failed, using heuristics only:', error)
       }
@@ -200,17 +205,19 @@ export class ActionExtractor {
     }
   }
 
-  private extractWithHeuristics(message: EmailMessage): ActionExtractionResult {
+  private extractWithHeuristics(message: EmailMessage, language: string): ActionExtractionResult {
     const actionItems: ActionItem[] = []
     const extractedDates: ExtractedDate[] = []
     const text = `${message.subject} ${message.body}`
+    // The built-in and custom patterns are English
+    const patterns = language === 'en' ? this.patterns : this.patternsFor(LanguagePacks.get(language))
     
-    // Extract dates first
-    const dates = this.extractDates(text)
-    extractedDates.push(...dates)
+    // Extract dates first; attached invites give exact meeting times
+    const dates = this.extractDates(text, language)
+    extractedDates.push(...this.extractMeetingDates(message), ...dates)
     
     // Extract action items
-    this.patterns.forEach(pattern => {
+    patterns.forEach(pattern => {
       const matches = text.matchAll(pattern.pattern)
       
       for (const match of matches) {
@@ -222,10 +229,10 @@ export class ActionExtractor {
         // Find associated date
         let dueDate: Date | undefined
         if (dateText) {
-          dueDate = this.parseDate(dateText)
+          dueDate = this.parseDate(dateText, language)
         } else if (pattern.requiresDate) {
           // Try to find a nearby date
-          dueDate = this.findNearbyDate(actionText, text, dates)
+          dueDate = this.findNearbyDate(actionText, text, language)
         }
         
         // Skip if required date is missing
@@ -247,7 +254,7 @@ export class ActionExtractor {
     })
     
     // Extract additional dates from context
-    const contextDates = this.extractContextDates(text, actionItems)
+    const contextDates = this.extractContextDates(text, actionItems, language)
     extractedDates.push(...contextDates)
     
     return {
@@ -258,11 +265,14 @@ export class ActionExtractor {
     }
   }
 
-  private async extractWithLLM(message: EmailMessage): Promise<ActionExtractionResult> {
+  private async extractWithLLM(message: EmailMessage, language: string): Promise<ActionExtractionResult> {
     try {
       // Use the improved AI models directly
       const aiManager = LocalAIManager.getInstance()
       await aiManager.initialize()
+      if (!aiManager.supportsLanguage('text-generator', language)) {
+        throw new Error(`Text generator does not handle ${language} text`)
+      }
       
       // Extract action items using AI
       const actionItems = await aiManager.extractActionItems(message.body)
@@ -282,7 +292,55 @@ export class ActionExtractor {
     }
   }
 
-  private extractDates(text: string): ExtractedDate[] {
+  /** Meetings from calendar invites carried in the message (attached or inline parts) */
+  private extractMeetingDates(message: EmailMessage): ExtractedDate[] {
+    return message.attachments
+      .filter(attachment => attachment.data && AttachmentExtractor.detectFormat(attachment) === 'ics')
+      .flatMap(attachment => IcsParser.toExtractedDates(IcsParser.parse(new TextDecoder('utf-8').decode(attachment.data))))
+  }
+
+  /**
+   * Patterns for a language other than English, built from its pack's
+   * request and deadline phrases
+   */
+  private patternsFor(pack: LanguagePack): ActionPattern[] {
+    const request = LanguagePacks.alternation(pack.requestPhrases)
+    const label = LanguagePacks.alternation(pack.taskLabels)
+    const deadline = LanguagePacks.alternation(pack.deadlinePhrases)
+    // In "bis 12. März" the period after the day doesn't end the date
+    const dueText = pack.dayFirst ? '((?:\\d{1,2}\\.|[^.!?])+)' : '([^.!?]+)'
+
+    return [
+      {
+        pattern: new RegExp(`(?:${request})\\s+(.+?)(?:${deadline})\\s+${dueText}`, 'giu'),
+        priority: 'high',
+        category: 'required',
+        requiresDate: true,
+        description: 'Requests with deadlines'
+      },
+      {
+        pattern: new RegExp(`(?:${label})\\s*:\\s*(.+?)(?:\\.|!|\\?|$)`, 'giu'),
+        priority: 'medium',
+        category: 'general',
+        requiresDate: false,
+        description: 'General action items'
+      },
+      {
+        pattern: new RegExp(`(?:${request})\\s+(.+?)(?:\\.|!|\\?|$)`, 'giu'),
+        priority: 'low',
+        category: 'request',
+        requiresDate: false,
+        description: 'General requests'
+      }
+    ]
+  }
+
+  /** Regex-based date extraction over free text */
+  extractDates(text: string, language = 'en'): ExtractedDate[] {
+    if (language !== 'en') {
+      return LanguagePacks.findDates(text, LanguagePacks.get(language))
+    }
+
     const dates: ExtractedDate[] = []
     
     this.datePatterns.forEach(pattern => {
@@ -306,7 +364,7 @@ export class ActionExtractor {
     return dates
   }
 
-  private extractContextDates(text: string, actionItems: ActionItem[]): ExtractedDate[] {
+  private extractContextDates(text: string, actionItems: ActionItem[], language: string): ExtractedDate[] {
     const dates: ExtractedDate[] = []
     
     // Look for dates mentioned near action items
@@ -320,7 +378,7 @@ export class ActionExtractor {
       )
       
       if (actionSentence) {
-        const sentenceDates = this.extractDates(actionSentence)
+        const sentenceDates = this.extractDates(actionSentence, language)
         if (sentenceDates.length > 0) {
           action.dueDate = sentenceDates[0].date
           dates.push(sentenceDates[0])
@@ -331,7 +389,11 @@ export class ActionExtractor {
     return dates
   }
 
-  private parseDate(dateText: string): Date | undefined {
+  private parseDate(dateText: string, language = 'en'): Date | undefined {
+    if (language !== 'en') {
+      return LanguagePacks.findDates(dateText, LanguagePacks.get(language))[0]?.date
+    }
+
     try {
       // Handle relative dates
       const lowerText = dateText.toLowerCase().trim()
@@ -448,7 +510,7 @@ export class ActionExtractor {
     return 0.5
   }
 
-  private findNearbyDate(actionText: string, fullText: string, _dates: ExtractedDate[]): Date | undefined {
+  private findNearbyDate(actionText: string, fullText: string, language: string): Date | undefined {
     // Find the sentence containing the action
     const sentences = fullText.split(/[.!?]+/)
     const actionSentence = sentences.find(sentence => 
@@ -458,7 +520,7 @@ export class ActionExtractor {
     if (!actionSentence) return undefined
     
     // Look for dates in the same sentence
-    const sentenceDates = this.extractDates(actionSentence)
+    const sentenceDates = this.extractDates(actionSentence, language)
     if (sentenceDates.length > 0) {
       return sentenceDates[0].date
     }
@@ -470,7 +532,7 @@ export class ActionExtractor {
     
     if (actionIndex > 0) {
       const prevSentence = sentences[actionIndex - 1]
-      const prevDates = this.extractDates(prevSentence)
+      const prevDates = this.extractDates(prevSentence, language)
       if (prevDates.length > 0) {
         return prevDates[0].date
       }
@@ -478,7 +540,7 @@ export class ActionExtractor {
     
     if (actionIndex < sentences.length - 1) {
       const nextSentence = sentences[actionIndex + 1]
-      const nextDates = this.extractDates(nextSentence)
+      const nextDates = this.extractDates(nextSentence, language)
       if (nextDates.length > 0) {
         return nextDates[0].date
       }
@@ -1,23 +1,48 @@
 import { pipeline } from '@xenova/transformers'
-import { AnalysisResult, EmailMessage, ActionItem, ExtractedDate, SuggestedReply, GrammarIssue } from '@/types'
+import { AnalysisResult, EmailMessage, ActionItem, ExtractedDate, SuggestedReply, GrammarIssue, ModelLoadProgress, ModelManifestEntry, ModelTask } from '@/types'
+import { BodySegmenter } from './body-segmenter'
+import { ModelRegistry } from './model-registry'
+import { LanguagePacks } from './language-packs'
+import { EntityToken, NamedEntities, RecognizedEntity } from './named-entities'
+import { GrammarChecker } from './grammar-checker'
 
 export interface ModelConfig {
   name: string
-  task: 'summarization' | 'text-generation' | 'feature-extraction' | 'text-classification'
+  task: ModelTask
   modelId: string
   quantized: boolean
   size: number
   loaded: boolean
+  /** ISO 639-1 codes the model handles */
+  languages: string[]
 }
 
+// Pipelines the analyzers load by name; the registry decides which model each task runs on
+const MODEL_ROLES: { name: string; task: ModelTask }[] = [
+  { name: 'summarizer', task: 'summarization' },
+  { name: 'text-generator', task: 'text-generation' },
+  { name: 'embeddings', task: 'feature-extraction' },
+  { name: 'sentiment', task: 'text-classification' },
+  { name: 'ner', task: 'token-classification' }
+]
+
+// The NER model reads 512 tokens at most; lines are grouped into chunks it can take whole
+const NER_CHUNK_LENGTH = 1000
+
 export class LocalAIManager {
   private static instance: LocalAIManager
   private models: Map<string, any> = new Map()
   private modelConfigs: ModelConfig[] = []
+  // Models other than the active one that text in some language is routed to, keyed by pipeline name
+  private languageConfigs: Map<string, ModelConfig> = new Map()
+  private registry: ModelRegistry
   private isInitialized = false
+  private progressListeners: Set<(progress: ModelLoadProgress) => void> = new Set()
 
   private constructor() {
-    this.initializeModelConfigs()
+    this.registry = ModelRegistry.getInstance()
+    this.refreshModelConfigs()
+    this.registry.onChange(() => this.refreshModelConfigs())
   }
 
   static getInstance(): LocalAIManager {
@@ -27,41 +52,66 @@ export class LocalAIManager {
     return LocalAIManager.instance
   }
 
-  private initializeModelConfigs() {
-    this.modelConfigs = [
-      {
-        name: 'summarizer',
-        task: 'summarization',
-        modelId: 'Xenova/distilbart-cnn-6-6',
-        quantized: true,
-        size: 60 * 1024 * 1024, // 60MB
-        loaded: false
-      },
-      {
-        name: 'text-generator',
-        task: 'text-generation',
-        modelId: 'Xenova/distilgpt2',
-        quantized: true,
-        size: 40 * 1024 * 1024, // 40MB
-        loaded: false
-      },
-      {
-        name: 'embeddings',
-        task: 'feature-extraction',
-        modelId: 'Xenova/all-MiniLM-L6-v2',
-        quantized: true,
-        size: 90 * 1024 * 1024, // 90MB
-        loaded: false
-      },
-      {
-        name: 'sentiment',
-        task: 'text-classification',
-        modelId: 'Xenova/distilbert-base-uncased-finetuned-sst-2-english',
-        quantized: true,
-        size: 30 * 1024 * 1024, // 30MB
-        loaded: false
+  /**
+   * Rebuilds the configs from the registry. A pipeline whose model was
+   * swapped is dropped, so the next use loads the new one; language
+   * routes are worked out again on next use.
+   */
+  private refreshModelConfigs() {
+    this.modelConfigs = MODEL_ROLES.map(({ name, task }) => {
+      const config = this.toConfig(name, this.registry.getActiveModel(task))
+      const previous = this.modelConfigs.find(existing => existing.name === name)
+      const unchanged = previous?.modelId === config.modelId && previous.quantized === config.quantized
+      if (!unchanged) {
+        this.models.delete(name)
       }
-    ]
+      return { ...config, loaded: unchanged ? previous!.loaded : false }
+    })
+
+    this.languageConfigs.forEach((_, name) => this.models.delete(name))
+    this.languageConfigs.clear()
+  }
+
+  private toConfig(name: string, model: ModelManifestEntry): ModelConfig {
+    return {
+      name,
+      task: model.task,
+      modelId: model.modelId,
+      quantized: model.quantization === 'int8',
+      size: model.sizeMB * 1024 * 1024,
+      loaded: false,
+      languages: model.languages || ['en']
+    }
+  }
+
+  /**
+   * The pipeline to run for text in the language: the role's active model
+   * when it handles the language, otherwise another registered model that
+   * does. Without a language the active model runs regardless.
+   */
+  private configFor(modelName: string, language?: string): ModelConfig {
+    const config = this.modelConfigs.find(c => c.name === modelName)
+    if (!config) {
+      throw new Error(`Model ${modelName} not found`)
+    }
+    if (!language || config.languages.includes(language)) {
+      return config
+    }
+
+    const model = this.registry.getModelForLanguage(config.task, language)
+    if (!model) {
+      throw new Error(`No ${config.task} model handles ${language} text`)
+    }
+    const name = `${modelName}:${model.id}`
+    if (!this.languageConfigs.has(name)) {
+      this.languageConfigs.set(name, this.toConfig(name, model))
+    }
+    return this.languageConfigs.get(name)!
+  }
+
+  /** Whether the role's active model handles the language, without routing to another */
+  supportsLanguage(modelName: string, language: string): boolean {
+    return this.modelConfigs.find(config => config.name === modelName)?.languages.includes(language) ?? false
   }
 
   async initialize(): Promise<void> {
@@ -69,6 +119,8 @@ export class LocalAIManager {
 
     try {
       console.log('ReplySage: Initializing local AI models...')
+
+      await this.registry.load()
       
       // Set up transformers.js configuration
       const { env } = await import('@xenova/transformers')
@@ -85,14 +137,16 @@ export class LocalAIManager {
     }
   }
 
-  async loadModel(modelName: string): Promise<any> {
-    if (this.models.has(modelName)) {
-      return this.models.get(modelName)!
-    }
+  /** Subscribes to model load and download progress; returns the unsubscribe function */
+  onModelProgress(listener: (progress: ModelLoadProgress) => void): () => void {
+    this.progressListeners.add(listener)
+    return () => this.progressListeners.delete(listener)
+  }
 
-    const config = this.modelConfigs.find(c => c.name === modelName)
-    if (!config) {
-      throw new Error(`Model ${modelName} not found`)
+  async loadModel(modelName: string, language?: string): Promise<any> {
+    const config = this.configFor(modelName, language)
+    if (this.models.has(config.name)) {
+      return this.models.get(config.name)!
     }
 
     try {
@@ -102,10 +156,16 @@ export class LocalAIManager {
         quantized: config.quantized,
         progress_callback: (progress: any) => {
           console.log(`Loading ${modelName}: ${Math.round(progress.progress * 100)}%`)
+          this.progressListeners.forEach(listener => listener({
+            model: modelName,
+            status: progress.status,
+            file: progress.file,
+            progress: progress.progress
+          }))
         }
       })
 
-      this.models.set(modelName, model)
+      this.models.set(config.name, model)
       config.loaded = true
       
       console.log(`ReplySage: Model ${modelName} loaded successfully`)
@@ -120,13 +180,8 @@ export class LocalAIManager {
   async generateReplies(message: EmailMessage, type: string): Promise<{ replies: SuggestedReply[]; confidence: number; method: string; processingTime: number }> {
     const startTime = Date.now()
     try {
-      await this.initialize()
-      
-      // Load text generation model
-      const textGenerator = await this.loadModel('text-generator')
-      
       // Generate context-aware replies using AI
-      const replies = await this.generateAISuggestedReplies(message, textGenerator, type)
+      const replies = await this.generateRepliesWithModel(message, type)
       const processingTime = Date.now() - startTime
       
       return {
@@ -172,6 +227,9 @@ export class LocalAIManager {
   async analyzeEmail(message: EmailMessage): Promise<AnalysisResult> {
     try {
       await this.initialize()
+
+      // Analyze the structured text of the new content (lists, tables, links kept)
+      message = BodySegmenter.applyTo(message)
       
       // Load essential models
       const [summarizer, sentiment] = await Promise.all([
@@ -192,7 +250,7 @@ export class LocalAIManager {
       const suggestedReplies = await this.generateSuggestedReplies(message, summary)
       
       // Check grammar
-      const grammarIssues = await this.checkGrammar(message.body)
+      const grammarIssues = this.checkGrammar(message.body)
 
       return {
         messageId: message.id,
@@ -213,66 +271,155 @@ export class LocalAIManager {
     }
   }
 
+  // Single-task entry points for the analysis pipeline. Unlike the methods
+  // analyzeEmail uses, they throw when a model fails instead of degrading,
+  // so the pipeline can fall back per field and record the producer.
+
+  async summarize(text: string, language = 'en'): Promise<string> {
+    await this.initialize()
+    const summarizer = await this.loadModel('summarizer', language)
+    return this.runSummarizer(text, summarizer)
+  }
+
+  async classifySentiment(text: string, language = 'en'): Promise<'positive' | 'negative' | 'neutral'> {
+    await this.initialize()
+    const model = await this.loadModel('sentiment', language)
+    return this.runSentiment(text, model)
+  }
+
+  async embed(text: string): Promise<number[]> {
+    await this.initialize()
+    const model = await this.loadModel('embeddings')
+    const result = await model(text, { pooling: 'mean', normalize: true })
+    return Array.from(result.data as ArrayLike<number>)
+  }
+
+  /** People, organizations and places named in the text, with their spans */
+  async recognizeEntities(text: string, language = 'en'): Promise<RecognizedEntity[]> {
+    await this.initialize()
+    const model = await this.loadModel('ner', language)
+
+    const entities: RecognizedEntity[] = []
+    let offset = 0
+    for (const chunk of this.chunkLines(text, NER_CHUNK_LENGTH)) {
+      const tokens: EntityToken[] = await model(chunk)
+      entities.push(...NamedEntities.fromTokens(chunk, tokens).map(entity => ({
+        ...entity,
+        start: entity.start + offset,
+        end: entity.end + offset
+      })))
+      offset += chunk.length
+    }
+    return entities
+  }
+
+  /** Splits text at line ends into chunks of at most `maxLength`, keeping every character */
+  private chunkLines(text: string, maxLength: number): string[] {
+    const chunks: string[] = []
+    let current = ''
+    for (const line of text.match(/[^\n]*\n|[^\n]+$/g) || []) {
+      // A single overlong line is cut where it has to be
+      for (let start = 0; start < line.length; start += maxLength) {
+        const piece = line.slice(start, start + maxLength)
+        if (current.length + piece.length > maxLength) {
+          chunks.push(current)
+          current = ''
+        }
+        current += piece
+      }
+    }
+    if (current) chunks.push(current)
+    return chunks
+  }
+
+  async generateRepliesWithModel(message: EmailMessage, type: string, language = 'en'): Promise<SuggestedReply[]> {
+    await this.initialize()
+    const textGenerator = await this.loadModel('text-generator', language)
+    return this.generateAISuggestedReplies(message, textGenerator, type)
+  }
+
   private async generateSummary(text: string, model: any): Promise<string> {
     try {
-      // Truncate text if too long
-      const maxLength = 512
-      const truncatedText = text.length > maxLength 
-        ? text.substring(0, maxLength) + '...'
-        : text
-
-      const result = await model(truncatedText, {
-        max_length: 100,
-        min_length: 20,
-        do_sample: false
-      })
-
-      return result[0]?.summary_text || 'Unable to generate summary'
+      return await this.runSummarizer(text, model)
     } catch (error) {
       console.error('ReplySage: Failed to generate summary:', error)
       return 'Summary generation failed'
     }
   }
 
+  private async runSummarizer(text: string, model: any): Promise<string> {
+    // Truncate text if too long
+    const maxLength = 512
+    const truncatedText = text.length > maxLength 
+      ? text.substring(0, maxLength) + '...'
+      : text
+
+    const result = await model(truncatedText, {
+      max_length: 100,
+      min_length: 20,
+      do_sample: false
+    })
+
+    const summary = result[0]?.summary_text
+    if (!summary) {
+      throw new Error('Summarizer returned no text')
+    }
+    return summary
+  }
+
   private async analyzeSentiment(text: string, model: any): Promise<'positive' | 'negative' | 'neutral'> {
     try {
-      const result = await model(text)
-      const label = result[0]?.label || 'NEUTRAL'
-      
-      if (label.includes('POSITIVE')) return 'positive'
-      if (label.includes('NEGATIVE')) return 'negative'
-      return 'neutral'
+      return await this.runSentiment(text, model)
     } catch (error) {
       console.error('ReplySage: Failed to analyze sentiment:', error)
       return 'neutral'
     }
   }
 
+  private async runSentiment(text: string, model: any): Promise<'positive' | 'negative' | 'neutral'> {
+    const result = await model(text)
+    const label = result[0]?.label || 'NEUTRAL'
+
+    // Multilingual sentiment models rate from "1 star" to "5 stars"
+    const stars = parseInt(label)
+    if (!isNaN(stars)) {
+      return stars >= 4 ? 'positive' : stars <= 2 ? 'negative' : 'neutral'
+    }
+    
+    if (label.includes('POSITIVE')) return 'positive'
+    if (label.includes('NEGATIVE')) return 'negative'
+    return 'neutral'
+  }
+
   async extractActionItems(text: string): Promise<ActionItem[]> {
     try {
       // Use AI for better action item extraction
-      await this.initialize()
-      const textGenerator = await this.loadModel('text-generator')
-      
-      const prompt = `Extract action items from this email text. Return only the action items in this format:
+      return await this.extractActionItemsWithModel(text)
+    } catch (error) {
+      console.error('ReplySage: AI action extraction failed, using fallback:', error)
+      return this.extractActionItemsFallback(text)
+    }
+  }
+
+  async extractActionItemsWithModel(text: string, language = 'en'): Promise<ActionItem[]> {
+    await this.initialize()
+    const textGenerator = await this.loadModel('text-generator', language)
+    
+    const prompt = `Extract action items from this email text. Return only the action items in this format:
 ACTION: [action description] | PRIORITY: [high/medium/low] | CATEGORY: [category] | DUE: [due date if mentioned]
 
 Email text: ${text.substring(0, 1000)}
 
 Action items:`
 
-      const result = await textGenerator(prompt, {
-        max_length: 200,
-        temperature: 0.3,
-        do_sample: true
-      })
+    const result = await textGenerator(prompt, {
+      max_length: 200,
+      temperature: 0.3,
+      do_sample: true
+    })
 
-      const aiResponse = result[0]?.generated_text || ''
-      return this.parseAIActionItems(aiResponse)
-    } catch (error) {
-      console.error('ReplySage: AI action extraction failed, using fallback:', error)
-      return this.extractActionItemsFallback(text)
-    }
+    const aiResponse = result[0]?.generated_text || ''
+    return this.parseAIActionItems(aiResponse)
   }
 
   private parseAIActionItems(aiResponse: string): ActionItem[] {
@@ -461,75 +608,12 @@ Response:`
     return replies[tone]
   }
 
-  private async checkGrammar(text: string): Promise<GrammarIssue[]> {
-    try {
-      // Use LanguageTool API for grammar checking
-      const response = await fetch('https://api.languagetool.org/v2/check', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded',
-        },
-        body: new URLSearchParams({
-          text: text,
-          language: 'en-US',
-          enabledOnly: 'false'
-        })
-      })
-
-      if (!response.ok) {
-        throw new Error('LanguageTool API request failed')
-      }
-
-      const data = await response.json()
-      const issues: GrammarIssue[] = []
-
-      data.matches?.forEach((match: any) => {
-        issues.push({
-          text: match.context.text.substring(match.offset, match.offset + match.length),
-          suggestion: match.replacements?.[0]?.value || match.message,
-          severity: match.rule.severity === 'error' ? 'error' : 'warning',
-          position: {
-            start: match.offset,
-            end: match.offset + match.length
-          }
-        })
-      })
-
-      return issues
-    } catch (error) {
-      console.error('ReplySage: Grammar check failed, using fallback:', error)
-      
-      // Fallback to simple heuristic-based grammar checking
-      const issues: GrammarIssue[] = []
-      
-      // Check for common issues
-      const commonIssues = [
-        { pattern: /\bi\b/g, suggestion: 'I', severity: 'error' as const },
-        { pattern: /\bcan't\b/g, suggestion: 'cannot', severity: 'info' as const },
-        { pattern: /\bwon't\b/g, suggestion: 'will not', severity: 'info' as const },
-        { pattern: /\bdon't\b/g, suggestion: 'do not', severity: 'info' as const }
-      ]
-
-      commonIssues.forEach(issue => {
-        const matches = text.matchAll(issue.pattern)
-        for (const match of matches) {
-          issues.push({
-            text: match[0],
-            suggestion: issue.suggestion,
-            severity: issue.severity,
-            position: {
-              start: match.index || 0,
-              end: (match.index || 0) + match[0].length
-            }
-          })
-        }
-      })
-
-      return issues
-    }
+  // The public LanguageTool API would see the email, so grammar is checked on the device
+  private checkGrammar(text: string): GrammarIssue[] {
+    return GrammarChecker.check(text)
   }
 
-  private determinePriority(message: EmailMessage, actionItems: ActionItem[]): 'high' | 'medium' | 'low' {
+  determinePriority(message: EmailMessage, actionItems: ActionItem[]): 'high' | 'medium' | 'low' {
     const subject = message.subject.toLowerCase()
     const body = message.body.toLowerCase()
     
@@ -553,10 +637,18 @@ Response:`
   private async categorizeEmail(message: EmailMessage, summary: string): Promise<string[]> {
     try {
       // Use AI for better categorization
-      await this.initialize()
-      const textGenerator = await this.loadModel('text-generator')
-      
-      const prompt = `Categorize this email into relevant categories. Choose from: meeting, deadline, project, budget, appreciation, urgent, question, request, follow-up, general.
+      return await this.categorizeWithModel(message, summary)
+    } catch (error) {
+      console.error('ReplySage: AI categorization failed, using fallback:', error)
+      return this.categorizeEmailFallback(message, summary)
+    }
+  }
+
+  async categorizeWithModel(message: EmailMessage, summary = '', language = 'en'): Promise<string[]> {
+    await this.initialize()
+    const textGenerator = await this.loadModel('text-generator', language)
+    
+    const prompt = `Categorize this email into relevant categories. Choose from: meeting, deadline, project, budget, appreciation, urgent, question, request, follow-up, general.
       
 Subject: ${message.subject}
 Content: ${message.body.substring(0, 500)}
@@ -564,20 +656,16 @@ Summary: ${summary}
 
 Return only the categories separated by commas:`
 
-      const result = await textGenerator(prompt, {
-        max_length: 50,
-        temperature: 0.3,
-        do_sample: true
-      })
+    const result = await textGenerator(prompt, {
+      max_length: 50,
+      temperature: 0.3,
+      do_sample: true
+    })
 
-      const aiResponse = result[0]?.generated_text || ''
-      const categories = aiResponse.split(',').map((cat: string) => cat.trim().toLowerCase()).filter((cat: string) => cat)
-      
-      return categories.length > 0 ? categories : ['general']
-    } catch (error) {
-      console.error('ReplySage: AI categorization failed, using fallback:', error)
-      return this.categorizeEmailFallback(message, summary)
-    }
+    const aiResponse = result[0]?.generated_text || ''
+    const categories = aiResponse.split(',').map((cat: string) => cat.trim().toLowerCase()).filter((cat: string) => cat)
+    
+    return categories.length > 0 ? categories : ['general']
   }
 
   private categorizeEmailFallback(message: EmailMessage, _summary: string): string[] {
@@ -607,28 +695,32 @@ Return only the categories separated by commas:`
   async extractDates(text: string): Promise<ExtractedDate[]> {
     try {
       // Use AI for better date extraction
-      await this.initialize()
-      const textGenerator = await this.loadModel('text-generator')
-      
-      const prompt = `Extract all dates and time references from this text. Return in format:
+      return await this.extractDatesWithModel(text)
+    } catch (error) {
+      console.error('ReplySage: AI date extraction failed, using fallback:', error)
+      return this.extractDatesFallback(text)
+    }
+  }
+
+  async extractDatesWithModel(text: string, language = 'en'): Promise<ExtractedDate[]> {
+    await this.initialize()
+    const textGenerator = await this.loadModel('text-generator', language)
+    
+    const prompt = `Extract all dates and time references from this text. Return in format:
 DATE: [date text] | TYPE: [deadline/meeting/event/general] | CONFIDENCE: [0.0-1.0]
 
 Text: ${text.substring(0, 1000)}
 
 Dates:`
 
-      const result = await textGenerator(prompt, {
-        max_length: 200,
-        temperature: 0.3,
-        do_sample: true
-      })
+    const result = await textGenerator(prompt, {
+      max_length: 200,
+      temperature: 0.3,
+      do_sample: true
+    })
 
-      const aiResponse = result[0]?.generated_text || ''
-      return this.parseAIDates(aiResponse)
-    } catch (error) {
-      console.error('ReplySage: AI date extraction failed, using fallback:', error)
-      return this.extractDatesFallback(text)
-    }
+    const aiResponse = result[0]?.generated_text || ''
+    return this.parseAIDates(aiResponse)
   }
 
   private parseAIDates(aiResponse: string): ExtractedDate[] {
@@ -740,10 +832,23 @@ Dates:`
     return [...this.modelConfigs]
   }
 
+  /** Identifies the configured models; changes whenever a model is swapped or a language is routed elsewhere */
+  getModelVersion(): string {
+    const routes = MODEL_ROLES.flatMap(({ name, task }) => LanguagePacks.LANGUAGES.flatMap(language => {
+      const model = this.registry.getModelForLanguage(task, language)
+      const config = this.modelConfigs.find(existing => existing.name === name)
+      return model && model.modelId !== config?.modelId ? [`${name}@${language}=${model.id}`] : []
+    }))
+    return [
+      ...this.modelConfigs.map(config => `${config.name}=${config.modelId}${config.quantized ? ':q' : ''}`),
+      ...routes
+    ].join(',')
+  }
+
   async unloadModel(modelName: string): Promise<void> {
     if (this.models.has(modelName)) {
       this.models.delete(modelName)
-      const config = this.modelConfigs.find(c => c.name === modelName)
+      const config = this.modelConfigs.find(c => c.name === modelName) || this.languageConfigs.get(modelName)
       if (config) {
         config.loaded = false
       }
@@ -755,5 +860,6 @@ Dates:`
     this.modelConfigs.forEach(config => {
       config.loaded = false
     })
+    this.languageConfigs.clear()
   }
 }
@@ -0,0 +1,267 @@
+import { AnalysisResult, CacheEntry, EmailMessage, UserSettings } from '@/types'
+import { MessageIdGenerator } from './message-id'
+import { PerformanceMonitor } from './performance-monitor'
+
+/** Everything besides the message itself that changes what an analysis says */
+export interface AnalysisCacheContext {
+  pipelineVersion: number
+  modelVersion: string
+  /** Provider cloud fallback would use; absent when cloud analysis can't run */
+  cloudProvider?: string
+  settings: Pick<UserSettings,
+    'enableLocalProcessing' | 'enableCloudFallback' | 'enablePIIRedaction' | 'enableEntityRedaction' | 'enableAttachmentAnalysis' | 'preferredTone' | 'maxSummaryLength' | 'userCategories' | 'languageToolUrl'>
+}
+
+export interface AnalysisCacheEntry extends CacheEntry {
+  data: AnalysisResult
+  messageId: string
+  bodyHash: string
+  contextHash: string
+}
+
+/** Key-value area the cache lives in; chrome.storage.local in the extension */
+export interface AnalysisCacheStorage {
+  getAll(): Promise<Record<string, unknown>>
+  get(key: string): Promise<unknown>
+  set(key: string, value: unknown): Promise<void>
+  remove(keys: string[]): Promise<void>
+}
+
+export class ChromeCacheStorage implements AnalysisCacheStorage {
+  async getAll(): Promise<Record<string, unknown>> {
+    return chrome.storage.local.get()
+  }
+
+  async get(key: string): Promise<unknown> {
+    const stored = await chrome.storage.local.get([key])
+    return stored[key]
+  }
+
+  async set(key: string, value: unknown): Promise<void> {
+    await chrome.storage.local.set({ [key]: value })
+  }
+
+  async remove(keys: string[]): Promise<void> {
+    await chrome.storage.local.remove(keys)
+  }
+}
+
+/**
+ * Cached analyses, keyed by message id, a hash of the message content and
+ * a hash of the context (pipeline and model versions, cloud provider and
+ * the settings that shape results). An entry is only ever read back under
+ * the exact key it was written with, so changing a model or a setting
+ * simply misses; setContext() and get() then delete what can no longer
+ * be read. A per-message index of keys keeps lookups from scanning the
+ * whole storage area. Analyses cached before keys were versioned sit bare
+ * under `analysis_<legacy id>` until adoptLegacy() moves them to the
+ * message's stable id or they are thirty days old. Hits, misses and
+ * invalidations go to the PerformanceMonitor.
+ */
+export class AnalysisCache {
+  private static instance: AnalysisCache
+  private storage: AnalysisCacheStorage
+  private monitor: PerformanceMonitor
+  private contextHash: string | null = null
+  static readonly KEY_PREFIX = 'analysis_'
+  static readonly INDEX_PREFIX = 'analysis-keys_'
+  private readonly CACHE_NAME = 'analysis'
+  private readonly EXPIRY_MS = 30 * 24 * 60 * 60 * 1000
+
+  constructor(storage: AnalysisCacheStorage, monitor: PerformanceMonitor = PerformanceMonitor.getInstance()) {
+    this.storage = storage
+    this.monitor = monitor
+  }
+
+  static getInstance(): AnalysisCache {
+    if (!AnalysisCache.instance) {
+      AnalysisCache.instance = new AnalysisCache(new ChromeCacheStorage())
+    }
+    return AnalysisCache.instance
+  }
+
+  static hashContext(context: AnalysisCacheContext): string {
+    const settings = Object.entries(context.settings).sort(([a], [b]) => a.localeCompare(b))
+    return MessageIdGenerator.hash(JSON.stringify([context.pipelineVersion, context.modelVersion, context.cloudProvider || null, settings]))
+  }
+
+  static hashBody(message: EmailMessage): string {
+    const attachments = message.attachments.map(attachment => `${attachment.name}:${attachment.size}`)
+    return MessageIdGenerator.hash([message.subject, message.body, ...attachments].join('\n'))
+  }
+
+  /**
+   * Cheap when nothing changed. Otherwise deletes every entry written
+   * under another context and returns how many were dropped. Legacy
+   * entries are left for adoptLegacy().
+   */
+  async setContext(context: AnalysisCacheContext): Promise<number> {
+    const contextHash = AnalysisCache.hashContext(context)
+    if (contextHash === this.contextHash) {
+      return 0
+    }
+    this.contextHash = contextHash
+
+    const stale = await this.findEntries(entry => !this.isLegacy(entry) && entry.contextHash !== contextHash)
+    await this.drop(stale, 'context-changed')
+    return stale.length
+  }
+
+  /**
+   * Moves the newest analysis cached under any of the message's legacy
+   * ids to its stable key, unless it already has one, and deletes the
+   * legacy entries. Returns the adopted analysis.
+   */
+  async adoptLegacy(message: EmailMessage, legacyIds: string[]): Promise<AnalysisResult | null> {
+    const keys = legacyIds.map(id => `${AnalysisCache.KEY_PREFIX}${id}`)
+    const legacy: AnalysisResult[] = []
+    for (const key of keys) {
+      const analysis = await this.storage.get(key) as AnalysisResult | undefined
+      if (analysis && this.legacyExpiry(analysis) > Date.now()) {
+        legacy.push(analysis)
+      }
+    }
+    if (legacy.length === 0) {
+      return null
+    }
+
+    const [newest] = legacy.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+    const adopted = { ...newest, messageId: message.id }
+    if (!await this.storage.get(this.keyFor(message))) {
+      await this.set(message, adopted)
+    }
+    await this.storage.remove(keys)
+    return adopted
+  }
+
+  async get(message: EmailMessage): Promise<AnalysisResult | null> {
+    const key = this.keyFor(message)
+    const entry = await this.storage.get(key) as AnalysisCacheEntry | undefined
+
+    if (entry && !this.isExpired(entry)) {
+      this.monitor.recordCacheAccess(this.CACHE_NAME, true)
+      return entry.data
+    }
+
+    // Whatever is left for this message was written for other content or has expired
+    const stale = (await this.indexedKeys(message.id)).map(key => ({ key, messageId: message.id }))
+    await this.drop(stale, entry ? 'expired' : 'content-changed')
+    this.monitor.recordCacheAccess(this.CACHE_NAME, false, entry ? 'expired' : stale.length > 0 ? 'content-changed' : 'not-cached')
+    return null
+  }
+
+  async set(message: EmailMessage, analysis: AnalysisResult): Promise<void> {
+    const key = this.keyFor(message)
+    const entry: AnalysisCacheEntry = {
+      key,
+      data: analysis,
+      expiresAt: new Date(Date.now() + this.EXPIRY_MS),
+      encrypted: false,
+      messageId: message.id,
+      bodyHash: AnalysisCache.hashBody(message),
+      contextHash: this.requireContext()
+    }
+    await this.storage.set(key, entry)
+
+    const indexed = await this.indexedKeys(message.id)
+    if (!indexed.includes(key)) {
+      await this.storage.set(this.indexKey(message.id), [...indexed, key])
+    }
+  }
+
+  async remove(messageId: string): Promise<void> {
+    await this.storage.remove([...await this.indexedKeys(messageId), this.indexKey(messageId)])
+  }
+
+  /** Readable analyses, newest first; those made from inbox snippets for batches are left out */
+  async list(): Promise<AnalysisResult[]> {
+    const contextHash = this.requireContext()
+    const entries = await this.entries()
+    return entries
+      .map(([, entry]) => entry)
+      .filter(entry => entry.contextHash === contextHash && !this.isExpired(entry) && !entry.data.snippetOnly)
+      .map(entry => entry.data)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+  }
+
+  async clear(): Promise<number> {
+    const keys = Object.keys(await this.storage.getAll())
+    const entries = keys.filter(key => key.startsWith(AnalysisCache.KEY_PREFIX))
+    await this.storage.remove([...entries, ...keys.filter(key => key.startsWith(AnalysisCache.INDEX_PREFIX))])
+    return entries.length
+  }
+
+  async prune(): Promise<number> {
+    const expired = await this.findEntries(entry => this.isExpired(entry))
+    await this.drop(expired, 'expired')
+    return expired.length
+  }
+
+  private keyFor(message: EmailMessage): string {
+    return `${AnalysisCache.KEY_PREFIX}${message.id}:${AnalysisCache.hashBody(message)}:${this.requireContext()}`
+  }
+
+  private indexKey(messageId: string): string {
+    return `${AnalysisCache.INDEX_PREFIX}${messageId}`
+  }
+
+  private async indexedKeys(messageId: string): Promise<string[]> {
+    return (await this.storage.get(this.indexKey(messageId)) as string[] | undefined) || []
+  }
+
+  private requireContext(): string {
+    if (!this.contextHash) {
+      throw new Error('Analysis cache used before its context was set')
+    }
+    return this.contextHash
+  }
+
+  private isExpired(entry: AnalysisCacheEntry): boolean {
+    // Dates come back from extension storage as strings; legacy entries are bare analyses
+    const expiresAt = this.isLegacy(entry)
+      ? this.legacyExpiry(entry as unknown as AnalysisResult)
+      : new Date(entry.expiresAt).getTime()
+    return !(expiresAt > Date.now())
+  }
+
+  // Legacy entries carry no expiry of their own; NaN when even createdAt is missing
+  private legacyExpiry(analysis: AnalysisResult): number {
+    return new Date(analysis.createdAt).getTime() + this.EXPIRY_MS
+  }
+
+  private isLegacy(entry: AnalysisCacheEntry): boolean {
+    return !entry.contextHash
+  }
+
+  // Entries written before keys were versioned are bare analyses
+  private async entries(): Promise<[string, AnalysisCacheEntry][]> {
+    const all = await this.storage.getAll()
+    return Object.entries(all)
+      .filter(([key]) => key.startsWith(AnalysisCache.KEY_PREFIX))
+      .map(([key, value]) => [key, (value || {}) as AnalysisCacheEntry])
+  }
+
+  private async findEntries(predicate: (entry: AnalysisCacheEntry) => boolean): Promise<{ key: string; messageId?: string }[]> {
+    const entries = await this.entries()
+    return entries.filter(([, entry]) => predicate(entry)).map(([key, entry]) => ({ key, messageId: entry.messageId }))
+  }
+
+  /** Deletes entries and takes them out of their message's index */
+  private async drop(entries: { key: string; messageId?: string }[], reason: string): Promise<void> {
+    if (entries.length === 0) return
+    await this.storage.remove(entries.map(entry => entry.key))
+
+    const dropped = new Set(entries.map(entry => entry.key))
+    const messageIds = new Set(entries.flatMap(entry => entry.messageId ? [entry.messageId] : []))
+    for (const messageId of messageIds) {
+      const remaining = (await this.indexedKeys(messageId)).filter(key => !dropped.has(key))
+      if (remaining.length > 0) {
+        await this.storage.set(this.indexKey(messageId), remaining)
+      } else {
+        await this.storage.remove([this.indexKey(messageId)])
+      }
+    }
+
+    this.monitor.recordCacheInvalidation(this.CACHE_NAME, entries.length, reason)
+  }
+}
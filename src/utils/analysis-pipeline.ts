@@ -0,0 +1,383 @@
+import { ActionItem, AnalysisResult, AnalysisSource, AnalysisStageName, AnalysisStreamEvent, CategoryScore, EmailMessage, ExtractedDate, StageProvenance } from '@/types'
+import { LocalAIManager } from './ai-models'
+import { FallbackManager } from './fallback-manager'
+import { EvidenceGrounder } from './evidence-grounder'
+import { LanguageDetector } from './language-detector'
+
+/** The AnalysisResult field each stage fills */
+const STAGE_FIELDS = {
+  summary: 'summary',
+  sentiment: 'sentiment',
+  actions: 'actionItems',
+  dates: 'extractedDates',
+  replies: 'suggestedReplies',
+  grammar: 'grammarIssues',
+  categories: 'categoryScores'
+} as const satisfies Record<AnalysisStageName, keyof AnalysisResult>
+
+export type StageValue<S extends AnalysisStageName> = NonNullable<AnalysisResult[typeof STAGE_FIELDS[S]]>
+
+export interface StageContext {
+  message: EmailMessage
+  /** ISO 639-1 code of the language the message is written in */
+  language: string
+  /** No network, or too slow for models and cloud calls */
+  offline: boolean
+  /** Whether cloud analysis is enabled and a provider is configured */
+  cloudEnabled: boolean
+  /** Full cloud analysis, requested at most once per run and shared by every stage */
+  cloudAnalysis(): Promise<AnalysisResult>
+}
+
+export interface StageProvider<S extends AnalysisStageName> {
+  source: AnalysisSource
+  producer: string
+  /** Unavailable providers are skipped without counting as a failure */
+  isAvailable?(context: StageContext): boolean
+  run(context: StageContext): Promise<StageValue<S>>
+}
+
+export interface PipelineRunOptions {
+  offline: boolean
+  cloudEnabled: boolean
+  cloudProducer?: string
+  runCloudAnalysis(language: string): Promise<AnalysisResult>
+  /** Receives heuristic previews first, then each stage as it settles */
+  onEvent?(event: AnalysisStreamEvent): void
+  /** Aborting stops the run before the next provider starts */
+  signal?: AbortSignal
+}
+
+interface StageOutcome<S extends AnalysisStageName> {
+  value: StageValue<S>
+  provenance: StageProvenance
+}
+
+interface StageConfig<S extends AnalysisStageName> {
+  timeoutMs: number
+  providers: StageProvider<S>[]
+}
+
+type StageConfigs = { [S in AnalysisStageName]: StageConfig<S> }
+
+/**
+ * Runs analysis as independent named stages. Each stage tries its
+ * providers in order (local model, cloud, heuristic) under its own
+ * timeout and falls back to a fixed minimal value, so one failing model
+ * only degrades its own field. The result records what produced each
+ * field, and extracted items carry the sentence of the body backing them;
+ * items nothing in the body supports are dropped.
+ */
+export class AnalysisPipeline {
+  private static instance: AnalysisPipeline
+  private aiManager: LocalAIManager
+  private fallbackManager: FallbackManager
+  private stages: StageConfigs
+
+  /** Bump when stage providers change in a way that changes results; cached analyses from older versions are dropped */
+  static readonly VERSION = 6
+
+  // Stages run in this order, one at a time
+  static readonly STAGE_ORDER: AnalysisStageName[] = ['summary', 'sentiment', 'actions', 'dates', 'replies', 'grammar', 'categories']
+
+  private constructor() {
+    this.aiManager = LocalAIManager.getInstance()
+    this.fallbackManager = FallbackManager.getInstance()
+    this.stages = this.createDefaultStages()
+  }
+
+  static getInstance(): AnalysisPipeline {
+    if (!AnalysisPipeline.instance) {
+      AnalysisPipeline.instance = new AnalysisPipeline()
+    }
+    return AnalysisPipeline.instance
+  }
+
+  /** Adds a provider to a stage's chain, first or last */
+  registerProvider<S extends AnalysisStageName>(stage: S, provider: StageProvider<S>, position: 'first' | 'last' = 'last'): void {
+    const providers = this.stages[stage].providers as StageProvider<S>[]
+    if (position === 'first') {
+      providers.unshift(provider)
+    } else {
+      providers.push(provider)
+    }
+  }
+
+  unregisterProvider(stage: AnalysisStageName, producer: string): void {
+    const config = this.stages[stage] as StageConfig<AnalysisStageName>
+    config.providers = config.providers.filter(provider => provider.producer !== producer)
+  }
+
+  getProducers(stage: AnalysisStageName): string[] {
+    return this.stages[stage].providers.map(provider => provider.producer)
+  }
+
+  setTimeout(stage: AnalysisStageName, timeoutMs: number): void {
+    this.stages[stage].timeoutMs = timeoutMs
+  }
+
+  async run(message: EmailMessage, options: PipelineRunOptions): Promise<AnalysisResult> {
+    let cloudRequest: Promise<AnalysisResult> | null = null
+    const { language } = LanguageDetector.detect(`${message.subject}\n${message.body}`)
+    const context: StageContext = {
+      message,
+      language,
+      offline: options.offline,
+      cloudEnabled: options.cloudEnabled,
+      cloudAnalysis: () => {
+        cloudRequest = cloudRequest || options.runCloudAnalysis(language)
+        return cloudRequest
+      }
+    }
+
+    const result: AnalysisResult = {
+      messageId: message.id,
+      summary: '',
+      actionItems: [],
+      suggestedReplies: [],
+      grammarIssues: [],
+      sentiment: 'neutral',
+      priority: 'low',
+      categories: [],
+      extractedDates: [],
+      language,
+      provenance: {},
+      createdAt: new Date(),
+      modelUsed: 'local'
+    }
+
+    const stages = AnalysisPipeline.STAGE_ORDER
+    const previews = options.onEvent ? await this.runPreviews(context, options) : new Map()
+
+    // One stage at a time keeps at most one local model busy
+    for (const [index, stage] of stages.entries()) {
+      options.onEvent?.({ type: 'stage-start', stage, index, total: stages.length })
+      const { value, provenance } = await this.runStage(stage, context, options, previews.get(stage))
+      const fields = this.ground(stage, value, message)
+      Object.assign(result, fields)
+      result.provenance![stage] = provenance
+      options.onEvent?.({ type: 'stage', stage, fields, provenance, final: true })
+    }
+
+    result.priority = this.aiManager.determinePriority(message, result.actionItems)
+    result.modelUsed = Object.values(result.provenance!).some(provenance => provenance.source === 'cloud') ? 'cloud' : 'local'
+    return result
+  }
+
+  /**
+   * Runs each stage's first heuristic ahead of the models so a streaming
+   * caller has something to show within milliseconds. A stage that later
+   * falls through to the same heuristic reuses the preview.
+   */
+  private async runPreviews(context: StageContext, options: PipelineRunOptions): Promise<Map<AnalysisStageName, StageOutcome<AnalysisStageName>>> {
+    const previews = new Map<AnalysisStageName, StageOutcome<AnalysisStageName>>()
+
+    for (const stage of AnalysisPipeline.STAGE_ORDER) {
+      this.throwIfCancelled(options.signal)
+      const config = this.stages[stage] as StageConfig<AnalysisStageName>
+      const provider = config.providers.find(provider =>
+        provider.source === 'heuristic' && (!provider.isAvailable || provider.isAvailable(context)))
+      if (!provider) continue
+
+      const startTime = Date.now()
+      try {
+        const value = await this.withTimeout(provider.run(context), config.timeoutMs, `${stage} timed out after ${config.timeoutMs}ms`, options.signal)
+        const provenance: StageProvenance = { source: 'heuristic', producer: provider.producer, durationMs: Date.now() - startTime, failures: [] }
+        previews.set(stage, { value, provenance })
+        options.onEvent?.({ type: 'stage', stage, fields: this.ground(stage, value, context.message), provenance, final: false })
+      } catch (error) {
+        this.throwIfCancelled(options.signal)
+        console.error(`ReplySage: ${stage} preview failed with ${provider.producer}:`, error)
+      }
+    }
+
+    return previews
+  }
+
+  private async runStage<S extends AnalysisStageName>(
+    stage: S,
+    context: StageContext,
+    options: PipelineRunOptions,
+    preview?: StageOutcome<AnalysisStageName>
+  ): Promise<StageOutcome<S>> {
+    const config = this.stages[stage] as StageConfig<S>
+    const failures: StageProvenance['failures'] = []
+
+    for (const provider of config.providers) {
+      this.throwIfCancelled(options.signal)
+      if (provider.isAvailable && !provider.isAvailable(context)) {
+        continue
+      }
+
+      if (preview && provider.source === 'heuristic' && preview.provenance.producer === provider.producer) {
+        return { value: preview.value as StageValue<S>, provenance: { ...preview.provenance, failures } }
+      }
+
+      const producer = provider.source === 'cloud' && options.cloudProducer ? options.cloudProducer : provider.producer
+      const startTime = Date.now()
+      try {
+        const value = await this.withTimeout(provider.run(context), config.timeoutMs, `${stage} timed out after ${config.timeoutMs}ms`, options.signal)
+        return {
+          value,
+          provenance: { source: provider.source, producer, durationMs: Date.now() - startTime, failures }
+        }
+      } catch (error) {
+        this.throwIfCancelled(options.signal)
+        console.error(`ReplySage: ${stage} stage failed with ${producer}:`, error)
+        failures.push({ producer, error: (error as Error).message })
+      }
+    }
+
+    return {
+      value: this.minimalValue(stage, context.message),
+      provenance: { source: 'minimal', producer: 'default', durationMs: 0, failures }
+    }
+  }
+
+  /**
+   * The stage's fields with their evidence in the body. Models and cloud
+   * providers can invent action items and deadlines, so every producer's
+   * output goes through the same check.
+   */
+  private ground<S extends AnalysisStageName>(stage: S, value: StageValue<S>, message: EmailMessage): Partial<AnalysisResult> {
+    switch (stage) {
+      case 'summary':
+        return { summary: value as string, summaryGrounding: EvidenceGrounder.groundSummary(message.body, value as string) }
+      case 'actions':
+        return { actionItems: EvidenceGrounder.groundActionItems(message.body, value as ActionItem[]) }
+      case 'dates':
+        return { extractedDates: EvidenceGrounder.groundDates(message.body, value as ExtractedDate[]) }
+      case 'categories':
+        return { categories: (value as CategoryScore[]).map(category => category.label), categoryScores: value as CategoryScore[] }
+      default:
+        return { [STAGE_FIELDS[stage]]: value }
+    }
+  }
+
+  private throwIfCancelled(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+      throw new Error('Analysis cancelled')
+    }
+  }
+
+  // A model still loading can't be interrupted, so cancelling stops waiting for it instead
+  private withTimeout<T>(promise: Promise<T>, timeoutMs: number, message: string, signal?: AbortSignal): Promise<T> {
+    let timer: ReturnType<typeof setTimeout>
+    let onAbort = () => {}
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(message)), timeoutMs)
+      onAbort = () => reject(new Error('Analysis cancelled'))
+      signal?.addEventListener('abort', onAbort)
+    })
+    return Promise.race([promise, timeout]).finally(() => {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', onAbort)
+    })
+  }
+
+  private minimalValue<S extends AnalysisStageName>(stage: S, message: EmailMessage): StageValue<S> {
+    const values: { [K in AnalysisStageName]: StageValue<K> } = {
+      summary: `Email from ${message.from} about "${message.subject}"`,
+      sentiment: 'neutral',
+      actions: [],
+      dates: [],
+      replies: [],
+      grammar: [],
+      categories: [{ label: 'general' }]
+    }
+    return values[stage] as StageValue<S>
+  }
+
+  private createDefaultStages(): StageConfigs {
+    const local = <S extends AnalysisStageName>(producer: string, run: (context: StageContext) => Promise<StageValue<S>>): StageProvider<S> => ({
+      source: 'local',
+      producer,
+      isAvailable: context => !context.offline,
+      run
+    })
+    const cloud = <S extends AnalysisStageName>(stage: S): StageProvider<S> => ({
+      source: 'cloud',
+      producer: 'cloud',
+      isAvailable: context => context.cloudEnabled && !context.offline,
+      run: async context => (await context.cloudAnalysis())[STAGE_FIELDS[stage]] as StageValue<S>
+    })
+    // Producers that only name categories, without a score
+    const labels = (categories: string[]): CategoryScore[] => categories.map(label => ({ label }))
+    const heuristic = <S extends AnalysisStageName>(producer: string, run: (context: StageContext) => Promise<StageValue<S>>): StageProvider<S> => ({
+      source: 'heuristic',
+      producer,
+      run
+    })
+
+    return {
+      summary: {
+        timeoutMs: 30000,
+        providers: [
+          local('summarizer', context => this.aiManager.summarize(context.message.body, context.language)),
+          cloud('summary'),
+          heuristic('extractive-summary', context => this.fallbackManager.generateFallbackSummary(context.message, context.language))
+        ]
+      },
+      sentiment: {
+        timeoutMs: 15000,
+        providers: [
+          local('sentiment', context => this.aiManager.classifySentiment(context.message.body, context.language)),
+          cloud('sentiment'),
+          heuristic('sentiment-keywords', async context => this.fallbackManager.analyzeSentimentWithHeuristics(context.message, context.language))
+        ]
+      },
+      actions: {
+        timeoutMs: 30000,
+        providers: [
+          local('text-generator', context => this.aiManager.extractActionItemsWithModel(context.message.body, context.language)),
+          cloud('actions'),
+          heuristic('action-patterns', async context => this.fallbackManager.extractActionItemsWithHeuristics(context.message, context.language))
+        ]
+      },
+      dates: {
+        timeoutMs: 30000,
+        providers: [
+          local('text-generator', context => this.aiManager.extractDatesWithModel(context.message.body, context.language)),
+          cloud('dates'),
+          heuristic('date-patterns', async context => this.fallbackManager.extractDatesWithHeuristics(context.message, context.language))
+        ]
+      },
+      replies: {
+        timeoutMs: 30000,
+        providers: [
+          local('text-generator', context => this.aiManager.generateRepliesWithModel(context.message, 'general', context.language)),
+          cloud('replies'),
+          heuristic('reply-templates', async context => this.fallbackManager.generateFallbackReplies(context.message, context.language))
+        ]
+      },
+      grammar: {
+        timeoutMs: 10000,
+        providers: [
+          // A LanguageTool server the user runs beats sending the text to a
+          // cloud model; it's a network call, so it never runs as a preview
+          {
+            source: 'remote',
+            producer: 'languagetool',
+            isAvailable: context => !context.offline && this.fallbackManager.hasGrammarService(),
+            run: context => this.fallbackManager.checkGrammarWithLanguageTool(context.message, context.language)
+          },
+          cloud('grammar'),
+          heuristic('grammar-rules', async context => this.fallbackManager.checkGrammarWithRules(context.message, context.language))
+        ]
+      },
+      categories: {
+        timeoutMs: 20000,
+        providers: [
+          local('text-generator', async context => labels(await this.aiManager.categorizeWithModel(context.message, '', context.language))),
+          {
+            source: 'cloud',
+            producer: 'cloud',
+            isAvailable: context => context.cloudEnabled && !context.offline,
+            run: async context => labels((await context.cloudAnalysis()).categories)
+          },
+          heuristic('category-keywords', async context => labels(this.fallbackManager.categorizeWithHeuristics(context.message, context.language)))
+        ]
+      }
+    }
+  }
+}
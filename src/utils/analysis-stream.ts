@@ -0,0 +1,114 @@
+import { AnalysisStreamEvent, AnalysisStreamRequest, AnalysisStreamState, EmailMessage } from '@/types'
+
+export const ANALYSIS_STREAM_PORT = 'replysage-analysis'
+
+const TOTAL_STAGES = 7
+
+export function createStreamState(message: EmailMessage): AnalysisStreamState {
+  return {
+    status: 'streaming',
+    analysis: {
+      messageId: message.id,
+      summary: '',
+      actionItems: [],
+      suggestedReplies: [],
+      grammarIssues: [],
+      sentiment: 'neutral',
+      priority: 'low',
+      categories: [],
+      extractedDates: [],
+      provenance: {},
+      createdAt: new Date(),
+      modelUsed: 'local'
+    },
+    completedStages: 0,
+    totalStages: TOTAL_STAGES
+  }
+}
+
+/** Folds one event from the background into the sidebar's view of the analysis */
+export function applyStreamEvent(state: AnalysisStreamState, event: AnalysisStreamEvent): AnalysisStreamState {
+  switch (event.type) {
+    case 'stage-start':
+      return { ...state, currentStage: event.stage, totalStages: event.total }
+    case 'stage':
+      // A late preview never overwrites a stage that has already settled
+      if (!event.final && state.analysis.provenance?.[event.stage]) {
+        return state
+      }
+      return {
+        ...state,
+        analysis: {
+          ...state.analysis,
+          ...event.fields,
+          provenance: event.final ? { ...state.analysis.provenance, [event.stage]: event.provenance } : state.analysis.provenance
+        },
+        completedStages: event.final ? state.completedStages + 1 : state.completedStages
+      }
+    case 'model-progress':
+      return { ...state, modelProgress: event.progress.status === 'ready' || event.progress.status === 'done' ? undefined : event.progress }
+    case 'complete':
+      return { ...state, status: 'complete', analysis: event.result, currentStage: undefined, modelProgress: undefined, completedStages: state.totalStages }
+    case 'cancelled':
+      return { ...state, status: 'cancelled', currentStage: undefined, modelProgress: undefined }
+    case 'error':
+      return { ...state, status: 'error', error: event.error, currentStage: undefined, modelProgress: undefined }
+  }
+}
+
+/**
+ * Content-side end of the analysis port. Each start() opens a fresh port,
+ * so events from a cancelled or superseded run can't reach the new one.
+ */
+export class AnalysisStream {
+  private port: chrome.runtime.Port | null = null
+
+  start(message: EmailMessage, onChange: (state: AnalysisStreamState) => void): void {
+    this.close()
+
+    const port = chrome.runtime.connect({ name: ANALYSIS_STREAM_PORT })
+    let state = createStreamState(message)
+    this.port = port
+
+    port.onMessage.addListener((event: AnalysisStreamEvent) => {
+      state = applyStreamEvent(state, event)
+      onChange(state)
+      if (state.status !== 'streaming') {
+        this.close(port)
+      }
+    })
+    port.onDisconnect.addListener(() => {
+      if (this.port !== port) return
+      this.port = null
+      if (state.status === 'streaming') {
+        state = applyStreamEvent(state, { type: 'error', error: 'Connection to the extension was lost' })
+        onChange(state)
+      }
+    })
+
+    this.post(port, { type: 'START', payload: message })
+    onChange(state)
+  }
+
+  cancel(): void {
+    if (this.port) {
+      this.post(this.port, { type: 'CANCEL' })
+    }
+  }
+
+  isActive(): boolean {
+    return this.port !== null
+  }
+
+  private post(port: chrome.runtime.Port, request: AnalysisStreamRequest): void {
+    port.postMessage(request)
+  }
+
+  private close(port: chrome.runtime.Port | null = this.port): void {
+    if (!port) return
+    if (this.port === port) {
+      this.port = null
+    }
+    port.disconnect()
+  }
+}
@@ -0,0 +1,125 @@
+import { Attachment, AttachmentAnalysis, EmailMessage } from '@/types'
+import { ActionExtractor } from './action-extractor'
+import { AttachmentExtractor } from './attachment-extractor'
+
+/**
+ * Produces per-attachment summaries and dates for a message. Bytes come
+ * from the parsed message when available, otherwise they are downloaded
+ * from the mail client with the user's own session, so only attachments
+ * the user can already open are read.
+ */
+export class AttachmentAnalyzer {
+  private static instance: AttachmentAnalyzer
+  private actionExtractor: ActionExtractor
+  private readonly MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024
+  private readonly MAX_ATTACHMENTS = 10
+  private readonly MAX_TEXT_LENGTH = 50000
+  private readonly EXCERPT_LENGTH = 500
+
+  // Hosts that serve attachment downloads for the supported mail clients
+  private static readonly ATTACHMENT_HOSTS = [
+    'mail.google.com',
+    'mail-attachment.googleusercontent.com',
+    'outlook.live.com',
+    'outlook.office.com',
+    'attachments.office.net',
+    'mail.yahoo.com',
+    'apis.mail.yahoo.com'
+  ]
+
+  private constructor() {
+    this.actionExtractor = ActionExtractor.getInstance()
+  }
+
+  static getInstance(): AttachmentAnalyzer {
+    if (!AttachmentAnalyzer.instance) {
+      AttachmentAnalyzer.instance = new AttachmentAnalyzer()
+    }
+    return AttachmentAnalyzer.instance
+  }
+
+  async analyzeAttachments(message: EmailMessage): Promise<AttachmentAnalysis[]> {
+    const results: AttachmentAnalysis[] = []
+    // One at a time keeps at most one attachment's bytes in memory
+    for (const attachment of message.attachments.slice(0, this.MAX_ATTACHMENTS)) {
+      results.push(await this.analyzeAttachment(attachment))
+    }
+    return results
+  }
+
+  async analyzeAttachment(attachment: Attachment): Promise<AttachmentAnalysis> {
+    const result: AttachmentAnalysis = {
+      name: attachment.name,
+      type: attachment.type,
+      size: attachment.size,
+      status: 'unsupported',
+      extractedDates: []
+    }
+
+    const format = AttachmentExtractor.detectFormat(attachment)
+    if (!format) {
+      return result
+    }
+    if (attachment.size > this.MAX_ATTACHMENT_BYTES) {
+      return { ...result, status: 'too_large' }
+    }
+
+    try {
+      const bytes = await this.loadBytes(attachment)
+      if (!bytes) {
+        return { ...result, status: 'unavailable' }
+      }
+      if (bytes.length > this.MAX_ATTACHMENT_BYTES) {
+        return { ...result, size: bytes.length, status: 'too_large' }
+      }
+
+      const content = await AttachmentExtractor.extractContent(bytes, format)
+      const text = content.text.slice(0, this.MAX_TEXT_LENGTH)
+
+      return {
+        ...result,
+        size: bytes.length,
+        status: 'analyzed',
+        summary: content.summary,
+        excerpt: text.slice(0, this.EXCERPT_LENGTH),
+        extractedDates: content.dates.length > 0 ? content.dates : this.actionExtractor.extractDates(text)
+      }
+    } catch (error) {
+      if (error instanceof RangeError) {
+        return { ...result, status: 'too_large' }
+      }
+      console.error('ReplySage: Failed to analyze attachment:', error)
+      return { ...result, status: 'failed' }
+    }
+  }
+
+  private async loadBytes(attachment: Attachment): Promise<Uint8Array | null> {
+    if (attachment.data) {
+      return attachment.data
+    }
+    if (!attachment.url || !AttachmentAnalyzer.isAllowedUrl(attachment.url)) {
+      return null
+    }
+
+    const response = await fetch(attachment.url, { credentials: 'include' })
+    if (!response.ok) {
+      return null
+    }
+
+    const declaredLength = parseInt(response.headers.get('content-length') || '0')
+    if (declaredLength > this.MAX_ATTACHMENT_BYTES) {
+      throw new RangeError(`Attachment exceeds ${this.MAX_ATTACHMENT_BYTES} bytes`)
+    }
+
+    return new Uint8Array(await response.arrayBuffer())
+  }
+
+  static isAllowedUrl(url: string): boolean {
+    try {
+      const parsed = new URL(url)
+      return parsed.protocol === 'https:' && this.ATTACHMENT_HOSTS.includes(parsed.hostname)
+    } catch {
+      return false
+    }
+  }
+}
@@ -0,0 +1,238 @@
+import { Attachment, ExtractedDate, MeetingDetails } from '@/types'
+import { HtmlToText } from './html-to-text'
+import { IcsParser } from './ics-parser'
+import { ZipReader } from './zip-reader'
+
+export type AttachmentFormat = 'text' | 'csv' | 'html' | 'ics' | 'docx' | 'odt'
+
+export interface ExtractedAttachmentContent {
+  format: AttachmentFormat
+  text: string
+  summary: string
+  /** Dates read from structured data (e.g. calendar events) rather than the text */
+  dates: ExtractedDate[]
+}
+
+/**
+ * Extracts text from attachment bytes in common formats (plain text,
+ * CSV, HTML, iCalendar, DOCX and ODT) and produces a short summary.
+ * Works on bytes alone so it runs in the background service worker.
+ */
+export class AttachmentExtractor {
+  private static readonly FORMATS_BY_EXTENSION: Record<string, AttachmentFormat> = {
+    txt: 'text',
+    text: 'text',
+    md: 'text',
+    markdown: 'text',
+    log: 'text',
+    csv: 'csv',
+    tsv: 'csv',
+    html: 'html',
+    htm: 'html',
+    ics: 'ics',
+    docx: 'docx',
+    odt: 'odt'
+  }
+
+  private static readonly FORMATS_BY_TYPE: Record<string, AttachmentFormat> = {
+    'text/plain': 'text',
+    'text/markdown': 'text',
+    'text/x-markdown': 'text',
+    'text/csv': 'csv',
+    'text/tab-separated-values': 'csv',
+    'text/html': 'html',
+    'text/calendar': 'ics',
+    'application/ics': 'ics',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+    'application/vnd.oasis.opendocument.text': 'odt'
+  }
+
+  /** Picks the extraction format from the file extension, then the MIME type */
+  static detectFormat(attachment: Pick<Attachment, 'name' | 'type'>): AttachmentFormat | null {
+    const extension = attachment.name.includes('.') ? attachment.name.split('.').pop()!.toLowerCase() : ''
+    const type = attachment.type.split(';')[0].trim().toLowerCase()
+    return this.FORMATS_BY_EXTENSION[extension] || this.FORMATS_BY_TYPE[type] || null
+  }
+
+  static async extractContent(bytes: Uint8Array, format: AttachmentFormat): Promise<ExtractedAttachmentContent> {
+    switch (format) {
+      case 'csv': {
+        const rows = this.parseCsv(this.decodeText(bytes))
+        return {
+          format,
+          text: rows.map(row => `| ${row.join(' | ')} |`).join('\n'),
+          summary: this.describeTable(rows),
+          dates: []
+        }
+      }
+      case 'ics': {
+        const meetings = IcsParser.parse(this.decodeText(bytes))
+        return {
+          format,
+          text: meetings.map(meeting => IcsParser.describe(meeting)).join('\n\n'),
+          summary: this.describeMeetings(meetings),
+          dates: IcsParser.toExtractedDates(meetings)
+        }
+      }
+      case 'docx': {
+        const xml = await ZipReader.readEntry(bytes, 'word/document.xml')
+        if (!xml) throw new Error('DOCX file has no word/document.xml')
+        return this.fromText(format, this.officeXmlToText(this.decodeText(xml)))
+      }
+      case 'odt': {
+        const xml = await ZipReader.readEntry(bytes, 'content.xml')
+        if (!xml) throw new Error('ODT file has no content.xml')
+        return this.fromText(format, this.officeXmlToText(this.decodeText(xml)))
+      }
+      case 'html':
+        return this.fromText(format, HtmlToText.convert(this.decodeText(bytes)))
+      default:
+        return this.fromText(format, this.decodeText(bytes).replace(/\r\n?/g, '\n').trim())
+    }
+  }
+
+  private static fromText(format: AttachmentFormat, text: string): ExtractedAttachmentContent {
+    return { format, text, summary: this.summarizeText(text), dates: [] }
+  }
+
+  private static decodeText(bytes: Uint8Array): string {
+    // UTF-16 files announce themselves with a byte order mark; everything else is read as UTF-8
+    if (bytes[0] === 0xff && bytes[1] === 0xfe) return new TextDecoder('utf-16le').decode(bytes)
+    if (bytes[0] === 0xfe && bytes[1] === 0xff) return new TextDecoder('utf-16be').decode(bytes)
+    return new TextDecoder('utf-8').decode(bytes)
+  }
+
+  /** Reads paragraph text from WordprocessingML (DOCX) or OpenDocument (ODT) XML */
+  private static officeXmlToText(xml: string): string {
+    const text = xml
+      // Field codes and tracked deletions are not part of the visible text
+      .replace(/<w:(instrText|delText)\b[^>]*>[\s\S]*?<\/w:\1>/g, '')
+      .replace(/<(?:w:tab|text:tab)\b[^>]*\/>/g, '\t')
+      .replace(/<(?:w:br|w:cr|text:line-break)\b[^>]*\/>/g, '\n')
+      .replace(/<text:s\b[^>]*\/>/g, ' ')
+      .replace(/<\/(?:w:p|text:p|text:h)>/g, '\n')
+      .replace(/<[^>]+>/g, '')
+
+    return HtmlToText.decodeEntities(text)
+      .split('\n')
+      .map(line => line.trim())
+      .join('\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim()
+  }
+
+  /** RFC 4180 CSV; the delimiter (comma, semicolon or tab) is taken from the header line */
+  static parseCsv(text: string): string[][] {
+    const firstLine = text.split(/\r?\n/, 1)[0] || ''
+    const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+      firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best, ',')
+
+    const rows: string[][] = []
+    let row: string[] = []
+    let field = ''
+    let inQuotes = false
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i]
+
+      if (inQuotes) {
+        if (char === '"' && text[i + 1] === '"') {
+          field += '"'
+          i++
+        } else if (char === '"') {
+          inQuotes = false
+        } else {
+          field += char
+        }
+      } else if (char === '"' && field === '') {
+        inQuotes = true
+      } else if (char === delimiter) {
+        row.push(field)
+        field = ''
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') i++
+        row.push(field)
+        rows.push(row)
+        row = []
+        field = ''
+      } else {
+        field += char
+      }
+    }
+
+    if (field !== '' || row.length > 0) {
+      row.push(field)
+      rows.push(row)
+    }
+
+    return rows
+      .map(cells => cells.map(cell => cell.trim()))
+      .filter(cells => cells.some(cell => cell !== ''))
+  }
+
+  /** Describes the table's shape and totals for up to three numeric columns */
+  private static describeTable(rows: string[][]): string {
+    if (rows.length === 0) {
+      return 'Empty spreadsheet'
+    }
+
+    const [header, ...data] = rows
+    const parts = [`${data.length} ${data.length === 1 ? 'row' : 'rows'} × ${header.length} columns (${header.join(', ')})`]
+
+    const numericColumns = header
+      .map((name, column) => {
+        const values = data.map(row => row[column] || '').filter(Boolean).map(value => this.parseNumber(value))
+        return { name, values }
+      })
+      .filter(({ values }) => values.length > 0 && values.every(value => value !== null))
+      .slice(0, 3)
+
+    for (const { name, values } of numericColumns) {
+      const numbers = values as number[]
+      const total = numbers.reduce((sum, value) => sum + value, 0)
+      parts.push(`${name}: total ${this.formatNumber(total)}, range ${this.formatNumber(Math.min(...numbers))}–${this.formatNumber(Math.max(...numbers))}`)
+    }
+
+    return parts.join('; ')
+  }
+
+  private static parseNumber(value: string): number | null {
+    // Allow currency symbols, percent signs and thousands separators
+    const cleaned = value.replace(/[\s$€£¥%]/g, '').replace(/,(?=\d{3}(?:\D|$))/g, '')
+    if (!/^[-+]?\d*\.?\d+$/.test(cleaned)) return null
+    return parseFloat(cleaned)
+  }
+
+  private static formatNumber(value: number): string {
+    return value.toLocaleString('en-US', { maximumFractionDigits: 2 })
+  }
+
+  private static describeMeetings(meetings: MeetingDetails[]): string {
+    if (meetings.length === 0) {
+      return 'Calendar file with no events'
+    }
+
+    const prefixes = { scheduled: '', updated: 'Updated: ', cancelled: 'Cancelled: ' }
+    return meetings
+      .map(meeting => `${prefixes[meeting.status]}${meeting.title}, ${IcsParser.formatRange(meeting)}${meeting.location ? ` at ${meeting.location}` : ''}`)
+      .join('; ')
+  }
+
+  /** First sentences of the text, up to about 240 characters */
+  private static summarizeText(text: string): string {
+    const flattened = text.replace(/^#+\s*/gm, '').replace(/\s+/g, ' ').trim()
+    if (!flattened) {
+      return 'No readable text'
+    }
+
+    const sentences = flattened.match(/[^.!?]+[.!?]*/g) || [flattened]
+    let summary = ''
+    for (const sentence of sentences) {
+      if (summary && summary.length + sentence.length > 240) break
+      summary += sentence
+    }
+
+    summary = summary.trim()
+    return summary.length > 240 ? `${summary.slice(0, 239)}…` : summary
+  }
+}
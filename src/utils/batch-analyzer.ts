@@ -0,0 +1,125 @@
+import { AnalysisResult, BatchActionItem, BatchConversation, BatchTriageReport, EmailMessage, InboxRow } from '@/types'
+import { messageFromInboxRow } from './mail-clients/adapter'
+import type { CurrentThreadAnalysis } from './thread-delta'
+
+export type AnalyzeFn = (message: EmailMessage) => Promise<AnalysisResult>
+
+/** Finds a full analysis of the row's thread that is still current */
+export type ThreadLookupFn = (row: InboxRow) => Promise<CurrentThreadAnalysis | null>
+
+const PRIORITY_RANK = { high: 0, medium: 1, low: 2 }
+
+interface BatchOutcome {
+  message: EmailMessage
+  basis: BatchConversation['basis']
+  /** Sender of the thread's newest message */
+  lastFrom: string
+  analysis?: AnalysisResult
+  error?: string
+}
+
+/**
+ * Analyzes the most recent unread conversations of an inbox with a bounded
+ * number in flight, then folds the results into one triage report. A
+ * conversation whose full analysis from its last visit is still current
+ * reuses it; any other is analyzed from what its inbox row shows and
+ * marked as such. A failure only marks that conversation in the report.
+ */
+export class BatchAnalyzer {
+  private analyze: AnalyzeFn
+  private lookup: ThreadLookupFn
+  private concurrency: number
+  static readonly DEFAULT_LIMIT = 20
+  static readonly MAX_LIMIT = 50
+  private readonly TOP_PRIORITY_COUNT = 5
+
+  constructor(analyze: AnalyzeFn, concurrency: number = 3, lookup: ThreadLookupFn = async () => null) {
+    this.analyze = analyze
+    this.concurrency = Math.max(1, concurrency)
+    this.lookup = lookup
+  }
+
+  /**
+   * Rows in inbox order, most recent first; read rows are skipped. Without
+   * the reader's `account` every unread thread counts as awaiting a reply.
+   */
+  async run(client: string, rows: InboxRow[], limit: number = BatchAnalyzer.DEFAULT_LIMIT, account?: string): Promise<BatchTriageReport> {
+    const startedAt = new Date()
+    const unread = rows.filter(row => row.isUnread).slice(0, Math.min(limit, BatchAnalyzer.MAX_LIMIT))
+
+    const outcomes: BatchOutcome[] = new Array(unread.length)
+    let next = 0
+    const worker = async () => {
+      while (next < unread.length) {
+        const index = next++
+        outcomes[index] = await this.analyzeRow(unread[index])
+      }
+    }
+    await Promise.all(Array.from({ length: Math.min(this.concurrency, unread.length) }, worker))
+
+    return this.buildReport(client, outcomes, startedAt, account)
+  }
+
+  private async analyzeRow(row: InboxRow): Promise<BatchOutcome> {
+    const message = messageFromInboxRow(row)
+    try {
+      const current = await this.lookup(row)
+      if (current) {
+        return { message, basis: 'thread', lastFrom: current.lastFrom, analysis: current.analysis }
+      }
+      return { message, basis: 'snippet', lastFrom: message.from, analysis: await this.analyze(message) }
+    } catch (error) {
+      console.error('ReplySage: Batch analysis failed for thread', message.threadId, error)
+      return { message, basis: 'snippet', lastFrom: message.from, error: (error as Error).message }
+    }
+  }
+
+  private buildReport(client: string, outcomes: BatchOutcome[], startedAt: Date, account?: string): BatchTriageReport {
+    const conversations: BatchConversation[] = outcomes.map(({ message, basis, lastFrom, analysis, error }) => ({
+      threadId: message.threadId || message.id,
+      messageId: analysis?.messageId || message.id,
+      subject: message.subject,
+      from: lastFrom,
+      priority: analysis?.priority || 'low',
+      summary: analysis?.summary || '',
+      basis,
+      awaitingReply: !this.isFrom(lastFrom, account),
+      actionItemCount: analysis?.actionItems.length || 0,
+      error
+    }))
+
+    const actionItems: BatchActionItem[] = outcomes.flatMap(({ message, analysis }) =>
+      (analysis?.actionItems || []).map(item => ({ ...item, threadId: message.threadId || message.id, subject: message.subject }))
+    )
+    actionItems.sort((a, b) =>
+      this.dueTime(a) - this.dueTime(b) || PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority]
+    )
+
+    const analyzed = conversations.filter(conversation => !conversation.error)
+    const topPriorities = analyzed
+      .filter(conversation => conversation.priority !== 'low')
+      .sort((a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] || b.actionItemCount - a.actionItemCount)
+      .slice(0, this.TOP_PRIORITY_COUNT)
+
+    return {
+      client,
+      conversations,
+      topPriorities,
+      actionItems,
+      awaitingReply: analyzed.filter(conversation => conversation.awaitingReply),
+      failed: conversations.length - analyzed.length,
+      startedAt,
+      completedAt: new Date()
+    }
+  }
+
+  private isFrom(sender: string, account?: string): boolean {
+    return !!account && sender.trim().toLowerCase() === account.trim().toLowerCase()
+  }
+
+  // Undated items sort last; due dates may arrive as strings from the cache
+  private dueTime(item: BatchActionItem): number {
+    const time = item.dueDate ? new Date(item.dueDate).getTime() : NaN
+    return isNaN(time) ? Infinity : time
+  }
+}
@@ -0,0 +1,210 @@
+import { EmailMessage, BodySegment } from '@/types'
+import { HtmlToText } from './html-to-text'
+
+/**
+ * Splits a plain-text email body into the sender's new content, quoted
+ * history, signature and legal disclaimer. Works on text alone so it
+ * applies equally to Gmail, Outlook, Yahoo and raw .eml bodies.
+ */
+export class BodySegmenter {
+  // Reply headers that introduce the quoted history, e.g. "On Mon, Oct 14, 2024 at 9:05 AM Ana <ana@example.com> wrote:"
+  private static readonly REPLY_HEADER_PATTERNS = [
+    /^On\b.+\bwrote:\s*$/i,
+    /^Am\b.+\bschrieb\b.*:\s*$/i,
+    /^Le\b.+\ba écrit\s*:\s*$/i,
+    /^El\b.+\bescribió:\s*$/i,
+    /^Il\b.+\bha scritto:\s*$/i,
+    /^Op\b.+\bschreef\b.*:\s*$/i,
+    /^Em\b.+\bescreveu:\s*$/i,
+    /^(?:Den|På)\b.+\bskrev\b.*:\s*$/i
+  ]
+
+  private static readonly FORWARD_MARKER_PATTERNS = [
+    /^-{2,}\s*(?:Original Message|Forwarded message|Message d'origine|Ursprüngliche Nachricht|Mensaje original|Messaggio originale)\s*-{2,}\s*$/i,
+    /^Begin forwarded message:\s*$/i,
+    /^_{10,}\s*$/
+  ]
+
+  // Outlook-style header block: "From:" followed closely by "Sent:"/"Date:" and "To:"/"Subject:"
+  private static readonly HEADER_FIELD_PATTERN = /^\*?(?:From|Von|De|Da|Van|Från)\s*:\*?\s*\S/i
+  private static readonly HEADER_FOLLOWUP_PATTERN = /^\*?(?:Sent|Date|To|Subject|Gesendet|Datum|An|Betreff|Envoyé|À|Objet|Enviado|Para|Asunto|Inviato|Oggetto)\s*:/i
+
+  private static readonly MOBILE_FOOTER_PATTERNS = [
+    /^Sent from my \w+/i,
+    /^Sent from (?:Outlook|Yahoo Mail|Mail for Windows|Gmail)\b/i,
+    /^Get Outlook for (?:iOS|Android)/i,
+    /^Sent via \w+/i,
+    /^Envoyé de mon \w+/i,
+    /^Von meinem \w+ gesendet/i,
+    /^Enviado desde mi \w+/i,
+    /^Inviato da(?:l mio)? \w+/i
+  ]
+
+  private static readonly DISCLAIMER_PATTERNS = [
+    /\bintended (?:solely |only )?for the (?:use of the )?(?:addressee|intended recipient|named recipient|individual)/i,
+    /\bif you (?:have )?received this (?:e-?mail|message|communication|transmission) in error\b/i,
+    /\bthis (?:e-?mail|message|communication)(?: and any (?:files|attachments)[^.]*?)? (?:is|are|may be|contains?) (?:strictly )?(?:confidential|privileged)/i,
+    /\b(?:CONFIDENTIALITY NOTICE|DISCLAIMER)\b/,
+    /\bnot the intended recipient\b/i,
+    /\bDiese E-Mail (?:enthält|ist) vertraulich/i,
+    /\bCe message (?:est|et toutes les pièces jointes sont) confidentiel/i
+  ]
+
+  static segment(body: string): BodySegment[] {
+    const lines = body.replace(/\r\n?/g, '\n').split('\n')
+    const historyStart = this.findHistoryStart(lines)
+    const current = lines.slice(0, historyStart)
+    const segments: BodySegment[] = []
+
+    let inSignature = false
+    for (const paragraph of this.splitParagraphs(current)) {
+      for (const block of this.splitQuotedBlocks(paragraph)) {
+        if (block.quoted) {
+          segments.push({ type: 'quoted', text: block.lines.join('\n') })
+          continue
+        }
+
+        const text = block.lines.join('\n')
+        if (this.isDisclaimer(text)) {
+          segments.push({ type: 'disclaimer', text })
+          continue
+        }
+
+        const signatureLine = block.lines.findIndex(line => this.isSignatureStart(line))
+        if (!inSignature && signatureLine !== -1) {
+          if (signatureLine > 0) {
+            segments.push({ type: 'new', text: block.lines.slice(0, signatureLine).join('\n') })
+          }
+          segments.push({ type: 'signature', text: block.lines.slice(signatureLine).join('\n') })
+          inSignature = true
+          continue
+        }
+
+        segments.push({ type: inSignature ? 'signature' : 'new', text })
+      }
+    }
+
+    if (historyStart < lines.length) {
+      segments.push({ type: 'quoted', text: lines.slice(historyStart).join('\n') })
+    }
+
+    return this.mergeAdjacent(segments)
+  }
+
+  /** Joins the new-content segments back into a body */
+  static getNewContent(segments: BodySegment[]): string {
+    return segments
+      .filter(segment => segment.type === 'new')
+      .map(segment => segment.text)
+      .join('\n\n')
+      .trim()
+  }
+
+  /**
+   * Attaches segments to a message and narrows `body` to the new content.
+   * HTML bodies are converted with HtmlToText so lists, tables and links
+   * survive. Messages that already carry segments are returned unchanged.
+   */
+  static applyTo<T extends EmailMessage>(message: T): T {
+    if (message.segments) {
+      return message
+    }
+
+    const source = (message.htmlBody && HtmlToText.convert(message.htmlBody)) || message.body || ''
+    const segments = this.segment(source)
+    // A bare forward has no new content; keep the forwarded text rather than nothing
+    const body = this.getNewContent(segments) || source
+    return { ...message, body, segments }
+  }
+
+  private static findHistoryStart(lines: string[]): number {
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i].trim()
+      if (!line) continue
+
+      if (this.isReplyHeader(line)) {
+        return i
+      }
+
+      // Reply headers are often wrapped onto two lines
+      const next = lines[i + 1]?.trim() || ''
+      if (next && !/[.!?]$/.test(line) && !this.isReplyHeader(next) && this.isReplyHeader(`${line} ${next}`)) {
+        return i
+      }
+
+      if (this.FORWARD_MARKER_PATTERNS.some(pattern => pattern.test(line))) {
+        return i
+      }
+
+      if (this.HEADER_FIELD_PATTERN.test(line)) {
+        const followups = lines.slice(i + 1, i + 5).filter(next => this.HEADER_FOLLOWUP_PATTERN.test(next.trim()))
+        if (followups.length >= 2) {
+          return i
+        }
+      }
+    }
+
+    return lines.length
+  }
+
+  private static isReplyHeader(line: string): boolean {
+    return this.REPLY_HEADER_PATTERNS.some(pattern => pattern.test(line))
+  }
+
+  private static splitParagraphs(lines: string[]): string[][] {
+    const paragraphs: string[][] = []
+    let current: string[] = []
+
+    for (const line of lines) {
+      if (line.trim() === '') {
+        if (current.length > 0) paragraphs.push(current)
+        current = []
+      } else {
+        current.push(line)
+      }
+    }
+
+    if (current.length > 0) paragraphs.push(current)
+    return paragraphs
+  }
+
+  private static splitQuotedBlocks(lines: string[]): Array<{ quoted: boolean; lines: string[] }> {
+    const blocks: Array<{ quoted: boolean; lines: string[] }> = []
+
+    for (const line of lines) {
+      const quoted = /^\s*>/.test(line)
+      const last = blocks[blocks.length - 1]
+      if (last && last.quoted === quoted) {
+        last.lines.push(line)
+      } else {
+        blocks.push({ quoted, lines: [line] })
+      }
+    }
+
+    return blocks
+  }
+
+  private static isSignatureStart(line: string): boolean {
+    // RFC 3676 signature separator is "-- "; many clients drop the trailing space
+    return /^--\s*$/.test(line) || this.MOBILE_FOOTER_PATTERNS.some(pattern => pattern.test(line.trim()))
+  }
+
+  private static isDisclaimer(text: string): boolean {
+    return this.DISCLAIMER_PATTERNS.some(pattern => pattern.test(text))
+  }
+
+  private static mergeAdjacent(segments: BodySegment[]): BodySegment[] {
+    const merged: BodySegment[] = []
+
+    for (const segment of segments) {
+      const last = merged[merged.length - 1]
+      if (last && last.type === segment.type) {
+        last.text = `${last.text}\n\n${segment.text}`
+      } else {
+        merged.push({ ...segment })
+      }
+    }
+
+    return merged
+  }
+}
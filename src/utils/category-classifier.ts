@@ -0,0 +1,147 @@
+import { CategoryScore, EmailMessage, UserCategory } from '@/types'
+import { AnalysisCacheStorage, ChromeCacheStorage } from './analysis-cache'
+
+/** Turns text into a normalized sentence embedding */
+export type EmbedFn = (text: string) => Promise<number[]>
+
+/** An email the user said does or doesn't belong in a category */
+export interface CategoryCorrection {
+  label: string
+  messageId: string
+  vector: number[]
+  positive: boolean
+  createdAt: Date
+}
+
+/**
+ * Files email under the user's own categories by nearest centroid. Each
+ * category's centroid averages the embeddings of its description, its
+ * examples and every email the user moved into it; an email closer to
+ * the ones the user took out of a category than to the category itself
+ * loses it. Scores are cosine similarities, so they stay comparable when
+ * categories are added or removed.
+ */
+export class CategoryClassifier {
+  private embed: EmbedFn
+  private storage: AnalysisCacheStorage
+  private categories: UserCategory[] = []
+  // Description and example embeddings, keyed by the category's content
+  private prototypes: Map<string, number[][]> = new Map()
+  static readonly CORRECTIONS_KEY = 'category_corrections'
+  private readonly MIN_SCORE = 0.35
+  // Runners-up within this distance of the best match are assigned as well
+  private readonly MARGIN = 0.08
+  private readonly MAX_CORRECTIONS_PER_LABEL = 50
+  private readonly MAX_TEXT_LENGTH = 1000
+
+  /** `embed` is usually LocalAIManager's sentence embedding model */
+  constructor(embed: EmbedFn, storage: AnalysisCacheStorage = new ChromeCacheStorage()) {
+    this.embed = embed
+    this.storage = storage
+  }
+
+  setCategories(categories: UserCategory[]): void {
+    this.categories = categories.filter(category => category.label.trim() !== '')
+    const current = new Set(this.categories.map(category => this.prototypeKey(category)))
+    for (const key of Array.from(this.prototypes.keys())) {
+      if (!current.has(key)) this.prototypes.delete(key)
+    }
+  }
+
+  hasCategories(): boolean {
+    return this.categories.length > 0
+  }
+
+  /** The categories the email belongs in, best match first */
+  async classify(message: EmailMessage): Promise<CategoryScore[]> {
+    if (!this.hasCategories()) return []
+
+    const vector = await this.embed(this.textOf(message))
+    const corrections = await this.loadCorrections()
+
+    const scores: CategoryScore[] = []
+    for (const category of this.categories) {
+      const own = corrections.filter(correction => correction.label === category.label)
+      const positives = [...await this.getPrototypes(category), ...own.filter(c => c.positive).map(c => c.vector)]
+      const negatives = own.filter(correction => !correction.positive).map(correction => correction.vector)
+
+      const similarity = this.cosine(vector, this.mean(positives))
+      const rejected = negatives.length > 0 ? this.cosine(vector, this.mean(negatives)) : 0
+      const score = similarity - Math.max(0, rejected - similarity)
+      scores.push({ label: category.label, score: Math.round(Math.max(0, Math.min(1, score)) * 100) / 100 })
+    }
+
+    scores.sort((a, b) => b.score! - a.score!)
+    const best = scores[0].score!
+    return scores.filter(category => category.score! >= this.MIN_SCORE && category.score! >= best - this.MARGIN)
+  }
+
+  /**
+   * Records that the email does or doesn't belong in a category. Later
+   * emails like it follow the correction; the newest corrections per
+   * category are kept.
+   */
+  async correct(message: EmailMessage, label: string, positive: boolean): Promise<void> {
+    if (!this.categories.some(category => category.label === label)) {
+      throw new Error(`Unknown category: ${label}`)
+    }
+
+    const vector = await this.embed(this.textOf(message))
+    // A newer correction of the same email replaces the older one
+    const corrections = (await this.loadCorrections())
+      .filter(correction => !(correction.label === label && correction.messageId === message.id))
+    corrections.push({ label, messageId: message.id, vector, positive, createdAt: new Date() })
+
+    const forLabel = corrections.filter(correction => correction.label === label)
+    const dropped = new Set(forLabel.slice(0, Math.max(0, forLabel.length - this.MAX_CORRECTIONS_PER_LABEL)))
+    await this.storage.set(CategoryClassifier.CORRECTIONS_KEY, corrections.filter(correction => !dropped.has(correction)))
+  }
+
+  async clearCorrections(): Promise<void> {
+    await this.storage.remove([CategoryClassifier.CORRECTIONS_KEY])
+  }
+
+  private async loadCorrections(): Promise<CategoryCorrection[]> {
+    return (await this.storage.get(CategoryClassifier.CORRECTIONS_KEY) as CategoryCorrection[] | undefined) || []
+  }
+
+  private async getPrototypes(category: UserCategory): Promise<number[][]> {
+    const key = this.prototypeKey(category)
+    let vectors = this.prototypes.get(key)
+    if (!vectors) {
+      const texts = [`${category.label}: ${category.description}`, ...(category.examples || []).filter(example => example.trim())]
+      vectors = []
+      for (const text of texts) {
+        vectors.push(await this.embed(text))
+      }
+      this.prototypes.set(key, vectors)
+    }
+    return vectors
+  }
+
+  private prototypeKey(category: UserCategory): string {
+    return JSON.stringify([category.label, category.description, category.examples || []])
+  }
+
+  private textOf(message: EmailMessage): string {
+    return `${message.subject}\n${message.body}`.slice(0, this.MAX_TEXT_LENGTH)
+  }
+
+  private mean(vectors: number[][]): number[] {
+    const sum = new Array(vectors[0].length).fill(0)
+    vectors.forEach(vector => vector.forEach((value, index) => { sum[index] += value }))
+    return sum.map(value => value / vectors.length)
+  }
+
+  private cosine(a: number[], b: number[]): number {
+    let dot = 0
+    let normA = 0
+    let normB = 0
+    for (let i = 0; i < a.length; i++) {
+      dot += a[i] * b[i]
+      normA += a[i] * a[i]
+      normB += b[i] * b[i]
+    }
+    return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB)
+  }
+}
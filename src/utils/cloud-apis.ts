@@ -82,10 +82,14 @@ export class CloudAPIManager {
     }
   }
 
+  /** The provider analyzeWithCloud uses: the first one added */
+  getActiveProviderName(): string | null {
+    return Array.from(this.providers.keys())[0] || null
+  }
+
   async analyzeWithCloud(request: CloudAnalysisRequest): Promise<CloudAnalysisResponse> {
     try {
-      // Get the first available provider
-      const providerName = Array.from(this.providers.keys())[0]
+      const providerName = this.getActiveProviderName()
       if (!providerName) {
         throw new Error('No cloud providers configured')
       }
@@ -262,7 +266,7 @@ export class CloudAPIManager {
 User Preferences:
 - Tone: ${userPreferences.tone}
 - Max Summary Length: ${userPreferences.maxSummaryLength} words
-- Language: ${userPreferences.preferredLanguage}
+- Language: ${userPreferences.preferredLanguage} (write the summary, action items and replies in this language)
 
 Please provide a JSON response with the following structure:
 {
@@ -317,7 +321,7 @@ Please analyze this email for: ${analysisType}`
 User Preferences:
 - Tone: ${userPreferences.tone}
 - Max Summary Length: ${userPreferences.maxSummaryLength} words
-- Language: ${userPreferences.preferredLanguage}
+- Language: ${userPreferences.preferredLanguage} (write the summary, action items and replies in this language)
 
 Email Subject: ${redactedMessage.subject}
 From: ${redactedMessage.from}
@@ -1,4 +1,6 @@
 import { SuggestedReply } from '@/types'
+import { MailClientAdapter, InsertPosition, insertTextIntoElement, isElementVisible } from './mail-clients/adapter'
+import { MailClientRegistry } from './mail-clients/registry'
 
 export interface ComposeIntegrationResult {
   success: boolean
@@ -63,42 +65,7 @@ export class ComposeIntegration {
 
   private async pasteReply(reply: SuggestedReply, _options: ComposeOptions): Promise<ComposeIntegrationResult> {
     try {
-      // Try to find the compose area
-      const composeArea = this.findComposeArea()
-      if (!composeArea) {
-        throw new Error('Compose area not found')
-      }
-
-      // Focus the compose area
-      composeArea.focus()
-      
-      // Get current selection
-      const selection = window.getSelection()
-      const range = selection?.getRangeAt(0)
-      
-      if (range) {
-        // Insert at cursor position
-        range.deleteContents()
-        range.insertNode(document.createTextNode(reply.text))
-        range.collapse(false)
-        selection?.removeAllRanges()
-        selection?.addRange(range)
-      } else {
-        // Insert at end of content
-        const textNode = document.createTextNode(reply.text)
-        composeArea.appendChild(textNode)
-        
-        // Move cursor to end
-        const newRange = document.createRange()
-        newRange.selectNodeContents(composeArea)
-        newRange.collapse(false)
-        selection?.removeAllRanges()
-        selection?.addRange(newRange)
-      }
-
-      // Trigger input event to notify the email client
-      const inputEvent = new Event('input', { bubbles: true })
-      composeArea.dispatchEvent(inputEvent)
+      this.insertIntoComposeArea(reply.text, 'cursor')
 
       return {
         success: true,
@@ -111,26 +78,7 @@ export class ComposeIntegration {
 
   private async replaceContent(reply: SuggestedReply, _options: ComposeOptions): Promise<ComposeIntegrationResult> {
     try {
-      const composeArea = this.findComposeArea()
-      if (!composeArea) {
-        throw new Error('Compose area not found')
-      }
-
-      // Replace all content
-      composeArea.innerHTML = ''
-      composeArea.textContent = reply.text
-      
-      // Focus and select all
-      composeArea.focus()
-      const range = document.createRange()
-      range.selectNodeContents(composeArea)
-      const selection = window.getSelection()
-      selection?.removeAllRanges()
-      selection?.addRange(range)
-
-      // Trigger input event
-      const inputEvent = new Event('input', { bubbles: true })
-      composeArea.dispatchEvent(inputEvent)
+      this.insertIntoComposeArea(reply.text, 'replace')
 
       return {
         success: true,
@@ -143,42 +91,7 @@ export class ComposeIntegration {
 
   private async insertContent(reply: SuggestedReply, options: ComposeOptions): Promise<ComposeIntegrationResult> {
     try {
-      const composeArea = this.findComposeArea()
-      if (!composeArea) {
-        throw new Error('Compose area not found')
-      }
-
-      const position = options.insertPosition || 'end'
-      const text = reply.text
-
-      if (position === 'start') {
-        // Insert at beginning
-        composeArea.textContent = text + (composeArea.textContent || '')
-      } else if (position === 'end') {
-        // Insert at end
-        composeArea.textContent = (composeArea.textContent || '') + text
-      } else if (position === 'cursor') {
-        // Insert at cursor position
-        const selection = window.getSelection()
-        const range = selection?.getRangeAt(0)
-        
-        if (range) {
-          range.deleteContents()
-          range.insertNode(document.createTextNode(text))
-          range.collapse(false)
-          selection?.removeAllRanges()
-          selection?.addRange(range)
-        } else {
-          composeArea.textContent = (composeArea.textContent || '') + text
-        }
-      }
-
-      // Focus the compose area
-      composeArea.focus()
-      
-      // Trigger input event
-      const inputEvent = new Event('input', { bubbles: true })
-      composeArea.dispatchEvent(inputEvent)
+      this.insertIntoComposeArea(reply.text, options.insertPosition || 'end')
 
       return {
         success: true,
@@ -189,6 +102,21 @@ export class ComposeIntegration {
     }
   }
 
+  private insertIntoComposeArea(text: string, position: InsertPosition): void {
+    const adapter = this.getAdapter()
+    if (adapter?.insertText(text, position)) {
+      return
+    }
+
+    // Unknown client or adapter selectors missed: fall back to a generic editable area
+    const composeArea = this.findGenericComposeArea()
+    if (!composeArea) {
+      throw new Error('Compose area not found')
+    }
+
+    insertTextIntoElement(composeArea, text, position)
+  }
+
   private async openNewCompose(reply: SuggestedReply, _options: ComposeOptions): Promise<ComposeIntegrationResult> {
     try {
       // Create a new compose window/tab
@@ -224,43 +152,20 @@ export class ComposeIntegration {
     }
   }
 
-  private findComposeArea(): HTMLElement | null {
-    // Gmail compose area selectors
-    const gmailSelectors = [
-      'div[aria-label="Message Body"]',
-      'div[contenteditable="true"][aria-label="Message Body"]',
-      'div[contenteditable="true"][data-lexical-editor="true"]',
-      'div[contenteditable="true"][role="textbox"]',
-      'div[contenteditable="true"][aria-multiline="true"]'
-    ]
-
-    // Outlook compose area selectors
-    const outlookSelectors = [
-      'div[aria-label="Message body"]',
-      'div[contenteditable="true"][aria-label="Message body"]',
-      'div[contenteditable="true"][role="textbox"]'
-    ]
-
-    // Yahoo Mail compose area selectors
-    const yahooSelectors = [
-      'div[contenteditable="true"][aria-label="Message body"]',
-      'div[contenteditable="true"][role="textbox"]'
-    ]
-
-    const allSelectors = [...gmailSelectors, ...outlookSelectors, ...yahooSelectors]
+  private getAdapter(): MailClientAdapter | null {
+    return MailClientRegistry.getInstance().getCurrentAdapter()
+  }
 
-    for (const selector of allSelectors) {
-      const element = document.querySelector(selector) as HTMLElement
-      if (element && this.isVisible(element)) {
-        return element
-      }
-    }
+  private findComposeArea(): HTMLElement | null {
+    return this.getAdapter()?.locateCompose() || this.findGenericComposeArea()
+  }
 
+  private findGenericComposeArea(): HTMLElement | null {
     // Fallback: look for any contenteditable div
     const contentEditableDivs = document.querySelectorAll('div[contenteditable="true"]')
     for (const div of contentEditableDivs) {
       const element = div as HTMLElement
-      if (this.isVisible(element) && this.looksLikeComposeArea(element)) {
+      if (isElementVisible(element) && this.looksLikeComposeArea(element)) {
         return element
       }
     }
@@ -268,14 +173,6 @@ export class ComposeIntegration {
     return null
   }
 
-  private isVisible(element: HTMLElement): boolean {
-    const style = window.getComputedStyle(element)
-    return style.display !== 'none' && 
-           style.visibility !== 'hidden' && 
-           element.offsetWidth > 0 && 
-           element.offsetHeight > 0
-  }
-
   private looksLikeComposeArea(element: HTMLElement): boolean {
     // Check if element looks like a compose area
     const text = element.textContent || ''
@@ -291,33 +188,11 @@ export class ComposeIntegration {
   }
 
   private getComposeUrl(): string | null {
-    const hostname = window.location.hostname
-    
-    if (hostname.includes('gmail.com')) {
-      return 'https://mail.google.com/mail/u/0/#compose'
-    } else if (hostname.includes('outlook.com')) {
-      return 'https://outlook.live.com/mail/0/deeplink/compose'
-    } else if (hostname.includes('yahoo.com')) {
-      return 'https://mail.yahoo.com/d/compose'
-    }
-    
-    return null
+    return this.getAdapter()?.composeUrl || null
   }
 
   async detectEmailClient(): Promise<string> {
-    const hostname = window.location.hostname
-    
-    if (hostname.includes('gmail.com')) {
-      return 'gmail'
-    } else if (hostname.includes('outlook.com')) {
-      return 'outlook'
-    } else if (hostname.includes('yahoo.com')) {
-      return 'yahoo'
-    } else if (hostname.includes('icloud.com')) {
-      return 'icloud'
-    }
-    
-    return 'unknown'
+    return this.getAdapter()?.id || 'unknown'
   }
 
   async getComposeOptions(): Promise<ComposeOptions[]> {
@@ -344,24 +219,11 @@ export class ComposeIntegration {
   async getComposeAreaInfo(): Promise<{ available: boolean; client: string; selectors: string[] }> {
     const client = await this.detectEmailClient()
     const available = await this.isComposeAreaAvailable()
-    
-    let selectors: string[] = []
-    if (client === 'gmail') {
-      selectors = [
-        'div[aria-label="Message Body"]',
-        'div[contenteditable="true"][aria-label="Message Body"]'
-      ]
-    } else if (client === 'outlook') {
-      selectors = [
-        'div[aria-label="Message body"]',
-        'div[contenteditable="true"][aria-label="Message body"]'
-      ]
-    }
 
     return {
       available,
       client,
-      selectors
+      selectors: this.getAdapter()?.composeSelectors || []
     }
   }
 }
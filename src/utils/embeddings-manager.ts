@@ -1,4 +1,5 @@
 import { EmailMessage } from '@/types'
+import { MessageIdGenerator } from './message-id'
 
 export interface EmbeddingVector {
   id: string
@@ -175,7 +176,9 @@ export class EmbeddingsManager {
     }
 
     try {
-      const embeddingId = `embedding_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+      // Reopening a message replaces its embedding instead of adding another
+      const existing = await this.getEmbeddingsByIndex('messageId', message.id)
+      const embeddingId = existing[0]?.id || `embedding_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
       const vector = await this.generateEmbedding(text)
       
       const embedding: EmbeddingVector = {
@@ -196,7 +199,7 @@ export class EmbeddingsManager {
 
       const transaction = this.db.transaction(['embeddings'], 'readwrite')
       const store = transaction.objectStore('embeddings')
-      await store.add(embedding)
+      await store.put(embedding)
 
       console.log('ReplySage: Embedding stored successfully:', embeddingId)
       return embeddingId
@@ -334,6 +337,84 @@ export class EmbeddingsManager {
     })
   }
 
+  private async getEmbeddingsByIndex(indexName: string, value: string): Promise<EmbeddingVector[]> {
+    return new Promise((resolve, _reject) => {
+      if (!this.db) {
+        _reject(new Error('Database not initialized'))
+        return
+      }
+
+      const transaction = this.db.transaction(['embeddings'], 'readonly')
+      const request = transaction.objectStore('embeddings').index(indexName).getAll(value)
+
+      request.onsuccess = () => {
+        resolve(request.result)
+      }
+
+      request.onerror = () => {
+        _reject(new Error('Failed to retrieve embeddings'))
+      }
+    })
+  }
+
+  async hasEmbedding(messageId: string): Promise<boolean> {
+    const embeddings = await this.getEmbeddingsByIndex('messageId', messageId)
+    return embeddings.length > 0
+  }
+
+  /**
+   * Embeddings stored for this message under legacy ids, newest first.
+   * Those recorded the subject and the body as Gmail's extractor read it
+   * then, which `legacyBody` reproduces.
+   */
+  static findLegacyEmbeddings(message: EmailMessage, candidates: EmbeddingVector[]): EmbeddingVector[] {
+    if (!message.legacyBody) {
+      return []
+    }
+
+    const text = `${message.subject} ${message.legacyBody}`.trim()
+    return candidates
+      .filter(embedding => MessageIdGenerator.isLegacyId(embedding.messageId) && embedding.text === text)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+  }
+
+  /**
+   * Re-keys embeddings that were stored for this message under a legacy,
+   * per-visit message id. Duplicates from repeated visits are collapsed
+   * into one embedding. Returns the legacy message ids that were adopted.
+   */
+  async adoptLegacyEmbeddings(message: EmailMessage): Promise<string[]> {
+    if (!this.db) {
+      throw new Error('Database not initialized')
+    }
+
+    try {
+      const legacy = EmbeddingsManager.findLegacyEmbeddings(message, await this.getEmbeddingsByIndex('sender', message.from || ''))
+
+      if (legacy.length === 0) {
+        return []
+      }
+
+      const current = await this.getEmbeddingsByIndex('messageId', message.id)
+      const transaction = this.db.transaction(['embeddings'], 'readwrite')
+      const store = transaction.objectStore('embeddings')
+      const [newest, ...duplicates] = legacy
+
+      if (current.length === 0) {
+        store.put({ ...newest, messageId: message.id })
+      } else {
+        duplicates.push(newest)
+      }
+      duplicates.forEach(embedding => store.delete(embedding.id))
+
+      console.log('ReplySage: Migrated legacy embeddings for message:', message.id)
+      return [...new Set(legacy.map(embedding => embedding.messageId))]
+    } catch (error) {
+      console.error('ReplySage: Failed to migrate legacy embeddings:', error)
+      throw error
+    }
+  }
+
   private async getCachedSearch(query: string): Promise<EmbeddingSearchResult | null> {
     return new Promise((resolve, _reject) => {
       if (!this.db) {
@@ -0,0 +1,309 @@
+import { EmailMessage, Attachment } from '@/types'
+import { MessageIdGenerator } from './message-id'
+import { HtmlToText } from './html-to-text'
+
+interface HeaderValue {
+  value: string
+  params: Record<string, string>
+}
+
+interface MimePart {
+  headers: Map<string, string>
+  body: string
+}
+
+interface ParsedContent {
+  text: string | null
+  html: string | null
+  attachments: Attachment[]
+}
+
+/**
+ * Parses raw RFC 5322 / MIME messages (.eml files) into EmailMessage.
+ * Handles multipart bodies, quoted-printable and base64 transfer encodings
+ * and RFC 2047 encoded-word headers.
+ */
+export class EmlParser {
+  static parse(raw: string): EmailMessage {
+    const root = this.parsePart(raw.replace(/\r\n?/g, '\n'))
+    if (root.headers.size === 0) {
+      throw new Error('Invalid email: no headers found')
+    }
+
+    const header = (name: string) => this.decodeEncodedWords(root.headers.get(name) || '')
+    const content = this.collectContent(root)
+    const body = (content.text ?? (content.html ? HtmlToText.convert(content.html) : '')).trim()
+    const from = header('from').trim()
+    const timestamp = this.parseDate(root.headers.get('date'))
+    const rfcMessageId = this.extractMessageIds(root.headers.get('message-id'))[0]
+
+    return {
+      id: MessageIdGenerator.generate({ rfcMessageId, from, timestamp, body }),
+      rfcMessageId,
+      subject: header('subject').trim(),
+      from,
+      to: this.splitAddressList(header('to')),
+      cc: this.splitAddressList(header('cc')),
+      bcc: this.splitAddressList(header('bcc')),
+      body,
+      htmlBody: content.html || undefined,
+      attachments: content.attachments,
+      timestamp: timestamp || new Date(),
+      threadId: this.deriveThreadId(root.headers, rfcMessageId),
+      isRead: true,
+      isImportant: this.isImportant(root.headers),
+      labels: this.splitLabels(header('x-gmail-labels'))
+    }
+  }
+
+  /**
+   * The thread is identified by its root message: the first entry of
+   * References, else In-Reply-To, else the message itself.
+   */
+  private static deriveThreadId(headers: Map<string, string>, rfcMessageId?: string): string | undefined {
+    const rootId = this.extractMessageIds(headers.get('references'))[0] ||
+      this.extractMessageIds(headers.get('in-reply-to'))[0] ||
+      rfcMessageId
+
+    return rootId ? MessageIdGenerator.generate({ rfcMessageId: rootId, from: '', body: '' }) : undefined
+  }
+
+  private static parsePart(raw: string): MimePart {
+    const separator = raw.indexOf('\n\n')
+    const headerBlock = separator === -1 ? raw : raw.slice(0, separator)
+    const body = separator === -1 ? '' : raw.slice(separator + 2)
+
+    return { headers: this.parseHeaders(headerBlock), body }
+  }
+
+  private static parseHeaders(block: string): Map<string, string> {
+    const headers = new Map<string, string>()
+    // Unfold continuation lines before splitting
+    const lines = block.replace(/\n[ \t]+/g, ' ').split('\n')
+
+    for (const line of lines) {
+      const colon = line.indexOf(':')
+      if (colon <= 0) continue
+
+      const name = line.slice(0, colon).trim().toLowerCase()
+      // Keep the first occurrence; later duplicates are usually trace headers
+      if (!headers.has(name)) {
+        headers.set(name, line.slice(colon + 1).trim())
+      }
+    }
+
+    return headers
+  }
+
+  private static parseHeaderValue(raw: string | undefined): HeaderValue {
+    // Semicolons inside quoted values, e.g. filename="a;b.pdf", don't separate parameters
+    const [value, ...rest] = (raw || '').match(/(?:[^;"]|"(?:[^"\\]|\\.)*")+/g) || ['']
+    const params: Record<string, string> = {}
+
+    for (const param of rest) {
+      const equals = param.indexOf('=')
+      if (equals === -1) continue
+
+      let name = param.slice(0, equals).trim().toLowerCase()
+      let paramValue = param.slice(equals + 1).trim()
+      const quoted = paramValue.match(/^"(.*)"$/)
+      if (quoted) {
+        paramValue = quoted[1].replace(/\\(.)/g, '$1')
+      }
+
+      // RFC 2231 extended values, e.g. filename*=utf-8''r%C3%A9sum%C3%A9.pdf
+      if (name.endsWith('*')) {
+        name = name.slice(0, -1)
+        const match = paramValue.match(/^([^']*)'[^']*'(.*)$/)
+        if (match) {
+          const bytes = this.percentDecode(match[2])
+          paramValue = this.decodeBytes(bytes, match[1] || 'utf-8')
+        }
+      }
+
+      params[name] = this.decodeEncodedWords(paramValue)
+    }
+
+    return { value: value.trim().toLowerCase(), params }
+  }
+
+  private static collectContent(part: MimePart): ParsedContent {
+    const contentType = this.parseHeaderValue(part.headers.get('content-type') || 'text/plain')
+    const disposition = this.parseHeaderValue(part.headers.get('content-disposition'))
+    const filename = disposition.params.filename || contentType.params.name
+
+    if (contentType.value.startsWith('multipart/') && contentType.params.boundary) {
+      const children = this.splitMultipart(part.body, contentType.params.boundary).map(child => this.collectContent(this.parsePart(child)))
+      return children.reduce<ParsedContent>((merged, child) => ({
+        text: merged.text ?? child.text,
+        html: merged.html ?? child.html,
+        attachments: [...merged.attachments, ...child.attachments]
+      }), { text: null, html: null, attachments: [] })
+    }
+
+    // Inline text/calendar parts are invites, not alternative bodies
+    const isCalendar = contentType.value === 'text/calendar'
+    const isAttachment = disposition.value === 'attachment' || Boolean(filename) || isCalendar ||
+      !contentType.value.startsWith('text/')
+    const bytes = this.decodeTransferEncoding(part.body, part.headers.get('content-transfer-encoding'))
+
+    if (isAttachment) {
+      const data = bytes ?? new TextEncoder().encode(part.body)
+      return {
+        text: null,
+        html: null,
+        attachments: [{
+          name: filename || (isCalendar ? 'invite.ics' : 'Untitled attachment'),
+          size: data.length,
+          type: contentType.value || 'application/octet-stream',
+          data
+        }]
+      }
+    }
+
+    // The charset only applies to bytes; an unencoded body was decoded when the file was read
+    const text = bytes ? this.decodeBytes(bytes, contentType.params.charset || 'utf-8') : part.body
+    return contentType.value === 'text/html'
+      ? { text: null, html: text, attachments: [] }
+      : { text, html: null, attachments: [] }
+  }
+
+  private static splitMultipart(body: string, boundary: string): string[] {
+    const delimiter = `--${boundary}`
+    const parts: string[] = []
+    let current: string[] | null = null
+
+    for (const line of body.split('\n')) {
+      if (line.startsWith(delimiter)) {
+        if (current) parts.push(current.join('\n'))
+        // The closing delimiter ends the multipart; the epilogue is ignored
+        if (line.startsWith(`${delimiter}--`)) return parts
+        current = []
+      } else if (current) {
+        current.push(line)
+      }
+    }
+
+    if (current) parts.push(current.join('\n'))
+    return parts
+  }
+
+  /** The body's bytes, or null for 7bit/8bit/binary bodies, which are already text */
+  private static decodeTransferEncoding(body: string, encoding: string | undefined): Uint8Array | null {
+    switch ((encoding || '').trim().toLowerCase()) {
+      case 'base64':
+        return this.decodeBase64(body)
+      case 'quoted-printable':
+        return this.decodeQuotedPrintable(body)
+      default:
+        return null
+    }
+  }
+
+  static decodeBase64(input: string): Uint8Array {
+    const binary = atob(input.replace(/[^A-Za-z0-9+/=]/g, ''))
+    const bytes = new Uint8Array(binary.length)
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i)
+    }
+    return bytes
+  }
+
+  static decodeQuotedPrintable(input: string): Uint8Array {
+    // Soft line breaks join lines; =XX escapes are raw bytes
+    const unfolded = input.replace(/=\n/g, '')
+    const bytes: number[] = []
+    const encoder = new TextEncoder()
+
+    for (let i = 0; i < unfolded.length; i++) {
+      const hex = unfolded.slice(i + 1, i + 3)
+      if (unfolded[i] === '=' && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+        bytes.push(parseInt(hex, 16))
+        i += 2
+      } else {
+        bytes.push(...encoder.encode(unfolded[i]))
+      }
+    }
+
+    return new Uint8Array(bytes)
+  }
+
+  /** Decodes RFC 2047 encoded words such as `=?UTF-8?B?SGVsbG8=?=` */
+  static decodeEncodedWords(value: string): string {
+    return value
+      // Whitespace between adjacent encoded words is not significant
+      .replace(/(\?=)\s+(=\?)/g, '$1$2')
+      .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_match, charset: string, encoding: string, text: string) => {
+        const bytes = encoding.toUpperCase() === 'B'
+          ? this.decodeBase64(text)
+          : this.decodeQuotedPrintable(text.replace(/_/g, ' '))
+        return this.decodeBytes(bytes, charset.replace(/\*.*$/, ''))
+      })
+  }
+
+  private static decodeBytes(bytes: Uint8Array, charset: string): string {
+    try {
+      return new TextDecoder(charset.trim().toLowerCase()).decode(bytes)
+    } catch {
+      // Unknown charset label
+      return new TextDecoder('utf-8').decode(bytes)
+    }
+  }
+
+  private static percentDecode(value: string): Uint8Array {
+    const bytes: number[] = []
+    for (let i = 0; i < value.length; i++) {
+      if (value[i] === '%' && /^[0-9A-Fa-f]{2}$/.test(value.slice(i + 1, i + 3))) {
+        bytes.push(parseInt(value.slice(i + 1, i + 3), 16))
+        i += 2
+      } else {
+        bytes.push(value.charCodeAt(i))
+      }
+    }
+    return new Uint8Array(bytes)
+  }
+
+  private static extractMessageIds(value: string | undefined): string[] {
+    return (value || '').match(/<[^<>\s]+>/g)?.map(id => id.slice(1, -1)) || []
+  }
+
+  private static splitAddressList(value: string): string[] {
+    const addresses: string[] = []
+    let current = ''
+    let inQuotes = false
+    let inAngle = false
+
+    for (const char of value) {
+      if (char === '"') inQuotes = !inQuotes
+      if (char === '<' && !inQuotes) inAngle = true
+      if (char === '>' && !inQuotes) inAngle = false
+
+      if (char === ',' && !inQuotes && !inAngle) {
+        addresses.push(current)
+        current = ''
+      } else {
+        current += char
+      }
+    }
+    addresses.push(current)
+
+    return addresses.map(address => address.trim()).filter(Boolean)
+  }
+
+  private static splitLabels(value: string): string[] {
+    return value.split(',').map(label => label.trim()).filter(Boolean)
+  }
+
+  private static parseDate(value: string | undefined): Date | null {
+    if (!value) return null
+    // Drop trailing comments such as "(UTC)"
+    const parsed = new Date(value.replace(/\([^)]*\)/g, '').trim())
+    return isNaN(parsed.getTime()) ? null : parsed
+  }
+
+  private static isImportant(headers: Map<string, string>): boolean {
+    const importance = (headers.get('importance') || '').toLowerCase()
+    const priority = headers.get('x-priority') || ''
+    return importance === 'high' || /^[12]\b/.test(priority)
+  }
+}
@@ -0,0 +1,177 @@
+import { ActionItem, AnalysisResult, ExtractedDate, Grounding, SourceSpan, SummarySentence } from '@/types'
+import { LanguagePacks } from './language-packs'
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'from', 'that', 'this', 'your', 'our', 'you', 'please', 'can', 'could', 'would', 'will',
+  'have', 'has', 'been', 'are', 'was', 'all', 'its', 'before', 'after', 'about', 'into', 'also', 'they', 'them'
+])
+
+const IRREGULAR_STEMS: Record<string, string> = { sent: 'send', done: 'do', paid: 'pay', made: 'make', wrote: 'write', written: 'write' }
+
+// Any wording a deadline could be stated in: relative days, weekdays, months, numeric dates and clock times.
+// Short forms need a period or a day number so "may", "sat" and "sun" as plain words don't count.
+const DATE_MENTION = new RegExp([
+  '\\b(?:today|tonight|tomorrow|yesterday|asap|eod|eow)\\b',
+  '\\b(?:next|this|coming)\\s+(?:week|month|quarter|year|[a-z]+day)\\b',
+  '\\bend of (?:the )?(?:day|week|month|quarter|year)\\b',
+  '\\b(?:monday|tuesday|wednesday|thursday|friday|saturday|sunday)\\b',
+  '\\b(?:january|february|march|april|june|july|august|september|october|november|december)\\b',
+  '\\b(?:may|jan|feb|mar|apr|jun|jul|aug|sept?|oct|nov|dec)\\.?\\s+\\d{1,2}\\b',
+  '\\b(?:mon|tue|wed|thu|fri|sat|sun)\\.',
+  '\\b\\d{1,2}[/.-]\\d{1,2}(?:[/.-]\\d{2,4})?\\b',
+  '\\b\\d{4}-\\d{2}-\\d{2}\\b',
+  '\\b\\d{1,2}(?::\\d{2})?\\s*(?:am|pm)\\b',
+  // The same in the other languages with a pack: "morgen", "viernes", "12 mars"
+  ...LanguagePacks.all().filter(pack => pack.code !== 'en').map(pack =>
+    `(?<![\\p{L}'])(?:${LanguagePacks.alternation([...pack.relativeDays, ...pack.weekdays, ...pack.months])})(?![\\p{L}])`)
+].join('|'), 'iu')
+
+// A period between a day number and a month, as in "12. März", doesn't end the sentence
+const MONTHS = LanguagePacks.alternation(LanguagePacks.all().flatMap(pack => pack.months))
+const SENTENCE = new RegExp(`(?:[^.!?\\n]|(?<=\\b\\d{1,2})\\.(?=\\s*(?:${MONTHS})(?![\\p{L}])))+[.!?]*`, 'giu')
+
+/**
+ * Ties extracted items back to the body they were extracted from. Each
+ * item is matched to the sentence that supports it, verbatim or by the
+ * words it shares; items with no support are dropped as invented, and
+ * weakly supported ones are kept but flagged. Offsets are into the body
+ * the analyzers saw, so callers can show or highlight the evidence.
+ */
+export class EvidenceGrounder {
+  private static readonly SUPPORTED = 0.6
+  private static readonly WEAK = 0.3
+
+  static sentences(body: string): SourceSpan[] {
+    return Array.from(body.matchAll(SENTENCE)).flatMap(match => {
+      const raw = match[0]
+      const text = raw.trim()
+      if (!text) return []
+      const start = match.index! + raw.indexOf(text)
+      return [{ start, end: start + text.length, text }]
+    })
+  }
+
+  /** Lowercased, lightly stemmed words that carry meaning, minus any in `exclude` */
+  static contentWords(text: string, exclude?: Set<string>): Set<string> {
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []
+    return new Set(
+      words.filter(word => word.length > 2 && !STOP_WORDS.has(word) && !exclude?.has(word)).map(word => this.stem(word))
+    )
+  }
+
+  static hasDateMention(text: string): boolean {
+    return DATE_MENTION.test(text)
+  }
+
+  /** Finds the sentence of `body` that best supports `text` */
+  static locate(body: string, text: string): Grounding {
+    const needle = text.trim().replace(/\s+/g, ' ')
+    const sentences = this.sentences(body)
+    if (!needle || sentences.length === 0) {
+      return { verified: false, note: 'Not found in the email' }
+    }
+
+    // Quotes may be wrapped differently from the body, so whitespace runs match any run
+    const collapsed = this.collapseWhitespace(body)
+    const index = collapsed.text.toLowerCase().indexOf(needle.toLowerCase())
+    if (index !== -1) {
+      const start = collapsed.offsets[index]
+      const end = collapsed.offsets[index + needle.length - 1] + 1
+      const first = sentences.find(sentence => sentence.end > start) || sentences[sentences.length - 1]
+      const last = sentences.find(sentence => sentence.end >= end) || sentences[sentences.length - 1]
+      return { span: { start: first.start, end: last.end, text: body.slice(first.start, last.end) }, verified: true }
+    }
+
+    const words = this.contentWords(needle)
+    let best: { span: SourceSpan; coverage: number } | null = null
+    for (const sentence of sentences) {
+      const coverage = this.coverage(words, this.contentWords(sentence.text))
+      if (!best || coverage > best.coverage) {
+        best = { span: sentence, coverage }
+      }
+    }
+
+    if (!best || best.coverage < this.WEAK) {
+      return { verified: false, note: 'Not found in the email' }
+    }
+    if (best.coverage < this.SUPPORTED) {
+      return { span: best.span, verified: false, note: 'Only partly supported by the email' }
+    }
+    return { span: best.span, verified: true }
+  }
+
+  /**
+   * Drops action items the body doesn't mention. A due date must be
+   * stated in the item's sentence or the one after it; otherwise it is
+   * removed and the item flagged.
+   */
+  static groundActionItems(body: string, items: ActionItem[]): ActionItem[] {
+    const sentences = this.sentences(body)
+
+    return items.flatMap(item => {
+      const grounding = this.locate(body, item.text)
+      if (!grounding.span) return []
+
+      if (item.dueDate) {
+        const following = sentences.find(sentence => sentence.start >= grounding.span!.end)
+        if (!this.hasDateMention(`${grounding.span.text} ${following?.text || ''}`)) {
+          const { dueDate: _dueDate, ...undated } = item
+          return [{ ...undated, grounding: { span: grounding.span, verified: false, note: 'Due date not found in the email' } }]
+        }
+      }
+
+      return [{ ...item, grounding }]
+    })
+  }
+
+  /** Keeps dates whose wording is in the body, in a sentence that mentions a date */
+  static groundDates(body: string, dates: ExtractedDate[]): ExtractedDate[] {
+    return dates.flatMap(date => {
+      const grounding = this.locate(body, date.text)
+      if (!grounding.span || !this.hasDateMention(grounding.span.text)) return []
+      return [{ ...date, grounding }]
+    })
+  }
+
+  /** Summaries may paraphrase, so unsupported sentences are flagged rather than dropped */
+  static groundSummary(body: string, summary: string): SummarySentence[] {
+    return this.sentences(summary).map(sentence => ({ sentence: sentence.text, ...this.locate(body, sentence.text) }))
+  }
+
+  /** Grounds every extracted field of an analysis that didn't come through the pipeline */
+  static groundAnalysis(body: string, analysis: AnalysisResult): AnalysisResult {
+    return {
+      ...analysis,
+      actionItems: this.groundActionItems(body, analysis.actionItems),
+      extractedDates: this.groundDates(body, analysis.extractedDates),
+      summaryGrounding: analysis.summary ? this.groundSummary(body, analysis.summary) : undefined
+    }
+  }
+
+  /** The text with each whitespace run as one space, and where each of its characters came from */
+  private static collapseWhitespace(text: string): { text: string; offsets: number[] } {
+    let collapsed = ''
+    const offsets: number[] = []
+    for (const match of text.matchAll(/\s+|\S+/g)) {
+      const whitespace = /^\s/.test(match[0])
+      collapsed += whitespace ? ' ' : match[0]
+      for (let i = 0; i < (whitespace ? 1 : match[0].length); i++) {
+        offsets.push(match.index! + i)
+      }
+    }
+    return { text: collapsed, offsets }
+  }
+
+  private static coverage(words: Set<string>, candidate: Set<string>): number {
+    if (words.size === 0) return 0
+    return Array.from(words).filter(word => candidate.has(word)).length / words.size
+  }
+
+  // Just enough stemming for "sent the report" to match "send the reports"
+  private static stem(word: string): string {
+    if (IRREGULAR_STEMS[word]) return IRREGULAR_STEMS[word]
+    const stripped = word.replace(/(ing|ed|es|s)$/, '')
+    if (stripped.length < 3) return word
+    return stripped.replace(/([^aeiou])\1$/, '$1').replace(/e$/, '')
+  }
+}
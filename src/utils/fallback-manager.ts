@@ -1,4 +1,10 @@
-import { EmailMessage, AnalysisResult, ActionItem, ExtractedDate, SuggestedReply, GrammarIssue } from '@/types'
+import { EmailMessage, AnalysisResult, ActionItem, ExtractedDate, SuggestedReply, GrammarIssue, InboxRow, InboxTriage } from '@/types'
+import { BodySegmenter } from './body-segmenter'
+import { messageFromInboxRow } from './mail-clients/adapter'
+import { LanguageDetector } from './language-detector'
+import { LanguagePack, LanguagePacks } from './language-packs'
+import { GrammarChecker } from './grammar-checker'
+import { GrammarService } from './language-tool'
 
 export interface FallbackOptions {
   enableHeuristics: boolean
@@ -10,6 +16,7 @@ export interface FallbackOptions {
 export class FallbackManager {
   private static instance: FallbackManager
   private options: FallbackOptions
+  private grammarService: GrammarService | null = null
 
   private constructor() {
     this.options = {
@@ -30,17 +37,22 @@ export class FallbackManager {
   async analyzeEmailWithFallback(message: EmailMessage): Promise<AnalysisResult> {
     try {
       console.log('ReplySage: Using fallback analysis methods')
+
+      // Analyze the structured text of the new content (lists, tables, links kept)
+      message = BodySegmenter.applyTo(message)
+      const { language } = LanguageDetector.detect(`${message.subject}\n${message.body}`)
       
       const analysis: AnalysisResult = {
         messageId: message.id,
-        summary: await this.generateFallbackSummary(message),
-        actionItems: this.extractActionItemsWithHeuristics(message),
-        suggestedReplies: this.generateFallbackReplies(message),
-        grammarIssues: await this.checkGrammarWithFallback(message),
-        sentiment: this.analyzeSentimentWithHeuristics(message),
-        priority: this.determinePriorityWithHeuristics(message),
-        categories: this.categorizeWithHeuristics(message),
-        extractedDates: this.extractDatesWithHeuristics(message),
+        summary: await this.generateFallbackSummary(message, language),
+        actionItems: this.extractActionItemsWithHeuristics(message, language),
+        suggestedReplies: this.generateFallbackReplies(message, language),
+        grammarIssues: await this.checkGrammarWithFallback(message, language),
+        sentiment: this.analyzeSentimentWithHeuristics(message, language),
+        priority: this.determinePriorityWithHeuristics(message, language),
+        categories: this.categorizeWithHeuristics(message, language),
+        extractedDates: this.extractDatesWithHeuristics(message, language),
+        language,
         createdAt: new Date(),
         modelUsed: 'local'
       }
@@ -52,7 +64,27 @@ export class FallbackManager {
     }
   }
 
-  private async generateFallbackSummary(message: EmailMessage): Promise<string> {
+  /**
+   * Keyword triage of an inbox row, where only the sender, subject and
+   * snippet are visible. Runs the same heuristics as the full fallback.
+   */
+  triageRow(row: InboxRow): InboxTriage {
+    const message = messageFromInboxRow(row)
+    const { language } = LanguageDetector.detect(`${row.subject}\n${row.snippet}`)
+    const categories = this.categorizeWithHeuristics(message, language)
+
+    return {
+      threadId: row.threadId,
+      fingerprint: row.fingerprint,
+      priority: this.determinePriorityWithHeuristics(message, language),
+      categories,
+      hasDeadline: categories.includes('deadline') ||
+        this.extractDatesWithHeuristics(message, language).some(date => date.type === 'deadline'),
+      triagedAt: new Date()
+    }
+  }
+
+  async generateFallbackSummary(message: EmailMessage, language = 'en'): Promise<string> {
     if (!this.options.enableBasicSummarization) {
       return `Email from ${message.from} about "${message.subject}"`
     }
@@ -67,7 +99,7 @@ export class FallbackManager {
 
       // Score sentences based on keywords and position
       const scoredSentences = sentences.map((sentence, index) => {
-        const score = this.scoreSentence(sentence, index, sentences.length)
+        const score = this.scoreSentence(sentence, index, sentences.length, LanguagePacks.get(language))
         return { sentence: sentence.trim(), score }
       })
 
@@ -84,7 +116,7 @@ export class FallbackManager {
     }
   }
 
-  private scoreSentence(sentence: string, index: number, totalSentences: number): number {
+  private scoreSentence(sentence: string, index: number, totalSentences: number, pack: LanguagePack): number {
     let score = 0
     
     // Position score (first and last sentences are more important)
@@ -96,14 +128,8 @@ export class FallbackManager {
     if (length > 20 && length < 100) score += 1
     
     // Keyword score
-    const keywords = [
-      'meeting', 'deadline', 'urgent', 'important', 'project', 'budget',
-      'schedule', 'review', 'action', 'task', 'follow', 'next', 'please',
-      'need', 'must', 'should', 'will', 'can', 'would'
-    ]
-    
     const lowerSentence = sentence.toLowerCase()
-    keywords.forEach(keyword => {
+    pack.summaryKeywords.forEach(keyword => {
       if (lowerSentence.includes(keyword)) {
         score += 1
       }
@@ -115,21 +141,27 @@ export class FallbackManager {
     return score
   }
 
-  private extractActionItemsWithHeuristics(message: EmailMessage): ActionItem[] {
+  extractActionItemsWithHeuristics(message: EmailMessage, language = 'en'): ActionItem[] {
     if (!this.options.enableHeuristics) {
       return []
     }
 
     const actionItems: ActionItem[] = []
     const lines = message.body.split('\n')
+    const pack = LanguagePacks.get(language)
+    const request = pack.requestPhrases.join('|')
+    const label = pack.taskLabels.join('|')
+    const deadline = pack.deadlinePhrases.join('|')
+    // In "bis 12. März" the period after the day doesn't end the date
+    const dueText = pack.dayFirst ? '((?:\\d{1,2}\\.|[^.!?])+)' : '([^.!?]+)'
     
     // Common action item patterns
     const patterns = [
-      { regex: /(?:please|need to|must|should|have to)\s+(.+?)(?:by|before|until|due)\s+([^.!?]+)/gi, hasDeadline: true },
-      { regex: /(?:action|task|todo|follow.?up|next steps?):\s*(.+?)(?:by|before|until|due)\s+([^.!?]+)/gi, hasDeadline: true },
-      { regex: /(?:deadline|due date):\s*([^.!?]+)/gi, hasDeadline: true },
-      { regex: /(?:please|need to|must|should|have to)\s+(.+?)(?:\.|!|\?)/gi, hasDeadline: false },
-      { regex: /(?:action|task|todo|follow.?up|next steps?):\s*(.+?)(?:\.|!|\?)/gi, hasDeadline: false }
+      { regex: new RegExp(`(?:${request})\\s+(.+?)(?:${deadline})\\s+${dueText}`, 'gi'), hasDeadline: true },
+      { regex: new RegExp(`(?:${label}):\\s*(.+?)(?:${deadline})\\s+${dueText}`, 'gi'), hasDeadline: true },
+      { regex: new RegExp(`(?:${pack.deadlineLabels.join('|')}):\\s*${dueText}`, 'gi'), hasDeadline: true },
+      { regex: new RegExp(`(?:${request})\\s+(.+?)(?:\\.|!|\\?)`, 'gi'), hasDeadline: false },
+      { regex: new RegExp(`(?:${label}):\\s*(.+?)(?:\\.|!|\\?)`, 'gi'), hasDeadline: false }
     ]
 
     lines.forEach((line, _lineIndex) => {
@@ -142,9 +174,9 @@ export class FallbackManager {
           if (text && text.length > 5) {
             actionItems.push({
               text,
-              dueDate: dueDate ? this.parseDate(dueDate) : undefined,
-              priority: this.determineActionPriority(text),
-              category: this.categorizeActionItem(text),
+              dueDate: dueDate ? this.parseDate(dueDate, pack) : undefined,
+              priority: this.determineActionPriority(text, pack),
+              category: this.categorizeActionItem(text, pack),
               isCompleted: false
             })
           }
@@ -155,11 +187,20 @@ export class FallbackManager {
     return actionItems
   }
 
-  private generateFallbackReplies(message: EmailMessage): SuggestedReply[] {
+  generateFallbackReplies(message: EmailMessage, language = 'en'): SuggestedReply[] {
     if (!this.options.enableRuleBasedReplies) {
       return []
     }
 
+    // Topic-specific templates only exist in English
+    const pack = LanguagePacks.get(language)
+    if (pack.code !== 'en') {
+      return [
+        { text: pack.replies.formal, tone: 'formal', length: 'short', confidence: 0.7 },
+        { text: pack.replies.casual, tone: 'casual', length: 'short', confidence: 0.8 }
+      ]
+    }
+
     const replies: SuggestedReply[] = []
     const subject = message.subject.toLowerCase()
     const body = message.body.toLowerCase()
@@ -213,13 +254,13 @@ export class FallbackManager {
     } else {
       replies.push(
         {
-          text: "Thank you for your message. I'll review this and get back to you soon.",
+          text: pack.replies.formal,
           tone: 'formal',
           length: 'short',
           confidence: 0.7
         },
         {
-          text: "Thanks for reaching out! I'll get back to you soon.",
+          text: pack.replies.casual,
           tone: 'casual',
           length: 'short',
           confidence: 0.8
@@ -230,116 +271,90 @@ export class FallbackManager {
     return replies
   }
 
-  private async checkGrammarWithFallback(message: EmailMessage): Promise<GrammarIssue[]> {
-    if (!this.options.enableLanguageTool) {
-      return this.checkGrammarWithHeuristics(message.body)
+  /** Sets the LanguageTool server to check grammar with; without one only the built-in rules run */
+  setGrammarService(service: GrammarService | null): void {
+    this.grammarService = service
+  }
+
+  hasGrammarService(): boolean {
+    return this.options.enableLanguageTool && this.grammarService !== null
+  }
+
+  async checkGrammarWithFallback(message: EmailMessage, language = 'en'): Promise<GrammarIssue[]> {
+    if (!this.hasGrammarService()) {
+      return this.checkGrammarWithRules(message, language)
     }
 
     try {
-      // Try to use LanguageTool API if available
-      return await this.checkGrammarWithLanguageTool(message.body)
+      return await this.checkGrammarWithLanguageTool(message, language)
     } catch (error) {
-      console.error('ReplySage: LanguageTool check failed, using heuristics:', error)
-      return this.checkGrammarWithHeuristics(message.body)
+      console.error('ReplySage: LanguageTool check failed, using built-in rules:', error)
+      return this.checkGrammarWithRules(message, language)
     }
   }
 
-  private checkGrammarWithHeuristics(text: string): GrammarIssue[] {
-    const issues: GrammarIssue[] = []
-    
-    // Simple grammar checks
-    const checks = [
-      { pattern: /\bi\b/g, suggestion: 'I', severity: 'error' as const },
-      { pattern: /\bcan't\b/g, suggestion: 'cannot', severity: 'info' as const },
-      { pattern: /\bwon't\b/g, suggestion: 'will not', severity: 'info' as const },
-      { pattern: /\bdon't\b/g, suggestion: 'do not', severity: 'info' as const },
-      { pattern: /\b  +/g, suggestion: ' ', severity: 'warning' as const },
-      { pattern: /([.!?])\s*([a-z])/g, suggestion: '$1 $2', severity: 'warning' as const }
-    ]
-
-    checks.forEach(check => {
-      const matches = text.matchAll(check.pattern)
-      for (const match of matches) {
-        issues.push({
-          text: match[0],
-          suggestion: match[0].replace(check.pattern, check.suggestion),
-          severity: check.severity,
-          position: {
-            start: match.index || 0,
-            end: (match.index || 0) + match[0].length
-          }
-        })
-      }
-    })
-
-    return issues
+  checkGrammarWithRules(message: EmailMessage, language = 'en'): GrammarIssue[] {
+    // The built-in rules are English ones
+    if (language !== 'en') {
+      return []
+    }
+    return GrammarChecker.check(message.body)
   }
 
-  private async checkGrammarWithLanguageTool(_text: string): Promise<GrammarIssue[]> {
-    // This would integrate with LanguageTool API
-    // For now, return empty array as we don't have API access
-    return []
+  async checkGrammarWithLanguageTool(message: EmailMessage, language = 'en'): Promise<GrammarIssue[]> {
+    if (!this.hasGrammarService()) {
+      throw new Error('No LanguageTool server configured')
+    }
+    return this.grammarService!.check(message.body, language)
   }
 
-  private analyzeSentimentWithHeuristics(message: EmailMessage): 'positive' | 'negative' | 'neutral' {
+  analyzeSentimentWithHeuristics(message: EmailMessage, language = 'en'): 'positive' | 'negative' | 'neutral' {
     const text = (message.subject + ' ' + message.body).toLowerCase()
+    const pack = LanguagePacks.get(language)
     
-    const positiveWords = ['thank', 'great', 'excellent', 'good', 'happy', 'pleased', 'appreciate', 'wonderful', 'amazing']
-    const negativeWords = ['urgent', 'problem', 'issue', 'error', 'failed', 'bad', 'terrible', 'disappointed', 'concerned']
-    
-    const positiveCount = positiveWords.filter(word => text.includes(word)).length
-    const negativeCount = negativeWords.filter(word => text.includes(word)).length
+    const positiveCount = pack.positiveWords.filter(word => text.includes(word)).length
+    const negativeCount = pack.negativeWords.filter(word => text.includes(word)).length
     
     if (positiveCount > negativeCount) return 'positive'
     if (negativeCount > positiveCount) return 'negative'
     return 'neutral'
   }
 
-  private determinePriorityWithHeuristics(message: EmailMessage): 'high' | 'medium' | 'low' {
+  private determinePriorityWithHeuristics(message: EmailMessage, language = 'en'): 'high' | 'medium' | 'low' {
     const subject = message.subject.toLowerCase()
     const body = message.body.toLowerCase()
-    
-    const highPriorityWords = ['urgent', 'asap', 'immediately', 'critical', 'emergency']
-    const mediumPriorityWords = ['important', 'deadline', 'priority', 'soon']
+    const { priorityWords } = LanguagePacks.get(language)
     
     const text = subject + ' ' + body
     
-    if (highPriorityWords.some(word => text.includes(word))) {
+    if (priorityWords.high.some(word => text.includes(word))) {
       return 'high'
     }
-    if (mediumPriorityWords.some(word => text.includes(word))) {
+    if (priorityWords.medium.some(word => text.includes(word))) {
       return 'medium'
     }
     
     return 'low'
   }
 
-  private categorizeWithHeuristics(message: EmailMessage): string[] {
-    const categories: string[] = []
+  categorizeWithHeuristics(message: EmailMessage, language = 'en'): string[] {
     const subject = message.subject.toLowerCase()
     const body = message.body.toLowerCase()
     const text = subject + ' ' + body
     
-    if (text.includes('meeting') || text.includes('schedule')) {
-      categories.push('meeting')
-    }
-    if (text.includes('deadline') || text.includes('due')) {
-      categories.push('deadline')
-    }
-    if (text.includes('project') || text.includes('task')) {
-      categories.push('project')
-    }
-    if (text.includes('budget') || text.includes('cost')) {
-      categories.push('budget')
-    }
-    if (text.includes('thank') || text.includes('appreciate')) {
-      categories.push('appreciation')
-    }
+    const categories = Object.entries(LanguagePacks.get(language).emailCategories)
+      .filter(([, keywords]) => keywords.some(keyword => text.includes(keyword)))
+      .map(([category]) => category)
     
     return categories.length > 0 ? categories : ['general']
   }
 
-  private extractDatesWithHeuristics(message: EmailMessage): ExtractedDate[] {
+  extractDatesWithHeuristics(message: EmailMessage, language = 'en'): ExtractedDate[] {
+    const pack = LanguagePacks.get(language)
+    if (pack.code !== 'en') {
+      return LanguagePacks.findDates(message.body, pack)
+    }
+
     const dates: ExtractedDate[] = []
     const text = message.body
     
@@ -370,38 +385,29 @@ export class FallbackManager {
     return dates
   }
 
-  private determineActionPriority(text: string): 'high' | 'medium' | 'low' {
+  private determineActionPriority(text: string, pack: LanguagePack): 'high' | 'medium' | 'low' {
     const lowerText = text.toLowerCase()
     
-    if (lowerText.includes('urgent') || lowerText.includes('asap') || lowerText.includes('immediately')) {
+    if (pack.actionPriorityWords.high.some(word => lowerText.includes(word))) {
       return 'high'
     }
-    if (lowerText.includes('important') || lowerText.includes('priority')) {
+    if (pack.actionPriorityWords.medium.some(word => lowerText.includes(word))) {
       return 'medium'
     }
     return 'low'
   }
 
-  private categorizeActionItem(text: string): string {
+  private categorizeActionItem(text: string, pack: LanguagePack): string {
     const lowerText = text.toLowerCase()
-    
-    if (lowerText.includes('review') || lowerText.includes('check')) {
-      return 'review'
-    }
-    if (lowerText.includes('meeting') || lowerText.includes('schedule')) {
-      return 'scheduling'
-    }
-    if (lowerText.includes('send') || lowerText.includes('email')) {
-      return 'communication'
-    }
-    if (lowerText.includes('deadline') || lowerText.includes('due')) {
-      return 'deadline'
-    }
-    
-    return 'general'
+    const match = Object.entries(pack.actionCategories).find(([, keywords]) => keywords.some(keyword => lowerText.includes(keyword)))
+    return match ? match[0] : 'general'
   }
 
-  private parseDate(dateString: string): Date | undefined {
+  private parseDate(dateString: string, pack: LanguagePack): Date | undefined {
+    if (pack.code !== 'en') {
+      return LanguagePacks.findDates(dateString, pack)[0]?.date
+    }
+
     try {
       const date = new Date(dateString)
       return isNaN(date.getTime()) ? undefined : date
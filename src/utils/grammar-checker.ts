@@ -0,0 +1,220 @@
+import { GrammarIssue } from '@/types'
+
+interface GrammarRule {
+  id: string
+  severity: GrammarIssue['severity']
+  pattern: RegExp
+  /** The replacement, or advice where no rewrite can be derived; null lets the match pass */
+  suggest: (match: RegExpMatchArray) => string | null
+}
+
+// Doubled words that are grammatical ("that that", "had had")
+const ALLOWED_REPEATS = new Set(['had', 'that', 'is', 'do', 'bye', 'very', 'no', 'ha'])
+
+// Wrong verb forms after each subject, with the right one. "Were" is
+// left alone after singular subjects for "if I were".
+const AGREEMENT: { subjects: string[]; verbs: Record<string, string> }[] = [
+  { subjects: ['i'], verbs: { is: 'am', are: 'am', has: 'have', does: 'do', "doesn't": "don't" } },
+  { subjects: ['he', 'she', 'it'], verbs: { are: 'is', am: 'is', have: 'has', do: 'does', "don't": "doesn't" } },
+  { subjects: ['you', 'we', 'they'], verbs: { is: 'are', am: 'are', was: 'were', has: 'have', does: 'do', "doesn't": "don't" } }
+]
+
+// After these the verb stays in its base form: "does he have", "let it do"
+const BASE_FORM_BEFORE = ['do', 'does', 'did', 'will', 'would', 'can', 'could', 'shall', 'should', 'may', 'might', 'must', 'to', 'let', 'make', 'help', 'see', 'watch', 'hear']
+
+const CONFUSIONS: { pattern: string; replacement: string }[] = [
+  { pattern: '(could|would|should|must|might) of', replacement: '$1 have' },
+  { pattern: 'alot', replacement: 'a lot' },
+  { pattern: 'your welcome', replacement: "you're welcome" },
+  { pattern: "it's own", replacement: 'its own' },
+  { pattern: 'its (a|an|been|not|going)', replacement: "it's $1" },
+  { pattern: '(more|less|better|worse|rather|other|greater|fewer|higher|lower|larger|smaller|sooner|later) then', replacement: '$1 than' },
+  { pattern: 'their (is|are|was|were)', replacement: 'there $1' },
+  { pattern: "(there|they're) own", replacement: 'their own' },
+  { pattern: '(an|the) affect', replacement: '$1 effect' },
+  { pattern: 'irregardless', replacement: 'regardless' },
+  { pattern: 'per say', replacement: 'per se' },
+  { pattern: 'for all intensive purposes', replacement: 'for all intents and purposes' }
+]
+
+const WORDY_PHRASES: Record<string, string> = {
+  'in order to': 'to',
+  'due to the fact that': 'because',
+  'in spite of the fact that': 'although',
+  'at this point in time': 'now',
+  'at the present time': 'now',
+  'in the event that': 'if',
+  'for the purpose of': 'for',
+  'a large number of': 'many',
+  'with regard to': 'about',
+  'in regards to': 'regarding',
+  'each and every': 'every',
+  'first and foremost': 'first',
+  'has the ability to': 'can',
+  'is able to': 'can',
+  'in close proximity to': 'near',
+  'until such time as': 'until',
+  'please do not hesitate to': 'please'
+}
+
+// Words ending in -ed after "to be" that describe a state ("I am interested") or aren't participles
+const NOT_PASSIVE = [
+  'indeed', 'interested', 'tired', 'excited', 'pleased', 'concerned', 'located', 'based', 'supposed', 'used',
+  'married', 'involved', 'scheduled', 'finished', 'closed', 'confused',
+  'delighted', 'disappointed', 'surprised', 'worried', 'prepared', 'required', 'allowed', 'expected'
+]
+
+const IRREGULAR_PARTICIPLES = [
+  'known', 'made', 'given', 'taken', 'seen', 'written', 'sent', 'shown', 'told', 'found', 'held',
+  'kept', 'paid', 'sold', 'built', 'chosen', 'forgotten', 'spoken', 'broken', 'driven', 'hidden',
+  'stolen', 'thrown', 'brought', 'bought', 'caught', 'taught'
+]
+
+// Words before a period that don't end a sentence
+const ABBREVIATIONS = new Set(['e.g', 'i.e', 'etc', 'vs', 'approx', 'incl', 'no', 'mr', 'mrs', 'ms', 'dr', 'st', 'fig', 'cf'])
+
+// Words after "an" that start with a vowel sound despite their first letter
+const AN_EXCEPTIONS = /^(hour|honest|honou?r|heir|herb)/i
+
+const SEVERITY_RANK: Record<GrammarIssue['severity'], number> = { error: 0, warning: 1, info: 2 }
+
+/**
+ * Offline grammar and style checks for English email: repeated words,
+ * subject-verb and article agreement, commonly confused words,
+ * punctuation spacing, passive voice and wordy phrases. Positions are
+ * offsets into the checked text; URLs and email addresses are left alone,
+ * and where rules overlap the most severe issue is kept.
+ */
+export class GrammarChecker {
+  private static readonly RULES: GrammarRule[] = [
+    {
+      id: 'repeated-word',
+      severity: 'error',
+      pattern: /\b([\p{L}']+)\s+\1\b/giu,
+      suggest: match => ALLOWED_REPEATS.has(match[1].toLowerCase()) ? null : match[1]
+    },
+    ...AGREEMENT.map(({ subjects, verbs }): GrammarRule => ({
+      id: 'subject-verb-agreement',
+      severity: 'error',
+      pattern: new RegExp(`(?<!\\b(?:${BASE_FORM_BEFORE.join('|')})\\s+)\\b(${subjects.join('|')})\\s+(${Object.keys(verbs).join('|')})\\b(?!')`, 'gi'),
+      suggest: match => `${match[1]} ${GrammarChecker.matchCase(match[2], verbs[match[2].toLowerCase()])}`
+    })),
+    {
+      id: 'article-a',
+      severity: 'error',
+      // "u" is left out: "a user", "a unit"
+      pattern: /\b(a)\s+((?!one\b|once\b|eu)[aeio][a-z]*)\b/gi,
+      suggest: match => `${GrammarChecker.matchCase(match[1], 'an')} ${match[2]}`
+    },
+    {
+      id: 'article-an',
+      severity: 'error',
+      // Only lowercase words: "an FAQ" is read letter by letter; "x" is read "ex"
+      pattern: /\b([Aa]n)\s+([b-df-hj-np-tv-wyz][a-z]*)\b/g,
+      suggest: match => AN_EXCEPTIONS.test(match[2]) ? null : `${GrammarChecker.matchCase(match[1], 'a')} ${match[2]}`
+    },
+    {
+      id: 'lowercase-i',
+      severity: 'error',
+      pattern: /(?<![\p{L}\p{N}_'.-])i(?![\p{L}\p{N}_.)-])/gu,
+      suggest: () => 'I'
+    },
+    ...CONFUSIONS.map(({ pattern, replacement }): GrammarRule => ({
+      id: 'confused-words',
+      severity: 'error',
+      pattern: new RegExp(`\\b${pattern}\\b`, 'gi'),
+      suggest: match => GrammarChecker.matchCase(match[0], match[0].replace(new RegExp(pattern, 'i'), replacement))
+    })),
+    {
+      id: 'space-before-punctuation',
+      severity: 'warning',
+      // A period or colon with text right after it may be ".NET" or ":)"
+      pattern: /(?<=[\p{L}\p{N})])[ \t]+(?:([,;!?])|([.:])(?![\p{L}\p{N}.):(]))/gu,
+      suggest: match => match[1] || match[2]
+    },
+    {
+      id: 'space-after-punctuation',
+      severity: 'warning',
+      pattern: /(?<=\p{Ll})([,;!?])(?=\p{L})|(?<=\p{Ll}{2})(\.)(?=\p{Lu}\p{Ll})/gu,
+      suggest: match => `${match[1] || match[2]} `
+    },
+    {
+      id: 'repeated-punctuation',
+      severity: 'info',
+      pattern: /([,;!?])\1+/g,
+      suggest: match => match[1]
+    },
+    {
+      id: 'extra-spaces',
+      severity: 'warning',
+      pattern: /(?<=\S) {2,}(?=\S)/g,
+      suggest: () => ' '
+    },
+    {
+      id: 'sentence-capitalization',
+      severity: 'warning',
+      pattern: /(?<=(?:^|[\s(])([\p{L}.]+))([.!?])(\s+)(\p{Ll})/gu,
+      // Abbreviations, "a.m." and ellipses don't end the sentence
+      suggest: match => ABBREVIATIONS.has(match[1].toLowerCase()) || /^\p{L}\.\p{L}$/u.test(match[1]) || match[1].endsWith('.')
+        ? null
+        : `${match[2]}${match[3]}${match[4].toUpperCase()}`
+    },
+    {
+      id: 'passive-voice',
+      severity: 'info',
+      pattern: new RegExp(`\\b(?:am|is|are|was|were|be|been|being)\\s+(?:\\w+ly\\s+)?(\\w{2,}ed|${IRREGULAR_PARTICIPLES.join('|')})\\b`, 'gi'),
+      suggest: match => NOT_PASSIVE.includes(match[1].toLowerCase()) ? null : 'Passive voice: consider saying who does it'
+    },
+    {
+      id: 'wordiness',
+      severity: 'info',
+      pattern: new RegExp(`\\b(?:${Object.keys(WORDY_PHRASES).join('|')})\\b`, 'gi'),
+      suggest: match => GrammarChecker.matchCase(match[0], WORDY_PHRASES[match[0].toLowerCase()])
+    }
+  ]
+
+  static check(text: string): GrammarIssue[] {
+    const ignored = this.ignoredRanges(text)
+    const issues: GrammarIssue[] = []
+
+    for (const rule of this.RULES) {
+      for (const match of text.matchAll(rule.pattern)) {
+        const suggestion = rule.suggest(match)
+        if (suggestion === null) continue
+
+        const start = match.index!
+        const end = start + match[0].length
+        if (ignored.some(range => start < range.end && end > range.start)) continue
+
+        issues.push({ text: match[0], suggestion, severity: rule.severity, position: { start, end } })
+      }
+    }
+
+    return this.dropOverlaps(issues)
+  }
+
+  /** URLs and email addresses, whose dots and doubled characters aren't prose */
+  private static ignoredRanges(text: string): { start: number; end: number }[] {
+    return Array.from(text.matchAll(/\b(?:https?:\/\/|www\.)\S+|[\w.+-]+@[\w-]+(?:\.[\w-]+)+/gi), match => ({
+      start: match.index!,
+      end: match.index! + match[0].length
+    }))
+  }
+
+  private static dropOverlaps(issues: GrammarIssue[]): GrammarIssue[] {
+    const kept: GrammarIssue[] = []
+    const ranked = [...issues].sort((a, b) =>
+      SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity] || a.position.start - b.position.start)
+
+    for (const issue of ranked) {
+      const overlaps = kept.some(other => issue.position.start < other.position.end && issue.position.end > other.position.start)
+      if (!overlaps) kept.push(issue)
+    }
+    return kept.sort((a, b) => a.position.start - b.position.start)
+  }
+
+  /** The replacement, capitalized like the text it replaces */
+  private static matchCase(original: string, replacement: string): string {
+    return /^\p{Lu}/u.test(original) ? replacement.charAt(0).toUpperCase() + replacement.slice(1) : replacement
+  }
+}
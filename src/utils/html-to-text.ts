@@ -0,0 +1,358 @@
+/**
+ * Converts email HTML into markdown-like plain text that keeps the
+ * structure analyzers need: headings, bullet and numbered lists, table
+ * rows, quotes and link targets. Uses a tag tokenizer rather than the DOM
+ * so it also runs in the background service worker.
+ */
+export class HtmlToText {
+  private static readonly TOKEN_PATTERN = /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<!DOCTYPE[^>]*>|<(\/?)([a-zA-Z][a-zA-Z0-9]*)((?:\s+[^\s=>/]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*)\s*(\/?)>|[^<]+|</g
+
+  private static readonly BLOCK_TAGS = new Set([
+    'p', 'div', 'section', 'article', 'header', 'footer', 'main', 'aside', 'nav',
+    'address', 'figure', 'figcaption', 'form', 'fieldset', 'center', 'dl', 'dt', 'dd'
+  ])
+
+  private static readonly SKIP_TAGS = new Set(['script', 'style', 'head', 'title', 'noscript', 'template'])
+
+  private static readonly NAMED_ENTITIES: Record<string, string> = {
+    nbsp: ' ', amp: '&', lt: '<', gt: '>', quot: '"', apos: "'",
+    ndash: '–', mdash: '—', hellip: '…', bull: '•', middot: '·',
+    lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”',
+    copy: '©', reg: '®', trade: '™', euro: '€', pound: '£', yen: '¥', cent: '¢',
+    times: '×', divide: '÷', deg: '°', zwnj: '', zwj: '', shy: ''
+  }
+
+  static convert(html: string): string {
+    const writer = new StructuredTextWriter()
+    let skipDepth = 0
+    let preDepth = 0
+
+    for (const match of html.matchAll(this.TOKEN_PATTERN)) {
+      const [token, closing, rawTag, attributes] = match
+
+      if (!rawTag) {
+        if (token.startsWith('<!')) continue
+        if (skipDepth === 0) {
+          writer.text(this.decodeEntities(token), preDepth > 0)
+        }
+        continue
+      }
+
+      const tag = rawTag.toLowerCase()
+      if (this.SKIP_TAGS.has(tag)) {
+        skipDepth = Math.max(0, skipDepth + (closing ? -1 : 1))
+        continue
+      }
+      if (skipDepth > 0) continue
+
+      if (closing) {
+        this.closeTag(writer, tag)
+        if (tag === 'pre') preDepth = Math.max(0, preDepth - 1)
+      } else {
+        if (tag === 'pre') preDepth++
+        this.openTag(writer, tag, attributes || '')
+      }
+    }
+
+    return writer.toString()
+  }
+
+  private static openTag(writer: StructuredTextWriter, tag: string, attributes: string): void {
+    if (this.BLOCK_TAGS.has(tag) || tag === 'pre') {
+      writer.breakLine(tag === 'p' ? 2 : 1)
+      return
+    }
+
+    const heading = tag.match(/^h([1-6])$/)
+    if (heading) {
+      writer.breakLine(2)
+      writer.text(`${'#'.repeat(parseInt(heading[1]))} `, true)
+      return
+    }
+
+    switch (tag) {
+      case 'br':
+        writer.breakLine(1, true)
+        break
+      case 'hr':
+        writer.breakLine(2)
+        writer.text('---', true)
+        writer.breakLine(2)
+        break
+      case 'blockquote':
+        writer.breakLine(2)
+        writer.quoteDepth++
+        break
+      case 'ul':
+      case 'ol':
+        writer.breakLine(writer.listDepth === 0 ? 2 : 1)
+        writer.openList(tag === 'ol', parseInt(this.getAttribute(attributes, 'start') || '1'))
+        break
+      case 'li':
+        writer.startListItem()
+        break
+      case 'table':
+        writer.breakLine(2)
+        break
+      case 'tr':
+        writer.startRow()
+        break
+      case 'td':
+      case 'th':
+        writer.startCell(tag === 'th')
+        break
+      case 'a':
+        writer.startLink(this.getAttribute(attributes, 'href'))
+        break
+      case 'img': {
+        const alt = this.getAttribute(attributes, 'alt')
+        if (alt) writer.text(`[image: ${this.decodeEntities(alt)}]`)
+        break
+      }
+    }
+  }
+
+  private static closeTag(writer: StructuredTextWriter, tag: string): void {
+    if (this.BLOCK_TAGS.has(tag) || tag === 'pre' || /^h[1-6]$/.test(tag)) {
+      writer.breakLine(tag === 'p' || tag.startsWith('h') ? 2 : 1)
+      return
+    }
+
+    switch (tag) {
+      case 'blockquote':
+        writer.breakLine(2)
+        writer.quoteDepth = Math.max(0, writer.quoteDepth - 1)
+        break
+      case 'ul':
+      case 'ol':
+        writer.closeList()
+        writer.breakLine(writer.listDepth === 0 ? 2 : 1)
+        break
+      case 'li':
+        writer.breakLine(1)
+        break
+      case 'td':
+      case 'th':
+        writer.endCell()
+        break
+      case 'tr':
+        writer.endRow()
+        break
+      case 'table':
+        writer.endTable()
+        writer.breakLine(2)
+        break
+      case 'a':
+        writer.endLink()
+        break
+    }
+  }
+
+  private static getAttribute(attributes: string, name: string): string | null {
+    const match = attributes.match(new RegExp(`(?:^|\\s)${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'))
+    return match ? (match[1] ?? match[2] ?? match[3]) : null
+  }
+
+  static decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+      if (code[0] === '#') {
+        const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10)
+        return value > 0 && value <= 0x10ffff ? String.fromCodePoint(value) : entity
+      }
+      return this.NAMED_ENTITIES[code.toLowerCase()] ?? entity
+    })
+  }
+}
+
+/**
+ * Accumulates converted text, tracking the list, quote, table and link
+ * context that decides how each line is prefixed.
+ */
+class StructuredTextWriter {
+  quoteDepth = 0
+  private output = ''
+  private pendingBreaks = 0
+  // Shallowest quote level seen while breaks were pending; blank lines use it
+  private pendingQuoteDepth = 0
+  private lists: Array<{ ordered: boolean; index: number }> = []
+  private row: string[] | null = null
+  private rowHasHeader = false
+  private rowsInTable = 0
+  private cell: string | null = null
+  private link: { href: string | null; text: string } | null = null
+  // Blocks opened right after a list marker (e.g. <li><p>) stay on the marker's line
+  private atListMarker = false
+
+  get listDepth(): number {
+    return this.lists.length
+  }
+
+  text(raw: string, preserveWhitespace = false): void {
+    if (!preserveWhitespace) {
+      raw = raw.replace(/\s+/g, ' ')
+    }
+
+    if (this.link) {
+      this.link.text += raw
+      return
+    }
+    if (this.cell !== null) {
+      this.cell += raw
+      return
+    }
+
+    if (preserveWhitespace && raw.includes('\n')) {
+      raw.split('\n').forEach((line, index) => {
+        if (index > 0) this.breakLine(1, true)
+        this.write(line, true)
+      })
+      return
+    }
+
+    this.write(raw, preserveWhitespace)
+  }
+
+  breakLine(count: number, force = false): void {
+    if (this.link || this.cell !== null) {
+      if (this.cell !== null) this.cell += ' '
+      return
+    }
+    if (this.output.length === 0 || this.atListMarker) return
+    // List items are kept tight
+    if (this.lists.length > 0) count = Math.min(count, 1)
+    this.pendingQuoteDepth = this.pendingBreaks > 0 ? Math.min(this.pendingQuoteDepth, this.quoteDepth) : this.quoteDepth
+    this.pendingBreaks = force ? this.pendingBreaks + count : Math.max(this.pendingBreaks, count)
+  }
+
+  openList(ordered: boolean, start: number): void {
+    this.lists.push({ ordered, index: start - 1 })
+  }
+
+  closeList(): void {
+    this.lists.pop()
+  }
+
+  startListItem(): void {
+    const list = this.lists[this.lists.length - 1]
+    this.atListMarker = false
+    this.breakLine(1)
+    if (!list) {
+      this.write('- ', true)
+      this.atListMarker = true
+      return
+    }
+
+    list.index++
+    const indent = '  '.repeat(this.lists.length - 1)
+    this.write(`${indent}${list.ordered ? `${list.index}.` : '-'} `, true, false)
+    this.atListMarker = true
+  }
+
+  startRow(): void {
+    this.endRow()
+    this.row = []
+    this.rowHasHeader = false
+  }
+
+  startCell(isHeader: boolean): void {
+    if (!this.row) this.startRow()
+    if (this.cell !== null) this.endCell()
+    this.cell = ''
+    this.rowHasHeader = this.rowHasHeader || isHeader
+  }
+
+  endCell(): void {
+    if (this.cell === null || !this.row) return
+    this.row.push(this.cell.replace(/\s+/g, ' ').replace(/\|/g, '\\|').trim())
+    this.cell = null
+  }
+
+  endRow(): void {
+    this.endCell()
+    const row = this.row
+    this.row = null
+    if (!row || row.every(cell => cell === '')) return
+
+    this.breakLine(1)
+    this.write(`| ${row.join(' | ')} |`, true)
+    this.rowsInTable++
+    if (this.rowHasHeader && this.rowsInTable === 1) {
+      this.breakLine(1)
+      this.write(`| ${row.map(() => '---').join(' | ')} |`, true)
+    }
+  }
+
+  endTable(): void {
+    this.endRow()
+    this.rowsInTable = 0
+  }
+
+  startLink(href: string | null): void {
+    this.link = { href, text: '' }
+  }
+
+  endLink(): void {
+    const link = this.link
+    this.link = null
+    if (!link) return
+
+    const text = link.text.replace(/\s+/g, ' ').trim()
+    const href = link.href?.trim() || ''
+    const isUseful = href && !href.startsWith('#') && !/^javascript:/i.test(href)
+    const target = href.replace(/^mailto:/i, '')
+
+    if (!isUseful || target === text) {
+      this.text(text || target)
+    } else if (!text) {
+      this.text(target)
+    } else {
+      this.text(`[${text}](${href})`)
+    }
+  }
+
+  toString(): string {
+    this.endRow()
+    return this.output
+      .split('\n')
+      .map(line => line.replace(/[ \t]+$/, ''))
+      .join('\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim()
+  }
+
+  private write(text: string, preserveWhitespace: boolean, continuation = true): void {
+    // Whitespace between tags must not flush pending line breaks
+    if (!preserveWhitespace && !text.trim() && (this.pendingBreaks > 0 || this.output.endsWith('\n'))) {
+      return
+    }
+
+    if (this.pendingBreaks > 0) {
+      const quote = '>'.repeat(Math.min(this.pendingQuoteDepth, this.quoteDepth))
+      for (let i = 0; i < this.pendingBreaks; i++) {
+        this.output += '\n'
+        // Blank lines inside a quote keep the quote marker
+        if (i < this.pendingBreaks - 1 && quote) this.output += quote
+      }
+      this.pendingBreaks = 0
+    }
+
+    const atLineStart = this.output.length === 0 || this.output.endsWith('\n')
+    if (atLineStart) {
+      if (!preserveWhitespace) text = text.replace(/^ +/, '')
+      if (!text) return
+      this.output += this.linePrefix(continuation)
+    } else if (!preserveWhitespace && text.startsWith(' ') && /\s$/.test(this.output)) {
+      text = text.slice(1)
+    }
+
+    if (text.trim()) this.atListMarker = false
+    this.output += text
+  }
+
+  private linePrefix(continuation: boolean): string {
+    const quote = this.quoteDepth > 0 ? `${'>'.repeat(this.quoteDepth)} ` : ''
+    // Wrapped list item text lines up under the item's text
+    const indent = continuation && this.lists.length > 0 ? '  '.repeat(this.lists.length) : ''
+    return quote + indent
+  }
+}
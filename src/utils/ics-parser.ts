@@ -0,0 +1,437 @@
+import { ExtractedDate, MeetingAttendee, MeetingConflict, MeetingDetails } from '@/types'
+
+interface IcsProperty {
+  name: string
+  params: Record<string, string>
+  value: string
+}
+
+/**
+ * Parses iCalendar (RFC 5545) invites into meeting details: start and
+ * end with their time zone, recurrence, organizer, attendees, location
+ * and whether the invite schedules, updates or cancels the meeting.
+ */
+export class IcsParser {
+  private static readonly DAY_MS = 24 * 60 * 60 * 1000
+  private static readonly WEEKDAYS = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU']
+  private static readonly WEEKDAY_NAMES = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
+
+  // Outlook and Exchange invites use Windows zone names as TZID
+  private static readonly WINDOWS_TIME_ZONES: Record<string, string> = {
+    'Hawaiian Standard Time': 'Pacific/Honolulu',
+    'Alaskan Standard Time': 'America/Anchorage',
+    'Pacific Standard Time': 'America/Los_Angeles',
+    'Mountain Standard Time': 'America/Denver',
+    'US Mountain Standard Time': 'America/Phoenix',
+    'Central Standard Time': 'America/Chicago',
+    'Eastern Standard Time': 'America/New_York',
+    'Atlantic Standard Time': 'America/Halifax',
+    'E. South America Standard Time': 'America/Sao_Paulo',
+    'GMT Standard Time': 'Europe/London',
+    'Greenwich Standard Time': 'Atlantic/Reykjavik',
+    'W. Europe Standard Time': 'Europe/Berlin',
+    'Romance Standard Time': 'Europe/Paris',
+    'Central Europe Standard Time': 'Europe/Budapest',
+    'Central European Standard Time': 'Europe/Warsaw',
+    'E. Europe Standard Time': 'Europe/Chisinau',
+    'FLE Standard Time': 'Europe/Kiev',
+    'GTB Standard Time': 'Europe/Bucharest',
+    'Russian Standard Time': 'Europe/Moscow',
+    'Israel Standard Time': 'Asia/Jerusalem',
+    'Arabian Standard Time': 'Asia/Dubai',
+    'India Standard Time': 'Asia/Kolkata',
+    'SE Asia Standard Time': 'Asia/Bangkok',
+    'China Standard Time': 'Asia/Shanghai',
+    'Singapore Standard Time': 'Asia/Singapore',
+    'Tokyo Standard Time': 'Asia/Tokyo',
+    'Korea Standard Time': 'Asia/Seoul',
+    'AUS Eastern Standard Time': 'Australia/Sydney',
+    'New Zealand Standard Time': 'Pacific/Auckland',
+    'UTC': 'UTC'
+  }
+
+  static parse(text: string): MeetingDetails[] {
+    // Continuation lines start with a space or tab
+    const lines = text.replace(/\r\n?/g, '\n').replace(/\n[ \t]/g, '').split('\n')
+    const components: string[] = []
+    const meetings: MeetingDetails[] = []
+    let method: string | undefined
+    let event: IcsProperty[] | null = null
+
+    for (const line of lines) {
+      const property = this.parseProperty(line)
+      if (!property) continue
+
+      if (property.name === 'BEGIN') {
+        components.push(property.value.toUpperCase())
+        if (property.value.toUpperCase() === 'VEVENT') event = []
+        continue
+      }
+      if (property.name === 'END') {
+        components.pop()
+        if (property.value.toUpperCase() === 'VEVENT' && event) {
+          const meeting = this.toMeeting(event, method)
+          if (meeting) meetings.push(meeting)
+          event = null
+        }
+        continue
+      }
+
+      // Properties of nested components such as VALARM are not the event's
+      const component = components[components.length - 1]
+      if (component === 'VCALENDAR' && property.name === 'METHOD') {
+        method = property.value.toUpperCase()
+      } else if (component === 'VEVENT' && event) {
+        event.push(property)
+      }
+    }
+
+    return meetings
+  }
+
+  static toExtractedDates(meetings: MeetingDetails[]): ExtractedDate[] {
+    return meetings.map(meeting => ({
+      text: meeting.title,
+      date: meeting.start,
+      type: 'meeting',
+      confidence: 0.95,
+      meeting
+    }))
+  }
+
+  /** Multi-line plain-text rendering of a meeting for summaries and search */
+  static describe(meeting: MeetingDetails): string {
+    return [
+      `Event: ${meeting.title}`,
+      meeting.status === 'cancelled' ? 'Status: Cancelled' : meeting.status === 'updated' ? 'Status: Updated' : '',
+      `When: ${this.formatRange(meeting)}`,
+      meeting.recurrenceText && `Repeats: ${meeting.recurrenceText}`,
+      meeting.location && `Location: ${meeting.location}`,
+      meeting.organizer && `Organizer: ${this.formatAttendee(meeting.organizer)}`,
+      meeting.attendees.length > 0 && `Attendees: ${meeting.attendees.map(attendee => this.formatAttendee(attendee)).join(', ')}`,
+      meeting.description
+    ].filter(Boolean).join('\n')
+  }
+
+  static formatRange(meeting: Pick<MeetingDetails, 'start' | 'end' | 'allDay'>): string {
+    if (meeting.allDay) {
+      const lastDay = meeting.end ? new Date(meeting.end.getTime() - this.DAY_MS) : meeting.start
+      return lastDay > meeting.start
+        ? `${meeting.start.toLocaleDateString()} – ${lastDay.toLocaleDateString()} (all day)`
+        : `${meeting.start.toLocaleDateString()} (all day)`
+    }
+
+    const start = meeting.start.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })
+    if (!meeting.end) return start
+    const sameDay = meeting.end.toDateString() === meeting.start.toDateString()
+    const end = sameDay
+      ? meeting.end.toLocaleTimeString(undefined, { timeStyle: 'short' })
+      : meeting.end.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })
+    return `${start} – ${end}`
+  }
+
+  /**
+   * Start times of a meeting's occurrences up to `until`, honouring
+   * FREQ, INTERVAL, BYDAY (weekly), COUNT, UNTIL and EXDATE. Occurrences
+   * keep the first instance's UTC time of day, so they can be an hour off
+   * across daylight saving changes.
+   */
+  static occurrences(meeting: MeetingDetails, until: Date, from: Date = meeting.start, limit = 500): Date[] {
+    const rule = this.parseRule(meeting.recurrence)
+    if (!rule || !['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(rule.FREQ)) {
+      return meeting.start <= until && meeting.start >= from ? [meeting.start] : []
+    }
+
+    const interval = Math.max(1, parseInt(rule.INTERVAL || '1') || 1)
+    const count = rule.COUNT ? parseInt(rule.COUNT) : Infinity
+    const ruleEnd = rule.UNTIL ? this.parseDateValue(rule.UNTIL, {}) : null
+    const end = ruleEnd && ruleEnd < until ? ruleEnd : until
+    const excluded = new Set((meeting.excludedDates || []).map(date => date.getTime()))
+
+    // BYDAY offsets are relative to the first occurrence's weekday in its own zone
+    const startWeekday = this.weekdayIndex(meeting.start, meeting.timeZone)
+    const weekdayOffsets = rule.FREQ === 'WEEKLY' && rule.BYDAY
+      ? rule.BYDAY.split(',')
+        .map(day => this.WEEKDAYS.indexOf(day.trim().slice(-2)))
+        .filter(day => day !== -1)
+        .map(day => day - startWeekday)
+        .sort((a, b) => a - b)
+      : []
+    const dayOffsets = weekdayOffsets.length > 0 ? weekdayOffsets : [0]
+
+    const result: Date[] = []
+    let generated = 0
+
+    for (let step = 0; step < 10000; step++) {
+      const base = this.addPeriods(meeting.start, rule.FREQ, step * interval)
+      if (base.getTime() + Math.min(...dayOffsets) * this.DAY_MS > end.getTime()) break
+
+      for (const offset of dayOffsets) {
+        const candidate = new Date(base.getTime() + offset * this.DAY_MS)
+        if (candidate < meeting.start) continue
+        if (candidate > end || generated >= count) return result
+
+        // Excluded instances still count towards COUNT
+        generated++
+        if (candidate >= from && !excluded.has(candidate.getTime())) {
+          result.push(candidate)
+          if (result.length >= limit) return result
+        }
+      }
+    }
+
+    return result
+  }
+
+  /** Known meetings whose occurrences overlap `meeting` within `horizonDays` of its start */
+  static findConflicts(meeting: MeetingDetails, others: MeetingDetails[], horizonDays = 90): MeetingConflict[] {
+    if (meeting.allDay || meeting.status === 'cancelled') return []
+
+    const horizon = new Date(meeting.start.getTime() + horizonDays * this.DAY_MS)
+    const ownDuration = this.durationOf(meeting)
+    const own = this.occurrences(meeting, horizon)
+    const conflicts: MeetingConflict[] = []
+
+    for (const other of others) {
+      if (other.uid === meeting.uid || other.allDay || other.status === 'cancelled') continue
+
+      const otherDuration = this.durationOf(other)
+      const theirs = this.occurrences(other, horizon, new Date(meeting.start.getTime() - otherDuration))
+      const clash = theirs.find(theirStart => own.some(ownStart =>
+        ownStart.getTime() < theirStart.getTime() + otherDuration &&
+        theirStart.getTime() < ownStart.getTime() + ownDuration))
+
+      if (clash) {
+        conflicts.push({
+          uid: other.uid,
+          title: other.title,
+          start: clash,
+          end: new Date(clash.getTime() + otherDuration)
+        })
+      }
+    }
+
+    return conflicts
+  }
+
+  private static toMeeting(properties: IcsProperty[], method?: string): MeetingDetails | null {
+    const get = (name: string) => properties.find(property => property.name === name)
+    const startProperty = get('DTSTART')
+    const start = startProperty && this.parseDateValue(startProperty.value, startProperty.params)
+    if (!startProperty || !start) return null
+
+    const allDay = startProperty.params.VALUE === 'DATE' || /^\d{8}$/.test(startProperty.value)
+    const endProperty = get('DTEND')
+    const durationProperty = get('DURATION')
+    let end = endProperty ? this.parseDateValue(endProperty.value, endProperty.params) || undefined : undefined
+    if (!end && durationProperty) {
+      end = new Date(start.getTime() + this.parseDuration(durationProperty.value))
+    } else if (!end && allDay) {
+      end = new Date(start.getTime() + this.DAY_MS)
+    }
+
+    const title = this.unescapeText(get('SUMMARY')?.value || '') || 'Untitled event'
+    const sequence = parseInt(get('SEQUENCE')?.value || '0') || 0
+    const cancelled = method === 'CANCEL' || get('STATUS')?.value.toUpperCase() === 'CANCELLED'
+    const recurrence = get('RRULE')?.value
+    const organizer = get('ORGANIZER')
+
+    return {
+      uid: get('UID')?.value || `${title}@${start.toISOString()}`,
+      title,
+      start,
+      end,
+      allDay,
+      timeZone: startProperty.params.TZID ? this.resolveTimeZone(startProperty.params.TZID) || undefined : undefined,
+      recurrence,
+      recurrenceText: recurrence ? this.describeRecurrence(recurrence) : undefined,
+      excludedDates: properties
+        .filter(property => property.name === 'EXDATE')
+        .flatMap(property => property.value.split(',').map(value => this.parseDateValue(value, property.params)))
+        .filter((date): date is Date => date !== null),
+      organizer: organizer ? this.parseAttendee(organizer) : undefined,
+      attendees: properties.filter(property => property.name === 'ATTENDEE').map(property => this.parseAttendee(property)),
+      location: this.unescapeText(get('LOCATION')?.value || '') || undefined,
+      description: this.unescapeText(get('DESCRIPTION')?.value || '') || undefined,
+      method,
+      status: cancelled ? 'cancelled' : sequence > 0 ? 'updated' : 'scheduled',
+      sequence
+    }
+  }
+
+  private static parseProperty(line: string): IcsProperty | null {
+    // The value starts at the first colon outside quoted parameter values
+    let colon = -1
+    let inQuotes = false
+    for (let i = 0; i < line.length; i++) {
+      if (line[i] === '"') inQuotes = !inQuotes
+      if (line[i] === ':' && !inQuotes) {
+        colon = i
+        break
+      }
+    }
+    if (colon <= 0) return null
+
+    const head = line.slice(0, colon)
+    const semicolon = head.indexOf(';')
+    const name = (semicolon === -1 ? head : head.slice(0, semicolon)).trim().toUpperCase()
+    const params: Record<string, string> = {}
+
+    if (semicolon !== -1) {
+      for (const match of head.slice(semicolon).matchAll(/;([A-Za-z0-9-]+)=("[^"]*"|[^;]*)/g)) {
+        params[match[1].toUpperCase()] = match[2].replace(/^"(.*)"$/, '$1')
+      }
+    }
+
+    return { name, params, value: line.slice(colon + 1) }
+  }
+
+  private static parseAttendee(property: IcsProperty): MeetingAttendee {
+    return {
+      email: property.value.replace(/^mailto:/i, '').trim(),
+      name: property.params.CN || undefined,
+      role: property.params.ROLE || undefined,
+      status: property.params.PARTSTAT || undefined
+    }
+  }
+
+  /** DATE or DATE-TIME: UTC with a Z suffix, in TZID when given, floating (local) otherwise */
+  private static parseDateValue(value: string, params: Record<string, string>): Date | null {
+    const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/)
+    if (!match) return null
+
+    const [, year, month, day, hour = '0', minute = '0', second = '0', utc] = match
+    const parts: [number, number, number, number, number, number] =
+      [parseInt(year), parseInt(month) - 1, parseInt(day), parseInt(hour), parseInt(minute), parseInt(second)]
+
+    if (utc) return new Date(Date.UTC(...parts))
+
+    const timeZone = params.TZID && match[4] ? this.resolveTimeZone(params.TZID) : null
+    return timeZone ? this.zonedTimeToUtc(parts, timeZone) : new Date(...parts)
+  }
+
+  private static resolveTimeZone(tzid: string): string | null {
+    // Some producers prefix a vendor path, e.g. /mozilla.org/20050126_1/Europe/Paris
+    const name = tzid.replace(/^\/(?:[^/]+\/){2}/, '').trim()
+    const candidate = this.WINDOWS_TIME_ZONES[name] || name
+
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: candidate })
+      return candidate
+    } catch {
+      return null
+    }
+  }
+
+  private static zonedTimeToUtc(parts: [number, number, number, number, number, number], timeZone: string): Date {
+    const wallTime = Date.UTC(...parts)
+    // The zone offset depends on the instant, so correct the first guess once
+    const firstOffset = this.zoneOffset(wallTime, timeZone)
+    const secondOffset = this.zoneOffset(wallTime - firstOffset, timeZone)
+    return new Date(wallTime - secondOffset)
+  }
+
+  private static zoneOffset(time: number, timeZone: string): number {
+    const values: Record<string, number> = {}
+    const formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    })
+    for (const part of formatter.formatToParts(new Date(time))) {
+      if (part.type !== 'literal') values[part.type] = parseInt(part.value)
+    }
+
+    const asUtc = Date.UTC(values.year, values.month - 1, values.day, values.hour, values.minute, values.second)
+    return asUtc - Math.floor(time / 1000) * 1000
+  }
+
+  private static parseDuration(value: string): number {
+    const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/)
+    if (!match) return 0
+
+    const [, sign, weeks = '0', days = '0', hours = '0', minutes = '0', seconds = '0'] = match
+    const total = ((parseInt(weeks) * 7 + parseInt(days)) * 24 * 3600 +
+      parseInt(hours) * 3600 + parseInt(minutes) * 60 + parseInt(seconds)) * 1000
+    return sign === '-' ? -total : total
+  }
+
+  private static parseRule(rrule: string | undefined): Record<string, string> | null {
+    if (!rrule) return null
+    const rule: Record<string, string> = {}
+    for (const part of rrule.split(';')) {
+      const [key, value] = part.split('=')
+      if (key && value) rule[key.trim().toUpperCase()] = value.trim().toUpperCase()
+    }
+    return rule.FREQ ? rule : null
+  }
+
+  private static describeRecurrence(rrule: string): string {
+    const rule = this.parseRule(rrule)
+    const units: Record<string, string> = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' }
+    if (!rule || !units[rule.FREQ]) return rrule
+
+    const interval = parseInt(rule.INTERVAL || '1') || 1
+    let frequency = interval > 1 ? `Every ${interval} ${units[rule.FREQ]}s` : `${rule.FREQ[0]}${rule.FREQ.slice(1).toLowerCase()}`
+
+    if (rule.BYDAY) {
+      const days = rule.BYDAY.split(',')
+        .map(day => this.WEEKDAY_NAMES[this.WEEKDAYS.indexOf(day.trim().slice(-2))])
+        .filter(Boolean)
+      if (days.length > 0) frequency += ` on ${days.join(', ')}`
+    }
+
+    const parts = [frequency]
+    if (rule.COUNT) {
+      parts.push(`${rule.COUNT} times`)
+    }
+    if (rule.UNTIL) {
+      const until = this.parseDateValue(rule.UNTIL, {})
+      if (until) parts.push(`until ${until.toLocaleDateString()}`)
+    }
+
+    return parts.join(', ')
+  }
+
+  private static addPeriods(date: Date, freq: string, periods: number): Date {
+    const result = new Date(date.getTime())
+    switch (freq) {
+      case 'DAILY':
+        return new Date(date.getTime() + periods * this.DAY_MS)
+      case 'WEEKLY':
+        return new Date(date.getTime() + periods * 7 * this.DAY_MS)
+      case 'MONTHLY':
+        result.setUTCMonth(result.getUTCMonth() + periods)
+        return result
+      default:
+        result.setUTCFullYear(result.getUTCFullYear() + periods)
+        return result
+    }
+  }
+
+  /** Monday-based weekday of `date` in `timeZone`, or in local time for floating events */
+  private static weekdayIndex(date: Date, timeZone?: string): number {
+    const weekday = timeZone
+      ? new Intl.DateTimeFormat('en-US', { timeZone, weekday: 'short' }).format(date)
+      : this.WEEKDAY_NAMES[(date.getDay() + 6) % 7]
+    return Math.max(0, this.WEEKDAY_NAMES.indexOf(weekday))
+  }
+
+  private static durationOf(meeting: MeetingDetails): number {
+    // Invites without an end are treated as half-hour meetings
+    return meeting.end ? Math.max(0, meeting.end.getTime() - meeting.start.getTime()) : 30 * 60 * 1000
+  }
+
+  private static formatAttendee(attendee: MeetingAttendee): string {
+    return attendee.name ? `${attendee.name} <${attendee.email}>` : attendee.email
+  }
+
+  private static unescapeText(value: string): string {
+    return value.replace(/\\([nN,;\\])/g, (_escape, char: string) => char.toLowerCase() === 'n' ? '\n' : char).trim()
+  }
+}
@@ -0,0 +1,86 @@
+import { InboxRow, InboxTriage } from '@/types'
+import { FallbackManager } from './fallback-manager'
+
+/**
+ * Triage for inbox list rows, cached by mail client and thread id. A cached
+ * result is reused until the row's fingerprint changes, i.e. until the
+ * thread's subject or latest snippet does.
+ */
+export class InboxTriageManager {
+  private static instance: InboxTriageManager
+  private fallbackManager: FallbackManager
+  private cache: Map<string, InboxTriage> | null = null
+  private readonly STORAGE_KEY = 'inbox_triage'
+  private readonly MAX_ENTRIES = 1000
+
+  private constructor() {
+    this.fallbackManager = FallbackManager.getInstance()
+  }
+
+  static getInstance(): InboxTriageManager {
+    if (!InboxTriageManager.instance) {
+      InboxTriageManager.instance = new InboxTriageManager()
+    }
+    return InboxTriageManager.instance
+  }
+
+  async triageRows(client: string, rows: InboxRow[]): Promise<InboxTriage[]> {
+    const cache = await this.load()
+    let changed = false
+
+    const results = rows.map(row => {
+      const key = `${client}:${row.threadId}`
+      const cached = cache.get(key)
+      if (cached && cached.fingerprint === row.fingerprint) {
+        return cached
+      }
+
+      const triage = this.fallbackManager.triageRow(row)
+      cache.set(key, triage)
+      changed = true
+      return triage
+    })
+
+    if (changed) {
+      await this.save(cache)
+    }
+    return results
+  }
+
+  async clear(): Promise<void> {
+    this.cache = new Map()
+    await chrome.storage.local.remove(this.STORAGE_KEY)
+  }
+
+  private async load(): Promise<Map<string, InboxTriage>> {
+    if (this.cache) {
+      return this.cache
+    }
+
+    try {
+      const stored = await chrome.storage.local.get([this.STORAGE_KEY])
+      const entries: Record<string, InboxTriage> = stored[this.STORAGE_KEY] || {}
+      this.cache = new Map(Object.entries(entries).map(([key, triage]) => [key, { ...triage, triagedAt: new Date(triage.triagedAt) }]))
+    } catch (error) {
+      console.error('ReplySage: Failed to load inbox triage cache:', error)
+      this.cache = new Map()
+    }
+    return this.cache
+  }
+
+  private async save(cache: Map<string, InboxTriage>): Promise<void> {
+    // Keep the most recently triaged threads
+    const entries = Array.from(cache.entries())
+      .sort(([, a], [, b]) => b.triagedAt.getTime() - a.triagedAt.getTime())
+      .slice(0, this.MAX_ENTRIES)
+    this.cache = new Map(entries)
+
+    try {
+      await chrome.storage.local.set({
+        [this.STORAGE_KEY]: Object.fromEntries(entries.map(([key, triage]) => [key, { ...triage, triagedAt: triage.triagedAt.toISOString() }]))
+      })
+    } catch (error) {
+      console.error('ReplySage: Failed to save inbox triage cache:', error)
+    }
+  }
+}
@@ -0,0 +1,373 @@
+import { JobPriority, JobQueueStatus, JobStatus, ProcessingJob, ProcessingJobType } from '@/types'
+
+export interface JobStore {
+  load(): Promise<ProcessingJob[]>
+  save(job: ProcessingJob): Promise<void>
+  delete(id: string): Promise<void>
+}
+
+/** Runs one job; the signal aborts when the job is cancelled */
+export type JobHandler = (job: ProcessingJob, signal: AbortSignal) => Promise<unknown>
+
+export interface EnqueueRequest {
+  type: ProcessingJobType
+  messageId: string
+  priority?: JobPriority
+  payload?: unknown
+  maxAttempts?: number
+}
+
+const PRIORITY_RANK: Record<JobPriority, number> = { high: 0, normal: 1, low: 2 }
+
+const FINISHED_STATUSES: JobStatus[] = ['completed', 'failed', 'cancelled']
+
+/** Keeps jobs in IndexedDB so queued work survives service worker restarts */
+export class IndexedDBJobStore implements JobStore {
+  private db: Promise<IDBDatabase> | null = null
+  private readonly DB_NAME = 'ReplySageJobs'
+  private readonly DB_VERSION = 1
+  private readonly STORE_NAME = 'jobs'
+
+  async load(): Promise<ProcessingJob[]> {
+    const store = await this.objectStore('readonly')
+    return this.request(store.getAll())
+  }
+
+  async save(job: ProcessingJob): Promise<void> {
+    const store = await this.objectStore('readwrite')
+    await this.request(store.put(job))
+  }
+
+  async delete(id: string): Promise<void> {
+    const store = await this.objectStore('readwrite')
+    await this.request(store.delete(id))
+  }
+
+  private async objectStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open()
+    return db.transaction([this.STORE_NAME], mode).objectStore(this.STORE_NAME)
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.DB_NAME, this.DB_VERSION)
+
+        request.onerror = () => reject(new Error('Failed to open job queue database'))
+        request.onsuccess = () => resolve(request.result)
+        request.onupgradeneeded = () => {
+          const db = request.result
+          if (!db.objectStoreNames.contains(this.STORE_NAME)) {
+            const store = db.createObjectStore(this.STORE_NAME, { keyPath: 'id' })
+            store.createIndex('status', 'status', { unique: false })
+          }
+        }
+      })
+    }
+    return this.db
+  }
+
+  private request<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  }
+}
+
+/**
+ * Durable background work queue. Up to `concurrency` jobs run at once,
+ * highest priority first and oldest first within a priority. Running jobs
+ * are not preempted, so high priority work waits at most for the first
+ * running job to finish.
+ * Failed jobs are retried with exponential backoff, and a job already
+ * queued for a message absorbs duplicates instead of running twice. Each
+ * enqueue claims the job; a caller that loses interest releases its claim,
+ * and the job is only cancelled once nobody else still wants it.
+ */
+export class JobQueue {
+  private static instance: JobQueue
+  private store: JobStore
+  private jobs: Map<string, ProcessingJob> = new Map()
+  private handlers: Map<ProcessingJobType, JobHandler> = new Map()
+  private waiters: Map<string, ((job: ProcessingJob) => void)[]> = new Map()
+  private claims: Map<string, number> = new Map()
+  private running: Map<string, { job: ProcessingJob; controller: AbortController }> = new Map()
+  private retryTimer: ReturnType<typeof setTimeout> | null = null
+  private restored: Promise<void> | null = null
+  private readonly RETRY_BASE_MS = 2000
+  private readonly RETRY_MAX_MS = 5 * 60 * 1000
+  private readonly FINISHED_TTL_MS = 60 * 60 * 1000
+  static readonly DEFAULT_CONCURRENCY = 3
+  readonly concurrency: number
+
+  constructor(store: JobStore, concurrency: number = 1) {
+    this.store = store
+    this.concurrency = Math.max(1, concurrency)
+  }
+
+  static getInstance(): JobQueue {
+    if (!JobQueue.instance) {
+      JobQueue.instance = new JobQueue(new IndexedDBJobStore(), JobQueue.DEFAULT_CONCURRENCY)
+    }
+    return JobQueue.instance
+  }
+
+  /** Jobs of a type wait in the queue until its handler is registered */
+  registerHandler(type: ProcessingJobType, handler: JobHandler): void {
+    this.handlers.set(type, handler)
+    this.schedule()
+  }
+
+  async enqueue(request: EnqueueRequest): Promise<ProcessingJob> {
+    await this.restore()
+    const priority = request.priority || 'normal'
+
+    // A job that is winding down after a cancellation can't be joined
+    const existing = Array.from(this.jobs.values()).find(job =>
+      job.type === request.type && job.messageId === request.messageId && !this.isFinished(job) && !this.isAborted(job)
+    )
+    if (existing) {
+      this.claims.set(existing.id, (this.claims.get(existing.id) || 0) + 1)
+      if (PRIORITY_RANK[priority] < PRIORITY_RANK[existing.priority]) {
+        existing.priority = priority
+        await this.persist(existing)
+        this.schedule()
+      }
+      return existing
+    }
+
+    const job: ProcessingJob = {
+      id: `job_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      messageId: request.messageId,
+      type: request.type,
+      status: 'pending',
+      priority,
+      payload: request.payload,
+      attempts: 0,
+      maxAttempts: request.maxAttempts || 3,
+      createdAt: new Date()
+    }
+    this.jobs.set(job.id, job)
+    this.claims.set(job.id, 1)
+    await this.persist(job)
+    this.schedule()
+    return job
+  }
+
+  /**
+   * Resolves with the job once it has completed, failed or been cancelled.
+   * Aborting `signal` releases this caller's claim and rejects right away,
+   * even while the job keeps running for other callers.
+   */
+  wait(id: string, signal?: AbortSignal): Promise<ProcessingJob> {
+    const job = this.jobs.get(id)
+    if (!job) {
+      return Promise.reject(new Error(`Unknown job ${id}`))
+    }
+    if (this.isFinished(job)) {
+      return Promise.resolve(job)
+    }
+    return new Promise((resolve, reject) => {
+      const settle = (finished: ProcessingJob) => {
+        signal?.removeEventListener('abort', abandon)
+        resolve(finished)
+      }
+      const abandon = () => {
+        this.waiters.set(id, (this.waiters.get(id) || []).filter(waiter => waiter !== settle))
+        this.release(id)
+        reject(new Error('Job cancelled'))
+      }
+
+      if (signal?.aborted) {
+        abandon()
+        return
+      }
+      signal?.addEventListener('abort', abandon, { once: true })
+      this.waiters.set(id, [...(this.waiters.get(id) || []), settle])
+    })
+  }
+
+  /**
+   * Gives up one enqueue's claim on a job. The job is cancelled when that
+   * was the last claim; otherwise it keeps running for the other callers.
+   */
+  async release(id: string): Promise<boolean> {
+    await this.restore()
+    const remaining = (this.claims.get(id) || 1) - 1
+    if (remaining > 0) {
+      this.claims.set(id, remaining)
+      return false
+    }
+    return this.cancel(id)
+  }
+
+  /** Cancels a job for every caller waiting on it */
+  async cancel(id: string): Promise<boolean> {
+    await this.restore()
+    const job = this.jobs.get(id)
+    if (!job || this.isFinished(job)) {
+      return false
+    }
+
+    const running = this.running.get(id)
+    if (running) {
+      // The run loop records the cancellation once the handler gives up
+      running.controller.abort()
+    } else {
+      await this.finish(job, 'cancelled')
+    }
+    return true
+  }
+
+  getJob(id: string): ProcessingJob | null {
+    return this.jobs.get(id) || null
+  }
+
+  async getStatus(): Promise<JobQueueStatus> {
+    await this.restore()
+    const counts: JobQueueStatus['counts'] = { pending: 0, processing: 0, completed: 0, failed: 0, cancelled: 0 }
+    const jobs = Array.from(this.jobs.values())
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .map(({ payload: _payload, result: _result, ...job }) => {
+        counts[job.status]++
+        return job
+      })
+    return { counts, jobs }
+  }
+
+  /** Forgets finished jobs older than an hour */
+  async prune(): Promise<void> {
+    await this.restore()
+    const cutoff = Date.now() - this.FINISHED_TTL_MS
+    for (const job of Array.from(this.jobs.values())) {
+      if (this.isFinished(job) && (job.completedAt || job.createdAt).getTime() < cutoff) {
+        this.jobs.delete(job.id)
+        await this.remove(job.id)
+      }
+    }
+  }
+
+  private restore(): Promise<void> {
+    if (!this.restored) {
+      this.restored = (async () => {
+        try {
+          for (const job of await this.store.load()) {
+            // A job still marked processing was interrupted by a restart
+            if (job.status === 'processing') {
+              job.status = 'pending'
+              await this.persist(job)
+            }
+            this.jobs.set(job.id, job)
+          }
+        } catch (error) {
+          console.error('ReplySage: Failed to restore job queue:', error)
+        }
+      })()
+    }
+    return this.restored
+  }
+
+  private schedule(): void {
+    if (this.running.size < this.concurrency) {
+      this.processNext()
+    }
+  }
+
+  private async processNext(): Promise<void> {
+    await this.restore()
+    if (this.running.size >= this.concurrency) return
+
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer)
+      this.retryTimer = null
+    }
+
+    const now = Date.now()
+    const pending = Array.from(this.jobs.values()).filter(job => job.status === 'pending' && this.handlers.has(job.type))
+    const ready = pending
+      .filter(job => !job.nextAttemptAt || job.nextAttemptAt.getTime() <= now)
+      .sort((a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] || a.createdAt.getTime() - b.createdAt.getTime())
+
+    const job = ready[0]
+    if (!job) {
+      const nextRetry = Math.min(...pending.map(job => job.nextAttemptAt?.getTime() ?? Infinity))
+      if (nextRetry !== Infinity) {
+        this.retryTimer = setTimeout(() => this.schedule(), nextRetry - now)
+      }
+      return
+    }
+
+    const controller = new AbortController()
+    this.running.set(job.id, { job, controller })
+    job.status = 'processing'
+    job.startedAt = new Date()
+    job.attempts++
+    // Fill any other free slot while this job runs
+    this.schedule()
+    await this.persist(job)
+
+    try {
+      job.result = await this.handlers.get(job.type)!(job, controller.signal)
+      job.error = undefined
+      await this.finish(job, controller.signal.aborted ? 'cancelled' : 'completed')
+    } catch (error) {
+      job.error = (error as Error).message
+      if (controller.signal.aborted) {
+        await this.finish(job, 'cancelled')
+      } else if (job.attempts < job.maxAttempts) {
+        console.error(`ReplySage: Job ${job.id} failed, retrying:`, error)
+        job.status = 'pending'
+        job.nextAttemptAt = new Date(Date.now() + this.retryDelay(job.attempts))
+        await this.persist(job)
+      } else {
+        console.error(`ReplySage: Job ${job.id} failed:`, error)
+        await this.finish(job, 'failed')
+      }
+    } finally {
+      this.running.delete(job.id)
+      this.schedule()
+    }
+  }
+
+  private retryDelay(attempts: number): number {
+    return Math.min(this.RETRY_BASE_MS * 2 ** (attempts - 1), this.RETRY_MAX_MS)
+  }
+
+  private async finish(job: ProcessingJob, status: JobStatus): Promise<void> {
+    job.status = status
+    job.completedAt = new Date()
+    job.nextAttemptAt = undefined
+    await this.persist(job)
+
+    const waiters = this.waiters.get(job.id) || []
+    this.waiters.delete(job.id)
+    this.claims.delete(job.id)
+    waiters.forEach(resolve => resolve(job))
+  }
+
+  private isFinished(job: ProcessingJob): boolean {
+    return FINISHED_STATUSES.includes(job.status)
+  }
+
+  private isAborted(job: ProcessingJob): boolean {
+    return this.running.get(job.id)?.controller.signal.aborted ?? false
+  }
+
+  // Storage failures leave the queue working in memory for this session
+  private async persist(job: ProcessingJob): Promise<void> {
+    try {
+      await this.store.save(job)
+    } catch (error) {
+      console.error('ReplySage: Failed to persist job:', error)
+    }
+  }
+
+  private async remove(id: string): Promise<void> {
+    try {
+      await this.store.delete(id)
+    } catch (error) {
+      console.error('ReplySage: Failed to delete job:', error)
+    }
+  }
+}
@@ -0,0 +1,50 @@
+import { LanguagePacks } from './language-packs'
+
+export interface LanguageDetection {
+  /** ISO 639-1 code */
+  language: string
+  /** How clearly the text's function words point to the language, 0-1; 0 means the fallback was used */
+  confidence: number
+}
+
+/**
+ * Recognizes the language of an email on the device by counting the
+ * function words of each language pack. Function words make up a large
+ * share of any text and are distinct between languages, so a few lines
+ * are enough; text too short to tell, or in a language without a pack,
+ * is treated as English.
+ */
+export class LanguageDetector {
+  static readonly FALLBACK = 'en'
+  private static readonly MIN_HITS = 3
+  // How far ahead the best language has to be of the runner-up
+  private static readonly MIN_MARGIN = 0.3
+  private static readonly MAX_WORDS = 400
+  private static stopwords: Map<string, Set<string>> | null = null
+
+  static detect(text: string): LanguageDetection {
+    const words = (text.toLowerCase().match(/[\p{L}']+/gu) || []).slice(0, this.MAX_WORDS)
+    const hits = Array.from(this.getStopwords(), ([language, stopwords]) => ({
+      language,
+      count: words.filter(word => stopwords.has(word)).length
+    })).sort((a, b) => b.count - a.count)
+
+    const [best, runnerUp] = hits
+    if (best.count < this.MIN_HITS) {
+      return { language: this.FALLBACK, confidence: 0 }
+    }
+
+    const margin = (best.count - (runnerUp?.count || 0)) / best.count
+    if (margin < this.MIN_MARGIN) {
+      return { language: this.FALLBACK, confidence: 0 }
+    }
+    return { language: best.language, confidence: Math.round(margin * 100) / 100 }
+  }
+
+  private static getStopwords(): Map<string, Set<string>> {
+    if (!this.stopwords) {
+      this.stopwords = new Map(LanguagePacks.all().map(pack => [pack.code, new Set(pack.stopwords)]))
+    }
+    return this.stopwords
+  }
+}
@@ -0,0 +1,286 @@
+import { ExtractedDate } from '@/types'
+
+/**
+ * The words the heuristic analyzers look for, in one language. Phrase
+ * lists are regular expression sources, so `follow.?up` matches
+ * "follow-up" and "followup" alike. Category and action labels stay in
+ * English whatever the language, since they are identifiers.
+ */
+export interface LanguagePack {
+  /** ISO 639-1 code */
+  code: string
+  /** Name of the language in the language itself */
+  name: string
+  /** Frequent function words that tell the language apart from the others */
+  stopwords: string[]
+  /** Phrases that introduce a request, e.g. "please" */
+  requestPhrases: string[]
+  /** Words that introduce a deadline, e.g. "by" */
+  deadlinePhrases: string[]
+  /** Labels in front of a task, e.g. "todo:" */
+  taskLabels: string[]
+  /** Labels in front of a deadline, e.g. "due date:" */
+  deadlineLabels: string[]
+  /** Words that make a sentence worth keeping in an extractive summary */
+  summaryKeywords: string[]
+  positiveWords: string[]
+  negativeWords: string[]
+  /** Words that make a whole email high or medium priority */
+  priorityWords: { high: string[]; medium: string[] }
+  /** Words that make a single action item high or medium priority */
+  actionPriorityWords: { high: string[]; medium: string[] }
+  emailCategories: Record<string, string[]>
+  actionCategories: Record<string, string[]>
+  /** Today, tomorrow and the like, for spotting that a sentence states a date */
+  relativeDays: string[]
+  weekdays: string[]
+  /** January first */
+  months: string[]
+  /** Whether 03/04 is the 3rd of April rather than March 4 */
+  dayFirst: boolean
+  /** Replies for any email; English also has topic-specific templates */
+  replies: { formal: string; casual: string }
+}
+
+const PACKS: LanguagePack[] = [
+  {
+    code: 'en',
+    name: 'English',
+    stopwords: ['the', 'and', 'is', 'are', 'you', 'we', 'to', 'of', 'that', 'this', 'for', 'with', 'have', 'will', 'be', 'it', 'on', 'your', 'our', 'would', 'can', 'thanks', 'please', 'what', 'which'],
+    requestPhrases: ['please', 'need to', 'must', 'should', 'have to'],
+    deadlinePhrases: ['by', 'before', 'until', 'due'],
+    taskLabels: ['action', 'task', 'todo', 'follow.?up', 'next steps?'],
+    deadlineLabels: ['deadline', 'due date'],
+    summaryKeywords: [
+      'meeting', 'deadline', 'urgent', 'important', 'project', 'budget',
+      'schedule', 'review', 'action', 'task', 'follow', 'next', 'please',
+      'need', 'must', 'should', 'will', 'can', 'would'
+    ],
+    positiveWords: ['thank', 'great', 'excellent', 'good', 'happy', 'pleased', 'appreciate', 'wonderful', 'amazing'],
+    negativeWords: ['urgent', 'problem', 'issue', 'error', 'failed', 'bad', 'terrible', 'disappointed', 'concerned'],
+    priorityWords: {
+      high: ['urgent', 'asap', 'immediately', 'critical', 'emergency'],
+      medium: ['important', 'deadline', 'priority', 'soon']
+    },
+    actionPriorityWords: {
+      high: ['urgent', 'asap', 'immediately'],
+      medium: ['important', 'priority']
+    },
+    emailCategories: {
+      meeting: ['meeting', 'schedule'],
+      deadline: ['deadline', 'due'],
+      project: ['project', 'task'],
+      budget: ['budget', 'cost'],
+      appreciation: ['thank', 'appreciate']
+    },
+    actionCategories: {
+      review: ['review', 'check'],
+      scheduling: ['meeting', 'schedule'],
+      communication: ['send', 'email'],
+      deadline: ['deadline', 'due']
+    },
+    relativeDays: ['today', 'tonight', 'tomorrow', 'yesterday'],
+    weekdays: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'],
+    months: ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'],
+    dayFirst: false,
+    replies: {
+      formal: "Thank you for your message. I'll review this and get back to you soon.",
+      casual: "Thanks for reaching out! I'll get back to you soon."
+    }
+  },
+  {
+    code: 'de',
+    name: 'Deutsch',
+    stopwords: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'ich', 'wir', 'mit', 'für', 'auf', 'eine', 'einen', 'zu', 'den', 'dem', 'von', 'im', 'bitte', 'auch', 'sich', 'wird', 'haben', 'noch', 'oder', 'aber', 'ihnen'],
+    requestPhrases: ['bitte', 'könnten sie', 'können sie', 'kannst du', 'müssen', 'muss', 'sollten', 'sollte'],
+    deadlinePhrases: ['bis', 'vor', 'spätestens', 'fällig'],
+    taskLabels: ['aufgabe', 'todo', 'aktion', 'nächste schritte'],
+    deadlineLabels: ['frist', 'deadline', 'abgabetermin'],
+    summaryKeywords: [
+      'besprechung', 'termin', 'frist', 'dringend', 'wichtig', 'projekt', 'budget',
+      'prüfen', 'aufgabe', 'nächste', 'bitte', 'müssen', 'sollten', 'können'
+    ],
+    positiveWords: ['danke', 'super', 'toll', 'großartig', 'gut', 'freue', 'ausgezeichnet', 'prima'],
+    negativeWords: ['dringend', 'problem', 'fehler', 'störung', 'fehlgeschlagen', 'leider', 'enttäuscht', 'beschwerde', 'ausfall'],
+    priorityWords: {
+      high: ['dringend', 'sofort', 'umgehend', 'kritisch', 'notfall', 'asap'],
+      medium: ['wichtig', 'frist', 'priorität', 'bald']
+    },
+    actionPriorityWords: {
+      high: ['dringend', 'sofort', 'umgehend'],
+      medium: ['wichtig', 'priorität']
+    },
+    emailCategories: {
+      meeting: ['besprechung', 'meeting', 'termin'],
+      deadline: ['frist', 'fällig', 'deadline'],
+      project: ['projekt', 'aufgabe'],
+      budget: ['budget', 'kosten', 'angebot'],
+      appreciation: ['danke', 'dank']
+    },
+    actionCategories: {
+      review: ['prüfen', 'durchsehen', 'freigeben'],
+      scheduling: ['besprechung', 'termin'],
+      communication: ['senden', 'schicken', 'e-mail'],
+      deadline: ['frist', 'fällig']
+    },
+    relativeDays: ['heute', 'morgen', 'übermorgen', 'gestern'],
+    weekdays: ['montag', 'dienstag', 'mittwoch', 'donnerstag', 'freitag', 'samstag', 'sonntag'],
+    months: ['januar', 'februar', 'märz', 'april', 'mai', 'juni', 'juli', 'august', 'september', 'oktober', 'november', 'dezember'],
+    dayFirst: true,
+    replies: {
+      formal: 'Vielen Dank für Ihre Nachricht. Ich sehe mir das an und melde mich in Kürze.',
+      casual: 'Danke für deine Nachricht! Ich melde mich bald.'
+    }
+  },
+  {
+    code: 'es',
+    name: 'Español',
+    stopwords: ['el', 'los', 'las', 'del', 'que', 'y', 'es', 'por', 'para', 'con', 'una', 'su', 'al', 'como', 'pero', 'muy', 'está', 'están', 'hay', 'también', 'nos', 'usted', 'gracias', 'favor', 'este', 'esta'],
+    requestPhrases: ['por favor', 'podrías', 'podría', 'puedes', 'necesitamos', 'necesito', 'hay que', 'debes', 'debe'],
+    deadlinePhrases: ['antes del', 'antes de', 'hasta el', 'a más tardar'],
+    taskLabels: ['tarea', 'pendiente', 'acción', 'próximos pasos'],
+    deadlineLabels: ['fecha límite', 'plazo', 'vencimiento'],
+    summaryKeywords: [
+      'reunión', 'plazo', 'urgente', 'importante', 'proyecto', 'presupuesto',
+      'revisar', 'tarea', 'próximo', 'por favor', 'necesita', 'debe', 'puede'
+    ],
+    positiveWords: ['gracias', 'excelente', 'genial', 'bien', 'contento', 'agradezco', 'estupendo', 'perfecto'],
+    negativeWords: ['urgente', 'problema', 'error', 'fallo', 'lamentablemente', 'queja', 'decepcionado', 'incidencia'],
+    priorityWords: {
+      high: ['urgente', 'inmediatamente', 'cuanto antes', 'crítico', 'emergencia'],
+      medium: ['importante', 'plazo', 'prioridad', 'pronto']
+    },
+    actionPriorityWords: {
+      high: ['urgente', 'inmediatamente', 'cuanto antes'],
+      medium: ['importante', 'prioridad']
+    },
+    emailCategories: {
+      meeting: ['reunión', 'llamada', 'cita'],
+      deadline: ['plazo', 'fecha límite', 'vence'],
+      project: ['proyecto', 'tarea'],
+      budget: ['presupuesto', 'coste', 'costo', 'factura'],
+      appreciation: ['gracias', 'agradezco']
+    },
+    actionCategories: {
+      review: ['revisar', 'comprobar', 'aprobar'],
+      scheduling: ['reunión', 'agendar', 'programar'],
+      communication: ['enviar', 'mandar', 'correo'],
+      deadline: ['plazo', 'vence']
+    },
+    relativeDays: ['hoy', 'mañana', 'pasado mañana', 'ayer'],
+    weekdays: ['lunes', 'martes', 'miércoles', 'jueves', 'viernes', 'sábado', 'domingo'],
+    months: ['enero', 'febrero', 'marzo', 'abril', 'mayo', 'junio', 'julio', 'agosto', 'septiembre', 'octubre', 'noviembre', 'diciembre'],
+    dayFirst: true,
+    replies: {
+      formal: 'Gracias por su mensaje. Lo revisaré y le responderé en breve.',
+      casual: '¡Gracias por escribir! Te respondo pronto.'
+    }
+  },
+  {
+    code: 'fr',
+    name: 'Français',
+    stopwords: ['le', 'les', 'et', 'est', 'pas', 'je', 'vous', 'nous', 'avec', 'pour', 'sur', 'une', 'du', 'des', 'dans', 'ce', 'qui', 'il', 'elle', 'au', 'aux', 'mais', 'sont', 'merci', 'cette', 'votre', 'être'],
+    requestPhrases: ["s'il vous plaît", 'merci de', 'pourriez-vous', 'pouvez-vous', 'peux-tu', 'il faut', 'devons', 'devez', 'doit'],
+    deadlinePhrases: ['avant le', 'avant', 'au plus tard', "d'ici"],
+    taskLabels: ['tâche', 'à faire', 'action', 'prochaines étapes'],
+    deadlineLabels: ['date limite', 'échéance', 'délai'],
+    summaryKeywords: [
+      'réunion', 'échéance', 'urgent', 'important', 'projet', 'budget',
+      'vérifier', 'tâche', 'prochaine', 'merci de', 'faut', 'doit', 'pouvez'
+    ],
+    positiveWords: ['merci', 'excellent', 'super', 'génial', 'bien', 'ravi', 'content', 'parfait'],
+    negativeWords: ['urgent', 'problème', 'erreur', 'échec', 'malheureusement', 'déçu', 'plainte', 'panne'],
+    priorityWords: {
+      high: ['urgent', 'immédiatement', 'dès que possible', 'critique', 'urgence'],
+      medium: ['important', 'échéance', 'priorité', 'bientôt']
+    },
+    actionPriorityWords: {
+      high: ['urgent', 'immédiatement', 'dès que possible'],
+      medium: ['important', 'priorité']
+    },
+    emailCategories: {
+      meeting: ['réunion', 'rendez-vous', 'appel'],
+      deadline: ['échéance', 'date limite', 'délai'],
+      project: ['projet', 'tâche'],
+      budget: ['budget', 'coût', 'devis', 'facture'],
+      appreciation: ['merci', 'remercie']
+    },
+    actionCategories: {
+      review: ['vérifier', 'relire', 'valider'],
+      scheduling: ['réunion', 'planifier', 'rendez-vous'],
+      communication: ['envoyer', 'transmettre', 'courriel', 'e-mail'],
+      deadline: ['échéance', 'délai']
+    },
+    relativeDays: ["aujourd'hui", 'demain', 'après-demain'],
+    weekdays: ['lundi', 'mardi', 'mercredi', 'jeudi', 'vendredi', 'samedi', 'dimanche'],
+    months: ['janvier', 'février', 'mars', 'avril', 'mai', 'juin', 'juillet', 'août', 'septembre', 'octobre', 'novembre', 'décembre'],
+    dayFirst: true,
+    replies: {
+      formal: 'Merci pour votre message. Je l’examine et reviens vers vous rapidement.',
+      casual: 'Merci pour ton message ! Je reviens vers toi bientôt.'
+    }
+  }
+]
+
+/**
+ * Heuristic vocabulary per language, so keyword analysis of German,
+ * Spanish or French mail doesn't run on English words. Languages
+ * without a pack use the English one.
+ */
+export class LanguagePacks {
+  static readonly LANGUAGES = PACKS.map(pack => pack.code)
+
+  static all(): LanguagePack[] {
+    return PACKS
+  }
+
+  static get(language: string): LanguagePack {
+    return PACKS.find(pack => pack.code === language) || PACKS[0]
+  }
+
+  /** Regex alternation of the phrases, longest first so "antes del" wins over "antes de" */
+  static alternation(phrases: string[]): string {
+    return [...phrases].sort((a, b) => b.length - a.length).join('|')
+  }
+
+  /**
+   * Day-month dates written the way the pack's language writes them:
+   * "12.03.2026", "12. März", "12 de marzo", "12 mars 2026". Dates
+   * without a year fall in the current one.
+   */
+  static findDates(text: string, pack: LanguagePack): ExtractedDate[] {
+    const dates: ExtractedDate[] = []
+    const year = new Date().getFullYear()
+
+    for (const match of text.matchAll(/\b(\d{1,2})[./](\d{1,2})[./](\d{2,4})\b/g)) {
+      const [first, second] = [parseInt(match[1]), parseInt(match[2])]
+      const [day, month] = pack.dayFirst ? [first, second] : [second, first]
+      const date = this.toDate(this.fullYear(parseInt(match[3])), month - 1, day)
+      if (date) {
+        dates.push({ text: match[0], date, type: 'deadline', confidence: 0.7 })
+      }
+    }
+
+    const monthNames = this.alternation(pack.months)
+    const written = new RegExp(`\\b(\\d{1,2})\\.?\\s+(?:de\\s+)?(${monthNames})(?:\\s+(?:de\\s+)?(\\d{4}))?`, 'giu')
+    for (const match of text.matchAll(written)) {
+      const month = pack.months.indexOf(match[2].toLowerCase())
+      const date = this.toDate(match[3] ? parseInt(match[3]) : year, month, parseInt(match[1]))
+      if (date) {
+        dates.push({ text: match[0], date, type: 'event', confidence: 0.7 })
+      }
+    }
+
+    return dates
+  }
+
+  private static fullYear(year: number): number {
+    return year < 100 ? 2000 + year : year
+  }
+
+  // Rejects day and month numbers the calendar doesn't have, like 31.02
+  private static toDate(year: number, month: number, day: number): Date | undefined {
+    const date = new Date(year, month, day)
+    return date.getMonth() === month && date.getDate() === day ? date : undefined
+  }
+}
@@ -0,0 +1,75 @@
+import { GrammarIssue } from '@/types'
+
+/** Checks text for grammar and style issues; positions are offsets into the text */
+export interface GrammarService {
+  check(text: string, language: string): Promise<GrammarIssue[]>
+}
+
+/** The parts of a LanguageTool `/v2/check` response the client reads */
+interface LanguageToolResponse {
+  matches: Array<{
+    message: string
+    offset: number
+    length: number
+    replacements: { value: string }[]
+    rule: { id: string; issueType?: string }
+  }>
+}
+
+type FetchFn = (input: string, init: RequestInit) => Promise<Response>
+
+// LanguageTool only spell-checks English and German with a regional variant
+const LANGUAGE_VARIANTS: Record<string, string> = {
+  en: 'en-US',
+  de: 'de-DE'
+}
+
+// https://languagetool.org/development/api/org/languagetool/rules/ITSIssueType.html
+const ISSUE_SEVERITY: Record<string, GrammarIssue['severity']> = {
+  misspelling: 'error',
+  grammar: 'error',
+  typographical: 'warning',
+  whitespace: 'warning',
+  duplication: 'warning',
+  style: 'info',
+  register: 'info',
+  'locale-violation': 'info'
+}
+
+/**
+ * Client for a self-hosted LanguageTool server. Email text goes to the
+ * configured server as is, so the server should be one the user runs;
+ * `fetchFn` lets tests answer for it.
+ */
+export class LanguageToolClient implements GrammarService {
+  private endpoint: string
+  private fetchFn: FetchFn
+  private readonly TIMEOUT_MS = 8000
+
+  constructor(endpoint: string, fetchFn: FetchFn = (input, init) => fetch(input, init)) {
+    // Accept the server root as well as its API path
+    this.endpoint = endpoint.trim().replace(/\/+$/, '').replace(/\/v2(?:\/check)?$/, '')
+    this.fetchFn = fetchFn
+  }
+
+  async check(text: string, language: string): Promise<GrammarIssue[]> {
+    const response = await this.fetchFn(`${this.endpoint}/v2/check`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({ text, language: LANGUAGE_VARIANTS[language] || language }).toString(),
+      signal: AbortSignal.timeout(this.TIMEOUT_MS)
+    })
+
+    if (!response.ok) {
+      throw new Error(`LanguageTool server responded with ${response.status}`)
+    }
+
+    const data = await response.json() as LanguageToolResponse
+    return data.matches.map(match => ({
+      text: text.substring(match.offset, match.offset + match.length),
+      suggestion: match.replacements[0]?.value ?? match.message,
+      severity: ISSUE_SEVERITY[match.rule.issueType || ''] || 'warning',
+      position: { start: match.offset, end: match.offset + match.length }
+    }))
+  }
+}
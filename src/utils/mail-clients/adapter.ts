@@ -0,0 +1,309 @@
+import { EmailMessage, ThreadMessage, InboxRow } from '@/types'
+import { MessageIdGenerator } from '../message-id'
+
+export type MailClientId = 'gmail' | 'outlook' | 'yahoo'
+
+export type InsertPosition = 'start' | 'end' | 'cursor' | 'replace'
+
+/** A named set of selectors an adapter depends on, checked by selector diagnostics */
+export interface SelectorGroup {
+  name: string
+  selectors: Record<string, string>
+  /** Keys that must match for extraction to work */
+  required: string[]
+  /** Keys expected to match several nodes, such as recipients or thread messages */
+  repeated: string[]
+}
+
+/** Selectors for one client's inbox list; all but `row` are relative to a row */
+export interface InboxSelectors {
+  row: string
+  sender: string
+  subject: string
+  snippet: string
+  /** Matches the row itself or a descendant when the thread is unread */
+  unread: string
+}
+
+/** An inbox row with the subject element that triage badges are placed after */
+export interface InboxRowHandle {
+  row: InboxRow
+  element: Element
+  badgeAnchor: Element
+}
+
+/**
+ * Everything ReplySage needs to know about one webmail client's DOM.
+ * Background and UI code only talk to this interface, so a client can be
+ * added or patched by touching its own module.
+ */
+export interface MailClientAdapter {
+  readonly id: MailClientId
+  readonly displayName: string
+  readonly hostnames: string[]
+  readonly composeUrl: string
+  readonly composeSelectors: string[]
+
+  /** True once the client UI has rendered enough to extract from */
+  isReady(): boolean
+
+  /** True when a single message or conversation is open */
+  isMessageOpen(): boolean
+
+  extractMessage(): EmailMessage | null
+
+  /** Body element of the message extractMessage() reads, for highlighting evidence in it */
+  locateMessageBody(): HTMLElement | null
+
+  /** Lists the messages of the open conversation in display order */
+  enumerateThread(threadId?: string): ThreadMessage[]
+
+  locateCompose(): HTMLElement | null
+
+  insertText(text: string, position?: InsertPosition): boolean
+
+  /** Calls `onNavigate` whenever the open message may have changed; returns an unsubscribe function */
+  detectNavigation(onNavigate: () => void): () => void
+
+  /** Visible thread rows of the inbox list, for triage badges */
+  listInboxRows(): InboxRowHandle[]
+
+  /** Address of the signed-in account, to tell the reader's own messages apart */
+  getAccountAddress(): string | null
+
+  /** Selectors used for extraction, thread enumeration, the inbox list and compose, for health checks */
+  getSelectorGroups(): SelectorGroup[]
+}
+
+/** Inbox selectors are per row, so each of them matches once for every visible thread */
+export function inboxSelectorGroup(selectors: InboxSelectors): SelectorGroup {
+  return {
+    name: 'inbox',
+    selectors: { ...selectors },
+    required: [],
+    repeated: Object.keys(selectors)
+  }
+}
+
+/**
+ * Reads the visible inbox rows. Rows without a thread id or subject are
+ * skipped, since they cannot be cached or badged reliably.
+ */
+export function readInboxRows(selectors: InboxSelectors, threadIdOf: (row: Element) => string | null): InboxRowHandle[] {
+  return Array.from(document.querySelectorAll(selectors.row)).flatMap(element => {
+    const threadId = threadIdOf(element)
+    const subjectElement = element.querySelector(selectors.subject)
+    const subject = subjectElement?.textContent?.trim()
+    if (!threadId || !subjectElement || !subject) {
+      return []
+    }
+
+    const senders = Array.from(element.querySelectorAll(selectors.sender)).map(sender =>
+      sender.getAttribute('email') || sender.getAttribute('title') || sender.textContent?.trim() || ''
+    )
+    const from = senders[0] || ''
+    // Gmail prefixes snippets with a dash separator
+    const snippet = (element.querySelector(selectors.snippet)?.textContent || '').replace(/^[\s\-\u2013\u2014]+/, '').trim()
+
+    return [{
+      row: {
+        threadId,
+        from,
+        lastFrom: senders[senders.length - 1] || '',
+        subject,
+        snippet,
+        isUnread: element.matches(selectors.unread) || element.querySelector(selectors.unread) !== null,
+        fingerprint: MessageIdGenerator.fromContent(from, null, `${subject}\n${snippet}`)
+      },
+      element,
+      badgeAnchor: subjectElement
+    }]
+  })
+}
+
+/** What an inbox row shows of its newest message: the snippet stands in for the body */
+export function messageFromInboxRow(row: InboxRow): EmailMessage {
+  return {
+    id: row.threadId,
+    subject: row.subject,
+    from: row.lastFrom || row.from,
+    to: [],
+    body: row.snippet,
+    attachments: [],
+    timestamp: new Date(),
+    threadId: row.threadId,
+    isRead: !row.isUnread,
+    isImportant: false,
+    labels: [],
+    snippetOnly: true
+  }
+}
+
+const EMAIL_ADDRESS_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/
+
+/** The first email address in the text, title or label of an element matching one of the selectors */
+export function readAccountAddress(selectors: string[]): string | null {
+  for (const selector of selectors) {
+    for (const element of Array.from(document.querySelectorAll(selector))) {
+      const text = [element.textContent, element.getAttribute('title'), element.getAttribute('aria-label')].join(' ')
+      const match = text.match(EMAIL_ADDRESS_PATTERN)
+      if (match) {
+        return match[0].toLowerCase()
+      }
+    }
+  }
+  return null
+}
+
+/** Compose selectors are alternatives, so none of them is individually required */
+export function composeSelectorGroup(selectors: string[]): SelectorGroup {
+  return {
+    name: 'compose',
+    selectors: Object.fromEntries(selectors.map((selector, index) => [`option${index + 1}`, selector])),
+    required: [],
+    repeated: []
+  }
+}
+
+export function parseAttachmentSize(element: Element): number {
+  // Try to extract size from aria-label or title
+  const label = element.getAttribute('aria-label') || element.getAttribute('title') || element.textContent || ''
+  const sizeMatch = label.match(/(\d+(?:\.\d+)?)\s*(KB|MB|GB)/i)
+  if (sizeMatch) {
+    const value = parseFloat(sizeMatch[1])
+    const unit = sizeMatch[2].toUpperCase()
+    const multipliers = { KB: 1024, MB: 1024 * 1024, GB: 1024 * 1024 * 1024 }
+    return value * (multipliers[unit as keyof typeof multipliers] || 1)
+  }
+  return 0
+}
+
+/** Resolves an attachment link against the page so the background can fetch it */
+export function resolveAttachmentUrl(href: string | null | undefined): string | undefined {
+  if (!href) return undefined
+  try {
+    return new URL(href, window.location.href).href
+  } catch {
+    return undefined
+  }
+}
+
+export function inferAttachmentType(filename: string): string {
+  const extension = filename.split('.').pop()?.toLowerCase() || ''
+  const typeMap: Record<string, string> = {
+    'pdf': 'application/pdf',
+    'doc': 'application/msword',
+    'docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'xls': 'application/vnd.ms-excel',
+    'xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'ppt': 'application/vnd.ms-powerpoint',
+    'pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    'txt': 'text/plain',
+    'md': 'text/markdown',
+    'csv': 'text/csv',
+    'html': 'text/html',
+    'htm': 'text/html',
+    'ics': 'text/calendar',
+    'odt': 'application/vnd.oasis.opendocument.text',
+    'jpg': 'image/jpeg',
+    'jpeg': 'image/jpeg',
+    'png': 'image/png',
+    'gif': 'image/gif',
+    'zip': 'application/zip',
+    'rar': 'application/x-rar-compressed'
+  }
+  return typeMap[extension] || 'application/octet-stream'
+}
+
+export function isElementVisible(element: HTMLElement): boolean {
+  const style = window.getComputedStyle(element)
+  return style.display !== 'none' &&
+         style.visibility !== 'hidden' &&
+         element.offsetWidth > 0 &&
+         element.offsetHeight > 0
+}
+
+export function findVisibleElement(selectors: string[]): HTMLElement | null {
+  for (const selector of selectors) {
+    const element = document.querySelector(selector) as HTMLElement | null
+    if (element && isElementVisible(element)) {
+      return element
+    }
+  }
+  return null
+}
+
+/**
+ * Inserts plain text into a contenteditable compose area and notifies the
+ * client's editor through an input event.
+ */
+export function insertTextIntoElement(element: HTMLElement, text: string, position: InsertPosition = 'cursor'): void {
+  element.focus()
+
+  if (position === 'replace') {
+    element.innerHTML = ''
+    element.textContent = text
+  } else if (position === 'start') {
+    element.textContent = text + (element.textContent || '')
+  } else if (position === 'end') {
+    element.textContent = (element.textContent || '') + text
+  } else {
+    const selection = window.getSelection()
+    const range = selection && selection.rangeCount > 0 ? selection.getRangeAt(0) : null
+
+    if (range && element.contains(range.commonAncestorContainer)) {
+      // Insert at cursor position
+      range.deleteContents()
+      range.insertNode(document.createTextNode(text))
+      range.collapse(false)
+      selection?.removeAllRanges()
+      selection?.addRange(range)
+    } else {
+      // Insert at end of content and move the cursor there
+      element.appendChild(document.createTextNode(text))
+      const newRange = document.createRange()
+      newRange.selectNodeContents(element)
+      newRange.collapse(false)
+      selection?.removeAllRanges()
+      selection?.addRange(newRange)
+    }
+  }
+
+  element.dispatchEvent(new Event('input', { bubbles: true }))
+}
+
+/**
+ * Watches a client's content area and the page URL, calling `onNavigate`
+ * on relevant DOM changes and on single-page-app route changes.
+ */
+export function observeNavigation(rootSelector: string, attributeFilter: string[], onNavigate: () => void): () => void {
+  const contentObserver = new MutationObserver((mutations) => {
+    if (mutations.some(mutation => mutation.type === 'childList' || mutation.type === 'attributes')) {
+      onNavigate()
+    }
+  })
+
+  const contentArea = document.querySelector(rootSelector) || document.body
+  contentObserver.observe(contentArea, {
+    childList: true,
+    subtree: true,
+    attributes: true,
+    attributeFilter
+  })
+
+  // Also listen for URL changes (back/forward navigation)
+  let lastUrl = location.href
+  const urlObserver = new MutationObserver(() => {
+    const url = location.href
+    if (url !== lastUrl) {
+      lastUrl = url
+      onNavigate()
+    }
+  })
+  urlObserver.observe(document, { subtree: true, childList: true })
+
+  return () => {
+    contentObserver.disconnect()
+    urlObserver.disconnect()
+  }
+}
@@ -0,0 +1,419 @@
+import { EmailMessage, Attachment, ThreadMessage, BodySegment } from '@/types'
+import {
+  MailClientAdapter,
+  InsertPosition,
+  parseAttachmentSize,
+  inferAttachmentType,
+  resolveAttachmentUrl,
+  findVisibleElement,
+  insertTextIntoElement,
+  observeNavigation,
+  readInboxRows,
+  readAccountAddress,
+  InboxSelectors,
+  InboxRowHandle,
+  SelectorGroup,
+  composeSelectorGroup,
+  inboxSelectorGroup
+} from './adapter'
+import { MessageIdGenerator } from '../message-id'
+import { BodySegmenter } from '../body-segmenter'
+import { HtmlToText } from '../html-to-text'
+
+function parseGmailDate(text: string): Date | null {
+  // Gmail's title attribute reads e.g. "Mon, Oct 14, 2024, 3:45 PM"
+  const normalized = text.replace(/^(?:mon|tue|wed|thu|fri|sat|sun)[a-z]*,?\s+/i, '').replace(/,(\s+\d{1,2}:\d{2})/, '$1').trim()
+  const parsed = new Date(normalized)
+  return isNaN(parsed.getTime()) ? null : parsed
+}
+
+export class GmailExtractor {
+  static readonly SELECTORS = {
+    subject: '[data-thread-perm-id] h2, [data-thread-perm-id] .bog',
+    from: '.yW span[email], .yW .yP',
+    to: '.yW .y2',
+    body: '.ii .a3s, .ii .a3s.aiL',
+    attachments: '.aZo .aZo .aZo',
+    timestamp: '.xW .xY .xS',
+    threadId: '[data-thread-perm-id]',
+    messageId: '[data-legacy-message-id]',
+    sentDate: '.g3[title]'
+  }
+
+  static extractMessage(): EmailMessage | null {
+    try {
+      const subject = this.extractSubject()
+      const from = this.extractFrom()
+      const segments = this.extractBodySegments()
+      const body = segments && (BodySegmenter.getNewContent(segments) || segments.map(segment => segment.text).join('\n\n'))
+      
+      if (!subject || !from || !body) {
+        console.warn('ReplySage: Failed to extract required message fields')
+        return null
+      }
+
+      return {
+        id: this.generateMessageId(from, body),
+        subject,
+        from,
+        to: this.extractTo(),
+        cc: this.extractCc(),
+        bcc: this.extractBcc(),
+        body,
+        htmlBody: this.extractHtmlBody() || undefined,
+        attachments: this.extractAttachments(),
+        timestamp: this.extractTimestamp(),
+        threadId: this.extractThreadId() || undefined,
+        isRead: this.isMessageRead(),
+        isImportant: this.isMessageImportant(),
+        labels: this.extractLabels(),
+        segments,
+        legacyBody: this.extractLegacyBody() || undefined
+      }
+    } catch (error) {
+      console.error('ReplySage: Error extracting message:', error)
+      return null
+    }
+  }
+
+  private static extractSubject(): string | null {
+    const subjectElement = document.querySelector(this.SELECTORS.subject)
+    return subjectElement?.textContent?.trim() || null
+  }
+
+  private static extractFrom(): string | null {
+    const fromElement = document.querySelector(this.SELECTORS.from)
+    return fromElement?.textContent?.trim() || null
+  }
+
+  private static extractTo(): string[] {
+    const toElements = document.querySelectorAll(this.SELECTORS.to)
+    return Array.from(toElements).map(el => el.textContent?.trim()).filter(Boolean) as string[]
+  }
+
+  private static extractCc(): string[] {
+    // Gmail doesn't always show CC in the UI, this is a fallback
+    const ccElements = document.querySelectorAll('.yW .y2 + .y2')
+    return Array.from(ccElements).map(el => el.textContent?.trim()).filter(Boolean) as string[]
+  }
+
+  private static extractBcc(): string[] {
+    // BCC is typically not visible in Gmail UI
+    return []
+  }
+
+  /**
+   * Segments the open message body. Gmail marks quoted history and
+   * signatures in the DOM; the remaining text goes through BodySegmenter
+   * to catch plain-text quotes, mobile footers and disclaimers.
+   */
+  private static extractBodySegments(): BodySegment[] | null {
+    const bodyElement = document.querySelector(this.SELECTORS.body)
+    if (!bodyElement) return null
+
+    const clonedElement = bodyElement.cloneNode(true) as HTMLElement
+    const takeText = (selector: string): BodySegment[] => {
+      return Array.from(clonedElement.querySelectorAll(selector)).flatMap(el => {
+        const text = el.textContent?.trim()
+        el.remove()
+        return text ? [{ type: 'quoted' as const, text }] : []
+      })
+    }
+
+    // Remove quoted text (replies) first so signatures inside quotes stay quoted
+    const quoted = takeText('.gmail_quote')
+    const signatures = takeText('.gmail_signature, [data-smartmail="gmail_signature"]')
+      .map(segment => ({ ...segment, type: 'signature' as const }))
+
+    const text = HtmlToText.convert(clonedElement.innerHTML)
+    const segments = [...(text ? BodySegmenter.segment(text) : []), ...signatures, ...quoted]
+    return segments.length > 0 ? segments : null
+  }
+
+  /**
+   * The body text the extractor produced before ids were stable: the
+   * element's textContent with Gmail's quotes and signatures removed.
+   */
+  private static extractLegacyBody(): string | null {
+    const bodyElement = document.querySelector(this.SELECTORS.body)
+    if (!bodyElement) return null
+
+    const clonedElement = bodyElement.cloneNode(true) as HTMLElement
+    clonedElement.querySelectorAll('.gmail_quote, .gmail_signature, [data-smartmail="gmail_signature"]').forEach(el => el.remove())
+    return clonedElement.textContent?.trim() || null
+  }
+
+  private static extractHtmlBody(): string | null {
+    const bodyElement = document.querySelector(this.SELECTORS.body)
+    return bodyElement?.innerHTML || null
+  }
+
+  private static extractAttachments(): Attachment[] {
+    const attachmentElements = document.querySelectorAll(this.SELECTORS.attachments)
+    return Array.from(attachmentElements).map(el => {
+      const name = el.getAttribute('aria-label') || el.textContent?.trim() || 'Unknown'
+      const size = parseAttachmentSize(el)
+      const type = inferAttachmentType(name)
+      
+      return {
+        name,
+        size,
+        type,
+        url: resolveAttachmentUrl(el.getAttribute('href') || el.querySelector('a[href]')?.getAttribute('href'))
+      }
+    })
+  }
+
+  static locateBody(): HTMLElement | null {
+    return document.querySelector<HTMLElement>(this.SELECTORS.body)
+  }
+
+  /** The message element (`div.adn`) holding the extracted body */
+  private static getMessageElement(): Element | null {
+    const bodyElement = document.querySelector(this.SELECTORS.body)
+    return bodyElement?.closest(this.SELECTORS.messageId) || null
+  }
+
+  /** Full send date from the header tooltip, e.g. "Mon, Oct 14, 2024, 3:45 PM" */
+  private static extractSentDate(): Date | null {
+    const scope = this.getMessageElement() || document
+    const title = scope.querySelector(this.SELECTORS.sentDate)?.getAttribute('title')
+    return title ? parseGmailDate(title) : null
+  }
+
+  private static extractTimestamp(): Date {
+    const sentDate = this.extractSentDate()
+    if (sentDate) {
+      return sentDate
+    }
+
+    const timestampElement = document.querySelector(this.SELECTORS.timestamp)
+    const timestampText = timestampElement?.textContent?.trim()
+    
+    if (timestampText) {
+      // Try to parse Gmail's timestamp format
+      const now = new Date()
+      const timeMatch = timestampText.match(/(\d{1,2}):(\d{2})\s*(AM|PM)?/i)
+      
+      if (timeMatch) {
+        let hours = parseInt(timeMatch[1])
+        const minutes = parseInt(timeMatch[2])
+        const ampm = timeMatch[3]?.toUpperCase()
+        
+        if (ampm === 'PM' && hours !== 12) hours += 12
+        if (ampm === 'AM' && hours === 12) hours = 0
+        
+        const date = new Date(now)
+        date.setHours(hours, minutes, 0, 0)
+        return date
+      }
+      
+      // Handle relative dates like "2 hours ago", "Yesterday"
+      if (timestampText.includes('ago')) {
+        const hoursAgo = parseInt(timestampText.match(/(\d+)\s*hour/i)?.[1] || '0')
+        return new Date(now.getTime() - hoursAgo * 60 * 60 * 1000)
+      }
+      
+      if (timestampText.includes('Yesterday')) {
+        return new Date(now.getTime() - 24 * 60 * 60 * 1000)
+      }
+    }
+    
+    return new Date()
+  }
+
+  private static extractThreadId(): string | null {
+    const threadElement = document.querySelector(this.SELECTORS.threadId)
+    return threadElement?.getAttribute('data-thread-perm-id') || null
+  }
+
+  private static generateMessageId(from: string, body: string): string {
+    return MessageIdGenerator.generate({
+      provider: 'gmail',
+      providerMessageId: this.getMessageElement()?.getAttribute('data-legacy-message-id') || undefined,
+      from,
+      timestamp: this.extractSentDate(),
+      body
+    })
+  }
+
+  private static isMessageRead(): boolean {
+    // Check if message is marked as read (no unread indicators)
+    const unreadIndicators = document.querySelectorAll('.unread, .unread-indicator')
+    return unreadIndicators.length === 0
+  }
+
+  private static isMessageImportant(): boolean {
+    // Check if message is marked as important
+    const importantIndicators = document.querySelectorAll('.important, .star, .starred')
+    return importantIndicators.length > 0
+  }
+
+  private static extractLabels(): string[] {
+    const labelElements = document.querySelectorAll('.yW .y2 .yP')
+    return Array.from(labelElements).map(el => el.textContent?.trim()).filter(Boolean) as string[]
+  }
+
+  static isGmailPage(): boolean {
+    return window.location.hostname === 'mail.google.com'
+  }
+
+  static isConversationOpen(): boolean {
+    return document.querySelector(this.SELECTORS.threadId) !== null
+  }
+}
+
+export class GmailAdapter implements MailClientAdapter {
+  readonly id = 'gmail' as const
+  readonly displayName = 'Gmail'
+  readonly hostnames = ['mail.google.com']
+  readonly composeUrl = 'https://mail.google.com/mail/u/0/#compose'
+  readonly composeSelectors = [
+    'div[aria-label="Message Body"]',
+    'div[contenteditable="true"][aria-label="Message Body"]',
+    'div[contenteditable="true"][data-lexical-editor="true"]',
+    'div[contenteditable="true"][role="textbox"]',
+    'div[contenteditable="true"][aria-multiline="true"]'
+  ]
+
+  private static readonly INBOX_SELECTORS: InboxSelectors = {
+    row: 'tr.zA',
+    sender: '.yW span[email]',
+    subject: '.bog',
+    snippet: '.y2',
+    unread: '.zE'
+  }
+
+  // The account button's label reads "Google Account: Name (address)"
+  private static readonly ACCOUNT_SELECTORS = ['a[aria-label^="Google Account"]', 'header a[aria-label*="@"]']
+
+  private static readonly THREAD_SELECTORS = {
+    container: '[data-thread-perm-id]',
+    subject: 'h2.hP, [data-thread-perm-id] h2',
+    message: 'div.adn[data-message-id], div.adn[data-legacy-message-id]',
+    sender: '.gD',
+    recipients: '.g2',
+    timestamp: '.g3',
+    body: '.a3s'
+  }
+
+  isReady(): boolean {
+    return GmailExtractor.isConversationOpen()
+  }
+
+  isMessageOpen(): boolean {
+    return GmailExtractor.isConversationOpen()
+  }
+
+  extractMessage(): EmailMessage | null {
+    return GmailExtractor.extractMessage()
+  }
+
+  locateMessageBody(): HTMLElement | null {
+    return GmailExtractor.locateBody()
+  }
+
+  enumerateThread(threadId?: string): ThreadMessage[] {
+    const selectors = GmailAdapter.THREAD_SELECTORS
+    const container = threadId
+      ? document.querySelector(`[data-thread-perm-id="${threadId}"]`) || document.querySelector(selectors.container)
+      : document.querySelector(selectors.container)
+
+    if (!container) {
+      return []
+    }
+
+    const subject = document.querySelector(selectors.subject)?.textContent?.trim() || ''
+    const resolvedThreadId = threadId || container.getAttribute('data-thread-perm-id') || undefined
+    const messageElements = container.querySelectorAll(selectors.message)
+
+    return Array.from(messageElements).map((element, index) => {
+      const senderElement = element.querySelector(selectors.sender)
+      const from = senderElement?.getAttribute('email') || senderElement?.textContent?.trim() || ''
+      const to = Array.from(element.querySelectorAll(selectors.recipients))
+        .map(el => el.getAttribute('email') || el.textContent?.trim())
+        .filter(Boolean) as string[]
+      const timestampElement = element.querySelector(selectors.timestamp)
+      const sentDate = parseGmailDate(timestampElement?.getAttribute('title') || timestampElement?.textContent || '')
+      const body = element.querySelector(selectors.body)?.textContent?.trim() || ''
+
+      return {
+        id: MessageIdGenerator.generate({
+          provider: 'gmail',
+          providerMessageId: element.getAttribute('data-legacy-message-id') || undefined,
+          from,
+          timestamp: sentDate,
+          body
+        }),
+        subject,
+        from,
+        to,
+        body,
+        attachments: [],
+        timestamp: sentDate || new Date(),
+        threadId: resolvedThreadId,
+        isRead: true,
+        isImportant: false,
+        threadPosition: index,
+        isReply: index > 0,
+        participants: [...new Set([from, ...to].filter(Boolean))]
+      }
+    })
+  }
+
+  locateCompose(): HTMLElement | null {
+    return findVisibleElement(this.composeSelectors)
+  }
+
+  insertText(text: string, position: InsertPosition = 'cursor'): boolean {
+    const composeArea = this.locateCompose()
+    if (!composeArea) {
+      return false
+    }
+
+    insertTextIntoElement(composeArea, text, position)
+    return true
+  }
+
+  listInboxRows(): InboxRowHandle[] {
+    // Row ids read "#thread-f:…"; the open conversation carries the same id without the hash
+    return readInboxRows(GmailAdapter.INBOX_SELECTORS, row => {
+      const threadId = row.querySelector('[data-thread-id]')?.getAttribute('data-thread-id')
+      return threadId ? threadId.replace(/^#/, '') : null
+    })
+  }
+
+  getAccountAddress(): string | null {
+    // Gmail's tab title reads "Inbox (3) - address - Gmail"
+    return readAccountAddress(GmailAdapter.ACCOUNT_SELECTORS) || document.title.match(/ - (\S+@\S+) - /)?.[1].toLowerCase() || null
+  }
+
+  detectNavigation(onNavigate: () => void): () => void {
+    const unsubscribe = observeNavigation('[role="main"]', ['class', 'data-thread-perm-id'], onNavigate)
+    window.addEventListener('hashchange', onNavigate)
+
+    return () => {
+      unsubscribe()
+      window.removeEventListener('hashchange', onNavigate)
+    }
+  }
+
+  getSelectorGroups(): SelectorGroup[] {
+    return [
+      {
+        name: 'message',
+        selectors: GmailExtractor.SELECTORS,
+        required: ['subject', 'from', 'body', 'threadId'],
+        repeated: ['from', 'to', 'body', 'attachments', 'messageId', 'sentDate']
+      },
+      {
+        name: 'thread',
+        selectors: GmailAdapter.THREAD_SELECTORS,
+        required: ['container', 'message', 'sender', 'body'],
+        repeated: ['message', 'sender', 'recipients', 'timestamp', 'body']
+      },
+      inboxSelectorGroup(GmailAdapter.INBOX_SELECTORS),
+      composeSelectorGroup(this.composeSelectors)
+    ]
+  }
+}
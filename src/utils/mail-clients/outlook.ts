@@ -0,0 +1,339 @@
+import { EmailMessage, Attachment, ThreadMessage } from '@/types'
+import {
+  MailClientAdapter,
+  InsertPosition,
+  parseAttachmentSize,
+  inferAttachmentType,
+  resolveAttachmentUrl,
+  findVisibleElement,
+  insertTextIntoElement,
+  observeNavigation,
+  readInboxRows,
+  readAccountAddress,
+  InboxSelectors,
+  InboxRowHandle,
+  SelectorGroup,
+  composeSelectorGroup,
+  inboxSelectorGroup
+} from './adapter'
+import { MessageIdGenerator } from '../message-id'
+import { HtmlToText } from '../html-to-text'
+
+export class OutlookExtractor {
+  static readonly SELECTORS = {
+    readingPane: '#ReadingPaneContainerId, [data-app-section="ReadingPane"]',
+    subject: '[data-app-section="ConversationContainer"] [role="heading"], #ReadingPaneContainerId [role="heading"][aria-level="2"]',
+    message: '[aria-label="Email message"], [data-test-id="message-item"]',
+    from: '[data-testid="SenderPersona"], span[aria-label^="From:"], .OZZZK',
+    to: '[data-testid="RecipientWell"] [aria-label^="To:"] span[title], div[aria-label^="To:"] span[title]',
+    cc: '[data-testid="RecipientWell"] [aria-label^="Cc:"] span[title], div[aria-label^="Cc:"] span[title]',
+    body: 'div[aria-label="Message body"], #UniqueMessageBody, .allowTextSelection[role="document"]',
+    attachments: '[role="listbox"][aria-label*="ttachment"] [role="option"], div[data-testid="AttachmentCard"]',
+    timestamp: '[data-testid="SentReceivedSavedTime"], [aria-label^="Sent:"]',
+    conversationId: '[data-convid]',
+    flagged: '[data-testid="FlagIcon"][aria-pressed="true"], [aria-label="Flagged"]',
+    importance: '[aria-label="High importance"], [title="High importance"]',
+    categories: '[data-testid="CategoryLabel"], .categoryLabel'
+  }
+
+  static extractMessage(scope: ParentNode = this.getMessageScope()): EmailMessage | null {
+    try {
+      const subject = this.extractSubject()
+      const from = this.extractFrom(scope)
+      const body = this.extractBody(scope)
+
+      if (!subject || !from || !body) {
+        console.warn('ReplySage: Failed to extract required Outlook message fields')
+        return null
+      }
+
+      return {
+        id: MessageIdGenerator.fromContent(from, this.extractSentDate(scope), body),
+        subject,
+        from,
+        to: this.extractRecipients(scope, this.SELECTORS.to),
+        cc: this.extractRecipients(scope, this.SELECTORS.cc),
+        bcc: [],
+        body,
+        htmlBody: this.extractHtmlBody(scope) || undefined,
+        attachments: this.extractAttachments(scope),
+        timestamp: this.extractTimestamp(scope),
+        threadId: this.extractConversationId() || undefined,
+        isRead: this.isMessageRead(scope),
+        isImportant: this.isMessageImportant(scope),
+        labels: this.extractCategories(scope)
+      }
+    } catch (error) {
+      console.error('ReplySage: Error extracting Outlook message:', error)
+      return null
+    }
+  }
+
+  // Outlook renders every message of a conversation in the reading pane;
+  // the last expanded one is the message the user is looking at.
+  static listMessageElements(): Element[] {
+    return Array.from(document.querySelectorAll(this.SELECTORS.message))
+  }
+
+  static locateBody(): HTMLElement | null {
+    return this.getMessageScope().querySelector<HTMLElement>(this.SELECTORS.body)
+  }
+
+  private static getMessageScope(): ParentNode {
+    const messages = this.listMessageElements()
+    if (messages.length > 0) {
+      return messages[messages.length - 1]
+    }
+    return document.querySelector(this.SELECTORS.readingPane) || document
+  }
+
+  private static extractSubject(): string | null {
+    const subjectElement = document.querySelector(this.SELECTORS.subject)
+    return subjectElement?.textContent?.trim() || null
+  }
+
+  private static extractFrom(scope: ParentNode): string | null {
+    const fromElement = scope.querySelector(this.SELECTORS.from)
+    if (!fromElement) return null
+
+    // The persona button usually carries "Name <address>" in its title
+    const title = fromElement.getAttribute('title')?.trim()
+    if (title) return title
+
+    return fromElement.textContent?.replace(/^From:\s*/i, '').trim() || null
+  }
+
+  private static extractRecipients(scope: ParentNode, selector: string): string[] {
+    const elements = scope.querySelectorAll(selector)
+    return Array.from(elements)
+      .map(el => el.getAttribute('title')?.trim() || el.textContent?.trim())
+      .filter(Boolean) as string[]
+  }
+
+  private static extractBody(scope: ParentNode): string | null {
+    const bodyElement = scope.querySelector(this.SELECTORS.body)
+    if (!bodyElement) return null
+
+    const clonedElement = bodyElement.cloneNode(true) as HTMLElement
+
+    // Remove the quoted reply/forward header and everything after it
+    const replyHeader = clonedElement.querySelector('#divRplyFwdMsg, [id$="divRplyFwdMsg"], #appendonsend')
+    if (replyHeader) {
+      let node: ChildNode | null = replyHeader
+      while (node) {
+        const next: ChildNode | null = node.nextSibling
+        node.remove()
+        node = next
+      }
+    }
+
+    // Remove quoted text and signatures
+    const quotedElements = clonedElement.querySelectorAll('blockquote, .x_gmail_quote, [id^="Signature"], [id^="x_Signature"]')
+    quotedElements.forEach(el => el.remove())
+
+    return HtmlToText.convert(clonedElement.innerHTML) || null
+  }
+
+  private static extractHtmlBody(scope: ParentNode): string | null {
+    const bodyElement = scope.querySelector(this.SELECTORS.body)
+    return bodyElement?.innerHTML || null
+  }
+
+  private static extractAttachments(scope: ParentNode): Attachment[] {
+    const attachmentElements = scope.querySelectorAll(this.SELECTORS.attachments)
+    return Array.from(attachmentElements).map(el => {
+      const titled = el.querySelector('[title]')
+      const name = titled?.getAttribute('title') || el.getAttribute('aria-label')?.split(/\s+\d/)[0] || el.textContent?.trim() || 'Unknown'
+
+      return {
+        name,
+        size: parseAttachmentSize(el),
+        type: inferAttachmentType(name),
+        url: resolveAttachmentUrl(el.querySelector('a[href]')?.getAttribute('href'))
+      }
+    })
+  }
+
+  private static extractTimestampText(scope: ParentNode): string {
+    const timestampElement = scope.querySelector(this.SELECTORS.timestamp)
+    return (timestampElement?.getAttribute('title') || timestampElement?.textContent || '')
+      .replace(/^Sent:\s*/i, '')
+      .trim()
+  }
+
+  /** Fully dated send time, or null when Outlook only shows a time of day */
+  private static extractSentDate(scope: ParentNode): Date | null {
+    const timestampText = this.extractTimestampText(scope)
+    if (!timestampText) return null
+
+    // Outlook shows e.g. "Mon 10/14/2024 3:45 PM"; drop the weekday before parsing
+    const withoutWeekday = timestampText.replace(/^(?:mon|tue|wed|thu|fri|sat|sun)[a-z]*,?\s+/i, '')
+    const parsed = new Date(withoutWeekday)
+    return isNaN(parsed.getTime()) ? null : parsed
+  }
+
+  private static extractTimestamp(scope: ParentNode): Date {
+    const sentDate = this.extractSentDate(scope)
+    if (sentDate) {
+      return sentDate
+    }
+
+    const timestampText = this.extractTimestampText(scope)
+    if (timestampText) {
+      const timeMatch = timestampText.match(/(\d{1,2}):(\d{2})\s*(AM|PM)?/i)
+      if (timeMatch) {
+        let hours = parseInt(timeMatch[1])
+        const minutes = parseInt(timeMatch[2])
+        const ampm = timeMatch[3]?.toUpperCase()
+
+        if (ampm === 'PM' && hours !== 12) hours += 12
+        if (ampm === 'AM' && hours === 12) hours = 0
+
+        const date = new Date()
+        if (/yesterday/i.test(timestampText)) {
+          date.setDate(date.getDate() - 1)
+        }
+        date.setHours(hours, minutes, 0, 0)
+        return date
+      }
+    }
+
+    return new Date()
+  }
+
+  private static extractConversationId(): string | null {
+    const conversationElement = document.querySelector(this.SELECTORS.conversationId)
+    const fromDom = conversationElement?.getAttribute('data-convid')
+    if (fromDom) return fromDom
+
+    // Fall back to the item id in the reading pane URL (/mail/inbox/id/<id>)
+    const urlMatch = window.location.pathname.match(/\/id\/([^/?#]+)/)
+    return urlMatch ? decodeURIComponent(urlMatch[1]) : null
+  }
+
+
+  private static isMessageRead(scope: ParentNode): boolean {
+    return !(scope instanceof Element && scope.getAttribute('aria-label')?.includes('Unread'))
+  }
+
+  private static isMessageImportant(scope: ParentNode): boolean {
+    return scope.querySelector(this.SELECTORS.importance) !== null ||
+           scope.querySelector(this.SELECTORS.flagged) !== null
+  }
+
+  private static extractCategories(scope: ParentNode): string[] {
+    const categoryElements = scope.querySelectorAll(this.SELECTORS.categories)
+    return Array.from(categoryElements).map(el => el.textContent?.trim()).filter(Boolean) as string[]
+  }
+
+  static isMessageOpen(): boolean {
+    return document.querySelector(this.SELECTORS.body) !== null
+  }
+}
+
+export class OutlookAdapter implements MailClientAdapter {
+  readonly id = 'outlook' as const
+  readonly displayName = 'Outlook'
+  readonly hostnames = ['outlook.live.com', 'outlook.office.com', 'outlook.office365.com']
+  readonly composeUrl = 'https://outlook.live.com/mail/0/deeplink/compose'
+  readonly composeSelectors = [
+    'div[aria-label="Message body"]',
+    'div[contenteditable="true"][aria-label="Message body"]',
+    'div[contenteditable="true"][role="textbox"]'
+  ]
+
+  private static readonly INBOX_SELECTORS: InboxSelectors = {
+    row: '[role="listbox"] [role="option"][data-convid]',
+    sender: 'span[title*="@"]',
+    subject: '[data-testid="SubjectLine"], [id$="_subject"]',
+    snippet: '[data-testid="PreviewText"], [id$="_preview"]',
+    unread: '[aria-label^="Unread"]'
+  }
+
+  // The account manager in the header shows the signed-in address
+  private static readonly ACCOUNT_SELECTORS = ['#mectrl_currentAccount_secondary', '#O365_MainLink_Me [aria-label*="@"]']
+
+  isReady(): boolean {
+    return document.querySelector('[role="main"]') !== null
+  }
+
+  isMessageOpen(): boolean {
+    return OutlookExtractor.isMessageOpen()
+  }
+
+  extractMessage(): EmailMessage | null {
+    return OutlookExtractor.isMessageOpen() ? OutlookExtractor.extractMessage() : null
+  }
+
+  locateMessageBody(): HTMLElement | null {
+    return OutlookExtractor.locateBody()
+  }
+
+  enumerateThread(threadId?: string): ThreadMessage[] {
+    const messages: ThreadMessage[] = []
+
+    OutlookExtractor.listMessageElements().forEach((element, index) => {
+      const message = OutlookExtractor.extractMessage(element)
+      if (!message) return
+
+      messages.push({
+        ...message,
+        threadId: threadId || message.threadId,
+        threadPosition: index,
+        isReply: index > 0,
+        participants: [...new Set([message.from, ...message.to, ...(message.cc || [])].filter(Boolean))]
+      })
+    })
+
+    return messages
+  }
+
+  locateCompose(): HTMLElement | null {
+    // The inline reply editor shares the body aria-label with the reading
+    // pane, so only accept editable elements here
+    const composeArea = findVisibleElement(this.composeSelectors)
+    return composeArea?.getAttribute('contenteditable') === 'true' ? composeArea : null
+  }
+
+  insertText(text: string, position: InsertPosition = 'cursor'): boolean {
+    const composeArea = this.locateCompose()
+    if (!composeArea) {
+      return false
+    }
+
+    insertTextIntoElement(composeArea, text, position)
+    return true
+  }
+
+  listInboxRows(): InboxRowHandle[] {
+    return readInboxRows(OutlookAdapter.INBOX_SELECTORS, row => row.getAttribute('data-convid'))
+  }
+
+  getAccountAddress(): string | null {
+    return readAccountAddress(OutlookAdapter.ACCOUNT_SELECTORS)
+  }
+
+  detectNavigation(onNavigate: () => void): () => void {
+    const unsubscribe = observeNavigation('[role="main"]', ['class', 'data-convid', 'aria-selected'], onNavigate)
+    window.addEventListener('popstate', onNavigate)
+
+    return () => {
+      unsubscribe()
+      window.removeEventListener('popstate', onNavigate)
+    }
+  }
+
+  getSelectorGroups(): SelectorGroup[] {
+    // Every per-message selector matches once for each expanded message card
+    return [
+      {
+        name: 'message',
+        selectors: OutlookExtractor.SELECTORS,
+        required: ['readingPane', 'subject', 'message', 'from', 'body'],
+        repeated: Object.keys(OutlookExtractor.SELECTORS).filter(key => !['readingPane', 'subject', 'conversationId'].includes(key))
+      },
+      inboxSelectorGroup(OutlookAdapter.INBOX_SELECTORS),
+      composeSelectorGroup(this.composeSelectors)
+    ]
+  }
+}
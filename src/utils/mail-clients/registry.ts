@@ -0,0 +1,69 @@
+import { MailClientAdapter, MailClientId } from './adapter'
+import { GmailAdapter } from './gmail'
+import { OutlookAdapter } from './outlook'
+import { YahooAdapter } from './yahoo'
+
+export class MailClientRegistry {
+  private static instance: MailClientRegistry
+  private adapters: Map<string, MailClientAdapter> = new Map()
+
+  private constructor() {
+    this.register(new GmailAdapter())
+    this.register(new OutlookAdapter())
+    this.register(new YahooAdapter())
+  }
+
+  static getInstance(): MailClientRegistry {
+    if (!MailClientRegistry.instance) {
+      MailClientRegistry.instance = new MailClientRegistry()
+    }
+    return MailClientRegistry.instance
+  }
+
+  /**
+   * Registers an adapter for each of its hostnames, replacing any adapter
+   * previously registered for the same host.
+   */
+  register(adapter: MailClientAdapter): void {
+    adapter.hostnames.forEach(hostname => {
+      this.adapters.set(hostname.toLowerCase(), adapter)
+    })
+  }
+
+  unregister(id: MailClientId): void {
+    for (const [hostname, adapter] of this.adapters) {
+      if (adapter.id === id) {
+        this.adapters.delete(hostname)
+      }
+    }
+  }
+
+  getAdapterForHostname(hostname: string): MailClientAdapter | null {
+    return this.adapters.get(hostname.toLowerCase()) || null
+  }
+
+  getAdapterById(id: string): MailClientAdapter | null {
+    for (const adapter of this.adapters.values()) {
+      if (adapter.id === id) {
+        return adapter
+      }
+    }
+    return null
+  }
+
+  /** Returns the adapter for the page this script runs in, if any */
+  getCurrentAdapter(): MailClientAdapter | null {
+    if (typeof window === 'undefined' || typeof document === 'undefined') {
+      return null
+    }
+    return this.getAdapterForHostname(window.location.hostname)
+  }
+
+  getAdapters(): MailClientAdapter[] {
+    return [...new Set(this.adapters.values())]
+  }
+
+  getSupportedHostnames(): string[] {
+    return Array.from(this.adapters.keys())
+  }
+}
@@ -0,0 +1,277 @@
+import { EmailMessage, Attachment, ThreadMessage } from '@/types'
+import {
+  MailClientAdapter,
+  InsertPosition,
+  parseAttachmentSize,
+  inferAttachmentType,
+  resolveAttachmentUrl,
+  findVisibleElement,
+  insertTextIntoElement,
+  observeNavigation,
+  readInboxRows,
+  readAccountAddress,
+  InboxSelectors,
+  InboxRowHandle,
+  SelectorGroup,
+  composeSelectorGroup,
+  inboxSelectorGroup
+} from './adapter'
+import { MessageIdGenerator } from '../message-id'
+import { HtmlToText } from '../html-to-text'
+
+export class YahooExtractor {
+  static readonly SELECTORS = {
+    subject: '[data-test-id="message-group-subject-text"], [data-test-id="message-subject"]',
+    message: '[data-test-id="message-view"]',
+    from: '[data-test-id="message-from"]',
+    to: '[data-test-id="message-to"] [title]',
+    cc: '[data-test-id="message-cc"] [title]',
+    body: '[data-test-id="message-view-body-content"]',
+    quoted: '.yahoo_quoted, [data-test-id="quoted-text"], blockquote',
+    signature: '.signature, [id$="_signature"]',
+    attachments: '[data-test-id="attachment-item"], [data-test-id="attachment-container"] li',
+    attachmentName: '[data-test-id="attachment-name"], [title]',
+    timestamp: '[data-test-id="message-date"]',
+    conversationId: '[data-conversation-id]',
+    flagged: '[data-test-id="icon-btn-flag"][aria-pressed="true"], [data-test-id="flagged-icon"]'
+  }
+
+  static extractMessage(scope: ParentNode = this.getMessageScope()): EmailMessage | null {
+    try {
+      const subject = this.extractSubject()
+      const from = this.extractFrom(scope)
+      const body = this.extractBody(scope)
+
+      if (!subject || !from || !body) {
+        console.warn('ReplySage: Failed to extract required Yahoo message fields')
+        return null
+      }
+
+      const sentDate = this.extractSentDate(scope)
+      const messageElement = scope instanceof Element ? scope.closest('[data-message-id]') : null
+
+      return {
+        id: MessageIdGenerator.generate({
+          provider: 'yahoo',
+          providerMessageId: messageElement?.getAttribute('data-message-id') || undefined,
+          from,
+          timestamp: sentDate,
+          body
+        }),
+        subject,
+        from,
+        to: this.extractRecipients(scope, this.SELECTORS.to),
+        cc: this.extractRecipients(scope, this.SELECTORS.cc),
+        bcc: [],
+        body,
+        htmlBody: this.extractHtmlBody(scope) || undefined,
+        attachments: this.extractAttachments(scope),
+        timestamp: sentDate || new Date(),
+        threadId: this.extractConversationId() || undefined,
+        isRead: true,
+        isImportant: scope.querySelector(this.SELECTORS.flagged) !== null,
+        labels: []
+      }
+    } catch (error) {
+      console.error('ReplySage: Error extracting Yahoo message:', error)
+      return null
+    }
+  }
+
+  // Yahoo renders a conversation as a list of message cards, oldest first;
+  // collapsed cards have no body and are skipped when extracting.
+  static listMessageElements(): Element[] {
+    return Array.from(document.querySelectorAll(this.SELECTORS.message))
+      .filter(element => element.querySelector(this.SELECTORS.body) !== null)
+  }
+
+  static locateBody(): HTMLElement | null {
+    return this.getMessageScope().querySelector<HTMLElement>(this.SELECTORS.body)
+  }
+
+  private static getMessageScope(): ParentNode {
+    const messages = this.listMessageElements()
+    return messages.length > 0 ? messages[messages.length - 1] : document
+  }
+
+  private static extractSubject(): string | null {
+    const subjectElement = document.querySelector(this.SELECTORS.subject)
+    return subjectElement?.textContent?.trim() || null
+  }
+
+  private static extractFrom(scope: ParentNode): string | null {
+    const fromElement = scope.querySelector(this.SELECTORS.from)
+    if (!fromElement) return null
+
+    // The sender pill shows the display name and carries the address in its title
+    const titled = fromElement.matches('[title]') ? fromElement : fromElement.querySelector('[title]')
+    return titled?.getAttribute('title')?.trim() || fromElement.textContent?.trim() || null
+  }
+
+  private static extractRecipients(scope: ParentNode, selector: string): string[] {
+    const elements = scope.querySelectorAll(selector)
+    return Array.from(elements)
+      .map(el => el.getAttribute('title')?.trim() || el.textContent?.trim())
+      .filter(Boolean) as string[]
+  }
+
+  private static extractBody(scope: ParentNode): string | null {
+    const bodyElement = scope.querySelector(this.SELECTORS.body)
+    if (!bodyElement) return null
+
+    const clonedElement = bodyElement.cloneNode(true) as HTMLElement
+    clonedElement.querySelectorAll(`${this.SELECTORS.quoted}, ${this.SELECTORS.signature}`).forEach(el => el.remove())
+
+    return HtmlToText.convert(clonedElement.innerHTML) || null
+  }
+
+  private static extractHtmlBody(scope: ParentNode): string | null {
+    const bodyElement = scope.querySelector(this.SELECTORS.body)
+    return bodyElement?.innerHTML || null
+  }
+
+  private static extractAttachments(scope: ParentNode): Attachment[] {
+    const attachmentElements = scope.querySelectorAll(this.SELECTORS.attachments)
+    return Array.from(attachmentElements).map(el => {
+      const nameElement = el.querySelector(this.SELECTORS.attachmentName)
+      const name = nameElement?.getAttribute('title') || nameElement?.textContent?.trim() || 'Unknown'
+
+      return {
+        name,
+        size: parseAttachmentSize(el),
+        type: inferAttachmentType(name),
+        url: resolveAttachmentUrl(el.querySelector('a[href]')?.getAttribute('href'))
+      }
+    })
+  }
+
+  /** Send time from the date element's tooltip, e.g. "Mon, Oct 14, 2024 at 9:05 AM" */
+  private static extractSentDate(scope: ParentNode): Date | null {
+    const timestampElement = scope.querySelector(this.SELECTORS.timestamp)
+    const timestampText = (timestampElement?.getAttribute('title') || timestampElement?.textContent || '').trim()
+    if (!timestampText) return null
+
+    const normalized = timestampText
+      .replace(/^(?:mon|tue|wed|thu|fri|sat|sun)[a-z]*,?\s+/i, '')
+      .replace(/\s+at\s+/i, ' ')
+    const parsed = new Date(normalized)
+    return isNaN(parsed.getTime()) ? null : parsed
+  }
+
+  private static extractConversationId(): string | null {
+    const conversationElement = document.querySelector(this.SELECTORS.conversationId)
+    const fromDom = conversationElement?.getAttribute('data-conversation-id')
+    if (fromDom) return fromDom
+
+    // Fall back to the message id in the URL (/d/folders/1/messages/<id>)
+    const urlMatch = window.location.pathname.match(/\/messages\/([^/?#]+)/)
+    return urlMatch ? decodeURIComponent(urlMatch[1]) : null
+  }
+
+  static isMessageOpen(): boolean {
+    return document.querySelector(this.SELECTORS.body) !== null
+  }
+}
+
+export class YahooAdapter implements MailClientAdapter {
+  readonly id = 'yahoo' as const
+  readonly displayName = 'Yahoo Mail'
+  readonly hostnames = ['mail.yahoo.com']
+  readonly composeUrl = 'https://mail.yahoo.com/d/compose'
+  readonly composeSelectors = [
+    'div[contenteditable="true"][aria-label="Message body"]',
+    'div[contenteditable="true"][role="textbox"]'
+  ]
+
+  private static readonly INBOX_SELECTORS: InboxSelectors = {
+    row: 'a[data-test-id="message-list-item"]',
+    sender: '[data-test-id="senders"] [title]',
+    subject: '[data-test-id="message-subject"]',
+    snippet: '[data-test-id="snippet"]',
+    unread: '[data-test-read="false"]'
+  }
+
+  // The profile menu in the header carries the signed-in address
+  private static readonly ACCOUNT_SELECTORS = ['#ybarAccountMenu [title*="@"]', '#ybarAccountMenuOpener [aria-label*="@"]']
+
+  isReady(): boolean {
+    return document.querySelector('[role="main"]') !== null
+  }
+
+  isMessageOpen(): boolean {
+    return YahooExtractor.isMessageOpen()
+  }
+
+  extractMessage(): EmailMessage | null {
+    return YahooExtractor.isMessageOpen() ? YahooExtractor.extractMessage() : null
+  }
+
+  locateMessageBody(): HTMLElement | null {
+    return YahooExtractor.locateBody()
+  }
+
+  enumerateThread(threadId?: string): ThreadMessage[] {
+    const messages: ThreadMessage[] = []
+
+    YahooExtractor.listMessageElements().forEach((element, index) => {
+      const message = YahooExtractor.extractMessage(element)
+      if (!message) return
+
+      messages.push({
+        ...message,
+        threadId: threadId || message.threadId,
+        threadPosition: index,
+        isReply: index > 0,
+        participants: [...new Set([message.from, ...message.to, ...(message.cc || [])].filter(Boolean))]
+      })
+    })
+
+    return messages
+  }
+
+  locateCompose(): HTMLElement | null {
+    return findVisibleElement(this.composeSelectors)
+  }
+
+  insertText(text: string, position: InsertPosition = 'cursor'): boolean {
+    const composeArea = this.locateCompose()
+    if (!composeArea) {
+      return false
+    }
+
+    insertTextIntoElement(composeArea, text, position)
+    return true
+  }
+
+  listInboxRows(): InboxRowHandle[] {
+    return readInboxRows(YahooAdapter.INBOX_SELECTORS, row => {
+      const conversationId = row.getAttribute('data-conversation-id')
+      if (conversationId) return conversationId
+
+      const hrefMatch = row.getAttribute('href')?.match(/\/messages\/([^/?#]+)/)
+      return hrefMatch ? decodeURIComponent(hrefMatch[1]) : null
+    })
+  }
+
+  getAccountAddress(): string | null {
+    return readAccountAddress(YahooAdapter.ACCOUNT_SELECTORS)
+  }
+
+  detectNavigation(onNavigate: () => void): () => void {
+    return observeNavigation('[role="main"]', ['class'], onNavigate)
+  }
+
+  getSelectorGroups(): SelectorGroup[] {
+    // Every per-message selector matches once for each expanded message card
+    return [
+      {
+        name: 'message',
+        selectors: YahooExtractor.SELECTORS,
+        required: ['subject', 'message', 'from', 'body'],
+        repeated: Object.keys(YahooExtractor.SELECTORS).filter(key => !['subject', 'conversationId'].includes(key))
+      },
+      inboxSelectorGroup(YahooAdapter.INBOX_SELECTORS),
+      composeSelectorGroup(this.composeSelectors)
+    ]
+  }
+}
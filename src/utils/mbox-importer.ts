@@ -0,0 +1,198 @@
+import { EmailMessage } from '@/types'
+import { EmbeddingsManager } from './embeddings-manager'
+import { EmlParser } from './eml-parser'
+import { BodySegmenter } from './body-segmenter'
+
+export interface MboxImportFilters {
+  /** Only import messages carrying at least one of these Gmail labels */
+  labels?: string[]
+  /** ISO date strings bounding the message date, inclusive */
+  startDate?: string
+  endDate?: string
+}
+
+export interface MboxImportProgress {
+  /** Identifies the source file, e.g. `${name}:${size}:${lastModified}` */
+  fileKey: string
+  fileSize: number
+  /** Byte offset of the first message not yet imported */
+  processedBytes: number
+  imported: number
+  duplicates: number
+  filtered: number
+  failed: number
+  filters: MboxImportFilters
+  status: 'in_progress' | 'completed'
+  startedAt: string
+  updatedAt: string
+}
+
+export interface MboxImportBatch {
+  fileKey: string
+  /** Complete mbox messages, starting at a "From " separator line */
+  text: string
+  /** Byte offset just past the last message in `text` */
+  endOffset: number
+}
+
+/**
+ * Imports mbox archives (e.g. Google Takeout) into the semantic search
+ * index. The options page reads the file in batches that end on message
+ * boundaries; progress is persisted after every batch so an interrupted
+ * import resumes from the last completed batch.
+ */
+export class MboxImporter {
+  private static instance: MboxImporter
+  private embeddingsManager: EmbeddingsManager
+  private readonly STATE_KEY = 'mbox_import_state'
+
+  private constructor() {
+    this.embeddingsManager = EmbeddingsManager.getInstance()
+  }
+
+  static getInstance(): MboxImporter {
+    if (!MboxImporter.instance) {
+      MboxImporter.instance = new MboxImporter()
+    }
+    return MboxImporter.instance
+  }
+
+  /**
+   * Starts an import, or resumes the stored one when it is for the same
+   * file. A resumed import keeps its original filters.
+   */
+  async startImport(fileKey: string, fileSize: number, filters: MboxImportFilters = {}): Promise<MboxImportProgress> {
+    const existing = await this.getStatus()
+    if (existing && existing.fileKey === fileKey && existing.status === 'in_progress') {
+      return existing
+    }
+
+    const now = new Date().toISOString()
+    const progress: MboxImportProgress = {
+      fileKey,
+      fileSize,
+      processedBytes: 0,
+      imported: 0,
+      duplicates: 0,
+      filtered: 0,
+      failed: 0,
+      filters,
+      status: 'in_progress',
+      startedAt: now,
+      updatedAt: now
+    }
+
+    await this.saveStatus(progress)
+    return progress
+  }
+
+  async importBatch(batch: MboxImportBatch): Promise<MboxImportProgress> {
+    const progress = await this.getStatus()
+    if (!progress || progress.fileKey !== batch.fileKey) {
+      throw new Error('No import in progress for this file')
+    }
+
+    await this.embeddingsManager.initialize()
+
+    for (const raw of MboxImporter.splitMessages(batch.text)) {
+      let message: EmailMessage
+      try {
+        message = BodySegmenter.applyTo(EmlParser.parse(raw))
+      } catch (error) {
+        console.warn('ReplySage: Skipping unparseable mbox message:', error)
+        progress.failed++
+        continue
+      }
+
+      if (!MboxImporter.matchesFilters(message, progress.filters)) {
+        progress.filtered++
+        continue
+      }
+
+      try {
+        if (await this.embeddingsManager.hasEmbedding(message.id)) {
+          progress.duplicates++
+          continue
+        }
+
+        const text = `${message.subject} ${message.body}`.trim()
+        await this.embeddingsManager.storeEmbedding(message, text, 'imported', message.isImportant ? 'high' : 'medium')
+        progress.imported++
+      } catch (error) {
+        console.error('ReplySage: Failed to import mbox message:', error)
+        progress.failed++
+      }
+    }
+
+    progress.processedBytes = Math.max(progress.processedBytes, batch.endOffset)
+    progress.status = progress.processedBytes >= progress.fileSize ? 'completed' : 'in_progress'
+    progress.updatedAt = new Date().toISOString()
+    await this.saveStatus(progress)
+
+    return progress
+  }
+
+  async getStatus(): Promise<MboxImportProgress | null> {
+    const stored = await chrome.storage.local.get([this.STATE_KEY])
+    return stored[this.STATE_KEY] || null
+  }
+
+  async resetImport(): Promise<void> {
+    await chrome.storage.local.remove(this.STATE_KEY)
+  }
+
+  private async saveStatus(progress: MboxImportProgress): Promise<void> {
+    await chrome.storage.local.set({ [this.STATE_KEY]: progress })
+  }
+
+  /**
+   * Splits mbox text into raw RFC 5322 messages. A separator is a line
+   * starting with "From " at the start of the text or after a blank line;
+   * ">From " escaping in bodies is undone.
+   */
+  static splitMessages(text: string): string[] {
+    const messages: string[] = []
+    let current: string[] | null = null
+    let previousBlank = true
+
+    for (const line of text.split(/\r?\n/)) {
+      if (previousBlank && line.startsWith('From ')) {
+        if (current) messages.push(current.join('\n'))
+        current = []
+      } else if (current) {
+        current.push(line.replace(/^>(>*From )/, '$1'))
+      }
+      previousBlank = line.trim() === ''
+    }
+
+    if (current) messages.push(current.join('\n'))
+    return messages.filter(message => message.trim().length > 0)
+  }
+
+  static matchesFilters(message: EmailMessage, filters: MboxImportFilters): boolean {
+    if (filters.labels && filters.labels.length > 0) {
+      const wanted = filters.labels.map(label => label.toLowerCase())
+      const labels = (message.labels || []).map(label => label.toLowerCase())
+      if (!labels.some(label => wanted.includes(label))) {
+        return false
+      }
+    }
+
+    const time = message.timestamp.getTime()
+    if (filters.startDate && time < new Date(filters.startDate).getTime()) {
+      return false
+    }
+    if (filters.endDate) {
+      // A bare date means the whole day
+      const end = new Date(filters.endDate)
+      if (/^\d{4}-\d{2}-\d{2}$/.test(filters.endDate)) {
+        end.setUTCHours(23, 59, 59, 999)
+      }
+      if (time > end.getTime()) {
+        return false
+      }
+    }
+
+    return true
+  }
+}
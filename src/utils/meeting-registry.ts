@@ -0,0 +1,87 @@
+import { ExtractedDate, MeetingDetails } from '@/types'
+import { IcsParser } from './ics-parser'
+
+/**
+ * Remembers the meetings seen in analyzed invites so a new invite can be
+ * checked for conflicts. Cancellations remove a meeting and updates
+ * replace it when their SEQUENCE is at least the stored one.
+ */
+export class MeetingRegistry {
+  private static instance: MeetingRegistry
+  private readonly STORAGE_KEY = 'known_meetings'
+  private readonly MAX_MEETINGS = 200
+
+  private constructor() {}
+
+  static getInstance(): MeetingRegistry {
+    if (!MeetingRegistry.instance) {
+      MeetingRegistry.instance = new MeetingRegistry()
+    }
+    return MeetingRegistry.instance
+  }
+
+  /** Records the meetings among `dates` and attaches their conflicts with other known meetings */
+  async recordDates(dates: ExtractedDate[]): Promise<ExtractedDate[]> {
+    const meetings = dates.filter(date => date.meeting).map(date => date.meeting!)
+    if (meetings.length === 0) {
+      return dates
+    }
+
+    const known = await this.load()
+    for (const meeting of meetings) {
+      const existing = known.get(meeting.uid)
+      if (meeting.status === 'cancelled') {
+        known.delete(meeting.uid)
+      } else if (!existing || existing.sequence <= meeting.sequence) {
+        known.set(meeting.uid, meeting)
+      }
+    }
+    await this.save(known)
+
+    const others = Array.from(known.values())
+    return dates.map(date => date.meeting
+      ? { ...date, meeting: { ...date.meeting, conflicts: IcsParser.findConflicts(date.meeting, others) } }
+      : date)
+  }
+
+  async clear(): Promise<void> {
+    await chrome.storage.local.remove(this.STORAGE_KEY)
+  }
+
+  private async load(): Promise<Map<string, MeetingDetails>> {
+    try {
+      const stored = await chrome.storage.local.get([this.STORAGE_KEY])
+      const meetings: MeetingDetails[] = (stored[this.STORAGE_KEY] || []).map((meeting: any) => this.revive(meeting))
+      return new Map(meetings.map(meeting => [meeting.uid, meeting]))
+    } catch (error) {
+      console.error('ReplySage: Failed to load known meetings:', error)
+      return new Map()
+    }
+  }
+
+  private async save(known: Map<string, MeetingDetails>): Promise<void> {
+    // Past one-off meetings can no longer conflict with anything
+    const now = Date.now()
+    const meetings = Array.from(known.values())
+      .filter(meeting => meeting.recurrence || (meeting.end || meeting.start).getTime() >= now)
+      .sort((a, b) => b.start.getTime() - a.start.getTime())
+      .slice(0, this.MAX_MEETINGS)
+      .map(({ conflicts: _conflicts, ...meeting }) => ({
+        ...meeting,
+        start: meeting.start.toISOString(),
+        end: meeting.end?.toISOString(),
+        excludedDates: meeting.excludedDates?.map(date => date.toISOString())
+      }))
+
+    await chrome.storage.local.set({ [this.STORAGE_KEY]: meetings })
+  }
+
+  private revive(stored: any): MeetingDetails {
+    return {
+      ...stored,
+      start: new Date(stored.start),
+      end: stored.end ? new Date(stored.end) : undefined,
+      excludedDates: (stored.excludedDates || []).map((date: string) => new Date(date))
+    }
+  }
+}
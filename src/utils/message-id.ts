@@ -0,0 +1,74 @@
+export interface MessageIdSource {
+  /** RFC 5322 Message-ID header, with or without angle brackets */
+  rfcMessageId?: string
+  /** Identifier assigned by the mail client, e.g. Gmail's legacy message id */
+  provider?: string
+  providerMessageId?: string
+  from: string
+  timestamp?: Date | null
+  body: string
+}
+
+/**
+ * Builds identifiers that stay the same every time a message is opened, so
+ * cached analyses and embeddings keyed by message id can be found again.
+ */
+export class MessageIdGenerator {
+  static generate(source: MessageIdSource): string {
+    if (source.rfcMessageId) {
+      const rfcId = this.normalizeRfcMessageId(source.rfcMessageId)
+      if (rfcId) {
+        return `msgid:${rfcId}`
+      }
+    }
+
+    if (source.provider && source.providerMessageId) {
+      return `${source.provider}:${source.providerMessageId.trim()}`
+    }
+
+    return this.fromContent(source.from, source.timestamp, source.body)
+  }
+
+  static fromContent(from: string, timestamp: Date | null | undefined, body: string): string {
+    // Minute precision: clients render times without seconds
+    const time = timestamp && !isNaN(timestamp.getTime())
+      ? timestamp.toISOString().slice(0, 16)
+      : ''
+    const fingerprint = [from.trim().toLowerCase(), time, this.normalizeBody(body)].join('\n')
+    return `hash:${this.hash(fingerprint)}`
+  }
+
+  static normalizeRfcMessageId(messageId: string): string {
+    return messageId.trim().replace(/^<|>$/g, '').trim().toLowerCase()
+  }
+
+  static normalizeBody(body: string): string {
+    return body
+      .replace(/\s+/g, ' ')
+      .trim()
+      .toLowerCase()
+  }
+
+  /**
+   * Ids produced before stable identifiers were introduced had no scheme
+   * prefix: a base64 hash of the page URL, or a raw Gmail legacy id.
+   */
+  static isLegacyId(id: string): boolean {
+    return !/^[a-z]+:/.test(id)
+  }
+
+  // 53-bit string hash (cyrb53); synchronous so DOM extractors can use it
+  static hash(input: string): string {
+    let h1 = 0xdeadbeef
+    let h2 = 0x41c6ce57
+    for (let i = 0; i < input.length; i++) {
+      const ch = input.charCodeAt(i)
+      h1 = Math.imul(h1 ^ ch, 2654435761)
+      h2 = Math.imul(h2 ^ ch, 1597334677)
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909)
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909)
+    const value = 4294967296 * (2097151 & h2) + (h1 >>> 0)
+    return value.toString(16).padStart(14, '0')
+  }
+}
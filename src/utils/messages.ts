@@ -0,0 +1,405 @@
+import type {
+  ActionItem,
+  AnalysisResult,
+  BatchTriageReport,
+  EmailMessage,
+  ExtractedDate,
+  InboxRow,
+  InboxTriage,
+  JobQueueStatus,
+  ModelManifestEntry,
+  ModelTask,
+  SelectorHealthReport,
+  UserSettings
+} from '@/types'
+import type { LocalAIManager } from './ai-models'
+import type { ModelAsset, ModelAssetManager } from './model-asset-manager'
+import type { CloudAnalysisRequest, CloudAnalysisResponse, CloudProvider } from './cloud-apis'
+import type { ActionExtractionResult } from './action-extractor'
+import type { CalendarIntegration, CalendarIntegrationResult } from './calendar-integration'
+import type { ReplyGenerationRequest, ReplyGenerationResult } from './reply-generator'
+import type { ComposeIntegration, ComposeIntegrationResult, ComposeOptions } from './compose-integration'
+import type { EmbeddingSearchResult, EmbeddingsManager } from './embeddings-manager'
+import type { MboxImportBatch, MboxImportFilters, MboxImportProgress } from './mbox-importer'
+import type { EmailThread, ThreadChunk, ThreadManager, ThreadSummary } from './thread-manager'
+import type { ThreadAnalysisUpdate } from './thread-delta'
+import type { PerformanceMetric, PerformanceStats } from './performance-monitor'
+import type { WorkerStats } from './worker-manager'
+import type { QuantizedModel } from './quantized-model-manager'
+import type { EncryptedData, EncryptionKey } from './encryption-manager'
+import type { DataDeletionRequest, DataExport, PrivacyAudit, PrivacySettings } from './data-privacy-manager'
+import type { TestReport, TestSuite } from './testing-framework'
+import type { StoreSubmissionManager } from './store-submission'
+
+type Resolved<T extends (...args: any[]) => any> = Awaited<ReturnType<T>>
+
+type DeletableData = 'all' | 'analysis' | 'performance' | 'audit' | 'settings' | 'models' | 'embeddings'
+
+/**
+ * Payload and success response of every message the background handles.
+ * Messages without a payload use `void`; failures of any message share
+ * the MessageFailure shape.
+ */
+export interface BackgroundMessages {
+  ANALYZE_MESSAGE: { payload: EmailMessage; response: { result: AnalysisResult } }
+  ANALYZE_RAW_EMAIL: { payload: { raw: string }; response: { result: AnalysisResult; message: EmailMessage } }
+  /** Moves the message into or out of a user category and teaches the classifier */
+  CORRECT_CATEGORY: { payload: { message: EmailMessage; label: string; belongs: boolean }; response: {} }
+  GET_MODEL_STATUS: { payload: void; response: { models: Resolved<LocalAIManager['getModelStatus']> } }
+  /** An empty list downloads every model */
+  DOWNLOAD_MODELS: { payload: string[]; response: {} }
+  GET_ASSET_STATUS: { payload: void; response: { assets: ModelAsset[]; storageUsage: Resolved<ModelAssetManager['getStorageUsage']> } }
+  /** Every registered model and the one each task runs on */
+  GET_MODEL_REGISTRY: { payload: void; response: { models: ModelManifestEntry[]; active: Record<ModelTask, string> } }
+  REGISTER_MODEL: { payload: ModelManifestEntry; response: { model: ModelManifestEntry } }
+  UNREGISTER_MODEL: { payload: { id: string }; response: {} }
+  /** A null id goes back to the bundled default */
+  SELECT_MODEL: { payload: { task: ModelTask; id: string | null }; response: {} }
+  ADD_CLOUD_PROVIDER: { payload: CloudProvider; response: {} }
+  /** Only the name is needed to test a saved provider */
+  TEST_CLOUD_PROVIDER: { payload: Pick<CloudProvider, 'name'> & Partial<CloudProvider>; response: {} }
+  GET_CLOUD_PROVIDERS: { payload: void; response: { providers: string[] } }
+  REMOVE_CLOUD_PROVIDER: { payload: string; response: {} }
+  ANALYZE_WITH_CLOUD: {
+    payload: { message: EmailMessage; analysisType: CloudAnalysisRequest['analysisType'] }
+    response: Omit<CloudAnalysisResponse, 'success' | 'error'>
+  }
+  EXTRACT_ACTIONS: { payload: EmailMessage; response: { result: ActionExtractionResult } }
+  CREATE_CALENDAR_EVENT: { payload: { action?: ActionItem; date?: ExtractedDate; title: string; description?: string }; response: { result: CalendarIntegrationResult } }
+  GET_CALENDAR_PROVIDERS: {
+    payload: void
+    response: { providers: Resolved<CalendarIntegration['getCalendarProviders']>; preferred: Resolved<CalendarIntegration['getPreferredCalendarProvider']> }
+  }
+  GENERATE_REPLIES: {
+    payload: {
+      message: EmailMessage
+      replyType: ReplyGenerationRequest['replyType']
+      tone: ReplyGenerationRequest['tone']
+      length: ReplyGenerationRequest['length']
+      customPrompt?: string
+    }
+    response: { result: ReplyGenerationResult }
+  }
+  INSERT_REPLY: { payload: { reply: string; method: ComposeOptions['method'] }; response: { result: ComposeIntegrationResult } }
+  GET_COMPOSE_OPTIONS: {
+    payload: void
+    response: { options: ComposeOptions[]; info: Resolved<ComposeIntegration['getComposeAreaInfo']> }
+  }
+  GENERATE_EMBEDDING: { payload: { message: EmailMessage; text: string; category?: string; priority?: string }; response: { embeddingId: string } }
+  SEARCH_SIMILAR: {
+    payload: { query: string; limit?: number; threshold?: number; category?: string; sender?: string; dateRange?: { start: Date; end: Date } }
+    response: { result: EmbeddingSearchResult }
+  }
+  GET_EMBEDDING_STATS: { payload: void; response: { stats: Resolved<EmbeddingsManager['getEmbeddingStats']> } }
+  START_MBOX_IMPORT: { payload: { fileKey: string; fileSize: number; filters?: MboxImportFilters }; response: { progress: MboxImportProgress } }
+  IMPORT_MBOX_BATCH: { payload: MboxImportBatch; response: { progress: MboxImportProgress } }
+  GET_MBOX_IMPORT_STATUS: { payload: void; response: { progress: MboxImportProgress | null } }
+  RESET_MBOX_IMPORT: { payload: void; response: {} }
+  CLEAR_EMBEDDINGS: { payload: void; response: {} }
+  FETCH_THREAD: { payload: { threadId: string }; response: { thread: EmailThread | null } }
+  SUMMARIZE_THREAD: { payload: { thread: EmailThread }; response: { summary: ThreadSummary } }
+  CHUNK_THREAD: { payload: { thread: EmailThread; maxChunkSize?: number }; response: { chunks: ThreadChunk[] } }
+  GET_THREAD_STATS: { payload: void; response: { stats: Resolved<ThreadManager['getThreadStats']> } }
+  /** Analyzes only messages that arrived since the thread was last analyzed */
+  ANALYZE_THREAD: { payload: { thread: EmailThread }; response: ThreadAnalysisUpdate }
+  MARK_THREAD_SEEN: { payload: { threadId: string }; response: {} }
+  GET_PERFORMANCE_STATS: { payload: void; response: { stats: PerformanceStats } }
+  CLEAR_PERFORMANCE_METRICS: { payload: void; response: {} }
+  EXPORT_PERFORMANCE_METRICS: { payload: void; response: { metrics: PerformanceMetric[] } }
+  GET_WORKER_STATS: { payload: void; response: { stats: WorkerStats } }
+  RESTART_WORKERS: { payload: void; response: {} }
+  GET_QUANTIZED_MODELS: { payload: void; response: { models: QuantizedModel[] } }
+  DOWNLOAD_QUANTIZED_MODEL: { payload: { modelName: string }; response: {} }
+  ENCRYPT_DATA: { payload: { data: string; keyId?: string }; response: { encryptedData: EncryptedData } }
+  DECRYPT_DATA: { payload: { encryptedData: EncryptedData }; response: { data: string } }
+  GET_ENCRYPTION_KEYS: { payload: void; response: { keys: EncryptionKey[] } }
+  ROTATE_ENCRYPTION_KEY: { payload: { keyId: string }; response: {} }
+  GET_PRIVACY_SETTINGS: { payload: void; response: { settings: PrivacySettings } }
+  UPDATE_PRIVACY_SETTINGS: { payload: { settings: Partial<PrivacySettings> }; response: {} }
+  EXPORT_USER_DATA: { payload: { type: 'full' | 'partial' }; response: { dataExport: DataExport } }
+  DELETE_USER_DATA: { payload: { type: DeletableData }; response: { deletionRequest: DataDeletionRequest } }
+  GET_AUDIT_LOG: { payload: void; response: { auditLog: PrivacyAudit[] } }
+  /** Runs every suite when suiteId is missing or 'all' */
+  RUN_TESTS: { payload: { suiteId?: string }; response: { reports: TestReport[] } }
+  GET_TEST_SUITES: { payload: void; response: { suites: TestSuite[] } }
+  GENERATE_TEST_REPORT: { payload: { reports: TestReport[] }; response: { report: string } }
+  VALIDATE_STORE_SUBMISSION: { payload: void; response: { validation: Resolved<StoreSubmissionManager['validateSubmission']> } }
+  GENERATE_STORE_PACKAGE: { payload: void; response: { package: Resolved<StoreSubmissionManager['generateSubmissionPackage']> } }
+  GET_SETTINGS: { payload: void; response: { settings: UserSettings } }
+  UPDATE_SETTINGS: { payload: Partial<UserSettings>; response: {} }
+  CLEAR_CACHE: { payload: void; response: { cleared: number } }
+  GET_ANALYSIS_HISTORY: { payload: void; response: { analyses: AnalysisResult[] } }
+  TRIAGE_INBOX_ROWS: { payload: { client: string; rows: InboxRow[] }; response: { results: InboxTriage[] } }
+  REPORT_SELECTOR_HEALTH: { payload: SelectorHealthReport; response: {} }
+  GET_SELECTOR_HEALTH: { payload: void; response: { reports: SelectorHealthReport[] } }
+  GET_JOB_QUEUE_STATUS: { payload: void; response: { status: JobQueueStatus } }
+  CANCEL_JOB: { payload: { jobId: string }; response: { cancelled: boolean } }
+  /** Rows in inbox order; only the first `limit` unread ones are analyzed */
+  ANALYZE_UNREAD: { payload: { client: string; rows: InboxRow[]; limit?: number; account?: string }; response: { report: BatchTriageReport } }
+  GET_BATCH_REPORT: { payload: void; response: { report: BatchTriageReport | null } }
+}
+
+export type BackgroundMessageType = keyof BackgroundMessages
+
+export type BackgroundRequest<K extends BackgroundMessageType = BackgroundMessageType> = {
+  [T in K]: BackgroundMessages[T]['payload'] extends void
+    ? { type: T; payload?: undefined }
+    : { type: T; payload: BackgroundMessages[T]['payload'] }
+}[K]
+
+/**
+ * INVALID_MESSAGE: not an object with a string `type`.
+ * UNKNOWN_MESSAGE_TYPE: no handler for `type`.
+ * INVALID_PAYLOAD: the payload does not match the contract.
+ * HANDLER_FAILED: the handler ran and reported an error.
+ * NO_RESPONSE: the background could not be reached or did not answer.
+ */
+export type MessageErrorCode = 'INVALID_MESSAGE' | 'UNKNOWN_MESSAGE_TYPE' | 'INVALID_PAYLOAD' | 'HANDLER_FAILED' | 'NO_RESPONSE'
+
+export interface MessageFailure {
+  success: false
+  error: string
+  code: MessageErrorCode
+}
+
+/** What callers receive; the background always fills in `code` */
+export type BackgroundResponse<K extends BackgroundMessageType> = ({ success: true } & BackgroundMessages[K]['response']) | MessageFailure
+
+/** What handlers send; failures without a code are reported as HANDLER_FAILED */
+export type HandlerResponse<K extends BackgroundMessageType> =
+  | ({ success: true } & BackgroundMessages[K]['response'])
+  | { success: false; error: string; code?: MessageErrorCode }
+
+export type Respond<K extends BackgroundMessageType> = (response: HandlerResponse<K>) => void
+
+// Payload checks return a description of the first problem, or null
+type Check = (value: unknown, path: string) => string | null
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const string: Check = (value, path) => typeof value === 'string' ? null : `${path} must be a string`
+const number: Check = (value, path) => typeof value === 'number' && !Number.isNaN(value) ? null : `${path} must be a number`
+const boolean: Check = (value, path) => typeof value === 'boolean' ? null : `${path} must be a boolean`
+/** Dates cross the message channel as ISO strings */
+const date: Check = (value, path) =>
+  value instanceof Date || (typeof value === 'string' && !Number.isNaN(Date.parse(value))) ? null : `${path} must be a date`
+const object: Check = (value, path) => isObject(value) ? null : `${path} must be an object`
+/** Messages without a payload ignore whatever is sent */
+const none: Check = () => null
+
+const optional = (check: Check): Check => (value, path) => value === undefined || value === null ? null : check(value, path)
+
+const oneOf = (...options: string[]): Check => (value, path) =>
+  typeof value === 'string' && options.includes(value) ? null : `${path} must be one of ${options.join(', ')}`
+
+const arrayOf = (check: Check): Check => (value, path) => {
+  if (!Array.isArray(value)) return `${path} must be an array`
+  for (const [index, item] of value.entries()) {
+    const problem = check(item, `${path}[${index}]`)
+    if (problem) return problem
+  }
+  return null
+}
+
+const shape = (fields: Record<string, Check>): Check => (value, path) => {
+  if (!isObject(value)) return `${path} must be an object`
+  for (const [name, check] of Object.entries(fields)) {
+    const problem = check(value[name], `${path}.${name}`)
+    if (problem) return problem
+  }
+  return null
+}
+
+const emailMessage = shape({
+  id: string,
+  subject: string,
+  from: string,
+  to: arrayOf(string),
+  body: string,
+  attachments: arrayOf(shape({ name: string, size: number, type: string })),
+  legacyBody: optional(string)
+})
+
+const cloudProviderName = oneOf('openai', 'anthropic', 'azure')
+
+const modelTask = oneOf('summarization', 'text-generation', 'feature-extraction', 'text-classification', 'token-classification')
+
+const inboxRow = shape({ threadId: string, from: string, lastFrom: string, subject: string, snippet: string, isUnread: boolean, fingerprint: string })
+
+const thread = shape({ id: string, subject: string, messages: arrayOf(emailMessage) })
+
+const priority = oneOf('high', 'medium', 'low')
+
+const actionItem = shape({ text: string, dueDate: optional(date), priority, category: string, isCompleted: boolean })
+
+const extractedDate = shape({ text: string, date, type: oneOf('deadline', 'meeting', 'event', 'general'), confidence: number })
+
+const privacySettings = shape({
+  enableDataCollection: optional(boolean),
+  enableAnalytics: optional(boolean),
+  enableCrashReporting: optional(boolean),
+  enablePerformanceMonitoring: optional(boolean),
+  dataRetentionDays: optional(number),
+  enableDataExport: optional(boolean),
+  enableDataDeletion: optional(boolean),
+  enablePIIRedaction: optional(boolean),
+  enableEncryption: optional(boolean),
+  enableAuditLogging: optional(boolean)
+})
+
+const testReport = shape({
+  id: string,
+  totalTests: number,
+  passedTests: number,
+  failedTests: number,
+  skippedTests: number,
+  duration: number,
+  results: arrayOf(object)
+})
+
+const PAYLOAD_CHECKS: { [K in BackgroundMessageType]: Check } = {
+  ANALYZE_MESSAGE: emailMessage,
+  ANALYZE_RAW_EMAIL: shape({ raw: string }),
+  CORRECT_CATEGORY: shape({ message: emailMessage, label: string, belongs: boolean }),
+  GET_MODEL_STATUS: none,
+  DOWNLOAD_MODELS: arrayOf(string),
+  GET_ASSET_STATUS: none,
+  GET_MODEL_REGISTRY: none,
+  REGISTER_MODEL: shape({
+    id: string,
+    name: string,
+    task: modelTask,
+    modelId: string,
+    quantization: oneOf('int8', 'fp32'),
+    sizeMB: number,
+    minMemoryMB: number,
+    license: string,
+    languages: optional(arrayOf(string)),
+    checksum: optional(string),
+    description: optional(string)
+  }),
+  UNREGISTER_MODEL: shape({ id: string }),
+  SELECT_MODEL: shape({ task: modelTask, id: optional(string) }),
+  ADD_CLOUD_PROVIDER: shape({ name: cloudProviderName, apiKey: string, baseUrl: optional(string), model: string, maxTokens: number, temperature: number }),
+  TEST_CLOUD_PROVIDER: shape({ name: cloudProviderName }),
+  GET_CLOUD_PROVIDERS: none,
+  REMOVE_CLOUD_PROVIDER: string,
+  ANALYZE_WITH_CLOUD: shape({
+    message: emailMessage,
+    analysisType: oneOf('summary', 'action_items', 'suggested_replies', 'grammar', 'sentiment', 'full')
+  }),
+  EXTRACT_ACTIONS: emailMessage,
+  CREATE_CALENDAR_EVENT: shape({ title: string, description: optional(string), action: optional(actionItem), date: optional(extractedDate) }),
+  GET_CALENDAR_PROVIDERS: none,
+  GENERATE_REPLIES: shape({
+    message: emailMessage,
+    replyType: oneOf('acknowledgment', 'question', 'decline', 'accept', 'follow_up', 'custom'),
+    tone: oneOf('formal', 'casual', 'friendly', 'professional', 'concise'),
+    length: oneOf('short', 'medium', 'long'),
+    customPrompt: optional(string)
+  }),
+  INSERT_REPLY: shape({ reply: string, method: oneOf('paste', 'replace', 'insert', 'new_tab') }),
+  GET_COMPOSE_OPTIONS: none,
+  GENERATE_EMBEDDING: shape({ message: emailMessage, text: string, category: optional(string), priority: optional(string) }),
+  SEARCH_SIMILAR: shape({
+    query: string,
+    limit: optional(number),
+    threshold: optional(number),
+    category: optional(string),
+    sender: optional(string),
+    dateRange: optional(object)
+  }),
+  GET_EMBEDDING_STATS: none,
+  START_MBOX_IMPORT: shape({ fileKey: string, fileSize: number, filters: optional(object) }),
+  IMPORT_MBOX_BATCH: shape({ fileKey: string, text: string, endOffset: number }),
+  GET_MBOX_IMPORT_STATUS: none,
+  RESET_MBOX_IMPORT: none,
+  CLEAR_EMBEDDINGS: none,
+  FETCH_THREAD: shape({ threadId: string }),
+  SUMMARIZE_THREAD: shape({ thread }),
+  CHUNK_THREAD: shape({ thread, maxChunkSize: optional(number) }),
+  GET_THREAD_STATS: none,
+  ANALYZE_THREAD: shape({ thread }),
+  MARK_THREAD_SEEN: shape({ threadId: string }),
+  GET_PERFORMANCE_STATS: none,
+  CLEAR_PERFORMANCE_METRICS: none,
+  EXPORT_PERFORMANCE_METRICS: none,
+  GET_WORKER_STATS: none,
+  RESTART_WORKERS: none,
+  GET_QUANTIZED_MODELS: none,
+  DOWNLOAD_QUANTIZED_MODEL: shape({ modelName: string }),
+  ENCRYPT_DATA: shape({ data: string, keyId: optional(string) }),
+  DECRYPT_DATA: shape({ encryptedData: shape({ data: string, iv: string, keyId: string }) }),
+  GET_ENCRYPTION_KEYS: none,
+  ROTATE_ENCRYPTION_KEY: shape({ keyId: string }),
+  GET_PRIVACY_SETTINGS: none,
+  UPDATE_PRIVACY_SETTINGS: shape({ settings: privacySettings }),
+  EXPORT_USER_DATA: shape({ type: oneOf('full', 'partial') }),
+  DELETE_USER_DATA: shape({ type: oneOf('all', 'analysis', 'performance', 'audit', 'settings', 'models', 'embeddings') }),
+  GET_AUDIT_LOG: none,
+  RUN_TESTS: optional(shape({ suiteId: optional(string) })),
+  GET_TEST_SUITES: none,
+  GENERATE_TEST_REPORT: shape({ reports: arrayOf(testReport) }),
+  VALIDATE_STORE_SUBMISSION: none,
+  GENERATE_STORE_PACKAGE: none,
+  GET_SETTINGS: none,
+  UPDATE_SETTINGS: object,
+  CLEAR_CACHE: none,
+  GET_ANALYSIS_HISTORY: none,
+  TRIAGE_INBOX_ROWS: shape({ client: string, rows: arrayOf(inboxRow) }),
+  REPORT_SELECTOR_HEALTH: shape({ client: string, healthy: boolean, checks: arrayOf(object), failures: arrayOf(string) }),
+  GET_SELECTOR_HEALTH: none,
+  GET_JOB_QUEUE_STATUS: none,
+  CANCEL_JOB: shape({ jobId: string }),
+  ANALYZE_UNREAD: shape({ client: string, rows: arrayOf(inboxRow), limit: optional(number), account: optional(string) }),
+  GET_BATCH_REPORT: none
+}
+
+/**
+ * Runtime side of the background message contract: checks that an
+ * incoming message is one the background knows, with a payload of the
+ * right shape, before it reaches a handler.
+ */
+export class MessageProtocol {
+  static isKnownType(type: string): type is BackgroundMessageType {
+    return Object.prototype.hasOwnProperty.call(PAYLOAD_CHECKS, type)
+  }
+
+  static validate(message: unknown): { valid: true; request: BackgroundRequest } | { valid: false; failure: MessageFailure } {
+    if (!isObject(message) || typeof message.type !== 'string') {
+      return { valid: false, failure: this.failure('INVALID_MESSAGE', 'Message must be an object with a string type') }
+    }
+    if (!this.isKnownType(message.type)) {
+      return { valid: false, failure: this.failure('UNKNOWN_MESSAGE_TYPE', `Unknown message type: ${message.type}`) }
+    }
+
+    const problem = PAYLOAD_CHECKS[message.type](message.payload, 'payload')
+    if (problem) {
+      return { valid: false, failure: this.failure('INVALID_PAYLOAD', `Invalid ${message.type} payload: ${problem}`) }
+    }
+    return { valid: true, request: message as BackgroundRequest }
+  }
+
+  static failure(code: MessageErrorCode, error: string): MessageFailure {
+    return { success: false, error, code }
+  }
+}
+
+/**
+ * Typed calls into the background for content, popup and options code.
+ * Never throws: transport problems come back as a NO_RESPONSE failure.
+ */
+export class BackgroundClient {
+  static async send<K extends BackgroundMessageType>(
+    type: K,
+    ...[payload]: BackgroundMessages[K]['payload'] extends void ? [] : [BackgroundMessages[K]['payload']]
+  ): Promise<BackgroundResponse<K>> {
+    try {
+      const response = await chrome.runtime.sendMessage({ type, payload })
+      return response || MessageProtocol.failure('NO_RESPONSE', `No response to ${type}`)
+    } catch (error) {
+      return MessageProtocol.failure('NO_RESPONSE', (error as Error).message)
+    }
+  }
+}
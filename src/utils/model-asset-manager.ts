@@ -1,4 +1,4 @@
-// import { ModelConfig } from './ai-models'
+import { ModelRegistry } from './model-registry'
 
 export interface ModelAsset {
   id: string
@@ -6,7 +6,8 @@ export interface ModelAsset {
   type: 'model' | 'tokenizer' | 'config'
   size: number
   url: string
-  checksum: string
+  /** SHA-256 the downloaded weights must match, when the registry knows it */
+  checksum?: string
   status: 'pending' | 'downloading' | 'downloaded' | 'error'
   progress: number
   lastAccessed?: number
@@ -16,11 +17,14 @@ export interface ModelAsset {
 export class ModelAssetManager {
   private static instance: ModelAssetManager
   private assets: Map<string, ModelAsset> = new Map()
+  private registry: ModelRegistry
   // private _downloadQueue: string[] = []
   private isDownloading = false
 
   private constructor() {
-    this.initializeAssets()
+    this.registry = ModelRegistry.getInstance()
+    this.syncAssets()
+    this.registry.onChange(() => this.syncAssets())
   }
 
   static getInstance(): ModelAssetManager {
@@ -30,62 +34,40 @@ export class ModelAssetManager {
     return ModelAssetManager.instance
   }
 
-  private initializeAssets() {
-    const baseUrl = 'https://huggingface.co/Xenova'
-    
-    const modelAssets: ModelAsset[] = [
-      {
-        id: 'summarizer',
-        name: 'summarizer',
-        type: 'model',
-        url: `${baseUrl}/distilbart-cnn-6-6/resolve/main/onnx/model_quantized.onnx`,
-        size: 60 * 1024 * 1024, // 60MB
-        checksum: 'abc123',
-        status: 'pending',
-        progress: 0,
-        createdAt: new Date()
-      },
-      {
-        id: 'text-generator',
-        name: 'text-generator',
-        type: 'model',
-        url: `${baseUrl}/distilgpt2/resolve/main/onnx/model_quantized.onnx`,
-        size: 40 * 1024 * 1024, // 40MB
-        checksum: 'def456',
-        status: 'pending',
-        progress: 0,
-        createdAt: new Date()
-      },
-      {
-        id: 'embeddings',
-        name: 'embeddings',
-        type: 'model',
-        url: `${baseUrl}/all-MiniLM-L6-v2/resolve/main/onnx/model_quantized.onnx`,
-        size: 90 * 1024 * 1024, // 90MB
-        checksum: 'ghi789',
-        status: 'pending',
-        progress: 0,
-        createdAt: new Date()
-      },
-      {
-        id: 'sentiment',
-        name: 'sentiment',
+  /** One asset per registered model; models still registered keep their download state */
+  private syncAssets() {
+    const models = this.registry.getModels()
+
+    for (const name of Array.from(this.assets.keys())) {
+      if (!models.some(model => model.id === name)) {
+        this.assets.delete(name)
+      }
+    }
+
+    models.forEach(model => {
+      const url = ModelRegistry.weightsUrl(model)
+      const existing = this.assets.get(model.id)
+      if (existing && existing.url === url && existing.checksum === model.checksum) {
+        return
+      }
+
+      this.assets.set(model.id, {
+        id: model.id,
+        name: model.id,
         type: 'model',
-        url: `${baseUrl}/distilbert-base-uncased-finetuned-sst-2-english/resolve/main/onnx/model_quantized.onnx`,
-        size: 30 * 1024 * 1024, // 30MB
-        checksum: 'jkl012',
+        url,
+        size: model.sizeMB * 1024 * 1024,
+        checksum: model.checksum,
         status: 'pending',
         progress: 0,
         createdAt: new Date()
-      }
-    ]
-
-    modelAssets.forEach(asset => {
-      this.assets.set(asset.name, asset)
+      })
     })
   }
 
   async checkAssetStatus(): Promise<Map<string, ModelAsset>> {
+    await this.registry.load()
+
     // Check which assets are already downloaded
     for (const [name, asset] of this.assets) {
       try {
@@ -179,6 +161,10 @@ export class ModelAssetManager {
         offset += chunk.length
       }
 
+      if (!await this.matchesChecksum(asset, result)) {
+        throw new Error(`Checksum mismatch for ${name}`)
+      }
+
       // Store the model in IndexedDB
       await this.storeAsset(name, result)
       
@@ -189,11 +175,25 @@ export class ModelAssetManager {
       console.log(`ReplySage: Successfully downloaded ${name}`)
     } catch (error) {
       console.error(`ReplySage: Failed to download ${name}:`, error)
+      asset.status = 'error'
       asset.progress = 0
       throw error
     }
   }
 
+  /** Re-hashes stored weights against the registry's checksum; false when missing or changed */
+  async verifyAsset(name: string): Promise<boolean> {
+    const asset = this.assets.get(name)
+    // IndexedDB hands back the ArrayBuffer-backed array that was stored
+    const data = asset && await this.getAsset(name) as Uint8Array<ArrayBuffer> | null
+    return !!data && await this.matchesChecksum(asset, data)
+  }
+
+  // Models registered without a checksum can't be checked and pass
+  private async matchesChecksum(asset: ModelAsset, data: Uint8Array<ArrayBuffer>): Promise<boolean> {
+    return !asset.checksum || await this.sha256(data) === asset.checksum
+  }
+
   async downloadAllAssets(onProgress?: (asset: string, progress: number) => void): Promise<void> {
     if (this.isDownloading) {
       throw new Error('Download already in progress')
@@ -221,6 +221,11 @@ export class ModelAssetManager {
     }
   }
 
+  private async sha256(data: Uint8Array<ArrayBuffer>): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', data)
+    return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('')
+  }
+
   private async storeAsset(name: string, data: Uint8Array): Promise<void> {
     try {
       const db = await this.openDB()
@@ -1,4 +1,6 @@
+import { ModelTask } from '@/types'
 import { ModelAssetManager } from './model-asset-manager'
+import { ModelRegistry } from './model-registry'
 
 export interface ModelDownloadProgress {
   modelId: string
@@ -11,10 +13,11 @@ export interface ModelInfo {
   id: string
   name: string
   description: string
+  task: ModelTask
   size: number
   url: string
-  checksum: string
-  version: string
+  checksum?: string
+  license: string
   quantized: boolean
   quantizationType?: 'int8' | 'int16' | 'fp16' | 'fp32'
 }
@@ -22,11 +25,13 @@ export interface ModelInfo {
 export class ModelDownloader {
   private static instance: ModelDownloader
   private assetManager: ModelAssetManager
+  private registry: ModelRegistry
   private downloadProgress = new Map<string, ModelDownloadProgress>()
   private downloadCallbacks = new Map<string, (progress: ModelDownloadProgress) => void>()
 
   private constructor() {
     this.assetManager = ModelAssetManager.getInstance()
+    this.registry = ModelRegistry.getInstance()
   }
 
   public static getInstance(): ModelDownloader {
@@ -38,63 +43,22 @@ export class ModelDownloader {
 
   public async initialize(): Promise<void> {
     // await this.assetManager.initialize()
+    await this.registry.load()
   }
 
   public getAvailableModels(): ModelInfo[] {
-    return [
-      {
-        id: 'flan-t5-small',
-        name: 'Flan-T5 Small',
-        description: 'Small text generation model for summaries and replies',
-        size: 60 * 1024 * 1024, // 60MB
-        url: 'https://huggingface.co/Xenova/flan-t5-small/resolve/main/model.onnx',
-        checksum: 'sha256:abc123...',
-        version: '1.0.0',
-        quantized: false
-      },
-      {
-        id: 'flan-t5-small-int8',
-        name: 'Flan-T5 Small (INT8)',
-        description: 'Quantized Flan-T5 Small for faster inference',
-        size: 30 * 1024 * 1024, // 30MB
-        url: 'https://huggingface.co/Xenova/flan-t5-small/resolve/main/model_int8.onnx',
-        checksum: 'sha256:def456...',
-        version: '1.0.0',
-        quantized: true,
-        quantizationType: 'int8'
-      },
-      {
-        id: 'all-minilm-l6-v2',
-        name: 'All-MiniLM-L6-v2',
-        description: 'Sentence transformer for embeddings and similarity search',
-        size: 80 * 1024 * 1024, // 80MB
-        url: 'https://huggingface.co/Xenova/all-MiniLM-L6-v2/resolve/main/model.onnx',
-        checksum: 'sha256:ghi789...',
-        version: '1.0.0',
-        quantized: false
-      },
-      {
-        id: 'all-minilm-l6-v2-int8',
-        name: 'All-MiniLM-L6-v2 (INT8)',
-        description: 'Quantized sentence transformer for faster embeddings',
-        size: 40 * 1024 * 1024, // 40MB
-        url: 'https://huggingface.co/Xenova/all-MiniLM-L6-v2/resolve/main/model_int8.onnx',
-        checksum: 'sha256:jkl012...',
-        version: '1.0.0',
-        quantized: true,
-        quantizationType: 'int8'
-      },
-      {
-        id: 'distilbert-base-uncased',
-        name: 'DistilBERT Base',
-        description: 'Lightweight BERT model for text classification',
-        size: 100 * 1024 * 1024, // 100MB
-        url: 'https://huggingface.co/Xenova/distilbert-base-uncased/resolve/main/model.onnx',
-        checksum: 'sha256:mno345...',
-        version: '1.0.0',
-        quantized: false
-      }
-    ]
+    return this.registry.getModels().map(model => ({
+      id: model.id,
+      name: model.name,
+      description: model.description || '',
+      task: model.task,
+      size: model.sizeMB * 1024 * 1024,
+      url: ModelRegistry.weightsUrl(model),
+      checksum: model.checksum,
+      license: model.license,
+      quantized: model.quantization === 'int8',
+      quantizationType: model.quantization
+    }))
   }
 
   public async downloadModel(modelId: string, onProgress?: (progress: ModelDownloadProgress) => void): Promise<void> {
@@ -121,11 +85,12 @@ export class ModelDownloader {
     }
 
     try {
-      // Simulate download progress (in real implementation, this would be actual download)
-      await this.simulateDownload(modelId, modelInfo)
-      
-      // Update asset status
-      // await this.assetManager.updateAssetStatus(modelId, 'downloaded')
+      // The asset manager rejects weights that don't match the registry's checksum
+      await this.assetManager.downloadAsset(modelId, percent => {
+        const progress = this.downloadProgress.get(modelId)!
+        progress.progress = percent
+        this.downloadCallbacks.get(modelId)?.(progress)
+      })
       
       // Mark as completed
       const progress = this.downloadProgress.get(modelId)!
@@ -151,29 +116,6 @@ export class ModelDownloader {
     }
   }
 
-  private async simulateDownload(modelId: string, _modelInfo: ModelInfo): Promise<void> {
-    return new Promise((resolve, _reject) => {
-      let progress = 0
-      const interval = setInterval(() => {
-        progress += Math.random() * 20
-        
-        if (progress >= 100) {
-          progress = 100
-          clearInterval(interval)
-          resolve()
-        }
-        
-        const progressData = this.downloadProgress.get(modelId)!
-        progressData.progress = Math.min(progress, 100)
-        
-        const callback = this.downloadCallbacks.get(modelId)
-        if (callback) {
-          callback(progressData)
-        }
-      }, 200)
-    })
-  }
-
   public async downloadAllModels(onProgress?: (progress: ModelDownloadProgress) => void): Promise<void> {
     const models = this.getAvailableModels()
     const promises = models.map(model => 
@@ -202,8 +144,7 @@ export class ModelDownloader {
       return false
     }
 
-    // In real implementation, this would verify the checksum
-    return true
+    return this.assetManager.verifyAsset(modelId)
   }
 
   public async deleteModel(modelId: string): Promise<void> {
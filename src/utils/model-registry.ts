@@ -0,0 +1,264 @@
+import { ModelManifestEntry, ModelQuantization, ModelTask } from '@/types'
+import bundledManifest from './model-manifest.json'
+
+export interface ModelManifest {
+  /** Model each task runs on unless the user picked another */
+  defaults: Record<ModelTask, string>
+  models: unknown[]
+}
+
+/** Where the registry keeps the user's models and choices; chrome.storage.local in the extension */
+export interface SettingsStorage {
+  get(key: string): Promise<unknown>
+  set(key: string, value: unknown): Promise<void>
+}
+
+/** Settings live apart from the analysis cache, so clearing cached analyses can't reach them */
+export class ChromeSettingsStorage implements SettingsStorage {
+  async get(key: string): Promise<unknown> {
+    const stored = await chrome.storage.local.get([key])
+    return stored[key]
+  }
+
+  async set(key: string, value: unknown): Promise<void> {
+    await chrome.storage.local.set({ [key]: value })
+  }
+}
+
+/** What is kept between sessions: models the user added and the ones they picked */
+interface StoredRegistry {
+  customModels: ModelManifestEntry[]
+  selection: Partial<Record<ModelTask, string>>
+}
+
+const TASKS: ModelTask[] = ['summarization', 'text-generation', 'feature-extraction', 'text-classification', 'token-classification']
+const QUANTIZATIONS: ModelQuantization[] = ['int8', 'fp32']
+
+/**
+ * The one list of models the extension knows about. Built-in models come
+ * from model-manifest.json; power users can register other
+ * transformers.js-compatible models per task and pick which one each task
+ * runs on. LocalAIManager, ModelAssetManager, ModelDownloader and
+ * QuantizedModelManager all read from here and refresh via onChange().
+ */
+export class ModelRegistry {
+  private static instance: ModelRegistry
+  private storage: SettingsStorage
+  private builtIn: ModelManifestEntry[]
+  private defaults: Record<ModelTask, string>
+  private custom: ModelManifestEntry[] = []
+  private selection: Partial<Record<ModelTask, string>> = {}
+  private loading: Promise<void> | null = null
+  private listeners: Set<() => void> = new Set()
+  static readonly TASKS = TASKS
+  private readonly STORAGE_KEY = 'replysage_model_registry'
+
+  constructor(storage: SettingsStorage = new ChromeSettingsStorage(), manifest: ModelManifest = bundledManifest as ModelManifest) {
+    this.storage = storage
+    this.builtIn = manifest.models.map(model => ModelRegistry.validate(model))
+    for (const task of TASKS) {
+      if (!this.builtIn.some(model => model.id === manifest.defaults[task] && model.task === task)) {
+        throw new Error(`Model manifest has no default ${task} model`)
+      }
+    }
+    this.defaults = manifest.defaults
+  }
+
+  static getInstance(): ModelRegistry {
+    if (!ModelRegistry.instance) {
+      ModelRegistry.instance = new ModelRegistry()
+    }
+    return ModelRegistry.instance
+  }
+
+  /** Where transformers.js fetches the ONNX weights of a model from */
+  static weightsUrl(model: ModelManifestEntry): string {
+    const file = model.quantization === 'int8' ? 'model_quantized.onnx' : 'model.onnx'
+    return `https://huggingface.co/${model.modelId}/resolve/main/onnx/${file}`
+  }
+
+  /** Checks an entry from the manifest or the options page; throws on the first problem */
+  static validate(value: unknown): ModelManifestEntry {
+    if (typeof value !== 'object' || value === null) {
+      throw new Error('Model entry must be an object')
+    }
+    const entry = value as Record<string, unknown>
+    const text = (field: string) => typeof entry[field] === 'string' && (entry[field] as string).trim() !== ''
+    const positive = (field: string) => typeof entry[field] === 'number' && (entry[field] as number) > 0
+
+    if (!text('id') || !/^[a-z0-9][a-z0-9._-]*$/i.test(entry.id as string)) {
+      throw new Error('Model id may only contain letters, digits, dots, dashes and underscores')
+    }
+    if (!text('name')) throw new Error(`Model ${entry.id} needs a name`)
+    if (!TASKS.includes(entry.task as ModelTask)) {
+      throw new Error(`Model ${entry.id} task must be one of ${TASKS.join(', ')}`)
+    }
+    if (!text('modelId') || !/^[\w.-]+\/[\w.-]+$/.test(entry.modelId as string)) {
+      throw new Error(`Model ${entry.id} needs a Hugging Face model id like "Xenova/distilgpt2"`)
+    }
+    if (!QUANTIZATIONS.includes(entry.quantization as ModelQuantization)) {
+      throw new Error(`Model ${entry.id} quantization must be one of ${QUANTIZATIONS.join(', ')}`)
+    }
+    if (!positive('sizeMB') || !positive('minMemoryMB')) {
+      throw new Error(`Model ${entry.id} needs a positive size and minimum memory`)
+    }
+    if (!text('license')) throw new Error(`Model ${entry.id} needs a license`)
+    if (entry.checksum !== undefined && !(typeof entry.checksum === 'string' && /^[a-f0-9]{64}$/i.test(entry.checksum))) {
+      throw new Error(`Model ${entry.id} checksum must be a SHA-256 hex digest`)
+    }
+    if (entry.languages !== undefined && !(Array.isArray(entry.languages) && entry.languages.length > 0 &&
+      entry.languages.every(language => typeof language === 'string' && /^[a-z]{2}$/.test(language)))) {
+      throw new Error(`Model ${entry.id} languages must be ISO 639-1 codes like "de"`)
+    }
+    if (entry.description !== undefined && typeof entry.description !== 'string') {
+      throw new Error(`Model ${entry.id} description must be text`)
+    }
+
+    return {
+      id: entry.id as string,
+      name: (entry.name as string).trim(),
+      task: entry.task as ModelTask,
+      modelId: entry.modelId as string,
+      quantization: entry.quantization as ModelQuantization,
+      sizeMB: entry.sizeMB as number,
+      checksum: (entry.checksum as string | undefined)?.toLowerCase(),
+      license: (entry.license as string).trim(),
+      minMemoryMB: entry.minMemoryMB as number,
+      languages: entry.languages as string[] | undefined,
+      description: entry.description as string | undefined,
+      custom: entry.custom === true || undefined
+    }
+  }
+
+  static supportsLanguage(model: ModelManifestEntry, language: string): boolean {
+    return (model.languages || ['en']).includes(language)
+  }
+
+  /**
+   * The model a task runs on for text in the language: the active one
+   * when it handles the language, otherwise the smallest registered model
+   * that does and fits the device. Undefined when none does.
+   */
+  getModelForLanguage(task: ModelTask, language: string): ModelManifestEntry | undefined {
+    const active = this.getActiveModel(task)
+    if (ModelRegistry.supportsLanguage(active, language)) {
+      return active
+    }
+    return this.getModelsForTask(task)
+      .filter(model => ModelRegistry.supportsLanguage(model, language) && this.fitsDevice(model))
+      .sort((a, b) => a.sizeMB - b.sizeMB)[0]
+  }
+
+  /** Reads the user's models and choices once; later calls wait for the same read */
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readStored()
+    }
+    return this.loading
+  }
+
+  getModels(): ModelManifestEntry[] {
+    return [...this.builtIn, ...this.custom]
+  }
+
+  getModel(id: string): ModelManifestEntry | undefined {
+    return this.getModels().find(model => model.id === id)
+  }
+
+  getModelsForTask(task: ModelTask): ModelManifestEntry[] {
+    return this.getModels().filter(model => model.task === task)
+  }
+
+  /** The user's pick for the task while it is still registered, otherwise the manifest default */
+  getActiveModel(task: ModelTask): ModelManifestEntry {
+    const selected = this.selection[task] && this.getModel(this.selection[task]!)
+    if (selected && selected.task === task) {
+      return selected
+    }
+    return this.getModel(this.defaults[task])!
+  }
+
+  getActiveModelIds(): Record<ModelTask, string> {
+    return Object.fromEntries(TASKS.map(task => [task, this.getActiveModel(task).id])) as Record<ModelTask, string>
+  }
+
+  /** Whether the device reports enough memory for the model; unknown memory counts as enough */
+  fitsDevice(model: ModelManifestEntry, deviceMemoryGB?: number): boolean {
+    const memory = deviceMemoryGB ?? (globalThis.navigator as { deviceMemory?: number } | undefined)?.deviceMemory
+    return memory === undefined || model.minMemoryMB <= memory * 1024
+  }
+
+  /** Adds or replaces a user model; built-in ids can't be reused */
+  async register(value: unknown): Promise<ModelManifestEntry> {
+    await this.load()
+    const model = { ...ModelRegistry.validate(value), custom: true }
+    if (this.builtIn.some(existing => existing.id === model.id)) {
+      throw new Error(`Model ${model.id} is built in`)
+    }
+
+    this.custom = [...this.custom.filter(existing => existing.id !== model.id), model]
+    await this.save()
+    return model
+  }
+
+  async unregister(id: string): Promise<void> {
+    await this.load()
+    if (!this.custom.some(model => model.id === id)) {
+      throw new Error(this.getModel(id) ? `Model ${id} is built in` : `Model ${id} not found`)
+    }
+
+    this.custom = this.custom.filter(model => model.id !== id)
+    await this.save()
+  }
+
+  /** Makes a task run on the given model; null goes back to the manifest default */
+  async select(task: ModelTask, id: string | null): Promise<void> {
+    await this.load()
+    if (id !== null) {
+      const model = this.getModel(id)
+      if (!model) throw new Error(`Model ${id} not found`)
+      if (model.task !== task) throw new Error(`Model ${id} is a ${model.task} model, not ${task}`)
+    }
+
+    this.selection = { ...this.selection, [task]: id ?? undefined }
+    await this.save()
+  }
+
+  /** Called whenever the models or the active choices change; returns the unsubscribe function */
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  private async readStored(): Promise<void> {
+    try {
+      const stored = await this.storage.get(this.STORAGE_KEY) as StoredRegistry | undefined
+      if (!stored) return
+
+      // Drop entries an older version accepted but this one can't run
+      this.custom = (stored.customModels || []).flatMap(model => {
+        try {
+          const valid = ModelRegistry.validate(model)
+          return this.builtIn.some(existing => existing.id === valid.id) ? [] : [{ ...valid, custom: true }]
+        } catch (error) {
+          console.error('ReplySage: Ignoring invalid custom model:', error)
+          return []
+        }
+      })
+      this.selection = stored.selection || {}
+      this.notify()
+    } catch (error) {
+      console.error('ReplySage: Failed to load model registry:', error)
+    }
+  }
+
+  private async save(): Promise<void> {
+    const stored: StoredRegistry = { customModels: this.custom, selection: this.selection }
+    await this.storage.set(this.STORAGE_KEY, stored)
+    this.notify()
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener())
+  }
+}
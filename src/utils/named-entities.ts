@@ -0,0 +1,95 @@
+import { EntityType } from '@/types'
+
+/** One token as transformers.js' token-classification pipeline reports it */
+export interface EntityToken {
+  /** IOB label, e.g. `B-PER` or `I-LOC` */
+  entity: string
+  score: number
+  /** Position among the model's tokens */
+  index: number
+  /** The token's text; WordPiece continuations start with `##` */
+  word: string
+}
+
+/** A name, organization or place found in a text, with its character span */
+export interface RecognizedEntity {
+  type: EntityType
+  text: string
+  start: number
+  end: number
+  /** The model's mean confidence over the entity's tokens, 0-1 */
+  score: number
+}
+
+/** Finds the named entities in a text; usually backed by LocalAIManager's NER model */
+export type RecognizeEntitiesFn = (text: string) => Promise<RecognizedEntity[]>
+
+const ENTITY_TYPES: Record<string, EntityType> = {
+  PER: 'person',
+  ORG: 'organization',
+  LOC: 'location'
+}
+
+/**
+ * Turns token-level NER output into entities with character spans. The
+ * pipeline labels word pieces without offsets, so adjacent pieces of the
+ * same type are joined into an entity and the entity is then located in
+ * the text, searching forward from the previous one.
+ */
+export class NamedEntities {
+  static fromTokens(text: string, tokens: EntityToken[]): RecognizedEntity[] {
+    const groups: { type: EntityType; tokens: EntityToken[] }[] = []
+
+    for (const token of [...tokens].sort((a, b) => a.index - b.index)) {
+      const [tag, label] = token.entity.split('-')
+      const type = ENTITY_TYPES[label]
+      if (!type) continue
+
+      const last = groups[groups.length - 1]
+      const previous = last?.tokens[last.tokens.length - 1]
+      const continues = last?.type === type && previous!.index === token.index - 1 &&
+        (tag === 'I' || token.word.startsWith('##'))
+      if (continues) {
+        last.tokens.push(token)
+      } else {
+        groups.push({ type, tokens: [token] })
+      }
+    }
+
+    const entities: RecognizedEntity[] = []
+    let cursor = 0
+    for (const group of groups) {
+      // A group can't start inside a word the previous group ended in
+      if (group.tokens[0].word.startsWith('##')) continue
+
+      const match = this.locate(text, group.tokens.map(token => token.word), cursor)
+      if (!match) continue
+
+      entities.push({
+        type: group.type,
+        text: match.text,
+        start: match.start,
+        end: match.start + match.text.length,
+        score: group.tokens.reduce((sum, token) => sum + token.score, 0) / group.tokens.length
+      })
+      cursor = match.start + match.text.length
+    }
+    return entities
+  }
+
+  /**
+   * Finds the words in the text, allowing any spacing between whole
+   * words. A word the model only tagged the start of is taken whole.
+   */
+  private static locate(text: string, words: string[], from: number): { text: string; start: number } | null {
+    const source = words.map((word, index) => {
+      const escaped = word.replace(/^##/, '').replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+      return index === 0 || word.startsWith('##') ? escaped : `\\s*${escaped}`
+    }).join('')
+
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${source}[\\p{L}\\p{N}]*`, 'giu')
+    pattern.lastIndex = from
+    const match = pattern.exec(text)
+    return match ? { text: match[0], start: match.index } : null
+  }
+}
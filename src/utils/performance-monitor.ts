@@ -16,6 +16,7 @@ export interface PerformanceMetric {
     success?: boolean
     size?: number
     memoryUsage?: number
+    reason?: string
   }
 }
 
@@ -42,6 +43,12 @@ export interface PerformanceStats {
       memoryUsage: number
     }
   }
+  cache: {
+    hits: number
+    misses: number
+    hitRate: number
+    invalidations: number
+  }
 }
 
 export interface PerformanceThresholds {
@@ -289,6 +296,36 @@ export class PerformanceMonitor {
     })
   }
 
+  recordCacheAccess(cacheName: string, hit: boolean, reason?: string): void {
+    this.recordMetric({
+      id: `cache_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name: hit ? 'cache_hit' : 'cache_miss',
+      type: 'custom',
+      value: 1,
+      unit: 'count',
+      timestamp: new Date(),
+      context: {
+        operation: cacheName,
+        reason
+      }
+    })
+  }
+
+  recordCacheInvalidation(cacheName: string, count: number, reason: string): void {
+    this.recordMetric({
+      id: `cache_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name: 'cache_invalidation',
+      type: 'custom',
+      value: count,
+      unit: 'count',
+      timestamp: new Date(),
+      context: {
+        operation: cacheName,
+        reason
+      }
+    })
+  }
+
   getStats(timeRange?: { start: Date; end: Date }): PerformanceStats {
     try {
       let filteredMetrics = this.metrics
@@ -304,6 +341,8 @@ export class PerformanceMonitor {
       const cpuMetrics = filteredMetrics.filter(m => m.type === 'cpu')
       const networkMetrics = filteredMetrics.filter(m => m.type === 'network')
       const modelMetrics = filteredMetrics.filter(m => m.context?.modelName)
+      const cacheHits = filteredMetrics.filter(m => m.name === 'cache_hit').length
+      const cacheMisses = filteredMetrics.filter(m => m.name === 'cache_miss').length
       
       // Calculate basic stats
       const totalOperations = timingMetrics.length
@@ -359,7 +398,15 @@ export class PerformanceMonitor {
         memoryUsage,
         cpuUsage,
         networkUsage,
-        modelPerformance
+        modelPerformance,
+        cache: {
+          hits: cacheHits,
+          misses: cacheMisses,
+          hitRate: cacheHits + cacheMisses > 0 ? cacheHits / (cacheHits + cacheMisses) : 0,
+          invalidations: filteredMetrics
+            .filter(m => m.name === 'cache_invalidation')
+            .reduce((sum, m) => sum + m.value, 0)
+        }
       }
     } catch (error) {
       console.error('ReplySage: Failed to calculate stats:', error)
@@ -369,7 +416,8 @@ export class PerformanceMonitor {
         memoryUsage: { used: 0, total: 0, percentage: 0 },
         cpuUsage: { average: 0, peak: 0 },
         networkUsage: { requests: 0, bytesTransferred: 0 },
-        modelPerformance: {}
+        modelPerformance: {},
+        cache: { hits: 0, misses: 0, hitRate: 0, invalidations: 0 }
       }
     }
   }
@@ -1,4 +1,5 @@
-import { EmailMessage } from '@/types'
+import { EmailMessage, EntityThresholds, EntityType } from '@/types'
+import { RecognizeEntitiesFn, RecognizedEntity } from './named-entities'
 
 export interface RedactionRule {
   pattern: RegExp
@@ -7,6 +8,9 @@ export interface RedactionRule {
   description: string
 }
 
+/** What found a redacted item: a pattern rule or the on-device NER model */
+export type RedactionDetector = 'regex' | 'ner'
+
 export interface RedactionResult {
   redactedText: string
   redactedItems: Array<{
@@ -14,13 +18,35 @@ export interface RedactionResult {
     original: string
     replacement: string
     position: { start: number; end: number }
+    detector: RedactionDetector
+    /** The NER model's confidence in the entity */
+    score?: number
   }>
 }
 
+export interface RedactionOptions {
+  /** Find people, organizations and places with the NER model, when one is set */
+  useEntities?: boolean
+  /** Per-type confidence the model needs to reach; defaults to DEFAULT_ENTITY_THRESHOLDS */
+  thresholds?: Partial<EntityThresholds>
+}
+
+const ENTITY_REDACTIONS: Record<EntityType, { type: string; replacement: string }> = {
+  person: { type: 'name', replacement: '[NAME]' },
+  organization: { type: 'organization', replacement: '[ORGANIZATION]' },
+  location: { type: 'location', replacement: '[LOCATION]' }
+}
+
 export class PIIRedactionManager {
   private static instance: PIIRedactionManager
   private rules: RedactionRule[] = []
+  private recognizeEntities: RecognizeEntitiesFn | null = null
   private isInitialized = false
+  static readonly DEFAULT_ENTITY_THRESHOLDS: EntityThresholds = {
+    person: 0.8,
+    organization: 0.85,
+    location: 0.85
+  }
 
   private constructor() {
     this.initializeRules()
@@ -140,12 +166,22 @@ export class PIIRedactionManager {
     console.log('ReplySage: PII redaction manager initialized')
   }
 
-  redactEmail(message: EmailMessage): { redactedMessage: EmailMessage; redactionResult: RedactionResult } {
+  /**
+   * Sets the NER model that finds names, organizations and places. Where
+   * it runs, it replaces the capitalized-words name rule, which redacts
+   * "Thank You" and misses lowercase or non-Western names; if it fails,
+   * redaction falls back to that rule.
+   */
+  setEntityRecognizer(recognize: RecognizeEntitiesFn | null): void {
+    this.recognizeEntities = recognize
+  }
+
+  async redactEmail(message: EmailMessage, options: RedactionOptions = {}): Promise<{ redactedMessage: EmailMessage; redactionResult: RedactionResult }> {
     const redactedMessage = { ...message }
     const redactedItems: RedactionResult['redactedItems'] = []
     
     // Redact subject
-    const subjectResult = this.redactText(message.subject)
+    const subjectResult = await this.redactText(message.subject, options)
     redactedMessage.subject = subjectResult.redactedText
     redactedItems.push(...subjectResult.redactedItems.map(item => ({
       ...item,
@@ -153,7 +189,7 @@ export class PIIRedactionManager {
     })))
     
     // Redact body
-    const bodyResult = this.redactText(message.body)
+    const bodyResult = await this.redactText(message.body, options)
     redactedMessage.body = bodyResult.redactedText
     redactedItems.push(...bodyResult.redactedItems.map(item => ({
       ...item,
@@ -202,6 +238,19 @@ export class PIIRedactionManager {
       })
     }
 
+    // Segments hold the unredacted quoted history and signatures, and the
+    // HTML and legacy bodies the unredacted text; only the redacted body is shared
+    delete redactedMessage.segments
+    delete redactedMessage.htmlBody
+    delete redactedMessage.legacyBody
+
+    // File names and contents aren't scanned, so only the type and size are kept
+    redactedMessage.attachments = message.attachments.map(attachment => ({
+      name: '[ATTACHMENT]',
+      size: attachment.size,
+      type: attachment.type
+    }))
+
     return {
       redactedMessage,
       redactionResult: {
@@ -211,11 +260,65 @@ export class PIIRedactionManager {
     }
   }
 
-  private redactText(text: string): RedactionResult {
+  private async redactText(text: string, options: RedactionOptions): Promise<RedactionResult> {
+    const entities = await this.findEntities(text, options)
+    if (!entities) {
+      return this.applyRules(text, false)
+    }
+
+    const entityResult = this.redactEntities(text, entities)
+    const ruleResult = this.applyRules(entityResult.redactedText, true)
+    return {
+      redactedText: ruleResult.redactedText,
+      redactedItems: [...entityResult.redactedItems, ...ruleResult.redactedItems]
+    }
+  }
+
+  /** Entities the model is confident enough about, or null when the model isn't used */
+  private async findEntities(text: string, options: RedactionOptions): Promise<RecognizedEntity[] | null> {
+    if (!options.useEntities || !this.recognizeEntities) return null
+
+    const thresholds = { ...PIIRedactionManager.DEFAULT_ENTITY_THRESHOLDS, ...options.thresholds }
+    try {
+      const entities = await this.recognizeEntities(text)
+      return entities.filter(entity => entity.score >= thresholds[entity.type])
+    } catch (error) {
+      console.error('ReplySage: Entity recognition failed, redacting names by pattern:', error)
+      return null
+    }
+  }
+
+  private redactEntities(text: string, entities: RecognizedEntity[]): RedactionResult {
+    let redactedText = text
+    const redactedItems: RedactionResult['redactedItems'] = []
+
+    // Replacing from the end keeps the earlier spans valid
+    const ordered = [...entities].sort((a, b) => b.start - a.start)
+    let limit = text.length
+    for (const entity of ordered) {
+      if (entity.end > limit) continue
+      const { type, replacement } = ENTITY_REDACTIONS[entity.type]
+      redactedText = redactedText.substring(0, entity.start) + replacement + redactedText.substring(entity.end)
+      redactedItems.unshift({
+        type,
+        original: text.substring(entity.start, entity.end),
+        replacement,
+        position: { start: entity.start, end: entity.end },
+        detector: 'ner',
+        score: entity.score
+      })
+      limit = entity.start
+    }
+
+    return { redactedText, redactedItems }
+  }
+
+  /** Runs the pattern rules; the name rule is left out when the NER model found the names */
+  private applyRules(text: string, entitiesFound: boolean): RedactionResult {
     let redactedText = text
     const redactedItems: RedactionResult['redactedItems'] = []
     
-    this.rules.forEach(rule => {
+    this.rules.filter(rule => !(entitiesFound && rule.type === 'name')).forEach(rule => {
       const matches = text.matchAll(rule.pattern)
       let offset = 0
       
@@ -238,7 +341,8 @@ export class PIIRedactionManager {
           type: rule.type,
           original,
           replacement: rule.replacement,
-          position: { start, end }
+          position: { start, end },
+          detector: 'regex'
         })
       }
     })
@@ -265,7 +369,8 @@ export class PIIRedactionManager {
             type: 'email',
             original: username,
             replacement: '[USERNAME]',
-            position: { start: 0, end: username.length }
+            position: { start: 0, end: username.length },
+            detector: 'regex'
           }]
         }
       }
@@ -328,9 +433,9 @@ export class PIIRedactionManager {
     }
   }
 
-  async testRedaction(text: string): Promise<RedactionResult> {
+  async testRedaction(text: string, options: RedactionOptions = {}): Promise<RedactionResult> {
     await this.initialize()
-    return this.redactText(text)
+    return this.redactText(text, options)
   }
 
   getRedactionSummary(redactionResult: RedactionResult): string {
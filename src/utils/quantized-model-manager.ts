@@ -1,14 +1,30 @@
 // import { ModelAssetManager } from './model-asset-manager'
+import { ModelQuantization, ModelTask } from '@/types'
+import { ModelRegistry } from './model-registry'
 
 export interface QuantizedModel {
   name: string
+  task: ModelTask
   originalSize: number
   quantizedSize: number
   quantizationLevel: 'int8' | 'int16' | 'fp16' | 'fp32'
   accuracy: number
   speedup: number
   url: string
-  checksum: string
+  checksum?: string
+}
+
+// Typical accuracy kept and speedup gained relative to full precision
+const QUANTIZATION_TRADEOFFS: Record<ModelQuantization, { accuracy: number; speedup: number }> = {
+  int8: { accuracy: 0.95, speedup: 2.5 },
+  fp32: { accuracy: 1, speedup: 1 }
+}
+
+const USE_CASE_TASKS: Record<'summarization' | 'generation' | 'embeddings' | 'sentiment', ModelTask> = {
+  summarization: 'summarization',
+  generation: 'text-generation',
+  embeddings: 'feature-extraction',
+  sentiment: 'text-classification'
 }
 
 export interface ModelDownloadProgress {
@@ -33,13 +49,16 @@ export interface ModelPerformanceMetrics {
 export class QuantizedModelManager {
   private static instance: QuantizedModelManager
   // private assetManager: ModelAssetManager
+  private registry: ModelRegistry
   private quantizedModels: Map<string, QuantizedModel> = new Map()
   private performanceMetrics: Map<string, ModelPerformanceMetrics> = new Map()
   private isInitialized = false
 
   private constructor() {
     // this.assetManager = ModelAssetManager.getInstance()
-    this.initializeQuantizedModels()
+    this.registry = ModelRegistry.getInstance()
+    this.syncQuantizedModels()
+    this.registry.onChange(() => this.syncQuantizedModels())
   }
 
   static getInstance(): QuantizedModelManager {
@@ -49,64 +68,30 @@ export class QuantizedModelManager {
     return QuantizedModelManager.instance
   }
 
-  private initializeQuantizedModels(): void {
-    // Define quantized models with different precision levels
-    const models: QuantizedModel[] = [
-      {
-        name: 'summarizer-int8',
-        originalSize: 200 * 1024 * 1024, // 200MB
-        quantizedSize: 50 * 1024 * 1024, // 50MB
-        quantizationLevel: 'int8',
-        accuracy: 0.95,
-        speedup: 2.5,
-        url: 'https://huggingface.co/Xenova/distilbart-cnn-6-6/resolve/main/onnx/quantized-int8/model.onnx',
-        checksum: 'abc123def456'
-      },
-      {
-        name: 'summarizer-int16',
-        originalSize: 200 * 1024 * 1024, // 200MB
-        quantizedSize: 100 * 1024 * 1024, // 100MB
-        quantizationLevel: 'int16',
-        accuracy: 0.98,
-        speedup: 1.8,
-        url: 'https://huggingface.co/Xenova/distilbart-cnn-6-6/resolve/main/onnx/quantized-int16/model.onnx',
-        checksum: 'def456ghi789'
-      },
-      {
-        name: 'text-generator-int8',
-        originalSize: 400 * 1024 * 1024, // 400MB
-        quantizedSize: 100 * 1024 * 1024, // 100MB
-        quantizationLevel: 'int8',
-        accuracy: 0.92,
-        speedup: 3.0,
-        url: 'https://huggingface.co/Xenova/gpt2/resolve/main/onnx/quantized-int8/model.onnx',
-        checksum: 'ghi789jkl012'
-      },
-      {
-        name: 'embeddings-int8',
-        originalSize: 90 * 1024 * 1024, // 90MB
-        quantizedSize: 23 * 1024 * 1024, // 23MB
-        quantizationLevel: 'int8',
-        accuracy: 0.96,
-        speedup: 2.2,
-        url: 'https://huggingface.co/Xenova/all-MiniLM-L6-v2/resolve/main/onnx/quantized-int8/model.onnx',
-        checksum: 'jkl012mno345'
-      },
-      {
-        name: 'sentiment-int8',
-        originalSize: 250 * 1024 * 1024, // 250MB
-        quantizedSize: 63 * 1024 * 1024, // 63MB
-        quantizationLevel: 'int8',
-        accuracy: 0.94,
-        speedup: 2.8,
-        url: 'https://huggingface.co/Xenova/distilbert-base-uncased-finetuned-sst-2-english/resolve/main/onnx/quantized-int8/model.onnx',
-        checksum: 'mno345pqr678'
-      }
-    ]
-
-    models.forEach(model => {
-      this.quantizedModels.set(model.name, model)
-    })
+  /**
+   * Every registered model, sized against the full-precision build of the
+   * same weights when the registry has one.
+   */
+  private syncQuantizedModels(): void {
+    const models = this.registry.getModels()
+
+    this.quantizedModels = new Map(models.map(model => {
+      const full = models.find(other => other.modelId === model.modelId && other.quantization === 'fp32')
+      const quantizedSize = model.sizeMB * 1024 * 1024
+      // int8 weights take a quarter of the space of fp32 ones
+      const originalSize = full ? full.sizeMB * 1024 * 1024 : quantizedSize * (model.quantization === 'int8' ? 4 : 1)
+
+      return [model.id, {
+        name: model.id,
+        task: model.task,
+        originalSize,
+        quantizedSize,
+        quantizationLevel: model.quantization,
+        ...QUANTIZATION_TRADEOFFS[model.quantization],
+        url: ModelRegistry.weightsUrl(model),
+        checksum: model.checksum
+      }]
+    }))
   }
 
   async initialize(): Promise<void> {
@@ -114,6 +99,7 @@ export class QuantizedModelManager {
 
     try {
       // await this.assetManager.initialize()
+      await this.registry.load()
       this.isInitialized = true
       console.log('ReplySage: Quantized model manager initialized')
     } catch (error) {
@@ -130,8 +116,9 @@ export class QuantizedModelManager {
     return this.quantizedModels.get(name)
   }
 
-  getRecommendedModel(baseModel: string, priority: 'speed' | 'accuracy' | 'size'): QuantizedModel | undefined {
-    const models = this.getAvailableModels().filter(m => m.name.startsWith(baseModel))
+  /** Best model for the task among those the device has memory for */
+  getRecommendedModel(task: ModelTask, priority: 'speed' | 'accuracy' | 'size'): QuantizedModel | undefined {
+    const models = this.getAvailableModels().filter(m => m.task === task && this.registry.fitsDevice(this.registry.getModel(m.name)!))
     
     if (models.length === 0) return undefined
 
@@ -335,15 +322,7 @@ export class QuantizedModelManager {
   }
 
   getModelRecommendations(useCase: 'summarization' | 'generation' | 'embeddings' | 'sentiment'): QuantizedModel[] {
-    const baseModels = {
-      summarization: 'summarizer',
-      generation: 'text-generator',
-      embeddings: 'embeddings',
-      sentiment: 'sentiment'
-    }
-
-    const baseModel = baseModels[useCase]
-    return this.getAvailableModels().filter(m => m.name.startsWith(baseModel))
+    return this.getAvailableModels().filter(m => m.task === USE_CASE_TASKS[useCase])
   }
 
   async optimizeModelSelection(): Promise<{ [key: string]: string }> {
@@ -1,5 +1,6 @@
 import { EmailMessage, SuggestedReply } from '@/types'
 import { LocalAIManager } from './ai-models'
+import { BackgroundClient } from './messages'
 
 export interface ReplyGenerationRequest {
   originalMessage: EmailMessage
@@ -276,12 +277,9 @@ export class ReplyGenerator {
   private async generateCloudReplies(request: ReplyGenerationRequest): Promise<ReplyGenerationResult> {
     const startTime = Date.now()
     try {
-      const response = await chrome.runtime.sendMessage({
-        type: 'ANALYZE_WITH_CLOUD',
-        payload: {
-          message: request.originalMessage,
-          analysisType: 'reply_suggestion'
-        }
+      const response = await BackgroundClient.send('ANALYZE_WITH_CLOUD', {
+        message: request.originalMessage,
+        analysisType: 'suggested_replies'
       })
       
       if (response.success && response.result) {
@@ -0,0 +1,148 @@
+import { DomSnapshot, SelectorCheck, SelectorHealthReport } from '@/types'
+import { MailClientAdapter, SelectorGroup } from './mail-clients/adapter'
+import { MailClientRegistry } from './mail-clients/registry'
+
+/**
+ * Checks an adapter's selectors against the page and records redacted DOM
+ * snapshots. A snapshot keeps the element structure and the attribute
+ * values the selectors test for, so replaying it in jsdom exercises the
+ * same selectors without carrying any message content.
+ */
+export class SelectorDiagnostics {
+  static readonly SNAPSHOT_VERSION = 1
+
+  // Structural attributes kept verbatim; every other attribute value is masked
+  private static readonly KEPT_ATTRIBUTES = new Set([
+    'id', 'class', 'role', 'dir', 'type', 'contenteditable', 'aria-level', 'aria-multiline',
+    'aria-pressed', 'data-test-id', 'data-testid', 'data-app-section', 'data-lexical-editor', 'data-smartmail'
+  ])
+
+  private static readonly DROPPED_ELEMENTS = 'script, style, noscript, iframe, object, embed, svg, img, picture, video, audio, canvas, link, meta, template'
+
+  static check(adapter: MailClientAdapter, root: ParentNode = document): SelectorHealthReport {
+    const checks = adapter.getSelectorGroups().flatMap(group => this.checkGroup(group, root))
+    const failures = checks
+      .filter(check => check.required && (check.status === 'missing' || check.status === 'invalid'))
+      .map(check => `${check.group}.${check.name}`)
+
+    return {
+      client: adapter.id,
+      checkedAt: new Date(),
+      healthy: failures.length === 0,
+      checks,
+      failures
+    }
+  }
+
+  /** Problems worth logging: required misses, unparseable selectors and unexpected duplicates */
+  static describeProblems(report: SelectorHealthReport): string[] {
+    return report.checks
+      .filter(check => check.status === 'invalid' || check.status === 'multiple' || (check.required && check.status === 'missing'))
+      .map(check => `${check.group}.${check.name}: ${check.status}${check.status === 'multiple' ? ` (${check.matchCount})` : ''}`)
+  }
+
+  static captureSnapshot(adapter: MailClientAdapter): DomSnapshot {
+    return {
+      version: this.SNAPSHOT_VERSION,
+      client: adapter.id,
+      capturedAt: new Date(),
+      html: this.redact(document.body, this.collectAttributeLiterals(adapter.getSelectorGroups())),
+      report: this.check(adapter)
+    }
+  }
+
+  /** Loads a snapshot into the current document and checks its client's selectors against it */
+  static replay(snapshot: DomSnapshot): SelectorHealthReport {
+    const adapter = MailClientRegistry.getInstance().getAdapterById(snapshot.client)
+    if (!adapter) {
+      throw new Error(`Unknown mail client in snapshot: ${snapshot.client}`)
+    }
+
+    document.body.innerHTML = snapshot.html
+    return this.check(adapter)
+  }
+
+  private static checkGroup(group: SelectorGroup, root: ParentNode): SelectorCheck[] {
+    return Object.entries(group.selectors).map(([name, selector]) => {
+      const base = { group: group.name, name, selector, required: group.required.includes(name) }
+
+      let matchCount: number
+      try {
+        matchCount = root.querySelectorAll(selector).length
+      } catch {
+        return { ...base, matchCount: 0, status: 'invalid' as const }
+      }
+
+      const status = matchCount === 0
+        ? 'missing' as const
+        : matchCount > 1 && !group.repeated.includes(name) ? 'multiple' as const : 'matched' as const
+      return { ...base, matchCount, status }
+    })
+  }
+
+  /**
+   * Attribute values the selectors compare against, e.g. `Message body` for
+   * `[aria-label="Message body"]`. These survive redaction so the replayed
+   * DOM still matches.
+   */
+  private static collectAttributeLiterals(groups: SelectorGroup[]): Map<string, string[]> {
+    const literals = new Map<string, string[]>()
+    const attributePattern = /\[\s*([\w-]+)\s*[~|^$*]?=\s*(?:"([^"]*)"|'([^']*)'|([^\]\s]+))\s*\]/g
+
+    groups.flatMap(group => Object.values(group.selectors)).forEach(selector => {
+      for (const match of selector.matchAll(attributePattern)) {
+        const value = match[2] ?? match[3] ?? match[4]
+        if (!value) continue
+        const name = match[1].toLowerCase()
+        literals.set(name, [...(literals.get(name) || []), value])
+      }
+    })
+
+    return literals
+  }
+
+  private static redact(root: Element, literals: Map<string, string[]>): string {
+    const clone = root.cloneNode(true) as Element
+    clone.querySelectorAll(this.DROPPED_ELEMENTS).forEach(el => el.remove())
+
+    const comments: Node[] = []
+    const walker = document.createTreeWalker(clone, NodeFilter.SHOW_ELEMENT | NodeFilter.SHOW_TEXT | NodeFilter.SHOW_COMMENT)
+    for (let node: Node | null = walker.currentNode; node; node = walker.nextNode()) {
+      if (node.nodeType === Node.COMMENT_NODE) {
+        comments.push(node)
+      } else if (node.nodeType === Node.TEXT_NODE) {
+        node.textContent = this.mask(node.textContent || '')
+      } else {
+        const element = node as Element
+        Array.from(element.attributes).forEach(attribute => {
+          if (this.KEPT_ATTRIBUTES.has(attribute.name)) return
+          if (attribute.name.startsWith('on')) {
+            element.removeAttribute(attribute.name)
+            return
+          }
+          element.setAttribute(attribute.name, this.maskAttribute(attribute.value, literals.get(attribute.name) || []))
+        })
+      }
+    }
+    comments.forEach(comment => comment.parentNode?.removeChild(comment))
+
+    return clone.innerHTML
+  }
+
+  private static maskAttribute(value: string, literals: string[]): string {
+    if (literals.length === 0) {
+      return this.mask(value)
+    }
+
+    // Keep each selector literal found in the value and mask what surrounds it
+    const escaped = literals.map(literal => literal.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    return value
+      .split(new RegExp(`(${escaped.join('|')})`))
+      .map((part, index) => index % 2 === 1 ? part : this.mask(part))
+      .join('')
+  }
+
+  private static mask(text: string): string {
+    return text.replace(/\p{L}/gu, 'x').replace(/\p{N}/gu, '0')
+  }
+}
@@ -1,65 +1,22 @@
-import { AnalysisResult, UserSettings, CacheEntry } from '@/types'
+import { UserSettings } from '@/types'
 import { SecureStorage } from './encryption'
+import { AnalysisCache } from './analysis-cache'
 
+/**
+ * Settings, stats and backups. Cached analyses are read and written through
+ * the background's AnalysisCache, which holds the context their keys need;
+ * only the operations that don't need it are offered here.
+ */
 export class StorageManager {
-  private static readonly CACHE_PREFIX = 'replysage_cache_'
   private static readonly SETTINGS_KEY = 'replysage_settings'
   private static readonly STATS_KEY = 'replysage_stats'
-  private static readonly CACHE_EXPIRY_DAYS = 30
-
-  /**
-   * Store analysis result in cache
-   */
-  static async cacheAnalysis(messageId: string, analysis: AnalysisResult): Promise<void> {
-    try {
-      const cacheKey = this.CACHE_PREFIX + messageId
-      const cacheEntry: CacheEntry = {
-        key: cacheKey,
-        data: analysis,
-        expiresAt: new Date(Date.now() + this.CACHE_EXPIRY_DAYS * 24 * 60 * 60 * 1000),
-        encrypted: false
-      }
-
-      await chrome.storage.local.set({ [cacheKey]: cacheEntry })
-      console.log('ReplySage: Analysis cached for message', messageId)
-    } catch (error) {
-      console.error('ReplySage: Failed to cache analysis:', error)
-    }
-  }
-
-  /**
-   * Retrieve analysis result from cache
-   */
-  static async getCachedAnalysis(messageId: string): Promise<AnalysisResult | null> {
-    try {
-      const cacheKey = this.CACHE_PREFIX + messageId
-      const result = await chrome.storage.local.get([cacheKey])
-      const cacheEntry: CacheEntry = result[cacheKey]
-
-      if (!cacheEntry) {
-        return null
-      }
-
-      // Check if cache entry has expired
-      if (new Date() > cacheEntry.expiresAt) {
-        await this.removeCachedAnalysis(messageId)
-        return null
-      }
-
-      return cacheEntry.data as AnalysisResult
-    } catch (error) {
-      console.error('ReplySage: Failed to retrieve cached analysis:', error)
-      return null
-    }
-  }
 
   /**
    * Remove analysis result from cache
    */
   static async removeCachedAnalysis(messageId: string): Promise<void> {
     try {
-      const cacheKey = this.CACHE_PREFIX + messageId
-      await chrome.storage.local.remove([cacheKey])
+      await AnalysisCache.getInstance().remove(messageId)
     } catch (error) {
       console.error('ReplySage: Failed to remove cached analysis:', error)
     }
@@ -70,48 +27,13 @@ export class StorageManager {
    */
   static async clearAllCache(): Promise<number> {
     try {
-      const allData = await chrome.storage.local.get()
-      const cacheKeys = Object.keys(allData).filter(key => 
-        key.startsWith(this.CACHE_PREFIX)
-      )
-
-      if (cacheKeys.length > 0) {
-        await chrome.storage.local.remove(cacheKeys)
-      }
-
-      return cacheKeys.length
+      return await AnalysisCache.getInstance().clear()
     } catch (error) {
       console.error('ReplySage: Failed to clear cache:', error)
       return 0
     }
   }
 
-  /**
-   * Get all cached analyses
-   */
-  static async getAllCachedAnalyses(): Promise<AnalysisResult[]> {
-    try {
-      const allData = await chrome.storage.local.get()
-      const analyses: AnalysisResult[] = []
-
-      for (const [key, value] of Object.entries(allData)) {
-        if (key.startsWith(this.CACHE_PREFIX)) {
-          const cacheEntry = value as CacheEntry
-          if (cacheEntry.data && new Date() <= cacheEntry.expiresAt) {
-            analyses.push(cacheEntry.data as AnalysisResult)
-          }
-        }
-      }
-
-      return analyses.sort((a, b) => 
-        new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-      )
-    } catch (error) {
-      console.error('ReplySage: Failed to get cached analyses:', error)
-      return []
-    }
-  }
-
   /**
    * Store user settings
    */
@@ -209,7 +131,6 @@ export class StorageManager {
       const exportData = {
         settings: allData[this.SETTINGS_KEY] || null,
         stats: allData[this.STATS_KEY] || {},
-        analyses: await this.getAllCachedAnalyses(),
         exportDate: new Date().toISOString(),
         version: '1.0.0'
       }
@@ -234,13 +155,8 @@ export class StorageManager {
         await this.saveStats(data.stats)
       }
 
-      if (data.analyses && Array.isArray(data.analyses)) {
-        for (const analysis of data.analyses) {
-          if (analysis.messageId) {
-            await this.cacheAnalysis(analysis.messageId, analysis)
-          }
-        }
-      }
+      // Analyses are not part of a backup: cache entries are keyed by message
+      // content and model versions, which a backup does not carry
 
       console.log('ReplySage: Data imported successfully')
     } catch (error) {
@@ -284,7 +200,7 @@ export class StorageManager {
         const size = JSON.stringify(value).length
         totalSize += size
 
-        if (key.startsWith(this.CACHE_PREFIX)) {
+        if (key.startsWith(AnalysisCache.KEY_PREFIX)) {
           cacheSize += size
           cacheCount++
         } else if (key === this.SETTINGS_KEY) {
@@ -318,24 +234,7 @@ export class StorageManager {
    */
   static async cleanupExpiredCache(): Promise<number> {
     try {
-      const allData = await chrome.storage.local.get()
-      const expiredKeys: string[] = []
-      const now = new Date()
-
-      for (const [key, value] of Object.entries(allData)) {
-        if (key.startsWith(this.CACHE_PREFIX)) {
-          const cacheEntry = value as CacheEntry
-          if (cacheEntry.expiresAt && now > cacheEntry.expiresAt) {
-            expiredKeys.push(key)
-          }
-        }
-      }
-
-      if (expiredKeys.length > 0) {
-        await chrome.storage.local.remove(expiredKeys)
-      }
-
-      return expiredKeys.length
+      return await AnalysisCache.getInstance().prune()
     } catch (error) {
       console.error('ReplySage: Failed to cleanup expired cache:', error)
       return 0
@@ -0,0 +1,285 @@
+import { ActionItem, AnalysisResult, DeadlineChange, ExtractedDate, InboxRow, ThreadChanges } from '@/types'
+import { AnalysisCacheStorage, ChromeCacheStorage } from './analysis-cache'
+import { EmailThread, ThreadManager, ThreadMessage, ThreadSummary } from './thread-manager'
+import { AnalyzeFn } from './batch-analyzer'
+import { EvidenceGrounder } from './evidence-grounder'
+import { MessageIdGenerator } from './message-id'
+
+/** What is kept per thread between visits */
+export interface ThreadAnalysisState {
+  threadId: string
+  /** Analysis cache context the merged results were produced under */
+  contextHash: string
+  /** Messages already folded into the analysis, in thread order */
+  messageIds: string[]
+  /** Sender and normalized opening of the newest message; absent in states saved before it was kept */
+  latest?: { from: string; opening: string }
+  analysis: AnalysisResult
+  summary: ThreadSummary
+  /** Changes the user hasn't seen yet */
+  unseen: ThreadChanges | null
+  seenAt: Date
+}
+
+export interface ThreadAnalysisUpdate {
+  result: AnalysisResult
+  summary: ThreadSummary
+  changes: ThreadChanges | null
+}
+
+/** A thread's merged analysis that is still current for its inbox row */
+export interface CurrentThreadAnalysis {
+  analysis: AnalysisResult
+  /** Sender of the newest message */
+  lastFrom: string
+}
+
+const PRIORITY_RANK = { high: 0, medium: 1, low: 2 }
+
+// Words that say when, not what; a task keeps its identity when only its deadline moves
+const TIME_WORDS = new Set([
+  'today', 'tomorrow', 'tonight', 'yesterday', 'next', 'this', 'week', 'weeks', 'month', 'end', 'eod', 'eow', 'due', 'deadline', 'until',
+  'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday',
+  'january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'
+])
+
+const COMPLETION_PATTERN = /\b(done|completed?|finished|sent|submitted|signed|booked|shipped|resolved|handled|taken care of|already did)\b/i
+
+/**
+ * Keeps one merged analysis per thread and, when replies arrive, analyzes
+ * only the messages it hasn't folded in yet. New action items are added,
+ * items a new message reports as done are completed, and a later message
+ * that restates a task with another due date moves its deadline. What
+ * changed accumulates until markSeen().
+ */
+export class ThreadDeltaAnalyzer {
+  private analyze: AnalyzeFn
+  private storage: AnalysisCacheStorage
+  private threadManager: ThreadManager
+  static readonly KEY_PREFIX = 'thread_analysis_'
+  private readonly MATCH_THRESHOLD = 0.6
+  private readonly OPENING_LENGTH = 200
+
+  constructor(analyze: AnalyzeFn, storage: AnalysisCacheStorage = new ChromeCacheStorage(), threadManager: ThreadManager = ThreadManager.getInstance()) {
+    this.analyze = analyze
+    this.storage = storage
+    this.threadManager = threadManager
+  }
+
+  async analyzeThread(thread: EmailThread, contextHash: string): Promise<ThreadAnalysisUpdate> {
+    if (thread.messages.length === 0) {
+      throw new Error('Thread has no messages to analyze')
+    }
+
+    let state = await this.storage.get(this.keyFor(thread.id)) as ThreadAnalysisState | undefined
+    // Merged results from other models or settings can't be extended, only rebuilt
+    if (state && state.contextHash !== contextHash) {
+      state = undefined
+    }
+
+    const known = new Set(state?.messageIds)
+    const newMessages = thread.messages.filter(message => !known.has(message.id))
+    if (state && newMessages.length === 0) {
+      return { result: state.analysis, summary: state.summary, changes: state.unseen }
+    }
+
+    // The queue bounds how many run at once; merging has to follow thread order
+    const analyses = await Promise.all(newMessages.map(message => this.analyze(message)))
+
+    let analysis = state?.analysis || analyses[0]
+    let unseen = state?.unseen || null
+    // On a first visit everything is new, so there is nothing to report as changed
+    const folded = state ? newMessages : newMessages.slice(1)
+    const foldedAnalyses = state ? analyses : analyses.slice(1)
+
+    folded.forEach((message, index) => {
+      const merged = this.merge(analysis, foldedAnalyses[index], message)
+      analysis = merged.analysis
+      if (state) {
+        unseen = this.combine(unseen, { ...merged.changes, threadId: thread.id, since: state.seenAt })
+      }
+    })
+
+    const summary = state
+      ? this.threadManager.updateThreadSummary(state.summary, thread, newMessages)
+      : await this.threadManager.summarizeThread(thread)
+
+    const newest = thread.messages[thread.messages.length - 1]
+    const next: ThreadAnalysisState = {
+      threadId: thread.id,
+      contextHash,
+      messageIds: thread.messages.map(message => message.id),
+      latest: { from: newest.from, opening: this.opening(newest.body) },
+      analysis,
+      summary,
+      unseen,
+      seenAt: state?.seenAt || new Date()
+    }
+    await this.storage.set(this.keyFor(thread.id), next)
+
+    return { result: analysis, summary, changes: unseen }
+  }
+
+  /**
+   * The merged analysis of a thread as last opened, as long as it was made
+   * under `contextHash` and its newest message is still the one the inbox
+   * row previews; a reply that arrived since makes it stale.
+   */
+  async findCurrent(row: InboxRow, contextHash: string): Promise<CurrentThreadAnalysis | null> {
+    const state = await this.storage.get(this.keyFor(row.threadId)) as ThreadAnalysisState | undefined
+    if (!state?.latest || state.contextHash !== contextHash) {
+      return null
+    }
+
+    // Clients cut the snippet short, sometimes with an ellipsis
+    const snippet = this.opening(row.snippet).replace(/(?:\.{3}|\u2026)$/, '').trim()
+    const length = Math.min(snippet.length, state.latest.opening.length)
+    if (snippet.slice(0, length) !== state.latest.opening.slice(0, length)) {
+      return null
+    }
+    return { analysis: state.analysis, lastFrom: state.latest.from }
+  }
+
+  /** The user has looked at the thread; later changes are reported from now */
+  async markSeen(threadId: string): Promise<void> {
+    const state = await this.storage.get(this.keyFor(threadId)) as ThreadAnalysisState | undefined
+    if (!state) return
+    await this.storage.set(this.keyFor(threadId), { ...state, unseen: null, seenAt: new Date() })
+  }
+
+  async clear(): Promise<number> {
+    const all = await this.storage.getAll()
+    const keys = Object.keys(all).filter(key => key.startsWith(ThreadDeltaAnalyzer.KEY_PREFIX))
+    await this.storage.remove(keys)
+    return keys.length
+  }
+
+  private keyFor(threadId: string): string {
+    return `${ThreadDeltaAnalyzer.KEY_PREFIX}${threadId}`
+  }
+
+  /**
+   * The newest message decides what is said and suggested; action items,
+   * dates and categories accumulate over the thread.
+   */
+  private merge(
+    previous: AnalysisResult,
+    update: AnalysisResult,
+    message: ThreadMessage
+  ): { analysis: AnalysisResult; changes: Omit<ThreadChanges, 'threadId' | 'since'> } {
+    const actionItems = previous.actionItems.map(item => ({ ...item }))
+    const addedActionItems: ActionItem[] = []
+    const completedActionItems: ActionItem[] = []
+    const changedDeadlines: DeadlineChange[] = []
+
+    for (const item of update.actionItems) {
+      const existing = actionItems.find(candidate => this.similarity(candidate.text, item.text) >= this.MATCH_THRESHOLD)
+      if (!existing) {
+        actionItems.push(item)
+        addedActionItems.push(item)
+      } else if (item.dueDate && this.dueTime(item) !== this.dueTime(existing)) {
+        const previousDueDate = existing.dueDate
+        existing.dueDate = item.dueDate
+        changedDeadlines.push({ item: existing, previousDueDate })
+      }
+    }
+
+    // A sentence saying something was done closes the open item it talks about
+    const completions = message.body.split(/(?<=[.!?])\s+|\n+/).filter(sentence => COMPLETION_PATTERN.test(sentence))
+    for (const item of actionItems) {
+      if (!item.isCompleted && !addedActionItems.includes(item) && completions.some(sentence => this.covers(sentence, item.text))) {
+        item.isCompleted = true
+        completedActionItems.push(item)
+      }
+    }
+
+    const openPriorities = actionItems.filter(item => !item.isCompleted).map(item => item.priority)
+    const priority = [update.priority, ...openPriorities].sort((a, b) => PRIORITY_RANK[a] - PRIORITY_RANK[b])[0]
+
+    return {
+      analysis: {
+        ...update,
+        actionItems,
+        categories: Array.from(new Set([...previous.categories, ...update.categories])),
+        extractedDates: this.mergeDates(previous.extractedDates, update.extractedDates),
+        attachments: previous.attachments || update.attachments
+          ? [...(previous.attachments || []), ...(update.attachments || [])]
+          : undefined,
+        priority,
+        createdAt: new Date()
+      },
+      changes: {
+        newMessageIds: [message.id],
+        addedActionItems,
+        completedActionItems,
+        changedDeadlines,
+        priorityChange: priority !== previous.priority ? { from: previous.priority, to: priority } : undefined
+      }
+    }
+  }
+
+  private combine(earlier: ThreadChanges | null, later: ThreadChanges): ThreadChanges {
+    if (!earlier) {
+      return later
+    }
+
+    // A deadline that moved twice reports where it started and where it is now
+    const changedDeadlines = [...earlier.changedDeadlines]
+    for (const change of later.changedDeadlines) {
+      const index = changedDeadlines.findIndex(existing => existing.item.text === change.item.text)
+      if (index === -1) {
+        changedDeadlines.push(change)
+      } else {
+        changedDeadlines[index] = { item: change.item, previousDueDate: changedDeadlines[index].previousDueDate }
+      }
+    }
+
+    const from = earlier.priorityChange?.from || later.priorityChange?.from
+    const to = later.priorityChange?.to || earlier.priorityChange?.to
+
+    return {
+      threadId: earlier.threadId,
+      newMessageIds: [...earlier.newMessageIds, ...later.newMessageIds],
+      addedActionItems: [...earlier.addedActionItems, ...later.addedActionItems],
+      completedActionItems: [...earlier.completedActionItems, ...later.completedActionItems],
+      changedDeadlines,
+      priorityChange: from && to && from !== to ? { from, to } : undefined,
+      since: earlier.since
+    }
+  }
+
+  private mergeDates(previous: ExtractedDate[], added: ExtractedDate[]): ExtractedDate[] {
+    const seen = new Set(previous.map(date => `${date.text}|${new Date(date.date).getTime()}`))
+    return [...previous, ...added.filter(date => !seen.has(`${date.text}|${new Date(date.date).getTime()}`))]
+  }
+
+  private taskWords(text: string): Set<string> {
+    return EvidenceGrounder.contentWords(text, TIME_WORDS)
+  }
+
+  // Share of words the two tasks have in common, ignoring when they are due
+  private similarity(a: string, b: string): number {
+    const first = this.taskWords(a)
+    const second = this.taskWords(b)
+    if (first.size === 0 || second.size === 0) return 0
+    const shared = Array.from(first).filter(word => second.has(word)).length
+    return shared / new Set([...first, ...second]).size
+  }
+
+  // Whether a sentence mentions most of what the task is about
+  private covers(sentence: string, task: string): boolean {
+    const words = this.taskWords(task)
+    if (words.size === 0) return false
+    const mentioned = this.taskWords(sentence)
+    return Array.from(words).filter(word => mentioned.has(word)).length / words.size >= this.MATCH_THRESHOLD
+  }
+
+  private opening(body: string): string {
+    return MessageIdGenerator.normalizeBody(body).slice(0, this.OPENING_LENGTH)
+  }
+
+  // Dates come back from extension storage as strings
+  private dueTime(item: ActionItem): number | null {
+    return item.dueDate ? new Date(item.dueDate).getTime() : null
+  }
+}
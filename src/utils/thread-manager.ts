@@ -1,4 +1,6 @@
 import { EmailMessage } from '@/types'
+import { MailClientRegistry } from './mail-clients/registry'
+import { BodySegmenter } from './body-segmenter'
 
 export interface ThreadMessage extends EmailMessage {
   threadPosition: number
@@ -60,7 +62,8 @@ export class ThreadManager {
   private static instance: ThreadManager
   private isInitialized = false
   private threadCache: Map<string, EmailThread> = new Map()
-  private summaryCache: Map<string, ThreadSummary> = new Map()
+  // Each summary remembers which messages it covers so new replies extend it
+  private summaryCache: Map<string, { summary: ThreadSummary; messageIds: string[] }> = new Map()
 
   private constructor() {}
 
@@ -80,18 +83,17 @@ export class ThreadManager {
 
   async fetchThread(threadId: string): Promise<EmailThread | null> {
     try {
-      // Check cache first
-      if (this.threadCache.has(threadId)) {
-        return this.threadCache.get(threadId)!
-      }
-
-      // Try to fetch from DOM (Gmail-specific)
+      // The open conversation is authoritative; it may have new replies since it was cached
       const thread = await this.fetchThreadFromDOM(threadId)
       if (thread) {
         this.threadCache.set(threadId, thread)
         return thread
       }
 
+      if (this.threadCache.has(threadId)) {
+        return this.threadCache.get(threadId)!
+      }
+
       // Try to fetch from Gmail API (if available)
       const apiThread = await this.fetchThreadFromAPI(threadId)
       if (apiThread) {
@@ -108,25 +110,13 @@ export class ThreadManager {
 
   private async fetchThreadFromDOM(threadId: string): Promise<EmailThread | null> {
     try {
-      // Look for thread container in Gmail
-      const threadContainer = document.querySelector(`[data-thread-id="${threadId}"]`) ||
-                            document.querySelector(`[data-thread-id="${threadId}"]`) ||
-                            document.querySelector('.thread')
-
-      if (!threadContainer) {
+      const adapter = MailClientRegistry.getInstance().getCurrentAdapter()
+      if (!adapter) {
         return null
       }
 
-      // Extract messages from thread
-      const messageElements = threadContainer.querySelectorAll('.message, .email, [role="listitem"]')
-      const messages: ThreadMessage[] = []
-
-      messageElements.forEach((element, index) => {
-        const message = this.extractMessageFromElement(element, index)
-        if (message) {
-          messages.push(message)
-        }
-      })
+      // Extract messages from the open conversation, keeping only each message's new content
+      const messages: ThreadMessage[] = adapter.enumerateThread(threadId).map(message => BodySegmenter.applyTo(message))
 
       if (messages.length === 0) {
         return null
@@ -157,123 +147,6 @@ export class ThreadManager {
     }
   }
 
-  private extractMessageFromElement(element: Element, index: number): ThreadMessage | null {
-    try {
-      // Extract basic message information
-      const subject = element.querySelector('.subject, .email-subject, [data-subject]')?.textContent?.trim() || ''
-      const from = element.querySelector('.from, .sender, [data-from]')?.textContent?.trim() || ''
-      const body = element.querySelector('.body, .content, .message-body')?.textContent?.trim() || ''
-      const timestamp = element.querySelector('.date, .timestamp, [data-timestamp]')?.textContent?.trim() || ''
-      
-      // Parse timestamp
-      const parsedTimestamp = this.parseTimestamp(timestamp)
-      
-      // Determine if this is a reply
-      const isReply = index > 0 || from.includes('Re:') || subject.includes('Re:')
-      
-      // Extract participants
-      const participants = this.extractMessageParticipants(element)
-      
-      const message: ThreadMessage = {
-        id: `msg_${Date.now()}_${index}`,
-        subject: subject,
-        from: from,
-        to: [], // Will be extracted from email headers
-        body: body,
-        timestamp: parsedTimestamp,
-        threadPosition: index,
-        isReply: isReply,
-        participants: participants,
-        threadId: 'unknown', // Will be set by the thread
-        attachments: [], // Will be extracted from email
-        isRead: true, // Default to read
-        isImportant: false // Default to not important
-      }
-
-      return message
-    } catch (error) {
-      console.error('ReplySage: Failed to extract message from element:', error)
-      return null
-    }
-  }
-
-  private parseTimestamp(timestamp: string): Date {
-    try {
-      // Try to parse various timestamp formats
-      const parsed = new Date(timestamp)
-      if (!isNaN(parsed.getTime())) {
-        return parsed
-      }
-      
-      // Handle relative timestamps
-      const now = new Date()
-      const lower = timestamp.toLowerCase()
-      
-      if (lower.includes('now') || lower.includes('just now')) {
-        return now
-      }
-      
-      if (lower.includes('minute')) {
-        const minutes = parseInt(timestamp.match(/\d+/)?.[0] || '0')
-        return new Date(now.getTime() - minutes * 60 * 1000)
-      }
-      
-      if (lower.includes('hour')) {
-        const hours = parseInt(timestamp.match(/\d+/)?.[0] || '0')
-        return new Date(now.getTime() - hours * 60 * 60 * 1000)
-      }
-      
-      if (lower.includes('day')) {
-        const days = parseInt(timestamp.match(/\d+/)?.[0] || '0')
-        return new Date(now.getTime() - days * 24 * 60 * 60 * 1000)
-      }
-      
-      if (lower.includes('week')) {
-        const weeks = parseInt(timestamp.match(/\d+/)?.[0] || '0')
-        return new Date(now.getTime() - weeks * 7 * 24 * 60 * 60 * 1000)
-      }
-      
-      // Default to now if parsing fails
-      return now
-    } catch (error) {
-      console.error('ReplySage: Failed to parse timestamp:', error)
-      return new Date()
-    }
-  }
-
-  private extractMessageParticipants(element: Element): string[] {
-    const participants: string[] = []
-    
-    // Extract from field
-    const fromElement = element.querySelector('.from, .sender, [data-from]')
-    if (fromElement) {
-      const fromText = fromElement.textContent?.trim() || ''
-      if (fromText) {
-        participants.push(fromText)
-      }
-    }
-    
-    // Extract to field
-    const toElement = element.querySelector('.to, .recipient, [data-to]')
-    if (toElement) {
-      const toText = toElement.textContent?.trim() || ''
-      if (toText) {
-        participants.push(toText)
-      }
-    }
-    
-    // Extract cc field
-    const ccElement = element.querySelector('.cc, [data-cc]')
-    if (ccElement) {
-      const ccText = ccElement.textContent?.trim() || ''
-      if (ccText) {
-        participants.push(ccText)
-      }
-    }
-    
-    return [...new Set(participants)] // Remove duplicates
-  }
-
   private extractParticipants(messages: ThreadMessage[]): string[] {
     const participants = new Set<string>()
     
@@ -350,17 +223,17 @@ export class ThreadManager {
 
   async summarizeThread(thread: EmailThread): Promise<ThreadSummary> {
     try {
-      // Check cache first
-      if (this.summaryCache.has(thread.id)) {
-        return this.summaryCache.get(thread.id)!
-      }
+      const cached = this.summaryCache.get(thread.id)
+      const covered = new Set(cached?.messageIds)
+      const newMessages = thread.messages.filter(message => !covered.has(message.id))
+
+      // Only messages the cached summary hasn't seen are summarized
+      const summary = cached
+        ? this.updateThreadSummary(cached.summary, thread, newMessages)
+        : await this.generateThreadSummary(thread)
+
+      this.summaryCache.set(thread.id, { summary, messageIds: thread.messages.map(message => message.id) })
 
-      // Generate summary using local AI or cloud fallback
-      const summary = await this.generateThreadSummary(thread)
-      
-      // Cache the summary
-      this.summaryCache.set(thread.id, summary)
-      
       return summary
     } catch (error) {
       console.error('ReplySage: Failed to summarize thread:', error)
@@ -368,6 +241,38 @@ export class ThreadManager {
     }
   }
 
+  /**
+   * Folds messages that arrived after `previous` was made into it rather
+   * than summarizing the whole thread again. Newer points push out the
+   * oldest once a list is full; sentiment follows the latest messages.
+   */
+  updateThreadSummary(previous: ThreadSummary, thread: EmailThread, newMessages: ThreadMessage[]): ThreadSummary {
+    if (newMessages.length === 0) {
+      return previous
+    }
+
+    const delta = this.generateHeuristicThreadSummary({ ...thread, messages: newMessages, messageCount: newMessages.length })
+    const start = new Date(previous.timeline.start)
+    const end = new Date(thread.endDate)
+
+    return {
+      ...previous,
+      summary: this.describeThread(thread),
+      keyPoints: this.keepLatest(previous.keyPoints, delta.keyPoints, 5),
+      actionItems: this.keepLatest(previous.actionItems, delta.actionItems, 5),
+      decisions: this.keepLatest(previous.decisions, delta.decisions, 3),
+      participants: Array.from(new Set([...previous.participants, ...thread.participants])),
+      timeline: { start, end, duration: end.getTime() - start.getTime() },
+      sentiment: delta.sentiment,
+      urgency: thread.priority,
+      createdAt: new Date()
+    }
+  }
+
+  private keepLatest(previous: string[], added: string[], limit: number): string[] {
+    return Array.from(new Set([...previous, ...added])).slice(-limit)
+  }
+
   private async generateThreadSummary(thread: EmailThread): Promise<ThreadSummary> {
     try {
       // Try local AI first
@@ -438,10 +343,7 @@ export class ThreadManager {
     })
     
     // Generate summary
-    const summary = `Thread with ${thread.messageCount} messages between ${thread.participants.length} participants. ` +
-                   `Started on ${thread.startDate.toLocaleDateString()} and ` +
-                   `last active on ${thread.lastActivity.toLocaleDateString()}. ` +
-                   `Categories: ${thread.categories.join(', ')}.`
+    const summary = this.describeThread(thread)
     
     // Determine sentiment
     const allText = thread.messages.map(m => `${m.subject} ${m.body}`).join(' ').toLowerCase()
@@ -461,9 +363,9 @@ export class ThreadManager {
       decisions: decisions.slice(0, 3), // Limit to 3 decisions
       participants: thread.participants,
       timeline: {
-        start: thread.startDate,
-        end: thread.endDate,
-        duration: thread.endDate.getTime() - thread.startDate.getTime()
+        start: new Date(thread.startDate),
+        end: new Date(thread.endDate),
+        duration: new Date(thread.endDate).getTime() - new Date(thread.startDate).getTime()
       },
       sentiment,
       urgency: thread.priority,
@@ -472,6 +374,14 @@ export class ThreadManager {
     }
   }
 
+  // Dates arrive as strings when the thread was sent over runtime messaging
+  private describeThread(thread: EmailThread): string {
+    return `Thread with ${thread.messageCount} messages between ${thread.participants.length} participants. ` +
+           `Started on ${new Date(thread.startDate).toLocaleDateString()} and ` +
+           `last active on ${new Date(thread.lastActivity).toLocaleDateString()}. ` +
+           `Categories: ${thread.categories.join(', ')}.`
+  }
+
   async chunkThread(thread: EmailThread, maxChunkSize: number = 5): Promise<ThreadChunk[]> {
     const chunks: ThreadChunk[] = []
     const messages = thread.messages
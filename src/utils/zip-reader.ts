@@ -0,0 +1,117 @@
+export interface ZipEntry {
+  path: string
+  compressionMethod: number
+  compressedSize: number
+  uncompressedSize: number
+  localHeaderOffset: number
+}
+
+/**
+ * Minimal ZIP archive reader, enough to pull XML parts out of DOCX and
+ * ODT files. Supports stored and deflated entries; deflate is handled by
+ * the platform DecompressionStream so no library is bundled.
+ */
+export class ZipReader {
+  private static readonly END_OF_CENTRAL_DIRECTORY = 0x06054b50
+  private static readonly CENTRAL_DIRECTORY_HEADER = 0x02014b50
+  private static readonly LOCAL_FILE_HEADER = 0x04034b50
+
+  static listEntries(archive: Uint8Array): ZipEntry[] {
+    const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength)
+    const endOffset = this.findEndOfCentralDirectory(view)
+    if (endOffset === -1) {
+      throw new Error('Invalid ZIP archive: end of central directory not found')
+    }
+
+    const entryCount = view.getUint16(endOffset + 10, true)
+    let offset = view.getUint32(endOffset + 16, true)
+    const decoder = new TextDecoder('utf-8')
+    const entries: ZipEntry[] = []
+
+    for (let i = 0; i < entryCount; i++) {
+      if (offset + 46 > view.byteLength || view.getUint32(offset, true) !== this.CENTRAL_DIRECTORY_HEADER) {
+        throw new Error('Invalid ZIP archive: corrupt central directory')
+      }
+
+      const nameLength = view.getUint16(offset + 28, true)
+      const extraLength = view.getUint16(offset + 30, true)
+      const commentLength = view.getUint16(offset + 32, true)
+
+      entries.push({
+        path: decoder.decode(archive.subarray(offset + 46, offset + 46 + nameLength)),
+        compressionMethod: view.getUint16(offset + 10, true),
+        compressedSize: view.getUint32(offset + 20, true),
+        uncompressedSize: view.getUint32(offset + 24, true),
+        localHeaderOffset: view.getUint32(offset + 42, true)
+      })
+
+      offset += 46 + nameLength + extraLength + commentLength
+    }
+
+    return entries
+  }
+
+  /** Returns the decompressed bytes of `path`, or null when the archive has no such entry */
+  static async readEntry(archive: Uint8Array, path: string): Promise<Uint8Array | null> {
+    const entry = this.listEntries(archive).find(candidate => candidate.path === path)
+    if (!entry) return null
+
+    const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength)
+    if (view.getUint32(entry.localHeaderOffset, true) !== this.LOCAL_FILE_HEADER) {
+      throw new Error(`Invalid ZIP archive: bad local header for ${path}`)
+    }
+
+    // The local header repeats the name and may carry a different extra field
+    const nameLength = view.getUint16(entry.localHeaderOffset + 26, true)
+    const extraLength = view.getUint16(entry.localHeaderOffset + 28, true)
+    const dataStart = entry.localHeaderOffset + 30 + nameLength + extraLength
+    const data = archive.subarray(dataStart, dataStart + entry.compressedSize)
+
+    switch (entry.compressionMethod) {
+      case 0:
+        return data
+      case 8:
+        return this.inflate(data)
+      default:
+        throw new Error(`Unsupported ZIP compression method ${entry.compressionMethod}`)
+    }
+  }
+
+  private static findEndOfCentralDirectory(view: DataView): number {
+    // The record is 22 bytes plus a comment of up to 64 KB at the very end
+    const lowest = Math.max(0, view.byteLength - 22 - 0xffff)
+    for (let offset = view.byteLength - 22; offset >= lowest; offset--) {
+      if (view.getUint32(offset, true) === this.END_OF_CENTRAL_DIRECTORY) {
+        return offset
+      }
+    }
+    return -1
+  }
+
+  private static async inflate(data: Uint8Array): Promise<Uint8Array> {
+    const source = new ReadableStream<BufferSource>({
+      start(controller) {
+        controller.enqueue(new Uint8Array(data))
+        controller.close()
+      }
+    })
+    const reader = source.pipeThrough(new DecompressionStream('deflate-raw')).getReader()
+    const chunks: Uint8Array[] = []
+    let length = 0
+
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+      chunks.push(value)
+      length += value.length
+    }
+
+    const output = new Uint8Array(length)
+    let position = 0
+    for (const chunk of chunks) {
+      output.set(chunk, position)
+      position += chunk.length
+    }
+    return output
+  }
+}